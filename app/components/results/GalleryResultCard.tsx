@@ -1,6 +1,8 @@
 import React from 'react';
 import { QualityBadge, type BadgeStatus } from './QualityBadge';
 import { SelectionCheckbox } from './SelectionCheckbox';
+import { ResultFeedbackControls } from './ResultFeedbackControls';
+import type { FeedbackUpdate, ResultFeedback } from '../../lib/services/feedback.service';
 
 interface GenerationImage {
   id: string;
@@ -11,6 +13,7 @@ interface GenerationImage {
   generation_record?: {
     removed_bg_url?: string;
   };
+  feedback?: ResultFeedback | null;
 }
 
 interface GalleryResultCardProps {
@@ -18,6 +21,7 @@ interface GalleryResultCardProps {
   userTier: 'free' | 'creator' | 'professional' | 'enterprise';
   onImageClick?: () => void;
   onSelect?: () => void; // New prop for selecting the image
+  onFeedbackChange?: (update: FeedbackUpdate) => void; // Shows favorite, rating and reject controls
   // Removed actions
   isSelected?: boolean;
   onSelectionChange?: (selected: boolean) => void;
@@ -30,13 +34,14 @@ interface GalleryResultCardProps {
  * Gallery Result Card Component
  * Simplified version for Shop/Post Ready pages
  * - No Action Buttons (Download / Remove BG)
- * - Purely for display / selection
+ * - Purely for display / selection, plus optional feedback controls
  */
 export function GalleryResultCard({
   image,
   userTier,
   onImageClick,
   onSelect,
+  onFeedbackChange,
   isSelected = false,
   onSelectionChange,
   selectionMode = false,
@@ -154,6 +159,15 @@ export function GalleryResultCard({
           </div>
         )}
       </div>
+
+      {/* Feedback */}
+      {onFeedbackChange && image.image_url && (
+        <ResultFeedbackControls
+          feedback={image.feedback}
+          onChange={onFeedbackChange}
+          className="p-3"
+        />
+      )}
     </div>
   );
 }
@@ -1,5 +1,6 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { QualityBadge, type BadgeStatus } from './QualityBadge';
+import { ResultVersionHistory } from './ResultVersionHistory';
 
 interface GenerationImage {
   id: string;
@@ -25,6 +26,7 @@ interface ImageModalProps {
   hasPrevious?: boolean;
   projectName?: string;
   imageIndex?: number;
+  onPrimaryChange?: () => void; // Primary image picked in the version history
 }
 
 /**
@@ -34,6 +36,7 @@ interface ImageModalProps {
  * - Multi-column layout (1-3 columns based on tier and available versions)
  * - Individual download buttons for each version
  * - Keyboard navigation (Escape to close, Arrow keys for prev/next)
+ * - Version history with A/B comparison and primary image selection
  * - Click outside to close
  */
 export function ImageModal({
@@ -45,8 +48,16 @@ export function ImageModal({
   hasNext = false,
   hasPrevious = false,
   projectName = 'image',
-  imageIndex = 0
+  imageIndex = 0,
+  onPrimaryChange
 }: ImageModalProps) {
+  const [showVersions, setShowVersions] = useState(false);
+
+  // Each image opens on its own view
+  useEffect(() => {
+    setShowVersions(false);
+  }, [image.id]);
+
   const isProfessionalOrEnterprise = userTier === 'professional' || userTier === 'enterprise';
   const hasBgRemoved = !!image.generation_record?.removed_bg_url;
   
@@ -113,13 +124,15 @@ export function ImageModal({
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
+      // Arrow keys move the comparison slider while the history is open
+      if (showVersions) return;
       if (e.key === 'ArrowLeft' && hasPrevious && onPrevious) onPrevious();
       if (e.key === 'ArrowRight' && hasNext && onNext) onNext();
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onClose, onPrevious, onNext, hasNext, hasPrevious]);
+  }, [onClose, onPrevious, onNext, hasNext, hasPrevious, showVersions]);
 
   // Click outside to close
   const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -179,7 +192,13 @@ export function ImageModal({
       <div className="relative w-full h-full flex items-center justify-center max-w-[90rem] max-h-[calc(100vh-2rem)]">
         
         {/* Modal Content */}
-        {columnCount === 1 ? (
+        {showVersions ? (
+          <ResultVersionHistory
+            resultId={image.id}
+            onClose={() => setShowVersions(false)}
+            onPrimaryChange={onPrimaryChange}
+          />
+        ) : columnCount === 1 ? (
           /* Single Column Layout */
           <div className="relative">
             <img 
@@ -307,6 +326,16 @@ export function ImageModal({
           </div>
         )}
         
+        {/* Versions Button (Top Left) */}
+        {!showVersions && (
+          <button
+            onClick={() => setShowVersions(true)}
+            className="absolute top-4 left-4 px-3 py-1.5 bg-black/50 hover:bg-black/70 text-white border border-border/20 rounded-md text-sm transition-colors"
+          >
+            Versions
+          </button>
+        )}
+
         {/* Close Button (Top Right) */}
         <button 
           onClick={onClose}
@@ -316,7 +345,7 @@ export function ImageModal({
         </button>
         
         {/* Navigation Buttons */}
-        {hasPrevious && onPrevious && (
+        {!showVersions && hasPrevious && onPrevious && (
           <button
             onClick={onPrevious}
             className="absolute left-4 top-1/2 -translate-y-1/2 p-3 bg-black/50 hover:bg-black/70 text-white rounded-full transition-colors"
@@ -328,7 +357,7 @@ export function ImageModal({
           </button>
         )}
         
-        {hasNext && onNext && (
+        {!showVersions && hasNext && onNext && (
           <button
             onClick={onNext}
             className="absolute right-4 top-1/2 -translate-y-1/2 p-3 bg-black/50 hover:bg-black/70 text-white rounded-full transition-colors"
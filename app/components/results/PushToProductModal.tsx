@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useCallback } from 'react';
+
+interface ShopifyVariant {
+  id: string;
+  title: string;
+}
+
+interface ShopifyProduct {
+  id: string;
+  title: string;
+  handle: string;
+  status: string;
+  featured_image_url?: string;
+  variants: ShopifyVariant[];
+}
+
+interface PushableImage {
+  id: string;
+  image_url: string;
+  upscaled_image_url?: string;
+  shopify_media?: Record<string, { media_id: string }>;
+}
+
+interface PushResult {
+  result_id: string;
+  media_id?: string;
+  action: 'created' | 'updated' | 'failed';
+  error?: string;
+}
+
+interface PushToProductModalProps {
+  isOpen: boolean;
+  images: PushableImage[];
+  defaultAltText?: string;
+  onClose: () => void;
+  onPushed?: (results: PushResult[]) => void;
+}
+
+/**
+ * Push To Product Modal
+ * Lets the merchant pick a Shopify product (and optionally a variant)
+ * and attach the selected results as product media, in display order.
+ */
+export function PushToProductModal({
+  isOpen,
+  images,
+  defaultAltText = '',
+  onClose,
+  onPushed
+}: PushToProductModalProps) {
+  const [query, setQuery] = useState('');
+  const [products, setProducts] = useState<ShopifyProduct[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState<ShopifyProduct | null>(null);
+  const [selectedVariantId, setSelectedVariantId] = useState('');
+  const [altText, setAltText] = useState(defaultAltText);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const searchProducts = useCallback(async (search: string) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (search.trim()) params.set('query', search.trim());
+      const response = await fetch(`/api/shopify/products?${params.toString()}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setProducts(data.products || []);
+      } else {
+        setError(data.error || 'Failed to load products');
+      }
+    } catch (err) {
+      console.error('Failed to search products:', err);
+      setError('Failed to load products');
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  // Reset state and load recent products when opened
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedProduct(null);
+      setSelectedVariantId('');
+      setAltText(defaultAltText);
+      setError(null);
+      searchProducts('');
+    }
+  }, [isOpen, defaultAltText, searchProducts]);
+
+  // Debounced search
+  useEffect(() => {
+    if (!isOpen) return;
+    const timeout = setTimeout(() => searchProducts(query), 300);
+    return () => clearTimeout(timeout);
+  }, [query, isOpen, searchProducts]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isPushing) onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, isPushing, onClose]);
+
+  const alreadyPushedCount = selectedProduct
+    ? images.filter(img => !!img.shopify_media?.[selectedProduct.id]).length
+    : 0;
+
+  const handlePush = async () => {
+    if (!selectedProduct || images.length === 0) return;
+
+    setIsPushing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/shopify/push-media', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          product_id: selectedProduct.id,
+          variant_id: selectedVariantId || undefined,
+          items: images.map((img, index) => ({
+            result_id: img.id,
+            alt: altText.trim()
+              ? (images.length > 1 ? `${altText.trim()} ${index + 1}` : altText.trim())
+              : undefined,
+          })),
+        })
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to push images');
+        return;
+      }
+
+      onPushed?.(data.results || []);
+      onClose();
+    } catch (err) {
+      console.error('Push to product failed:', err);
+      setError('Failed to push images');
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={() => !isPushing && onClose()}
+    >
+      <div
+        className="bg-background rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">
+            Push to Product
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            {images.length} image{images.length === 1 ? '' : 's'} will be added to the product gallery in this order.
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <div>
+            <label htmlFor="product-search" className="block text-sm font-medium text-foreground mb-2">
+              Product
+            </label>
+            <input
+              id="product-search"
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="Search products by title"
+            />
+          </div>
+
+          <div className="border border-border rounded-md max-h-56 overflow-y-auto divide-y divide-border">
+            {isSearching && products.length === 0 ? (
+              <div className="p-4 text-sm text-muted-foreground">Loading products...</div>
+            ) : products.length === 0 ? (
+              <div className="p-4 text-sm text-muted-foreground">No products found</div>
+            ) : (
+              products.map(product => (
+                <button
+                  key={product.id}
+                  onClick={() => {
+                    setSelectedProduct(product);
+                    setSelectedVariantId('');
+                  }}
+                  className={`w-full flex items-center gap-3 p-3 text-left transition-colors ${
+                    selectedProduct?.id === product.id ? 'bg-primary/10' : 'hover:bg-muted'
+                  }`}
+                >
+                  {product.featured_image_url ? (
+                    <img
+                      src={product.featured_image_url}
+                      alt=""
+                      className="w-10 h-10 rounded object-cover bg-muted"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded bg-muted" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-foreground truncate">{product.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {product.status.toLowerCase()} · {product.variants.length} variant{product.variants.length === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {selectedProduct && selectedProduct.variants.length > 1 && (
+            <div>
+              <label htmlFor="product-variant" className="block text-sm font-medium text-foreground mb-2">
+                Variant (optional)
+              </label>
+              <select
+                id="product-variant"
+                value={selectedVariantId}
+                onChange={(e) => setSelectedVariantId(e.target.value)}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">All variants</option>
+                {selectedProduct.variants.map(variant => (
+                  <option key={variant.id} value={variant.id}>{variant.title}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                The first image becomes the variant image.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="media-alt" className="block text-sm font-medium text-foreground mb-2">
+              Alt text
+            </label>
+            <input
+              id="media-alt"
+              type="text"
+              value={altText}
+              onChange={(e) => setAltText(e.target.value)}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="Describe the image for accessibility and SEO"
+              maxLength={500}
+            />
+          </div>
+
+          {alreadyPushedCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {alreadyPushedCount} image{alreadyPushedCount === 1 ? ' is' : 's are'} already on this product and will be updated.
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isPushing}
+            className="px-4 py-2 text-sm font-medium text-foreground bg-background border border-border rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePush}
+            disabled={!selectedProduct || images.length === 0 || isPushing}
+            className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPushing ? 'Pushing...' : 'Push to Product'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import {
+  quoteRegeneration,
+  startRegeneration,
+  type RegenerationQuote,
+  type RegenerationStarted
+} from '../../lib/pipeline-client';
+import type { PromptOverrides, RegenerationOptions } from '../../lib/services/regeneration.service';
+import { REGENERATION } from '../../config/generation.constants';
+
+interface RegenerateModalProps {
+  isOpen: boolean;
+  resultId: string | null;
+  isStudio?: boolean; // Shop Ready / Post Ready results can change their prompts
+  onClose: () => void;
+  onStarted: (started: RegenerationStarted) => void;
+}
+
+const PROMPT_FIELDS: { key: keyof PromptOverrides; label: string; placeholder: string }[] = [
+  { key: 'theme', label: 'Theme', placeholder: 'e.g. Summer editorial' },
+  { key: 'background', label: 'Background', placeholder: 'e.g. Plain white studio wall' },
+  { key: 'angle', label: 'Camera angle', placeholder: 'e.g. Three-quarter view' },
+];
+
+/**
+ * Regenerate Modal
+ * Re-runs one result's pose as a new version of the result
+ * - Quotes the normal per-pose price when it opens
+ * - Optional seed, provider and (studio only) prompt changes
+ */
+export function RegenerateModal({
+  isOpen,
+  resultId,
+  isStudio = false,
+  onClose,
+  onStarted
+}: RegenerateModalProps) {
+  const [quote, setQuote] = useState<RegenerationQuote | null>(null);
+  const [seed, setSeed] = useState('');
+  const [provider, setProvider] = useState('');
+  const [prompts, setPrompts] = useState<PromptOverrides>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !resultId) return;
+
+    setQuote(null);
+    setSeed('');
+    setProvider('');
+    setPrompts({});
+    setError(null);
+    setIsQuoting(true);
+
+    let cancelled = false;
+    quoteRegeneration(resultId, {})
+      .then(result => { if (!cancelled) setQuote(result); })
+      .catch(quoteError => { if (!cancelled) setError(quoteError.message); })
+      .finally(() => { if (!cancelled) setIsQuoting(false); });
+
+    return () => { cancelled = true; };
+  }, [isOpen, resultId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const buildOptions = (): RegenerationOptions | null => {
+    const options: RegenerationOptions = {};
+
+    if (seed.trim()) {
+      const value = Number(seed.trim());
+      if (!Number.isInteger(value) || value < 0 || value > REGENERATION.maxSeed) {
+        setError(`Seed must be a whole number from 0 to ${REGENERATION.maxSeed}`);
+        return null;
+      }
+      options.seed = value;
+    }
+    if (provider) {
+      options.provider = provider;
+    }
+
+    const promptOverrides = Object.fromEntries(
+      Object.entries(prompts).filter(([, value]) => value?.trim())
+    ) as PromptOverrides;
+    if (isStudio && Object.keys(promptOverrides).length > 0) {
+      options.prompt_overrides = promptOverrides;
+    }
+
+    return options;
+  };
+
+  const handleConfirm = async () => {
+    if (!resultId || !quote) return;
+
+    setError(null);
+    const options = buildOptions();
+    if (!options) return;
+
+    setIsStarting(true);
+    try {
+      const started = await startRegeneration(resultId, options, quote.quote.quote_hash);
+      onStarted(started);
+      onClose();
+    } catch (startError: any) {
+      setError(startError.message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const blocker = quote?.quote.blocking_reasons[0];
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background rounded-lg shadow-xl max-w-md w-full mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">
+            Regenerate Image
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {quote
+              ? `Creates version ${quote.version}. Earlier versions are kept.`
+              : 'Creates a new version. Earlier versions are kept.'}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4">
+          <div>
+            <label htmlFor="regenerate-seed" className="block text-sm font-medium text-foreground mb-2">
+              Seed <span className="font-normal text-muted-foreground">(optional)</span>
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="regenerate-seed"
+                type="text"
+                inputMode="numeric"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                className="flex-1 px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="Random"
+              />
+              <button
+                onClick={() => setSeed(String(Math.floor(Math.random() * REGENERATION.maxSeed)))}
+                className="px-3 py-2 text-sm font-medium text-foreground bg-background border border-border rounded-md hover:bg-muted transition-colors"
+              >
+                Pick one
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="regenerate-provider" className="block text-sm font-medium text-foreground mb-2">
+              Provider
+            </label>
+            <select
+              id="regenerate-provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value)}
+              disabled={!quote}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground text-sm"
+            >
+              <option value="">Automatic</option>
+              {quote?.providers.map(id => (
+                <option key={id} value={id}>{id}</option>
+              ))}
+            </select>
+          </div>
+
+          {isStudio && PROMPT_FIELDS.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`regenerate-${field.key}`} className="block text-sm font-medium text-foreground mb-2">
+                {field.label} <span className="font-normal text-muted-foreground">(optional)</span>
+              </label>
+              <input
+                id={`regenerate-${field.key}`}
+                type="text"
+                value={prompts[field.key] || ''}
+                onChange={(e) => setPrompts(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder={field.placeholder}
+                maxLength={REGENERATION.maxPromptOverrideLength}
+              />
+            </div>
+          ))}
+
+          {/* Price */}
+          <div className="rounded-md bg-muted px-3 py-2 text-sm text-foreground">
+            {isQuoting && 'Calculating price...'}
+            {quote && `${quote.quote.total_credits.toLocaleString()} credits · ${quote.quote.remaining_credits_after_run.toLocaleString()} left after this run`}
+            {!isQuoting && !quote && 'Price unavailable'}
+          </div>
+
+          {(error || blocker) && (
+            <p className="text-sm text-red-600">{error || blocker?.message}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-foreground bg-background border border-border rounded-md hover:bg-muted transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!quote || !quote.quote.can_run || isStarting}
+            className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isStarting ? 'Starting...' : 'Regenerate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React from 'react';
 import { QualityBadge, type BadgeStatus } from './QualityBadge';
 import { SelectionCheckbox } from './SelectionCheckbox';
+import { ResultFeedbackControls } from './ResultFeedbackControls';
+import type { FeedbackUpdate, ResultFeedback } from '../../lib/services/feedback.service';
 
 interface GenerationImage {
   id: string;
@@ -11,6 +13,12 @@ interface GenerationImage {
   generation_record?: {
     removed_bg_url?: string;
   };
+  generation_status?: string;
+  error_message?: string;
+  credits_refunded?: number;
+  feedback?: ResultFeedback | null;
+  version?: number; // Regenerated results start at version 2
+  primary_image_url?: string | null; // Picked in the version history
 }
 
 interface ResultCardProps {
@@ -20,6 +28,8 @@ interface ResultCardProps {
   onDownload: () => void;
   onRemoveBackground: () => void;
   onUpgradeClick?: () => void;
+  onFeedbackChange?: (update: FeedbackUpdate) => void; // Shows favorite, rating and reject controls
+  onRegenerate?: () => void; // Shows the regenerate button
   isRemovingBg?: boolean;
   isSelected?: boolean;
   onSelectionChange?: (selected: boolean) => void;
@@ -41,6 +51,8 @@ export function ResultCard({
   onDownload,
   onRemoveBackground,
   onUpgradeClick,
+  onFeedbackChange,
+  onRegenerate,
   isRemovingBg = false,
   isSelected = false,
   onSelectionChange,
@@ -51,6 +63,7 @@ export function ResultCard({
   // Determine tier capabilities
   const isProfessionalOrEnterprise = userTier === 'professional' || userTier === 'enterprise';
   const hasBgRemoved = !!image.generation_record?.removed_bg_url;
+  const hasFailed = image.generation_status === 'failed' && !image.image_url;
 
   // Determine badge status based on processing state
   const getBadgeStatus = (): BadgeStatus => {
@@ -96,6 +109,11 @@ export function ResultCard({
   const getDisplayUrl = (): string => {
     // Determine display URL (Simplified for new pipeline)
 
+    // The shop's pick from the version history wins
+    if (image.primary_image_url) {
+      return image.primary_image_url;
+    }
+
     if (isProfessionalOrEnterprise) {
       // 1. Final 4K Result
       if (image.upscaled_image_url) {
@@ -180,9 +198,30 @@ export function ResultCard({
         />
 
         {/* Quality Badge (Top Left) */}
-        <div className="absolute top-3 left-3 z-10">
-          <QualityBadge status={badgeStatus} />
-        </div>
+        {!hasFailed && (
+          <div className="absolute top-3 left-3 z-10">
+            <QualityBadge status={badgeStatus} />
+          </div>
+        )}
+
+        {/* Version (Top Right) - regenerated results only */}
+        {(image.version || 1) > 1 && !selectionMode && (
+          <div className="absolute top-3 right-3 z-10 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs font-medium">
+            v{image.version}
+          </div>
+        )}
+
+        {/* Failed pose: show the refund instead of a processing badge */}
+        {hasFailed && (
+          <div className="absolute inset-0 z-10 bg-black/60 flex flex-col items-center justify-center gap-1 px-4 text-center text-white">
+            <span className="text-sm font-semibold">Generation failed</span>
+            {image.credits_refunded ? (
+              <span className="text-xs text-white/90">{image.credits_refunded.toLocaleString()} credits refunded</span>
+            ) : (
+              <span className="text-xs text-white/90">Credits will be refunded</span>
+            )}
+          </div>
+        )}
 
         {/* Selection Checkbox (only in selection mode) */}
         {selectionMode && onSelectionChange && (
@@ -285,7 +324,34 @@ export function ResultCard({
               )}
             </button>
           )}
+
+          {/* Regenerate Button (finished or failed images) */}
+          {onRegenerate && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRegenerate();
+              }}
+              disabled={!image.image_url && !hasFailed}
+              className="px-3 py-2 bg-background border border-border rounded-md text-sm font-medium hover:bg-muted transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Regenerate"
+              title="Regenerate"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          )}
         </div>
+
+        {/* Feedback (finished images only) */}
+        {onFeedbackChange && image.image_url && (
+          <ResultFeedbackControls
+            feedback={image.feedback}
+            onChange={onFeedbackChange}
+            className="mt-3"
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { RESULT_FEEDBACK, type RejectionReason } from '../../config/generation.constants';
+import type { FeedbackUpdate, ResultFeedback } from '../../lib/services/feedback.service';
+
+interface ResultFeedbackControlsProps {
+  feedback?: ResultFeedback | null;
+  onChange: (update: FeedbackUpdate) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const REJECTION_REASONS = Object.entries(RESULT_FEEDBACK.rejectionReasons) as [RejectionReason, string][];
+
+/**
+ * Feedback filters for result and project lists. Values are the query
+ * parameters the results and projects APIs take.
+ */
+export const FEEDBACK_FILTER_OPTIONS: { value: string; label: string }[] = [
+  { value: 'favorite=true', label: 'Favorites' },
+  { value: 'min_rating=4', label: 'Rated 4+ stars' },
+  { value: 'rejected=true', label: 'Rejected' },
+  ...REJECTION_REASONS.map(([reason, label]) => ({ value: `rejection_reason=${reason}`, label: `Rejected: ${label}` })),
+];
+
+/**
+ * Result Feedback Controls
+ * Favorite toggle, 1-5 star rating and rejection reasons for one result
+ * - Clicking the current rating again clears it
+ * - Reject opens the reason list; reasons toggle independently
+ */
+export function ResultFeedbackControls({
+  feedback,
+  onChange,
+  disabled = false,
+  className = ''
+}: ResultFeedbackControlsProps) {
+  const [showReasons, setShowReasons] = useState(false);
+  const favorite = !!feedback?.favorite;
+  const rating = feedback?.rating || 0;
+  const reasons = feedback?.rejection_reasons || [];
+
+  const toggleReason = (reason: RejectionReason) => {
+    onChange({
+      rejection_reasons: reasons.includes(reason)
+        ? reasons.filter(r => r !== reason)
+        : [...reasons, reason]
+    });
+  };
+
+  return (
+    <div className={`flex flex-col gap-2 ${className}`} onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2">
+        {/* Favorite */}
+        <button
+          onClick={() => onChange({ favorite: !favorite })}
+          disabled={disabled}
+          className={`p-1 rounded-md transition-colors disabled:opacity-50 ${favorite ? 'text-pink-500' : 'text-muted-foreground hover:text-pink-500'}`}
+          aria-label={favorite ? 'Remove from favorites' : 'Add to favorites'}
+          aria-pressed={favorite}
+        >
+          <svg className="w-4 h-4" fill={favorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+          </svg>
+        </button>
+
+        {/* Star rating */}
+        <div className="flex items-center" role="group" aria-label="Rating">
+          {Array.from({ length: RESULT_FEEDBACK.maxRating }, (_, i) => i + 1).map(star => (
+            <button
+              key={star}
+              onClick={() => onChange({ rating: star === rating ? null : star })}
+              disabled={disabled}
+              className={`p-0.5 transition-colors disabled:opacity-50 ${star <= rating ? 'text-amber-400' : 'text-muted-foreground/40 hover:text-amber-300'}`}
+              aria-label={`Rate ${star} out of ${RESULT_FEEDBACK.maxRating}`}
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z"/>
+              </svg>
+            </button>
+          ))}
+        </div>
+
+        {/* Reject */}
+        <button
+          onClick={() => setShowReasons(!showReasons)}
+          disabled={disabled}
+          className={`ml-auto px-2 py-0.5 rounded-md text-xs font-medium border transition-colors disabled:opacity-50 ${
+            reasons.length > 0
+              ? 'bg-red-50 border-red-300 text-red-600'
+              : 'bg-background border-border text-muted-foreground hover:bg-muted'
+          }`}
+          aria-expanded={showReasons}
+        >
+          {reasons.length > 0 ? `Rejected (${reasons.length})` : 'Reject'}
+        </button>
+      </div>
+
+      {/* Rejection reasons */}
+      {showReasons && (
+        <div className="flex flex-wrap gap-1.5">
+          {REJECTION_REASONS.map(([reason, label]) => (
+            <button
+              key={reason}
+              onClick={() => toggleReason(reason)}
+              disabled={disabled}
+              className={`px-2 py-0.5 rounded-full text-xs border transition-colors disabled:opacity-50 ${
+                reasons.includes(reason)
+                  ? 'bg-red-500 border-red-500 text-white'
+                  : 'bg-background border-border text-foreground hover:bg-muted'
+              }`}
+              aria-pressed={reasons.includes(reason)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
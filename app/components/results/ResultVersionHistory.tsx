@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import { getResultVersions, setPrimaryImage } from '../../lib/pipeline-client';
+import type { ResultImage, ResultVersionHistory as VersionHistory } from '../../lib/services/result-version.service';
+
+interface ResultVersionHistoryProps {
+  resultId: string;
+  onClose: () => void;
+  onPrimaryChange?: () => void; // The primary image was picked or reset
+}
+
+type CompareMode = 'side-by-side' | 'slider';
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+/**
+ * Result Version History
+ * Every version of a result and each image stored for it, shown inside the image modal
+ * - Pick two images (A and B) to compare side by side or with a slider
+ * - Make image A the primary image used for downloads and Shopify publishing
+ */
+export function ResultVersionHistory({
+  resultId,
+  onClose,
+  onPrimaryChange
+}: ResultVersionHistoryProps) {
+  const [history, setHistory] = useState<VersionHistory | null>(null);
+  const [imageA, setImageA] = useState<string | null>(null);
+  const [imageB, setImageB] = useState<string | null>(null);
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setHistory(null);
+    setImageA(null);
+    setImageB(null);
+    setError(null);
+
+    let cancelled = false;
+    getResultVersions(resultId)
+      .then(result => {
+        if (cancelled) return;
+        setHistory(result);
+        setImageA(result.primary_image_id);
+      })
+      .catch(loadError => { if (!cancelled) setError(loadError.message); });
+
+    return () => { cancelled = true; };
+  }, [resultId]);
+
+  const images = history?.versions.flatMap(version => version.images) || [];
+  const compareA = images.find(image => image.id === imageA) || null;
+  const compareB = images.find(image => image.id === imageB) || null;
+
+  const handleSetPrimary = async (imageId: string | null) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const updated = await setPrimaryImage(resultId, imageId);
+      setHistory(updated);
+      onPrimaryChange?.();
+    } catch (saveError: any) {
+      setError(saveError.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderLabel = (image: ResultImage, slot: 'A' | 'B') => (
+    <div className="absolute top-3 left-3 bg-black/60 text-white px-2.5 py-1 rounded-md text-xs font-medium">
+      {slot} · v{image.version} {image.label}
+      {image.id === history?.primary_image_id && ' · Primary'}
+    </div>
+  );
+
+  return (
+    <div className="bg-background rounded-lg shadow-xl w-full h-full max-h-[85vh] flex overflow-hidden">
+      {/* Versions */}
+      <div className="w-72 flex-shrink-0 border-r border-border flex flex-col">
+        <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-foreground">Version history</h2>
+          <button
+            onClick={onClose}
+            className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Back to image
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-4">
+          {!history && !error && (
+            <p className="text-sm text-muted-foreground">Loading versions...</p>
+          )}
+
+          {history && [...history.versions].reverse().map(version => (
+            <div key={version.result_id}>
+              <div className="text-sm font-medium text-foreground">Version {version.version}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatTime(version.created_at)}
+                {version.provider && ` · ${version.provider}`}
+                {version.seed !== null && ` · seed ${version.seed}`}
+              </div>
+
+              {version.images.length === 0 && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {version.status === 'failed'
+                    ? version.error || 'Generation failed'
+                    : version.status === 'processing' ? 'Generating...' : 'No images stored'}
+                </p>
+              )}
+
+              <div className="mt-2 space-y-1.5">
+                {version.images.map(image => (
+                  <div key={image.id} className="flex items-center gap-2">
+                    <img
+                      src={image.image_url}
+                      alt={image.label}
+                      className="w-10 h-10 object-cover rounded border border-border flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs font-medium text-foreground truncate">
+                        {image.label}
+                        {image.id === history.primary_image_id && (
+                          <span className="ml-1 text-primary">★</span>
+                        )}
+                      </div>
+                      <div className="text-[11px] text-muted-foreground truncate">
+                        {formatTime(image.created_at)}
+                        {image.provider && ` · ${image.provider}`}
+                      </div>
+                    </div>
+                    {(['A', 'B'] as const).map(slot => {
+                      const selected = (slot === 'A' ? imageA : imageB) === image.id;
+                      return (
+                        <button
+                          key={slot}
+                          onClick={() => (slot === 'A' ? setImageA : setImageB)(selected ? null : image.id)}
+                          className={`w-6 h-6 text-[11px] font-semibold rounded border transition-colors ${
+                            selected
+                              ? 'bg-primary text-primary-foreground border-primary'
+                              : 'bg-background text-foreground border-border hover:bg-muted'
+                          }`}
+                          aria-label={`Compare as ${slot}`}
+                        >
+                          {slot}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {history && (
+          <div className="px-4 py-3 border-t border-border text-xs text-muted-foreground">
+            {history.primary_chosen
+              ? 'Downloads and Shopify use the ★ image.'
+              : 'No primary picked: downloads and Shopify use the latest version (★).'}
+          </div>
+        )}
+      </div>
+
+      {/* Comparison */}
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="px-4 py-3 border-b border-border flex items-center gap-3">
+          <div className="flex rounded-md border border-border overflow-hidden text-xs">
+            {(['side-by-side', 'slider'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1.5 transition-colors ${
+                  mode === option ? 'bg-primary text-primary-foreground' : 'bg-background text-foreground hover:bg-muted'
+                }`}
+              >
+                {option === 'slider' ? 'Slider' : 'Side by side'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1" />
+
+          {error && <p className="text-xs text-red-600 truncate">{error}</p>}
+
+          {history?.primary_chosen && (
+            <button
+              onClick={() => handleSetPrimary(null)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-xs font-medium text-foreground bg-background border border-border rounded-md hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              Use default
+            </button>
+          )}
+          <button
+            onClick={() => compareA && handleSetPrimary(compareA.id)}
+            disabled={!compareA || isSaving || compareA.id === history?.primary_image_id}
+            className="px-3 py-1.5 text-xs font-medium text-primary-foreground bg-primary rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Make A primary'}
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 p-4 flex items-center justify-center bg-muted/30">
+          {!compareA && !compareB && (
+            <p className="text-sm text-muted-foreground">Pick images A and B to compare them.</p>
+          )}
+
+          {mode === 'side-by-side' && (compareA || compareB) && (
+            <div className="flex gap-4 w-full h-full">
+              {[compareA, compareB].map((image, index) => image && (
+                <div key={image.id} className="flex-1 min-w-0 relative flex items-center justify-center">
+                  <img src={image.image_url} alt={image.label} className="max-w-full max-h-full object-contain rounded-lg" />
+                  {renderLabel(image, index === 0 ? 'A' : 'B')}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {mode === 'slider' && (compareA || compareB) && (
+            <div className="flex flex-col items-center gap-3 w-full h-full">
+              <div className="relative flex-1 min-h-0 w-full flex items-center justify-center">
+                <div className="relative max-h-full">
+                  {compareB && (
+                    <img src={compareB.image_url} alt={compareB.label} className="max-w-full max-h-[calc(85vh-160px)] object-contain rounded-lg" />
+                  )}
+                  {compareA && (
+                    <img
+                      src={compareA.image_url}
+                      alt={compareA.label}
+                      className={compareB
+                        ? 'absolute inset-0 w-full h-full object-contain rounded-lg'
+                        : 'max-w-full max-h-[calc(85vh-160px)] object-contain rounded-lg'}
+                      style={compareB ? { clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` } : undefined}
+                    />
+                  )}
+                  {compareA && compareB && (
+                    <div
+                      className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none"
+                      style={{ left: `${sliderPosition}%` }}
+                    />
+                  )}
+                  {compareA && renderLabel(compareA, 'A')}
+                  {compareB && (
+                    <div className="absolute top-3 right-3 bg-black/60 text-white px-2.5 py-1 rounded-md text-xs font-medium">
+                      B · v{compareB.version} {compareB.label}
+                    </div>
+                  )}
+                </div>
+              </div>
+              {compareA && compareB && (
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={sliderPosition}
+                  onChange={(e) => setSliderPosition(Number(e.target.value))}
+                  className="w-full max-w-md"
+                  aria-label="Comparison position"
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,10 @@ export { BackButton } from './BackButton';
 export { SelectionCheckbox } from './SelectionCheckbox';
 export { LoadingSkeleton } from './LoadingSkeleton';
 export { ResultCard } from './ResultCard';
+export { ResultFeedbackControls, FEEDBACK_FILTER_OPTIONS } from './ResultFeedbackControls';
 export { ImageModal } from './ImageModal';
+export { ResultVersionHistory } from './ResultVersionHistory';
 export { ResultsHeader } from './ResultsHeader';
 export { EditProjectNameModal } from './EditProjectNameModal';
+export { PushToProductModal } from './PushToProductModal';
+export { RegenerateModal } from './RegenerateModal';
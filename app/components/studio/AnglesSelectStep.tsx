@@ -1,26 +1,68 @@
+import { useEffect, useRef, useState } from "react";
 import { ActionList, Icon, Tooltip } from "@shopify/polaris";
-import { CheckCircle } from "lucide-react";
+import { AlertTriangle, CheckCircle } from "lucide-react";
 import type { AngleResource } from "../../lib/services/resources.service";
+import {
+  GARMENT_CATEGORIES,
+  GARMENT_CATEGORY_LABELS,
+  assessAngleFit,
+  rankByFit,
+  type FitAssessment,
+  type GarmentCategory,
+} from "../../lib/garment-fit";
 
 interface AnglesSelectStepProps {
   angles: AngleResource[] | undefined;
   selectedAngles: string[];
   onAngleToggle: (angleId: string) => void;
+  garmentCategory?: GarmentCategory | null; // Ranks angle groups and warns about ones that crop the garment
+  onGarmentCategoryChange?: (category: GarmentCategory | null) => void;
+  defaultAngleIds?: string[]; // Shop's saved defaults for the category, preselected once
+  onSaveDefaults?: (angleIds: string[]) => void;
 }
 
 export function AnglesSelectStep({
   angles = [],
   selectedAngles,
   onAngleToggle,
+  garmentCategory,
+  onGarmentCategoryChange,
+  defaultAngleIds,
+  onSaveDefaults,
 }: AnglesSelectStepProps) {
+  const [showAll, setShowAll] = useState(false);
+  const appliedDefaultsFor = useRef<string | null>(null);
 
-  // Group angles by type
-  const groupedAngles = angles.reduce((acc, angle) => {
+  const rankedAngles: Array<AngleResource & { fit: FitAssessment | null }> = garmentCategory
+    ? rankByFit(angles, angle => assessAngleFit(garmentCategory, angle))
+    : angles.map(angle => ({ ...angle, fit: null }));
+  const visibleAngles = showAll || !garmentCategory
+    ? rankedAngles
+    : rankedAngles.filter(angle => !angle.fit?.warning || selectedAngles.includes(angle.id));
+  const hiddenCount = rankedAngles.length - visibleAngles.length;
+  const selectionWarnings = rankedAngles.filter(angle => selectedAngles.includes(angle.id) && angle.fit?.warning);
+  const categoryLabel = garmentCategory ? GARMENT_CATEGORY_LABELS[garmentCategory] : null;
+
+  // Preselect the shop's defaults for this category once
+  useEffect(() => {
+    if (!garmentCategory || !defaultAngleIds?.length || angles.length === 0) return;
+    if (appliedDefaultsFor.current === garmentCategory) return;
+    appliedDefaultsFor.current = garmentCategory;
+    if (selectedAngles.length > 0) return; // Never override a manual selection
+
+    defaultAngleIds
+      .filter(id => angles.some(angle => angle.id === id))
+      .slice(0, 4)
+      .forEach(id => onAngleToggle(id));
+  }, [angles, garmentCategory, defaultAngleIds, selectedAngles.length, onAngleToggle]);
+
+  // Group angles by type (best-fitting groups first when a category is set)
+  const groupedAngles = visibleAngles.reduce((acc, angle) => {
     const type = angle.angle_type || 'other';
     if (!acc[type]) acc[type] = [];
     acc[type].push(angle);
     return acc;
-  }, {} as Record<string, AngleResource[]>);
+  }, {} as Record<string, Array<AngleResource & { fit: FitAssessment | null }>>);
 
   return (
     <div className="w-full">
@@ -29,6 +71,63 @@ export function AnglesSelectStep({
         <p className="text-gray-500 mt-1">Choose the camera angles for your generation.</p>
       </div>
 
+      {onGarmentCategoryChange && (
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <label htmlFor="angles-garment-category" className="text-sm font-medium text-gray-900">
+            Garment type
+          </label>
+          <select
+            id="angles-garment-category"
+            value={garmentCategory || ""}
+            onChange={(e) => onGarmentCategoryChange((e.target.value || null) as GarmentCategory | null)}
+            className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+          >
+            <option value="">Not specified</option>
+            {GARMENT_CATEGORIES.map(category => (
+              <option key={category} value={category}>{GARMENT_CATEGORY_LABELS[category]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {categoryLabel && (
+        <div className="mb-6 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-500">
+              Angles ranked for <span className="font-medium text-gray-900">{categoryLabel.toLowerCase()}</span>
+              {hiddenCount > 0 && !showAll && ` · ${hiddenCount} angle(s) that crop the garment hidden`}
+            </p>
+            <div className="flex items-center gap-3">
+              {(hiddenCount > 0 || showAll) && (
+                <button onClick={() => setShowAll(!showAll)} className="text-sm font-medium text-[#702dff]">
+                  {showAll ? "Hide angles that crop the garment" : "Show all angles"}
+                </button>
+              )}
+              {onSaveDefaults && (
+                <button
+                  onClick={() => onSaveDefaults(selectedAngles)}
+                  disabled={selectedAngles.length === 0}
+                  className="text-sm font-medium px-3 py-1.5 rounded-lg border border-gray-200 disabled:opacity-50"
+                >
+                  Save as default for {categoryLabel.toLowerCase()}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {selectionWarnings.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800 space-y-1">
+              {selectionWarnings.map(angle => (
+                <div key={angle.id} className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span><span className="font-medium">{angle.name}:</span> {angle.fit?.warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 items-start">
         {Object.entries(groupedAngles).map(([type, groupAngles]) => (
           <div key={type} className="bg-white/50 rounded-xl p-4 border border-gray-100/50">
@@ -75,6 +174,13 @@ export function AnglesSelectStep({
                       {/* Selection Overlay */}
                       <div className={`absolute inset-0 transition-opacity duration-200 ${isSelected ? 'bg-[#702dff]/10' : 'opacity-0 group-hover:opacity-100 bg-black/5'}`} />
                       
+                      {/* Crop Warning */}
+                      {angle.fit?.warning && (
+                        <div className="absolute top-2 left-2 bg-amber-100 text-amber-800 rounded-full p-1" title={angle.fit.warning}>
+                          <AlertTriangle className="w-3 h-3" />
+                        </div>
+                      )}
+
                       {/* Checkmark */}
                       {isSelected && (
                         <div className="absolute top-2 right-2 bg-white rounded-full p-0.5 text-[#702dff] shadow-sm">
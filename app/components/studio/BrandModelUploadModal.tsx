@@ -0,0 +1,284 @@
+import { useState, useEffect, useRef } from "react";
+import { X, Upload, Trash2 } from "lucide-react";
+import { BRAND_MODEL_CONSENT } from "../../lib/services/model-access.service";
+import { BRAND_MODELS } from "../../config/generation.constants";
+
+interface BrandModelUploadModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (modelId: string) => void;
+  defaultGender?: string;
+}
+
+interface PhotoEntry {
+  file: File;
+  previewUrl: string;
+  poseType: string;
+}
+
+const POSE_TYPE_OPTIONS = [
+  { value: "front", label: "Front" },
+  { value: "three-quarter", label: "Three-quarter" },
+  { value: "side", label: "Side" },
+  { value: "back", label: "Back" },
+  { value: "dynamic", label: "Dynamic" },
+  { value: "seated", label: "Seated" },
+];
+
+const BODY_TYPE_OPTIONS = [
+  { value: "slim", label: "Slim" },
+  { value: "athletic", label: "Athletic" },
+  { value: "curvy", label: "Curvy" },
+  { value: "plus-size", label: "Plus Size" },
+];
+
+/**
+ * Upload photos of the shop's own model as a private brand model.
+ * The first photo becomes the cover; each photo becomes a pose.
+ */
+export function BrandModelUploadModal({
+  isOpen,
+  onClose,
+  onCreated,
+  defaultGender = "female",
+}: BrandModelUploadModalProps) {
+  const [name, setName] = useState("");
+  const [gender, setGender] = useState(defaultGender);
+  const [bodyType, setBodyType] = useState("slim");
+  const [photos, setPhotos] = useState<PhotoEntry[]>([]);
+  const [consent, setConsent] = useState(false);
+  const [consentName, setConsentName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const photosRef = useRef<PhotoEntry[]>([]);
+  photosRef.current = photos;
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setName("");
+      setGender(defaultGender);
+      setBodyType("slim");
+      photosRef.current.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+      setPhotos([]);
+      setConsent(false);
+      setConsentName("");
+      setError(null);
+    }
+  }, [isOpen, defaultGender]);
+
+  // Release preview URLs when the modal unmounts
+  useEffect(() => {
+    return () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+  }, []);
+
+  if (!isOpen) return null;
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return;
+    setError(null);
+
+    const added: PhotoEntry[] = [];
+    for (const file of Array.from(files)) {
+      if (!BRAND_MODELS.allowedContentTypes.includes(file.type)) {
+        setError("Photos must be JPEG, PNG or WebP");
+        continue;
+      }
+      if (file.size > BRAND_MODELS.maxImageMb * 1024 * 1024) {
+        setError(`Photos must be ${BRAND_MODELS.maxImageMb}MB or smaller`);
+        continue;
+      }
+      added.push({
+        file,
+        previewUrl: URL.createObjectURL(file),
+        poseType: photos.length + added.length === 0 ? "front" : "three-quarter",
+      });
+    }
+
+    const room = BRAND_MODELS.maxPosesPerModel - photos.length;
+    if (added.length > room) {
+      setError(`A brand model can have at most ${BRAND_MODELS.maxPosesPerModel} poses`);
+      added.slice(room).forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+    }
+    setPhotos(prev => [...prev, ...added.slice(0, Math.max(room, 0))]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const setPoseType = (index: number, poseType: string) => {
+    setPhotos(prev => prev.map((photo, i) => (i === index ? { ...photo, poseType } : photo)));
+  };
+
+  const canSubmit = !!name.trim() && photos.length > 0 && consent && !!consentName.trim() && !submitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const formData = new FormData();
+      formData.append("name", name.trim());
+      formData.append("gender", gender);
+      formData.append("body_type", bodyType);
+      formData.append("consent", "true");
+      formData.append("consent_name", consentName.trim());
+      photos.forEach(photo => {
+        formData.append("images", photo.file);
+        formData.append("pose_types", photo.poseType);
+      });
+
+      const response = await fetch("/api/models/brand", { method: "POST", body: formData });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to upload brand model");
+      }
+
+      console.log(`✅ Created brand model ${data.model.id}`);
+      onCreated(data.model.id);
+      onClose();
+    } catch (err) {
+      console.error("❌ Error uploading brand model:", err);
+      setError(err instanceof Error ? err.message : "Failed to upload brand model");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl w-full max-w-lg overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100">
+          <h2 className="text-xl font-bold text-gray-900">Upload Brand Model</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[65vh] overflow-y-auto space-y-5">
+          <p className="text-sm text-gray-500">
+            Use photos of your own model. Brand models are private to your store.
+          </p>
+
+          {/* Details */}
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Model name"
+              maxLength={60}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#702dff]"
+            />
+            <div className="flex gap-3">
+              <select
+                value={gender}
+                onChange={(e) => setGender(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+              >
+                <option value="female">Female</option>
+                <option value="male">Male</option>
+                <option value="unisex">Unisex</option>
+              </select>
+              <select
+                value={bodyType}
+                onChange={(e) => setBodyType(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+              >
+                {BODY_TYPE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Photos */}
+          <div>
+            <label className="flex flex-col items-center justify-center gap-2 py-6 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:border-[#702dff] transition-colors">
+              <Upload size={20} className="text-gray-400" />
+              <span className="text-sm text-gray-600">Add photos ({photos.length}/{BRAND_MODELS.maxPosesPerModel})</span>
+              <input
+                type="file"
+                accept={BRAND_MODELS.allowedContentTypes.join(",")}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            {photos.length > 0 && (
+              <div className="grid grid-cols-3 gap-3 mt-3">
+                {photos.map((photo, index) => (
+                  <div key={photo.previewUrl} className="space-y-1">
+                    <div className="relative aspect-[3/4] rounded-lg overflow-hidden bg-gray-100">
+                      <img src={photo.previewUrl} alt={`${name || "Brand model"} pose ${index + 1}`} className="w-full h-full object-cover" />
+                      {index === 0 && (
+                        <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-[#702dff] text-white text-[10px] font-semibold">Cover</span>
+                      )}
+                      <button
+                        onClick={() => removePhoto(index)}
+                        className="absolute top-1 right-1 p-1 rounded-full bg-black/50 text-white hover:bg-black/70"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                    <select
+                      value={photo.poseType}
+                      onChange={(e) => setPoseType(index, e.target.value)}
+                      className="w-full px-2 py-1 border border-gray-200 rounded text-xs bg-white"
+                    >
+                      {POSE_TYPE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Consent */}
+          <div className="p-4 rounded-xl bg-gray-50 border border-gray-100 space-y-3">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={consent}
+                onChange={(e) => setConsent(e.target.checked)}
+                className="mt-0.5 accent-[#702dff]"
+              />
+              <span className="text-xs text-gray-700 leading-relaxed">{BRAND_MODEL_CONSENT.statement}</span>
+            </label>
+            <input
+              type="text"
+              value={consentName}
+              onChange={(e) => setConsentName(e.target.value)}
+              placeholder="Your full name"
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[#702dff]"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-5 border-t border-gray-100 bg-gray-50/50">
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="w-full py-3.5 bg-[#702dff] hover:bg-[#5c24cc] text-white rounded-xl font-semibold shadow-lg shadow-[#702dff]/20 transition-all duration-200 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Uploading..." : "Create Brand Model"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
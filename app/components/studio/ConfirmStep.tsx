@@ -1,7 +1,8 @@
 import { Camera, ChevronDown, Check, RectangleVertical, RectangleHorizontal, Square, Monitor } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
-
-const CREDITS_PER_GENERATION = 1000;
+import { usePipelineQuote } from "~/hooks/use-pipeline-quote";
+import type { PipelineRunRequest } from "~/lib/pipeline-client";
+import { PipelineQuoteSummary } from "./PipelineQuoteSummary";
 
 interface ModelPose {
   id: string;
@@ -21,7 +22,8 @@ interface ConfirmStepProps {
   selectedModel: string | null;
   selectedPoses: string[];
   selectedPoseObjects?: ModelPose[];
-  onGenerate: () => void;
+  run: PipelineRunRequest | null; // The run Generate starts; null until it can be quoted
+  onGenerate: (quoteHash: string) => void;
   isGenerating?: boolean;
   aspectRatio?: string;
   onAspectRatioChange?: (ratio: string) => void;
@@ -129,6 +131,7 @@ export function ConfirmStep({
   selectedModel,
   selectedPoses,
   selectedPoseObjects = [],
+  run,
   onGenerate,
   isGenerating = false,
   aspectRatio,
@@ -136,6 +139,9 @@ export function ConfirmStep({
   imageCount,
   onImageCountChange,
 }: ConfirmStepProps) {
+  // The run's authoritative quote; Generate charges exactly this
+  const { quote, error: quoteError, isLoading: isQuoting } = usePipelineQuote(run);
+  const canGenerate = !!previewUrl && !!selectedModel && selectedPoses.length > 0 && !isGenerating && !!quote?.can_run;
   // Get actual pose objects for the selected pose IDs
   const selectedPoseData = selectedPoseObjects.filter(pose => 
     selectedPoses.includes(pose.id)
@@ -285,34 +291,24 @@ export function ConfirmStep({
                     {selectedPoses.length === 1 ? "image" : "images"}
                   </span>
                 </div>
-                <div className="flex justify-between items-center text-xs sm:text-sm font-semibold">
-                  <span className="text-foreground">Total Cost</span>
-                  <span className="text-primary">
-                    {selectedPoses.length * CREDITS_PER_GENERATION} credits
-                  </span>
-                </div>
+                <PipelineQuoteSummary quote={quote} error={quoteError} isLoading={isQuoting} />
               </div>
             </div>
 
             {/* Generate Button */}
             <div className="pt-4 sm:pt-6 mt-2 sm:mt-4">
               <button
-                onClick={onGenerate}
-                disabled={
-                  !previewUrl ||
-                  !selectedModel ||
-                  selectedPoses.length === 0 ||
-                  isGenerating
-                }
+                onClick={() => quote && onGenerate(quote.quote_hash)}
+                disabled={!canGenerate}
                 className="w-full text-white py-2 sm:py-2.5 rounded-xl font-semibold shadow-lg transition-all duration-200 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
-                style={{ backgroundColor: isGenerating || !previewUrl || !selectedModel || selectedPoses.length === 0 ? "#e5e7eb" : "#702dff" }}
+                style={{ backgroundColor: canGenerate ? "#702dff" : "#e5e7eb" }}
                 onMouseOver={(e) => {
-                  if (!isGenerating && previewUrl && selectedModel && selectedPoses.length > 0) {
+                  if (canGenerate) {
                     e.currentTarget.style.backgroundColor = "#5c24cc";
                   }
                 }}
                 onMouseOut={(e) => {
-                  if (!isGenerating && previewUrl && selectedModel && selectedPoses.length > 0) {
+                  if (canGenerate) {
                     e.currentTarget.style.backgroundColor = "#702dff";
                   }
                 }}
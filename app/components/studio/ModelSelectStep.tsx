@@ -1,11 +1,13 @@
 import { useState, useEffect, useMemo } from "react";
-import { Lock, Filter, X } from "lucide-react";
+import { Lock, Filter, X, Plus } from "lucide-react";
 import {
+  canUseBrandModels,
   enrichModelsWithAccess,
   FREE_TIER_MODELS,
   type SubscriptionTier,
   type EnrichedModel
 } from "../../lib/services/model-access.service";
+import { BrandModelUploadModal } from "./BrandModelUploadModal";
 
 interface BaseModel {
   id: string;
@@ -21,6 +23,7 @@ interface BaseModel {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  owner_user_id?: string | null; // Set on the shop's own brand models
 }
 
 interface ModelSelectStepProps {
@@ -180,6 +183,7 @@ export function ModelSelectStep({
   // Filter States
   const [selectedGender, setSelectedGender] = useState<string>("female"); // Default to female
   const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [filters, setFilters] = useState<FilterState>({
     ageRange: [],
     bodyType: [],
@@ -277,6 +281,13 @@ export function ModelSelectStep({
 
       return true;
     }).sort((a, b) => {
+      // The shop's own brand models first
+      const aBrand = !!a.owner_user_id;
+      const bBrand = !!b.owner_user_id;
+      if (aBrand !== bBrand) {
+        return aBrand ? -1 : 1;
+      }
+
       // Sort by Access (Unlocked first)
       const aLocked = a.accessInfo.isLocked;
       const bLocked = b.accessInfo.isLocked;
@@ -311,6 +322,13 @@ export function ModelSelectStep({
         models={models}
       />
 
+      <BrandModelUploadModal
+        isOpen={isUploadOpen}
+        onClose={() => setIsUploadOpen(false)}
+        onCreated={() => fetchModels()}
+        defaultGender={selectedGender}
+      />
+
       {/* Filters */}
       <div className="w-full px-3 sm:px-4 md:px-6">
         <div className="flex gap-4 flex-wrap items-center justify-end">
@@ -350,6 +368,17 @@ export function ModelSelectStep({
             </button>
           </div>
 
+          {/* Brand Model Upload (Professional / Enterprise) */}
+          {canUseBrandModels(subscriptionTier) && (
+            <button
+              onClick={() => setIsUploadOpen(true)}
+              className="flex items-center gap-2 px-5 py-2 rounded-lg bg-[#f3f4f6] text-gray-600 font-medium text-sm hover:bg-gray-200 transition-colors"
+            >
+              <Plus size={16} />
+              <span>Brand Model</span>
+            </button>
+          )}
+
           {/* Filter Trigger Button */}
           <button
             onClick={() => setIsFilterOpen(true)}
@@ -398,6 +427,13 @@ export function ModelSelectStep({
                     </div>
                   </div>
 
+                  {/* Brand Model Badge */}
+                  {model.owner_user_id && (
+                    <div className="absolute bottom-2 left-2 z-10 px-2 py-1 rounded-md bg-[#702dff] text-white text-[10px] font-semibold tracking-wide shadow">
+                      Brand
+                    </div>
+                  )}
+
                   {/* Selection Indicator */}
                   {isSelected && (
                     <div className="absolute top-2 right-2 bg-[#702dff] text-white p-1 rounded-full shadow-lg">
@@ -0,0 +1,94 @@
+import type { PipelineStep } from "~/lib/services/ai-providers.service";
+import type { PipelineQuote } from "~/lib/services/pipeline-quote.service";
+
+interface PipelineQuoteSummaryProps {
+  quote: PipelineQuote | null;
+  error?: string | null;
+  isLoading?: boolean;
+}
+
+const STEP_LABELS: Record<PipelineStep, string> = {
+  "garment-prep": "Garment cleanup",
+  tryon: "Virtual try-on",
+  "shop-ready": "Shop Ready shot",
+  "post-ready": "Post Ready shot",
+  watermark: "Watermark",
+  "enhanced-upscale": "4K upscale",
+};
+
+/**
+ * Pipeline Quote Summary
+ * The quote a run will be charged on the confirm step:
+ * - Credits per pose and what each pipeline step costs
+ * - Discount, total and the balance left after the run
+ * - Every reason the run can't start
+ */
+export function PipelineQuoteSummary({ quote, error, isLoading = false }: PipelineQuoteSummaryProps) {
+  if (!quote) {
+    return (
+      <div className={`text-xs sm:text-sm ${error ? "text-red-600" : "text-muted-foreground"}`}>
+        {error || (isLoading ? "Calculating price…" : "Price unavailable")}
+      </div>
+    );
+  }
+
+  const steps = quote.poses[0]?.steps || [];
+
+  return (
+    <div className="space-y-3">
+      {/* Per pose */}
+      <div className="space-y-1">
+        {quote.poses.map((pose, index) => (
+          <div key={`${pose.pose_id}-${index}`} className="flex justify-between items-center text-xs sm:text-sm">
+            <span className="text-muted-foreground truncate pr-2">{pose.pose_name || `Pose ${index + 1}`}</span>
+            <span className="text-foreground font-medium whitespace-nowrap">{pose.credits.toLocaleString()} credits</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Per step */}
+      {steps.length > 0 && (
+        <div className="rounded-lg bg-muted px-3 py-2 space-y-1">
+          <div className="text-[11px] font-medium text-muted-foreground uppercase tracking-wide">Each pose</div>
+          {steps.map(line => (
+            <div key={line.step} className="flex justify-between items-center text-xs">
+              <span className="text-foreground">{STEP_LABELS[line.step] || line.step}</span>
+              <span className="text-muted-foreground">
+                {line.included ? "Included" : `${line.credits.toLocaleString()} credits`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="space-y-1">
+        {quote.discount && (
+          <div className="flex justify-between items-center text-xs sm:text-sm">
+            <span className="text-muted-foreground">{quote.discount.description}</span>
+            <span className="text-green-600 font-medium">−{quote.discount.credits.toLocaleString()} credits</span>
+          </div>
+        )}
+        <div className="flex justify-between items-center text-xs sm:text-sm font-semibold">
+          <span className="text-foreground">Total Cost</span>
+          <span className="text-primary">{quote.total_credits.toLocaleString()} credits</span>
+        </div>
+        <div className="flex justify-between items-center text-xs sm:text-sm">
+          <span className="text-muted-foreground">Balance after run</span>
+          <span className={quote.remaining_credits_after_run < 0 ? "text-red-600 font-medium" : "text-foreground font-medium"}>
+            {quote.remaining_credits_after_run.toLocaleString()} credits
+          </span>
+        </div>
+      </div>
+
+      {/* Blockers */}
+      {quote.blocking_reasons.length > 0 && (
+        <ul className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 space-y-1">
+          {quote.blocking_reasons.map(blocker => (
+            <li key={blocker.code} className="text-xs text-red-700">{blocker.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
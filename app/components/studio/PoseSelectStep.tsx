@@ -1,4 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { AlertTriangle } from "lucide-react";
+import {
+  GARMENT_CATEGORY_LABELS,
+  assessPoseFit,
+  rankByFit,
+  type FitAssessment,
+  type GarmentCategory,
+  type PoseType,
+} from "../../lib/garment-fit";
 
 interface ModelPose {
   id: string;
@@ -18,6 +27,9 @@ interface PoseSelectStepProps {
   selectedPoses: string[];
   onPoseSelect: (poseId: string) => void;
   onPoseObjectsChange?: (poses: ModelPose[]) => void;
+  garmentCategory?: GarmentCategory | null; // Ranks poses and warns about ones that crop the garment
+  defaultPoseTypes?: PoseType[]; // Shop's saved defaults for the category, preselected once
+  onSaveDefaults?: (poseTypes: PoseType[]) => void;
 }
 
 export function PoseSelectStep({
@@ -25,9 +37,41 @@ export function PoseSelectStep({
   selectedPoses,
   onPoseSelect,
   onPoseObjectsChange,
+  garmentCategory,
+  defaultPoseTypes,
+  onSaveDefaults,
 }: PoseSelectStepProps) {
   const [poses, setPoses] = useState<ModelPose[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const appliedDefaultsFor = useRef<string | null>(null);
+
+  const rankedPoses: Array<ModelPose & { fit: FitAssessment | null }> = garmentCategory
+    ? rankByFit(poses, pose => assessPoseFit(garmentCategory, pose))
+    : poses.map(pose => ({ ...pose, fit: null }));
+  const visiblePoses = showAll || !garmentCategory
+    ? rankedPoses
+    : rankedPoses.filter(pose => !pose.fit?.warning || selectedPoses.includes(pose.id));
+  const hiddenCount = rankedPoses.length - visiblePoses.length;
+  const bestScore = Math.max(0, ...rankedPoses.map(pose => pose.fit?.score ?? 0));
+  const selectionWarnings = rankedPoses.filter(pose => selectedPoses.includes(pose.id) && pose.fit?.warning);
+  const categoryLabel = garmentCategory ? GARMENT_CATEGORY_LABELS[garmentCategory] : null;
+
+  // Preselect the shop's defaults for this category once per model
+  useEffect(() => {
+    const key = `${selectedModel}:${garmentCategory}`;
+    if (!garmentCategory || !defaultPoseTypes?.length || poses.length === 0) return;
+    if (appliedDefaultsFor.current === key) return;
+    appliedDefaultsFor.current = key;
+    if (selectedPoses.length > 0) return; // Never override a manual selection
+
+    const fitting = rankByFit(poses, pose => assessPoseFit(garmentCategory, pose)).filter(pose => !pose.fit.warning);
+    const picks = defaultPoseTypes
+      .map(type => fitting.find(pose => pose.pose_type === type))
+      .filter((pose): pose is ModelPose & { fit: FitAssessment } => !!pose)
+      .slice(0, 4);
+    picks.forEach(pose => onPoseSelect(pose.id));
+  }, [poses, selectedModel, garmentCategory, defaultPoseTypes, selectedPoses.length, onPoseSelect]);
 
   // Fetch poses function
   const fetchPoses = async () => {
@@ -119,11 +163,56 @@ export function PoseSelectStep({
         </div>
       )}
 
+      {/* Garment Recommendations */}
+      {!loading && poses.length > 0 && categoryLabel && (
+        <div className="w-full px-3 sm:px-4 md:px-6 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              Poses ranked for <span className="font-medium text-foreground">{categoryLabel.toLowerCase()}</span>
+              {hiddenCount > 0 && !showAll && ` · ${hiddenCount} pose(s) that crop the garment hidden`}
+            </p>
+            <div className="flex items-center gap-3">
+              {(hiddenCount > 0 || showAll) && (
+                <button
+                  onClick={() => setShowAll(!showAll)}
+                  className="text-sm font-medium"
+                  style={{ color: "#702dff" }}
+                >
+                  {showAll ? "Hide poses that crop the garment" : "Show all poses"}
+                </button>
+              )}
+              {onSaveDefaults && (
+                <button
+                  onClick={() => onSaveDefaults(Array.from(new Set(
+                    rankedPoses.filter(pose => selectedPoses.includes(pose.id)).map(pose => pose.pose_type)
+                  )))}
+                  disabled={selectedPoses.length === 0}
+                  className="text-sm font-medium px-3 py-1.5 rounded-lg border border-border disabled:opacity-50"
+                >
+                  Save as default for {categoryLabel.toLowerCase()}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {selectionWarnings.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800 space-y-1">
+              {selectionWarnings.map(pose => (
+                <div key={pose.id} className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span><span className="font-medium">{pose.name}:</span> {pose.fit?.warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Poses Grid */}
       {!loading && poses.length > 0 && (
         <div className="w-full px-3 sm:px-4 md:px-6">
           <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6 w-full">
-            {poses.map((pose) => {
+            {visiblePoses.map((pose) => {
               const isSelected = selectedPoses.includes(pose.id);
               const selectedIndex = selectedPoses.indexOf(pose.id);
 
@@ -182,6 +271,22 @@ export function PoseSelectStep({
                         </div>
                       </div>
 
+                      {/* Fit Badge */}
+                      {pose.fit && (pose.fit.warning || pose.fit.score === bestScore) && (
+                        <div className="absolute top-3 left-3" title={pose.fit.warning}>
+                          {pose.fit.warning ? (
+                            <span className="inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded bg-amber-100 text-amber-800">
+                              <AlertTriangle className="w-3 h-3" />
+                              Crops garment
+                            </span>
+                          ) : (
+                            <span className="text-xs font-medium px-2 py-1 rounded text-white" style={{ backgroundColor: "#702dff" }}>
+                              Recommended
+                            </span>
+                          )}
+                        </div>
+                      )}
+
                       {/* Pose Info */}
                       <div className="absolute bottom-3 left-3 right-3">
                         <span className="text-white/90 text-xs bg-black/40 px-2 py-1 rounded backdrop-blur-sm font-medium capitalize">
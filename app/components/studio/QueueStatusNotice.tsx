@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+
+interface QueueStatus {
+  activeExecutions: number;
+  queuedExecutions: number;
+  concurrentLimit: number;
+  dailyUsage: number;
+  dailyLimit: number;
+  canStartNew: boolean;
+  willQueue: boolean;
+  estimatedStartAt: string;
+  nextQueuedStartAt: string | null;
+}
+
+const REFRESH_INTERVAL_MS = 15000;
+
+function formatStartTime(isoDate: string): string {
+  const minutes = Math.round((new Date(isoDate).getTime() - Date.now()) / 60000);
+  if (minutes <= 1) return "in about a minute";
+  if (minutes < 60) return `in about ${minutes} minutes`;
+  return `around ${new Date(isoDate).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`;
+}
+
+/**
+ * Queue Status Notice
+ * Shown on the generate step when the shop already has generations running or queued,
+ * so merchants know a new generation will wait and roughly when it will start.
+ */
+export function QueueStatusNotice() {
+  const [status, setStatus] = useState<QueueStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStatus = async () => {
+      try {
+        const response = await fetch("/api/pipeline/manage?action=queue");
+        const result = await response.json();
+        if (!cancelled && result.data) {
+          setStatus(result.data);
+        }
+      } catch (error) {
+        console.error("Failed to load queue status:", error);
+      }
+    };
+
+    loadStatus();
+    const interval = setInterval(loadStatus, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!status) return null;
+
+  if (!status.canStartNew) {
+    return (
+      <div style={{
+        backgroundColor: "#FEF3C7",
+        borderLeft: "4px solid #F59E0B",
+        padding: "16px",
+        marginBottom: "24px",
+        borderRadius: "8px",
+        color: "#78350F",
+        fontSize: "14px",
+      }}>
+        You've reached today's limit of {status.dailyLimit} generations. Please try again tomorrow.
+      </div>
+    );
+  }
+
+  if (!status.willQueue && status.queuedExecutions === 0) return null;
+
+  return (
+    <div style={{
+      backgroundColor: "#EFF6FF",
+      borderLeft: "4px solid #3B82F6",
+      padding: "16px",
+      marginBottom: "24px",
+      borderRadius: "8px",
+    }}>
+      <div style={{ display: "flex", alignItems: "flex-start", gap: "12px" }}>
+        <Clock size={20} color="#3B82F6" style={{ flexShrink: 0, marginTop: "1px" }} />
+        <div style={{ fontSize: "14px", color: "#1E3A8A" }}>
+          <strong>
+            {status.activeExecutions} generation{status.activeExecutions === 1 ? "" : "s"} running
+            {status.queuedExecutions > 0 && `, ${status.queuedExecutions} queued`}
+          </strong>
+          <div style={{ marginTop: "4px", color: "#1E40AF" }}>
+            Your plan runs up to {status.concurrentLimit} generation{status.concurrentLimit === 1 ? "" : "s"} at a time.
+            {" "}A new generation will start {formatStartTime(status.estimatedStartAt)}.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect, useMemo } from "react";
-import { Lock, Filter, X } from "lucide-react";
+import { Lock, Filter, X, Plus } from "lucide-react";
 import { 
+  canUseBrandModels,
   enrichModelsWithAccess, 
   type SubscriptionTier, 
   type EnrichedModel 
 } from "../../lib/services/model-access.service";
+import { BrandModelUploadModal } from "./BrandModelUploadModal";
 
 export interface BaseModel {
   id: string;
@@ -20,6 +22,7 @@ export interface BaseModel {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  owner_user_id?: string | null; // Set on the shop's own brand models
 }
 
 interface ReferenceModelStepProps {
@@ -192,6 +195,7 @@ export function ReferenceModelStep({
   // Filter States
   const [selectedGender, setSelectedGender] = useState<string>("female"); // Default to female
   const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [filters, setFilters] = useState<FilterState>({
     ageRange: [],
     bodyType: [],
@@ -258,6 +262,9 @@ export function ReferenceModelStep({
       // Gender check (already handled by API but good for safety)
       if (selectedGender !== 'all' && model.gender !== selectedGender) return false;
 
+      // Brand models stay hidden while the plan doesn't include them
+      if (model.owner_user_id && model.accessInfo.isLocked) return false;
+
       // Age Range Check
       if (filters.ageRange.length > 0) {
         // Simple string match or inclusion for now since data structure is simple
@@ -287,6 +294,13 @@ export function ReferenceModelStep({
 
       return true;
     }).sort((a, b) => {
+      // The shop's own brand models first
+      const aBrand = !!a.owner_user_id;
+      const bBrand = !!b.owner_user_id;
+      if (aBrand !== bBrand) {
+        return aBrand ? -1 : 1;
+      }
+
       // Prioritize user's own results count (Virtual Try-On Results)
       const countA = userResultCounts[a.id] || 0;
       const countB = userResultCounts[b.id] || 0;
@@ -322,6 +336,13 @@ export function ReferenceModelStep({
         models={models}
       />
 
+      <BrandModelUploadModal
+        isOpen={isUploadOpen}
+        onClose={() => setIsUploadOpen(false)}
+        onCreated={() => fetchModels()}
+        defaultGender={selectedGender}
+      />
+
       {/* Filters */}
       <div className="w-full px-3 sm:px-4 md:px-6">
         <div className="flex gap-4 flex-wrap items-center justify-end">
@@ -361,6 +382,17 @@ export function ReferenceModelStep({
             </button>
           </div>
 
+          {/* Brand Model Upload (Professional / Enterprise) */}
+          {canUseBrandModels(subscriptionTier) && (
+            <button
+              onClick={() => setIsUploadOpen(true)}
+              className="flex items-center gap-2 px-5 py-2 rounded-lg bg-[#f3f4f6] text-gray-600 font-medium text-sm hover:bg-gray-200 transition-colors"
+            >
+              <Plus size={16} />
+              <span>Brand Model</span>
+            </button>
+          )}
+
           {/* Filter Trigger Button */}
           <button
             onClick={() => setIsFilterOpen(true)}
@@ -419,6 +451,13 @@ export function ReferenceModelStep({
                     </div>
                   </div>
 
+                  {/* Brand Model Badge */}
+                  {model.owner_user_id && (
+                    <div className="absolute bottom-2 left-2 z-10 px-2 py-1 rounded-md bg-[#702dff] text-white text-[10px] font-semibold tracking-wide shadow">
+                      Brand
+                    </div>
+                  )}
+
                   {/* Selection Indicator */}
                   {isSelected && (
                     <div className="absolute top-2 right-2 bg-[#702dff] text-white p-1 rounded-full shadow-lg">
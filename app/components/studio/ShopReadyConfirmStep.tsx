@@ -1,7 +1,8 @@
 import { Camera, ChevronDown, Check, RectangleVertical, RectangleHorizontal, Square, Monitor } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
-
-const CREDITS_PER_GENERATION = 1000;
+import { usePipelineQuote } from "~/hooks/use-pipeline-quote";
+import type { PipelineRunRequest } from "~/lib/pipeline-client";
+import { PipelineQuoteSummary } from "./PipelineQuoteSummary";
 
 const ASPECT_RATIOS = [
   { id: "9:16", label: "Vertical", icon: RectangleVertical },
@@ -102,7 +103,8 @@ interface ShopReadyConfirmStepProps {
   previewUrl: string | null;
   selectedModelImage?: string;
   selectedBackgroundImage?: string;
-  onGenerate: () => void;
+  run: PipelineRunRequest | null; // The run Generate starts; null until it can be quoted
+  onGenerate: (quoteHash: string) => void;
   isGenerating?: boolean;
   aspectRatio: string;
   onAspectRatioChange: (ratio: string) => void;
@@ -115,6 +117,7 @@ export function ShopReadyConfirmStep({
   previewUrl,
   selectedModelImage,
   selectedBackgroundImage,
+  run,
   onGenerate,
   isGenerating = false,
   aspectRatio,
@@ -123,6 +126,9 @@ export function ShopReadyConfirmStep({
   generationCount,
   selectedAnglesData
 }: ShopReadyConfirmStepProps) {
+  // The run's authoritative quote; Generate charges exactly this
+  const { quote, error: quoteError, isLoading: isQuoting } = usePipelineQuote(run);
+  const canGenerate = !isGenerating && !!quote?.can_run;
 
   return (
     <div className="w-full lg:max-w-7xl space-y-4 sm:space-y-6 lg:space-y-8 pb-8 sm:pb-12 lg:pb-0">
@@ -225,24 +231,19 @@ export function ShopReadyConfirmStep({
                     {generationCount} images
                   </span>
                 </div>
-                <div className="flex justify-between items-center text-sm font-semibold">
-                  <span className="text-foreground">Total Cost</span>
-                  <span className="text-primary">
-                    {(generationCount) * CREDITS_PER_GENERATION} credits
-                  </span>
-                </div>
+                <PipelineQuoteSummary quote={quote} error={quoteError} isLoading={isQuoting} />
               </div>
             </div>
 
             {/* Generate Button */}
             <div className="pt-4 mt-2">
               <button
-                onClick={onGenerate}
-                disabled={isGenerating}
+                onClick={() => quote && onGenerate(quote.quote_hash)}
+                disabled={!canGenerate}
                 className={`
                   w-full py-4 px-6 rounded-lg font-bold text-white text-lg
                   transform transition-all duration-200
-                  ${isGenerating
+                  ${!canGenerate
                     ? 'bg-primary/50 cursor-not-allowed'
                     : 'bg-primary hover:bg-primary/90 hover:scale-[1.02] hover:shadow-lg shadow-md'
                   }
@@ -257,7 +258,7 @@ export function ShopReadyConfirmStep({
                   <div className="flex items-center justify-center gap-2">
                     <span>Generate Images</span>
                     <div className="bg-white/20 px-2 py-0.5 rounded text-sm">
-                      {(generationCount) * CREDITS_PER_GENERATION} c
+                      {quote ? quote.total_credits.toLocaleString() : "…"} c
                     </div>
                   </div>
                 )}
@@ -1,12 +1,24 @@
 import { useState, useCallback } from "react";
 import { Upload, X } from "lucide-react";
 import { GuidelinesSection } from "./GuidelinesSection";
+import { GARMENT_CATEGORIES, GARMENT_CATEGORY_LABELS, type GarmentCategory } from "../../lib/garment-fit";
+
+export type GarmentCategoryOption = "auto" | GarmentCategory;
+
+const GARMENT_CATEGORY_OPTIONS: Array<{ value: GarmentCategoryOption; label: string }> = [
+  { value: "auto", label: "Detect automatically" },
+  ...GARMENT_CATEGORIES.map(category => ({ value: category, label: GARMENT_CATEGORY_LABELS[category] })),
+];
 
 interface UploadStepProps {
   uploadedFile: File | null;
   previewUrl: string | null;
   onFileSelect: (file: File) => void;
   onRemoveFile: () => void;
+  preprocessGarment: boolean;
+  onPreprocessGarmentChange: (enabled: boolean) => void;
+  garmentCategory: GarmentCategoryOption;
+  onGarmentCategoryChange: (category: GarmentCategoryOption) => void;
 }
 
 export function UploadStep({
@@ -14,6 +26,10 @@ export function UploadStep({
   previewUrl,
   onFileSelect,
   onRemoveFile,
+  preprocessGarment,
+  onPreprocessGarmentChange,
+  garmentCategory,
+  onGarmentCategoryChange,
 }: UploadStepProps) {
   const [isDragging, setIsDragging] = useState(false);
 
@@ -114,6 +130,45 @@ export function UploadStep({
             )}
           </div>
 
+          {/* Garment Clean-up Options */}
+          {uploadedFile && (
+            <div className="max-w-md mx-auto w-full space-y-4 rounded-xl border border-border p-4">
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preprocessGarment}
+                  onChange={(e) => onPreprocessGarmentChange(e.target.checked)}
+                  className="mt-1"
+                  style={{ accentColor: "#702dff" }}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-foreground">Clean up garment photo</span>
+                  <span className="block text-xs text-muted-foreground">
+                    Crops to the garment, removes the background and straightens the photo before try-on. Works best for hanger and flat-lay shots.
+                  </span>
+                </span>
+              </label>
+
+              <div className="space-y-1">
+                <label htmlFor="garment-category" className="block text-sm font-medium text-foreground">
+                  Garment type
+                </label>
+                <select
+                  id="garment-category"
+                  value={garmentCategory}
+                  onChange={(e) => onGarmentCategoryChange(e.target.value as GarmentCategoryOption)}
+                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground"
+                >
+                  {GARMENT_CATEGORY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.value === "auto" && !preprocessGarment ? "Not specified" : option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* Upload Section */}
           {!uploadedFile && (
             <div className="text-center space-y-6">
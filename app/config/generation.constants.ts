@@ -0,0 +1,280 @@
+/**
+ * Generation Constants
+ * Shared configuration for the AI image generation pipeline
+ */
+
+// =============================================
+// IMAGE PROVIDERS
+// =============================================
+
+/**
+ * Capabilities an image provider can implement
+ */
+export const PROVIDER_CAPABILITIES = [
+  'tryon',
+  'studio',
+  'upscale',
+  'background-removal',
+] as const;
+
+export type ProviderCapability = typeof PROVIDER_CAPABILITIES[number];
+
+/**
+ * Default provider order per capability (first = primary, rest = fallbacks).
+ * Override per capability with IMAGE_PROVIDERS_<CAPABILITY>, e.g.
+ * IMAGE_PROVIDERS_TRYON="replicate,vertex", or force every capability
+ * onto one list with IMAGE_PROVIDERS="stub" for offline runs.
+ */
+export const DEFAULT_PROVIDER_PRIORITY: Record<ProviderCapability, string[]> = {
+  tryon: ['vertex', 'replicate'],
+  studio: ['vertex'],
+  upscale: ['replicate'],
+  'background-removal': ['replicate'],
+};
+
+/**
+ * Attempts per provider before falling back to the next one
+ */
+export const PROVIDER_RETRY_POLICY: Record<string, { attempts: number; delayMs: number }> = {
+  vertex: { attempts: 4, delayMs: 2000 }, // 1 initial call + 3 retries
+  replicate: { attempts: 1, delayMs: 0 },
+  stub: { attempts: 1, delayMs: 0 },
+};
+
+// =============================================
+// PIPELINE JOB QUEUE
+// =============================================
+
+/**
+ * Durable queue settings for pipeline executions.
+ * A worker holds a lease on a job and must heartbeat before it expires;
+ * the reaper re-queues expired leases until maxAttempts, then fails and refunds.
+ */
+export const PIPELINE_QUEUE = {
+  leaseMs: 90_000,
+  heartbeatMs: 20_000,
+  pollIntervalMs: 2_000,
+  reaperIntervalMs: 30_000,
+  maxAttempts: 3,
+  workerConcurrency: 4, // Jobs processed in parallel per worker process
+  workerTtlMs: 90_000, // A worker that hasn't checked in for this long no longer counts toward queue capacity
+  estimatedExecutionMs: 120_000, // Typical execution duration, used for queue ETAs
+};
+
+// =============================================
+// CONCURRENCY & RATE LIMITS
+// =============================================
+
+export interface TierConcurrencyLimit {
+  maxRunningExecutions: number; // Executions a shop can have processing at once; the rest wait in the queue
+  maxInFlightPoses: number; // Poses a shop can have generating at once across its executions
+  dailyExecutions: number;
+}
+
+export const TIER_CONCURRENCY_LIMITS: Record<string, TierConcurrencyLimit> = {
+  free: { maxRunningExecutions: 1, maxInFlightPoses: 2, dailyExecutions: 20 },
+  creator: { maxRunningExecutions: 2, maxInFlightPoses: 4, dailyExecutions: 50 },
+  professional: { maxRunningExecutions: 3, maxInFlightPoses: 6, dailyExecutions: 100 },
+  enterprise: { maxRunningExecutions: 5, maxInFlightPoses: 10, dailyExecutions: 250 },
+};
+
+export function getTierConcurrencyLimit(tier?: string): TierConcurrencyLimit {
+  return TIER_CONCURRENCY_LIMITS[tier || 'free'] || TIER_CONCURRENCY_LIMITS.free;
+}
+
+/**
+ * Per-shop pose slots (maxInFlightPoses), shared by every worker process.
+ * A slot is leased while its pose generates, so a dead worker's slots free up.
+ */
+export const POSE_SLOTS = {
+  leaseMs: 120_000,
+  heartbeatMs: 30_000,
+  pollIntervalMs: 1_000, // How often a pose waiting for a slot tries again
+};
+
+/**
+ * Token bucket per provider, shared by every worker process.
+ * Calls wait for a token instead of hitting provider quotas and cascading into retries.
+ */
+export const PROVIDER_RATE_LIMITS: Record<string, { capacity: number; refillPerMinute: number }> = {
+  vertex: { capacity: 10, refillPerMinute: 60 },
+  replicate: { capacity: 20, refillPerMinute: 120 },
+};
+
+// =============================================
+// PROGRESS EVENT STREAM (SSE)
+// =============================================
+
+export const PIPELINE_EVENT_STREAM = {
+  pollIntervalMs: 1_000, // How often the stream checks for new events
+  keepAliveMs: 15_000, // Comment ping so proxies don't close idle streams
+  maxDurationMs: 5 * 60_000, // Streams end after this; clients reconnect with Last-Event-ID
+  reconnectDelayMs: 3_000, // retry: hint sent to clients
+};
+
+// =============================================
+// CATALOG BATCHES
+// =============================================
+
+export const CATALOG_BATCH = {
+  maxProducts: 200, // Products per batch
+  maxActiveItemsPerBatch: 3, // Items queued or running at once, so a batch doesn't starve one-off generations
+  dispatchIntervalMs: 10_000, // How often the worker starts pending batch products
+};
+
+// =============================================
+// RESULT CACHE
+// =============================================
+
+/**
+ * Content-addressed cache of finished poses. Identical requests reuse the
+ * stored image instead of calling the providers again.
+ */
+export const RESULT_CACHE = {
+  maxAgeDays: 30, // Older entries are ignored and regenerated
+};
+
+// =============================================
+// STORAGE RETENTION
+// =============================================
+
+/**
+ * Lifecycle of stored images (see storage-lifecycle.service).
+ * Intermediate step images (try-on before watermark/upscale, studio step
+ * output) are deleted after the tier's window; final images, uploads and
+ * edits are kept while a row still references them.
+ */
+export const STORAGE_RETENTION = {
+  intermediateDays: {
+    free: 7,
+    creator: 30,
+    professional: 90,
+    enterprise: 180,
+  } as Record<string, number>,
+  orphanGraceHours: 24, // Unreferenced objects younger than this are left alone (runs still in flight)
+  sweepIntervalMs: 60 * 60_000,
+  sweepBatchSize: 200,
+};
+
+// =============================================
+// GARMENT PRE-PROCESSING
+// =============================================
+
+/**
+ * Optional clean-up of the clothing photo before try-on
+ * (see garment-preprocessing.service)
+ */
+export const GARMENT_PREP = {
+  maxDimension: 1536, // Longest side of the cleaned garment, px
+  aspectRatio: 3 / 4, // Width / height of the padded canvas - matches try-on output
+  paddingPercent: 6, // Margin around the cropped garment
+  trimThreshold: 12, // Colour distance sharp.trim() treats as background when no alpha is available
+  maxIdleDays: 90, // Cleaned garments unused for this long are removed by the storage sweep
+};
+
+// =============================================
+// BRAND MODELS
+// =============================================
+
+/**
+ * Private models a shop uploads from its own photos
+ * (see brand-models.service)
+ */
+export const BRAND_MODELS = {
+  maxModels: {
+    professional: 5,
+    enterprise: 25,
+  } as Record<string, number>, // Active brand models per shop
+  maxPosesPerModel: 12,
+  maxImageMb: 10,
+  allowedContentTypes: ['image/jpeg', 'image/png', 'image/webp'],
+};
+
+// =============================================
+// WATERMARKS
+// =============================================
+
+/**
+ * Watermark profiles (see watermark.service). Free shops always get the
+ * Trayve mark; paid shops can overlay their own logo or text.
+ */
+export const WATERMARK = {
+  opacity: { min: 0.05, max: 1 },
+  scale: { min: 0.05, max: 0.6 }, // Width of the mark relative to the image width
+  marginPercent: 3, // Gap between the mark and the image edge, % of the shorter side
+  tileGapPercent: 60, // Space between tiled marks, % of the mark's size
+  maxTextLength: 40,
+  maxLogoMb: 2,
+  maxProfiles: 10, // Profiles per shop
+  previewSize: { width: 768, height: 1024 }, // Canvas used when no preview image is given
+};
+
+// =============================================
+// PROMPT TEMPLATES
+// =============================================
+
+/**
+ * Versioned generation prompts (see prompt-template.service)
+ */
+export const PROMPT_TEMPLATES = {
+  cacheMs: 60_000, // How long a worker keeps using the active version before re-reading it
+  maxBodyLength: 4000,
+  maxNotesLength: 500,
+};
+
+// =============================================
+// EXPERIMENTS
+// =============================================
+
+/**
+ * A/B experiments on pipeline runs (see experiment.service)
+ */
+export const EXPERIMENTS = {
+  minVariants: 2,
+  maxVariants: 4,
+  aspectRatios: ['1:1', '3:4', '4:5', '2:3', '9:16'],
+};
+
+// =============================================
+// PROJECT LIST
+// =============================================
+
+/**
+ * Paginated project search (see projects.service)
+ */
+export const PROJECT_LIST = {
+  defaultPageSize: 24,
+  maxPageSize: 60,
+  maxSearchLength: 100,
+};
+
+// =============================================
+// RESULT FEEDBACK
+// =============================================
+
+export type RejectionReason = 'bad_hands' | 'garment_distortion' | 'face_changed' | 'wrong_color';
+
+/**
+ * Favorites, star ratings and rejection reasons on results (see feedback.service)
+ */
+export const RESULT_FEEDBACK = {
+  maxRating: 5,
+  rejectionReasons: {
+    bad_hands: 'Bad hands',
+    garment_distortion: 'Garment distortion',
+    face_changed: 'Face changed',
+    wrong_color: 'Wrong color',
+  } as Record<RejectionReason, string>,
+};
+
+// =============================================
+// REGENERATION
+// =============================================
+
+/**
+ * Single-result regenerations (see regeneration.service)
+ */
+export const REGENERATION = {
+  maxSeed: 4294967295, // Seeds are unsigned 32-bit integers
+  maxPromptOverrideLength: 500,
+};
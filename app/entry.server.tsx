@@ -7,9 +7,13 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./config/shopify.server";
+import { startPipelineWorker } from "./lib/services/pipeline-worker.service";
 
 export const streamTimeout = 5000;
 
+// Process queued pipeline executions in this server process
+startPipelineWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
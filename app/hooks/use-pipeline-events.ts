@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Live pipeline progress for a project over Server-Sent Events.
+ *
+ * Reads /api/pipeline/events/:projectId with fetch (not EventSource) so the
+ * embedded app's session token is attached, tracks the last event ID and
+ * resumes from it on reconnect. After repeated failures the hook reports
+ * `fallback` so the caller can poll instead.
+ */
+
+export type PipelineStreamStatus = "idle" | "connecting" | "streaming" | "done" | "fallback";
+
+export interface PipelineStreamEvent {
+  id: number;
+  event_type: string;
+  execution_id: string;
+  result_id?: string;
+  pose_id?: string;
+  step_type?: string;
+  image_url?: string;
+  payload?: Record<string, any>;
+  created_at: string;
+}
+
+const MAX_CONSECUTIVE_FAILURES = 3;
+const DEFAULT_RETRY_MS = 3000;
+
+interface ParsedMessage {
+  id?: string;
+  event: string;
+  data: string;
+  retry?: number;
+}
+
+function parseMessage(block: string): ParsedMessage | null {
+  const message: ParsedMessage = { event: "message", data: "" };
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "id") message.id = value;
+    else if (field === "event") message.event = value;
+    else if (field === "data") dataLines.push(value);
+    else if (field === "retry") message.retry = Number.parseInt(value, 10);
+  }
+
+  message.data = dataLines.join("\n");
+  return message.id || message.data || message.retry ? message : null;
+}
+
+export function usePipelineEvents(
+  projectId: string | undefined,
+  enabled: boolean,
+  onEvent: (event: PipelineStreamEvent) => void
+): PipelineStreamStatus {
+  const [status, setStatus] = useState<PipelineStreamStatus>("idle");
+  const lastEventIdRef = useRef<string | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!projectId || !enabled) {
+      setStatus("idle");
+      return;
+    }
+
+    const abortController = new AbortController();
+    let failures = 0;
+    let retryMs = DEFAULT_RETRY_MS;
+
+    const connect = async (): Promise<boolean> => {
+      setStatus("connecting");
+
+      const headers: Record<string, string> = { Accept: "text/event-stream" };
+      if (lastEventIdRef.current) {
+        headers["Last-Event-ID"] = lastEventIdRef.current;
+      }
+
+      const response = await fetch(`/api/pipeline/events/${projectId}`, {
+        headers,
+        signal: abortController.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with status ${response.status}`);
+      }
+
+      setStatus("streaming");
+      failures = 0;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return false;
+
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() || "";
+
+        for (const block of blocks) {
+          const message = parseMessage(block);
+          if (!message) continue;
+
+          if (message.retry) retryMs = message.retry;
+          if (message.id) lastEventIdRef.current = message.id;
+          if (message.event === "done") return true;
+          if (message.event === "error" || !message.data) continue;
+
+          try {
+            onEventRef.current(JSON.parse(message.data));
+          } catch (error) {
+            console.error("Failed to handle pipeline event:", error);
+          }
+        }
+      }
+    };
+
+    const run = async () => {
+      while (!abortController.signal.aborted) {
+        try {
+          const finished = await connect();
+          if (finished) {
+            setStatus("done");
+            return;
+          }
+        } catch (error) {
+          if (abortController.signal.aborted) return;
+          failures++;
+          console.warn(`Pipeline event stream error (${failures}/${MAX_CONSECUTIVE_FAILURES}):`, error);
+          if (failures >= MAX_CONSECUTIVE_FAILURES) {
+            setStatus("fallback");
+            return;
+          }
+        }
+
+        // Stream ended early (server time limit or network) - resume from the last event
+        const delayMs = retryMs;
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    };
+
+    run();
+
+    return () => abortController.abort();
+  }, [projectId, enabled]);
+
+  return status;
+}
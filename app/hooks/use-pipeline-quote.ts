@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { quotePipelineRun, type PipelineRunRequest } from "~/lib/pipeline-client";
+import type { PipelineQuote } from "~/lib/services/pipeline-quote.service";
+
+/**
+ * Authoritative quote (/api/pipeline/quote) for the run the shop is about to start.
+ * Re-quotes when the run changes; pass null while the run isn't ready to quote.
+ * Start the run with the returned quote's hash so the shop pays what it was shown.
+ */
+export function usePipelineQuote(
+  run: PipelineRunRequest | null
+): { quote: PipelineQuote | null; error: string | null; isLoading: boolean } {
+  const [quote, setQuote] = useState<PipelineQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Compared by value, so a re-rendered but identical run isn't quoted again
+  const runKey = run ? JSON.stringify(run) : null;
+
+  useEffect(() => {
+    setQuote(null);
+    setError(null);
+    if (!runKey) return;
+
+    const abortController = new AbortController();
+
+    setIsLoading(true);
+    quotePipelineRun(JSON.parse(runKey), abortController.signal)
+      .then(setQuote)
+      .catch(quoteError => {
+        if (abortController.signal.aborted) return;
+        console.error("Failed to fetch pipeline quote:", quoteError);
+        setError(quoteError.message);
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setIsLoading(false);
+      });
+
+    return () => abortController.abort();
+  }, [runKey]);
+
+  return { quote, error, isLoading };
+}
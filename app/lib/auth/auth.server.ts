@@ -218,3 +218,15 @@ export async function updateShopifyUserMetadata(
 
   console.log(`✅ Updated metadata for user: ${userId}`);
 }
+
+/**
+ * Whether a shop may manage platform-wide settings (prompt templates,
+ * experiments). Listed in PLATFORM_ADMIN_SHOPS, comma-separated.
+ */
+export function isPlatformAdminShop(shopDomain: string): boolean {
+  const shops = (process.env.PLATFORM_ADMIN_SHOPS || "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return shops.includes(shopDomain);
+}
@@ -272,21 +272,6 @@ export async function getCreditTransactions(
   return data || [];
 }
 
-/**
- * Credit costs (same as main Trayve app)
- */
-export const CREDIT_COSTS = {
-  AI_GENERATION: 1000, // 1000 credits per generation
-  IMAGE_VARIATION: 1000,
-  STYLE_TRANSFER: 1000,
-  HIGH_RES_GENERATION: 1000,
-  BULK_GENERATION: 1000, // Per image
-  UPSCALE: 1000,
-  BACKGROUND_CHANGE: 1000,
-} as const;
-
-export type CreditFeature = keyof typeof CREDIT_COSTS;
-
 /**
  * Middleware-style function to check and consume credits
  */
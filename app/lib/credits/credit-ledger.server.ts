@@ -0,0 +1,534 @@
+/**
+ * Credit Ledger
+ * Reserve → capture/release accounting for paid operations.
+ *
+ * A hold takes credits out of the available balance up front so concurrent
+ * requests can't overspend. Work that succeeds is captured against the hold
+ * (possibly in several partial captures, e.g. one per pose); whatever is not
+ * captured is released back to the balance. Every operation carries an
+ * idempotency key, so retries and resumed jobs never charge or refund twice.
+ *
+ * credit_holds columns:
+ *   id, user_id, idempotency_key (unique), amount, captured_amount,
+ *   released_amount, status ('pending' | 'held' | 'settled'),
+ *   feature_type, reference_id, description, created_at, updated_at, settled_at
+ *
+ * credit_transactions additions:
+ *   transaction_type also accepts 'hold' | 'capture' | 'release',
+ *   hold_id, idempotency_key (unique when set),
+ *   reference_id (the record a capture/release is for, e.g. a generation_results row)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type CreditHoldStatus = "pending" | "held" | "settled";
+
+export interface CreditHold {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  amount: number;
+  captured_amount: number;
+  released_amount: number;
+  status: CreditHoldStatus;
+  feature_type: string;
+  reference_id: string | null;
+  description: string;
+  created_at: string;
+  updated_at: string;
+  settled_at: string | null;
+}
+
+export interface ReserveCreditsInput {
+  user_id: string;
+  amount: number;
+  idempotency_key: string;
+  description: string;
+  feature_type: string;
+  reference_id?: string;
+}
+
+/**
+ * Record a capture or release is linked to (reference_type/reference_id on the transaction)
+ */
+export interface LedgerReference {
+  type: string;
+  id: string;
+}
+
+export interface CreditLedgerResult {
+  success: boolean;
+  hold?: CreditHold;
+  amount?: number; // Credits actually held, captured or released by this call
+  duplicate?: boolean; // The idempotency key was already used; nothing changed
+  remainingBalance?: number;
+  error?: string;
+}
+
+const MAX_WRITE_ATTEMPTS = 5;
+const UNIQUE_VIOLATION = "23505";
+
+// =============================================
+// HELPERS
+// =============================================
+
+/**
+ * Remaining credits on a hold that are neither captured nor released
+ */
+export function getHoldRemaining(hold: Pick<CreditHold, "amount" | "captured_amount" | "released_amount">): number {
+  return hold.amount - hold.captured_amount - hold.released_amount;
+}
+
+/**
+ * Move credits between available and used with an optimistic guard on
+ * used_credits, retrying when another request changed the balance first
+ */
+async function adjustUsedCredits(
+  userId: string,
+  delta: number,
+  requireAvailable: boolean
+): Promise<{ success: boolean; balanceBefore?: number; balanceAfter?: number; error?: string }> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const { data: credits, error: fetchError } = await supabaseAdmin
+      .from("user_credits")
+      .select("total_credits, used_credits")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (fetchError || !credits) {
+      return { success: false, error: "User credits not found" };
+    }
+
+    const usedCredits = credits.used_credits || 0;
+    const balanceBefore = (credits.total_credits || 0) - usedCredits;
+
+    if (requireAvailable && balanceBefore < delta) {
+      return { success: false, balanceBefore, error: "Insufficient credits" };
+    }
+
+    const { data: updated } = await supabaseAdmin
+      .from("user_credits")
+      .update({
+        used_credits: Math.max(0, usedCredits + delta),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", userId)
+      .eq("used_credits", usedCredits)
+      .select("user_id")
+      .maybeSingle();
+
+    if (updated) {
+      return { success: true, balanceBefore, balanceAfter: balanceBefore - delta };
+    }
+  }
+
+  return { success: false, error: "Credit balance is busy, please retry" };
+}
+
+/**
+ * Add captured/released credits to a hold, guarded on the current totals.
+ * A null amount takes everything that is left on the hold.
+ */
+async function applyToHold(
+  holdId: string,
+  field: "captured_amount" | "released_amount",
+  amount: number | null
+): Promise<{ success: boolean; hold?: CreditHold; applied?: number; error?: string }> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const hold = await getCreditHold(holdId);
+    if (!hold) {
+      return { success: false, error: "Credit hold not found" };
+    }
+
+    if (hold.status !== "held") {
+      return { success: false, hold, error: `Credit hold is ${hold.status}` };
+    }
+
+    const remaining = getHoldRemaining(hold);
+    const applied = amount === null ? remaining : amount;
+
+    if (applied < 0 || applied > remaining) {
+      return { success: false, hold, error: `Only ${remaining} credits left on hold` };
+    }
+
+    const now = new Date().toISOString();
+    const settled = remaining - applied === 0;
+
+    const { data: updated } = await supabaseAdmin
+      .from("credit_holds")
+      .update({
+        [field]: hold[field] + applied,
+        status: settled ? "settled" : "held",
+        settled_at: settled ? now : null,
+        updated_at: now,
+      })
+      .eq("id", holdId)
+      .eq("captured_amount", hold.captured_amount)
+      .eq("released_amount", hold.released_amount)
+      .select()
+      .maybeSingle();
+
+    if (updated) {
+      return { success: true, hold: updated as CreditHold, applied };
+    }
+  }
+
+  return { success: false, error: "Credit hold is busy, please retry" };
+}
+
+/**
+ * Claim an idempotency key by inserting its ledger row.
+ * Returns false when the key was already used.
+ */
+async function claimLedgerEntry(entry: {
+  user_id: string;
+  transaction_type: "hold" | "capture" | "release";
+  hold_id: string;
+  idempotency_key: string;
+  description: string;
+  reference_type: string;
+  reference_id?: string;
+}): Promise<{ claimed: boolean; id?: string; error?: string }> {
+  const { data, error } = await supabaseAdmin
+    .from("credit_transactions")
+    .insert({
+      ...entry,
+      amount: 0, // Filled in once the operation is applied
+      created_at: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return { claimed: false };
+    console.error("Error recording credit ledger entry:", error);
+    return { claimed: false, error: error.message || "Failed to record credit transaction" };
+  }
+
+  return { claimed: true, id: data.id };
+}
+
+async function completeLedgerEntry(
+  entryId: string,
+  amount: number,
+  balanceBefore?: number,
+  balanceAfter?: number
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("credit_transactions")
+    .update({ amount, balance_before: balanceBefore, balance_after: balanceAfter })
+    .eq("id", entryId);
+
+  if (error) {
+    console.error(`Error completing credit ledger entry ${entryId}:`, error);
+  }
+}
+
+async function discardLedgerEntry(entryId: string): Promise<void> {
+  await supabaseAdmin.from("credit_transactions").delete().eq("id", entryId);
+}
+
+// =============================================
+// HOLD LOOKUP
+// =============================================
+
+export async function getCreditHold(holdId: string): Promise<CreditHold | null> {
+  const { data, error } = await supabaseAdmin
+    .from("credit_holds")
+    .select("*")
+    .eq("id", holdId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching credit hold ${holdId}:`, error);
+    return null;
+  }
+
+  return data as CreditHold | null;
+}
+
+export async function getCreditHoldByKey(idempotencyKey: string): Promise<CreditHold | null> {
+  const { data, error } = await supabaseAdmin
+    .from("credit_holds")
+    .select("*")
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching credit hold ${idempotencyKey}:`, error);
+    return null;
+  }
+
+  return data as CreditHold | null;
+}
+
+/**
+ * Credits released back for specific records (e.g. refunds for failed poses),
+ * keyed by reference_id
+ */
+export async function getRefundsByReference(
+  userId: string,
+  referenceType: string,
+  referenceIds: string[]
+): Promise<Record<string, { amount: number; created_at: string }>> {
+  if (referenceIds.length === 0) return {};
+
+  const { data, error } = await supabaseAdmin
+    .from("credit_transactions")
+    .select("reference_id, amount, created_at")
+    .eq("user_id", userId)
+    .eq("transaction_type", "release")
+    .eq("reference_type", referenceType)
+    .in("reference_id", referenceIds)
+    .gt("amount", 0);
+
+  if (error) {
+    console.error(`Error fetching ${referenceType} refunds:`, error);
+    return {};
+  }
+
+  const refunds: Record<string, { amount: number; created_at: string }> = {};
+  for (const row of data || []) {
+    const existing = refunds[row.reference_id];
+    refunds[row.reference_id] = {
+      amount: (existing?.amount || 0) + row.amount,
+      created_at: existing?.created_at || row.created_at,
+    };
+  }
+  return refunds;
+}
+
+/**
+ * Credits currently on hold for a user (reserved but not yet captured or released)
+ */
+export async function getHeldCredits(userId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("credit_holds")
+    .select("amount, captured_amount, released_amount")
+    .eq("user_id", userId)
+    .eq("status", "held");
+
+  if (error) {
+    console.error("Error fetching credit holds:", error);
+    return 0;
+  }
+
+  return (data || []).reduce((sum, hold) => sum + getHoldRemaining(hold), 0);
+}
+
+// =============================================
+// RESERVE / CAPTURE / RELEASE
+// =============================================
+
+/**
+ * Reserve credits for an operation. Reusing an idempotency key returns the
+ * existing hold instead of reserving again.
+ */
+export async function reserveCredits(input: ReserveCreditsInput): Promise<CreditLedgerResult> {
+  const { user_id, amount, idempotency_key } = input;
+
+  if (amount <= 0) {
+    return { success: false, error: "Amount must be positive" };
+  }
+
+  const existing = await getCreditHoldByKey(idempotency_key);
+  if (existing) {
+    return existing.status === "pending"
+      ? { success: false, error: "Credit reservation already in progress" }
+      : { success: true, hold: existing, amount: 0, duplicate: true };
+  }
+
+  const now = new Date().toISOString();
+  const { data: hold, error: holdError } = await supabaseAdmin
+    .from("credit_holds")
+    .insert({
+      user_id,
+      idempotency_key,
+      amount,
+      captured_amount: 0,
+      released_amount: 0,
+      status: "pending",
+      feature_type: input.feature_type,
+      reference_id: input.reference_id || null,
+      description: input.description,
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (holdError || !hold) {
+    if (holdError?.code === UNIQUE_VIOLATION) {
+      const concurrent = await getCreditHoldByKey(idempotency_key);
+      return { success: true, hold: concurrent || undefined, amount: 0, duplicate: true };
+    }
+    console.error("Error creating credit hold:", holdError);
+    return { success: false, error: "Failed to reserve credits" };
+  }
+
+  const balance = await adjustUsedCredits(user_id, amount, true);
+  if (!balance.success) {
+    await supabaseAdmin.from("credit_holds").delete().eq("id", hold.id);
+    return { success: false, error: balance.error, remainingBalance: balance.balanceBefore };
+  }
+
+  const { data: activeHold } = await supabaseAdmin
+    .from("credit_holds")
+    .update({ status: "held", updated_at: new Date().toISOString() })
+    .eq("id", hold.id)
+    .select()
+    .single();
+
+  const entry = await claimLedgerEntry({
+    user_id,
+    transaction_type: "hold",
+    hold_id: hold.id,
+    idempotency_key,
+    description: input.description,
+    reference_type: input.feature_type,
+  });
+  if (entry.id) {
+    await completeLedgerEntry(entry.id, -amount, balance.balanceBefore, balance.balanceAfter);
+  }
+
+  console.log(`🔒 Held ${amount} credits for ${user_id} (${idempotency_key})`);
+
+  return {
+    success: true,
+    hold: (activeHold || { ...hold, status: "held" }) as CreditHold,
+    amount,
+    remainingBalance: balance.balanceAfter,
+  };
+}
+
+/**
+ * Capture part of a hold for work that succeeded. The credits were already
+ * taken from the balance when reserved, so this only changes the hold.
+ */
+export async function captureCredits(
+  holdId: string,
+  amount: number,
+  idempotencyKey: string,
+  description: string,
+  reference?: LedgerReference
+): Promise<CreditLedgerResult> {
+  const hold = await getCreditHold(holdId);
+  if (!hold) {
+    return { success: false, error: "Credit hold not found" };
+  }
+
+  const entry = await claimLedgerEntry({
+    user_id: hold.user_id,
+    transaction_type: "capture",
+    hold_id: holdId,
+    idempotency_key: idempotencyKey,
+    description,
+    reference_type: reference?.type || hold.feature_type,
+    reference_id: reference?.id,
+  });
+
+  if (!entry.claimed) {
+    return entry.error
+      ? { success: false, error: entry.error }
+      : { success: true, hold, amount: 0, duplicate: true };
+  }
+
+  const applied = await applyToHold(holdId, "captured_amount", amount);
+  if (!applied.success) {
+    await discardLedgerEntry(entry.id!);
+    return { success: false, hold: applied.hold, error: applied.error };
+  }
+
+  await completeLedgerEntry(entry.id!, -amount);
+  return { success: true, hold: applied.hold, amount };
+}
+
+/**
+ * Return uncaptured credits to the balance. A null amount releases everything
+ * left on the hold and settles it.
+ */
+export async function releaseCredits(
+  holdId: string,
+  amount: number | null,
+  idempotencyKey: string,
+  reason: string,
+  reference?: LedgerReference
+): Promise<CreditLedgerResult> {
+  const hold = await getCreditHold(holdId);
+  if (!hold) {
+    return { success: false, error: "Credit hold not found" };
+  }
+
+  if (hold.status === "settled" || (amount === null && getHoldRemaining(hold) === 0)) {
+    return { success: true, hold, amount: 0 };
+  }
+
+  const entry = await claimLedgerEntry({
+    user_id: hold.user_id,
+    transaction_type: "release",
+    hold_id: holdId,
+    idempotency_key: idempotencyKey,
+    description: reason,
+    reference_type: reference?.type || hold.feature_type,
+    reference_id: reference?.id,
+  });
+
+  if (!entry.claimed) {
+    return entry.error
+      ? { success: false, error: entry.error }
+      : { success: true, hold, amount: 0, duplicate: true };
+  }
+
+  const applied = await applyToHold(holdId, "released_amount", amount === null ? null : Math.min(amount, getHoldRemaining(hold)));
+  if (!applied.success || !applied.applied) {
+    await discardLedgerEntry(entry.id!);
+    return applied.success
+      ? { success: true, hold: applied.hold, amount: 0 }
+      : { success: false, hold: applied.hold, error: applied.error };
+  }
+
+  const balance = await adjustUsedCredits(hold.user_id, -applied.applied, false);
+  if (!balance.success) {
+    console.error(`❌ Released ${applied.applied} credits on hold ${holdId} but failed to update balance:`, balance.error);
+  }
+
+  await completeLedgerEntry(entry.id!, applied.applied, balance.balanceBefore, balance.balanceAfter);
+  console.log(`🔓 Released ${applied.applied} credits from hold ${holdId}: ${reason}`);
+
+  return { success: true, hold: applied.hold, amount: applied.applied, remainingBalance: balance.balanceAfter };
+}
+
+/**
+ * Reserve credits, run an operation, then capture on success or release on failure
+ */
+export async function withCreditHold<T>(
+  input: ReserveCreditsInput,
+  operation: () => Promise<T>
+): Promise<{ result: T; hold: CreditHold }> {
+  const reservation = await reserveCredits(input);
+  if (!reservation.success || !reservation.hold) {
+    const error = new Error(reservation.error || "Failed to reserve credits");
+    if (reservation.error === "Insufficient credits") {
+      (error as any).status = 402;
+    }
+    throw error;
+  }
+
+  const hold = reservation.hold;
+  if (reservation.duplicate && hold.status !== "held") {
+    throw new Error("This operation was already processed");
+  }
+
+  try {
+    const result = await operation();
+    await captureCredits(hold.id, input.amount, `${input.idempotency_key}:capture`, input.description);
+    return { result, hold };
+  } catch (error) {
+    await releaseCredits(hold.id, null, `${input.idempotency_key}:release`, `Refund: ${input.description} failed`);
+    throw error;
+  }
+}
@@ -3,7 +3,9 @@
  * Manages credits for Shopify users (same tables as main Trayve app)
  */
 
+import { randomUUID } from "crypto";
 import { supabaseAdmin } from "../storage/supabase.server";
+import { withCreditHold } from "./credit-ledger.server";
 
 export interface CreditBalance {
   user_id: string;
@@ -19,10 +21,15 @@ export interface CreditBalance {
 export interface CreditTransaction {
   id: string;
   user_id: string;
-  transaction_type: "purchase" | "usage" | "refund" | "bonus" | "adjustment";
+  transaction_type: "purchase" | "usage" | "refund" | "bonus" | "adjustment" | "hold" | "capture" | "release";
   amount: number;
+  balance_before?: number;
+  balance_after?: number;
   description: string;
   feature_type: string;
+  reference_type?: string;
+  reference_id?: string | null;
+  hold_id?: string | null;
   created_at: string;
 }
 
@@ -273,22 +280,8 @@ export async function getCreditTransactions(
 }
 
 /**
- * Credit costs (same as main Trayve app)
- */
-export const CREDIT_COSTS = {
-  AI_GENERATION: 1000, // 1000 credits per generation
-  IMAGE_VARIATION: 1000,
-  STYLE_TRANSFER: 1000,
-  HIGH_RES_GENERATION: 1000,
-  BULK_GENERATION: 1000, // Per image
-  UPSCALE: 1000,
-  BACKGROUND_CHANGE: 1000,
-} as const;
-
-export type CreditFeature = keyof typeof CREDIT_COSTS;
-
-/**
- * Middleware-style function to check and consume credits
+ * Middleware-style wrapper: hold credits, run the operation,
+ * capture on success and release on failure
  */
 export async function withCreditsCheck<T>(
   userId: string,
@@ -296,37 +289,22 @@ export async function withCreditsCheck<T>(
   operation: () => Promise<T>,
   featureType: string = "ai_generation"
 ): Promise<{ result: T; creditsConsumed: number; remainingCredits: number }> {
-  // Check if user has sufficient credits
-  const hasSufficient = await hasSufficientCredits(userId, requiredCredits);
-
-  if (!hasSufficient) {
-    throw new Error(
-      "Insufficient credits. Please purchase more credits to continue."
-    );
-  }
-
-  // Execute the operation
-  const result = await operation();
-
-  // Consume credits after successful operation
-  const creditUsage = await consumeUserCredits(
-    userId,
-    requiredCredits,
-    "AI generation completed",
-    featureType
+  const { result } = await withCreditHold(
+    {
+      user_id: userId,
+      amount: requiredCredits,
+      idempotency_key: `${featureType}:${randomUUID()}`,
+      description: "AI generation",
+      feature_type: featureType,
+    },
+    operation
   );
 
-  if (!creditUsage.success) {
-    console.error(
-      "Failed to consume credits after successful operation:",
-      creditUsage.error
-    );
-    // Log for manual adjustment but don't fail the operation
-  }
+  const balance = await getUserCreditBalance(userId);
 
   return {
     result,
-    creditsConsumed: creditUsage.success ? requiredCredits : 0,
-    remainingCredits: creditUsage.remainingBalance || 0,
+    creditsConsumed: requiredCredits,
+    remainingCredits: balance?.available_credits || 0,
   };
 }
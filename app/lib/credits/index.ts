@@ -1,2 +1,3 @@
 // Re-export credits functions
 export * from "./credits.server";
+export * from "./credit-ledger.server";
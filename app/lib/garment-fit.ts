@@ -0,0 +1,124 @@
+/**
+ * Garment fit helpers (shared by the studio and the server)
+ *
+ * Ranks poses and angles for a garment category and flags selections that
+ * would crop the garment out of frame (e.g. an upper-body pose for trousers).
+ */
+
+export type GarmentCategory = "top" | "bottom" | "full" | "dress";
+
+export const GARMENT_CATEGORIES: GarmentCategory[] = ["top", "bottom", "full", "dress"];
+
+export const GARMENT_CATEGORY_LABELS: Record<GarmentCategory, string> = {
+  top: "Top",
+  bottom: "Bottom",
+  full: "Full body (jumpsuit, set)",
+  dress: "Dress",
+};
+
+export type PoseType = "front" | "side" | "three-quarter" | "back" | "dynamic" | "seated";
+
+// Part of the body a pose or angle shows
+export type Framing = "top" | "bottom" | "full";
+
+export interface FitAssessment {
+  score: number; // Higher is a better match
+  warning?: string; // Set when the garment will be cropped or hidden
+}
+
+export function isGarmentCategory(value: unknown): value is GarmentCategory {
+  return typeof value === "string" && (GARMENT_CATEGORIES as string[]).includes(value);
+}
+
+// =============================================
+// SCORING TABLES
+// =============================================
+
+// How well each pose type shows a category (0 = poorly, 3 = best)
+const POSE_TYPE_SCORES: Record<GarmentCategory, Record<PoseType, number>> = {
+  top: { front: 3, "three-quarter": 3, side: 2, dynamic: 2, seated: 2, back: 1 },
+  bottom: { front: 3, side: 3, "three-quarter": 3, back: 2, dynamic: 2, seated: 0 },
+  full: { front: 3, "three-quarter": 3, side: 2, dynamic: 2, back: 2, seated: 1 },
+  dress: { front: 3, "three-quarter": 3, side: 3, dynamic: 3, back: 2, seated: 1 },
+};
+
+// Framings that keep the whole garment in shot
+const FRAMINGS_SHOWING: Record<GarmentCategory, Framing[]> = {
+  top: ["top", "full"],
+  bottom: ["bottom", "full"],
+  full: ["full"],
+  dress: ["full"],
+};
+
+const FRAMING_LABELS: Record<Framing, string> = {
+  top: "upper-body",
+  bottom: "lower-body",
+  full: "full-body",
+};
+
+const UPPER_BODY_KEYWORDS = /\b(upper|half|waist[- ]?up|bust|portrait|close[- ]?up|headshot|torso)\b/i;
+const LOWER_BODY_KEYWORDS = /\b(lower|legs?|waist[- ]?down|bottoms?)\b/i;
+
+// =============================================
+// ASSESSMENT
+// =============================================
+
+/**
+ * Framing of a pose, read from its name and description (poses don't store it)
+ */
+export function getPoseFraming(pose: { name?: string; description?: string }): Framing {
+  const text = `${pose.name || ""} ${pose.description || ""}`;
+  if (UPPER_BODY_KEYWORDS.test(text)) return "top";
+  if (LOWER_BODY_KEYWORDS.test(text)) return "bottom";
+  return "full";
+}
+
+function assessFraming(category: GarmentCategory, framing: Framing): FitAssessment {
+  if (FRAMINGS_SHOWING[category].includes(framing)) {
+    // Tighter framings show the garment larger
+    return { score: framing === "full" && category !== "full" && category !== "dress" ? 2 : 3 };
+  }
+
+  return {
+    score: 0,
+    warning: `This ${FRAMING_LABELS[framing]} shot will crop the ${GARMENT_CATEGORY_LABELS[category].toLowerCase()} out of frame`,
+  };
+}
+
+/**
+ * How well a pose shows a garment category
+ */
+export function assessPoseFit(
+  category: GarmentCategory,
+  pose: { name?: string; description?: string; pose_type?: PoseType | string }
+): FitAssessment {
+  const framing = assessFraming(category, getPoseFraming(pose));
+  const typeScore = POSE_TYPE_SCORES[category][pose.pose_type as PoseType] ?? 1;
+
+  if (framing.warning) return { score: typeScore, warning: framing.warning };
+  if (typeScore === 0) {
+    return { score: framing.score, warning: `A ${pose.pose_type} pose hides most of the ${GARMENT_CATEGORY_LABELS[category].toLowerCase()}` };
+  }
+
+  // Framing outranks pose type: a cropping pose always sorts below a fitting one
+  return { score: 10 + framing.score + typeScore };
+}
+
+/**
+ * How well a camera angle shows a garment category
+ */
+export function assessAngleFit(category: GarmentCategory, angle: { angle_type?: Framing | string }): FitAssessment {
+  const framing = (angle.angle_type || "full") as Framing;
+  const fit = assessFraming(category, framing);
+  return fit.warning ? fit : { score: 10 + fit.score };
+}
+
+/**
+ * Best matches first; keeps the original order between equal scores
+ */
+export function rankByFit<T>(items: T[], assess: (item: T) => FitAssessment): Array<T & { fit: FitAssessment }> {
+  return items
+    .map((item, index) => ({ item, index, fit: assess(item) }))
+    .sort((a, b) => b.fit.score - a.fit.score || a.index - b.index)
+    .map(({ item, fit }) => ({ ...item, fit }));
+}
@@ -0,0 +1,97 @@
+/**
+ * Outfit helpers (shared by the studio and the server)
+ *
+ * An outfit is a set of garment layers, each tagged with the slot it fills,
+ * that the try-on step puts on the model together (e.g. trousers + shirt + coat).
+ */
+
+import type { GarmentCategory } from "./garment-fit";
+
+export type OutfitSlot = "full" | "dress" | "bottom" | "top" | "outerwear";
+
+// Layering order, innermost first
+export const OUTFIT_SLOTS: OutfitSlot[] = ["full", "dress", "bottom", "top", "outerwear"];
+
+export const OUTFIT_SLOT_LABELS: Record<OutfitSlot, string> = {
+  full: "Full body (jumpsuit, set)",
+  dress: "Dress",
+  bottom: "Bottom",
+  top: "Top",
+  outerwear: "Outerwear",
+};
+
+export const MAX_OUTFIT_LAYERS = 4;
+
+export interface OutfitLayer {
+  slot: OutfitSlot;
+  image_url: string;
+}
+
+// Slots that already cover both the top and the bottom
+const ONE_PIECE_SLOTS: OutfitSlot[] = ["full", "dress"];
+
+export function isOutfitSlot(value: unknown): value is OutfitSlot {
+  return typeof value === "string" && (OUTFIT_SLOTS as string[]).includes(value);
+}
+
+/**
+ * Why a layer list can't be used as an outfit, or null when it can
+ */
+export function validateOutfitLayers(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return "outfit must be a non-empty array of layers";
+  }
+
+  if (value.length > MAX_OUTFIT_LAYERS) {
+    return `An outfit can have at most ${MAX_OUTFIT_LAYERS} layers`;
+  }
+
+  for (const layer of value) {
+    if (!layer || !isOutfitSlot(layer.slot)) {
+      return `Each outfit layer needs a slot: ${OUTFIT_SLOTS.join(", ")}`;
+    }
+    if (typeof layer.image_url !== "string" || !layer.image_url) {
+      return `The ${layer.slot} layer needs an image_url`;
+    }
+  }
+
+  const slots = value.map(layer => layer.slot as OutfitSlot);
+  const duplicate = slots.find((slot, index) => slots.indexOf(slot) !== index);
+  if (duplicate) {
+    return `An outfit can only have one ${OUTFIT_SLOT_LABELS[duplicate].toLowerCase()} layer`;
+  }
+
+  const onePieces = slots.filter(slot => ONE_PIECE_SLOTS.includes(slot));
+  if (onePieces.length > 1 || (onePieces.length === 1 && (slots.includes("top") || slots.includes("bottom")))) {
+    return "A dress or full-body garment can only be combined with outerwear";
+  }
+
+  return null;
+}
+
+/**
+ * Layers innermost first, the order they are put on the model
+ */
+export function sortOutfitLayers(layers: OutfitLayer[]): OutfitLayer[] {
+  return [...layers].sort((a, b) => OUTFIT_SLOTS.indexOf(a.slot) - OUTFIT_SLOTS.indexOf(b.slot));
+}
+
+/**
+ * Garment category a single layer is processed as
+ */
+export function getSlotGarmentCategory(slot: OutfitSlot): GarmentCategory {
+  return slot === "outerwear" ? "top" : slot;
+}
+
+/**
+ * Category the whole outfit covers, used to rank poses and angles
+ */
+export function getOutfitGarmentCategory(layers: OutfitLayer[]): GarmentCategory {
+  const slots = layers.map(layer => layer.slot);
+  const onePiece = slots.find(slot => ONE_PIECE_SLOTS.includes(slot));
+  if (onePiece) return getSlotGarmentCategory(onePiece);
+
+  const coversTop = slots.includes("top") || slots.includes("outerwear");
+  if (coversTop && slots.includes("bottom")) return "full";
+  return coversTop ? "top" : "bottom";
+}
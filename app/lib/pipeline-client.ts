@@ -0,0 +1,191 @@
+/**
+ * Pipeline client helpers (browser)
+ *
+ * Runs are started in two steps: the server quotes the run and the shop
+ * confirms that quote, then the run is executed against the quote's hash so
+ * the shop is charged exactly the confirmed amount. Regenerating a single result follows the same two
+ * steps. Downloads are reported back as experiment signals.
+ * A result's version history and primary image are read and set here too.
+ */
+
+import type { OutfitLayer } from "./outfit";
+import type { FeedbackUpdate, ResultFeedback } from "./services/feedback.service";
+import type { PipelineQuote } from "./services/pipeline-quote.service";
+import type { RegenerationOptions } from "./services/regeneration.service";
+import type { ResultVersionHistory } from "./services/result-version.service";
+
+export interface PipelineRunRequest {
+  base_model_id: string;
+  clothing_image_url?: string;
+  poses: Array<{ pose_id: string; image_url: string; pose_name?: string; [key: string]: unknown }>;
+  project_name?: string;
+  project_description?: string;
+  mode?: string;
+  prompts?: Record<string, string | undefined>;
+  force_regenerate?: boolean; // Bypass the result cache
+  preprocess_garment?: boolean; // Clean up the clothing photo before try-on
+  garment_category?: "top" | "bottom" | "full" | "dress"; // Overrides the detected category
+  outfit?: OutfitLayer[]; // Multi-garment try-on instead of clothing_image_url
+  outfit_id?: string; // Saved outfit to reuse
+  watermark_profile_id?: string; // Shop watermark to overlay (paid plans)
+}
+
+export interface PipelineRunStarted {
+  success: true;
+  execution_id: string;
+  project_id: string;
+  total_poses: number;
+  credits_reserved: number;
+  queued: boolean;
+  estimated_start_at: string;
+}
+
+/**
+ * Authoritative quote for a run: credits per pose and per step, the balance
+ * left after the run and every reason it can't start. Throws when the quote
+ * can't be made.
+ */
+export async function quotePipelineRun(run: PipelineRunRequest, signal?: AbortSignal): Promise<PipelineQuote> {
+  const response = await fetch("/api/pipeline/quote", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(run),
+    signal,
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to quote generation");
+  }
+
+  return result.quote;
+}
+
+/**
+ * Start a run against the quote the shop confirmed (send the same run that was quoted).
+ * Throws when the run is refused, e.g. because its price changed since the quote.
+ */
+export async function startQuotedPipelineRun(run: PipelineRunRequest, quoteHash: string): Promise<PipelineRunStarted> {
+  const response = await fetch("/api/pipeline/execute", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...run, quote_hash: quoteHash }),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to start generation pipeline");
+  }
+
+  return result;
+}
+
+export interface RegenerationQuote {
+  quote: PipelineQuote;
+  providers: string[]; // Providers the result can be regenerated with
+  version: number; // Version the new result becomes
+}
+
+export interface RegenerationStarted {
+  execution_id: string;
+  result_id: string;
+  version: number;
+}
+
+async function postRegeneration(resultId: string, body: Record<string, unknown>) {
+  const response = await fetch(`/api/results/${resultId}/regenerate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return response.json();
+}
+
+/**
+ * Price and options for regenerating one result. Throws when the result can't be regenerated.
+ */
+export async function quoteRegeneration(resultId: string, options: RegenerationOptions): Promise<RegenerationQuote> {
+  const result = await postRegeneration(resultId, { ...options, intent: "quote" });
+  if (!result.success) {
+    throw new Error(result.error || "Failed to quote regeneration");
+  }
+  return result;
+}
+
+/**
+ * Regenerate one result against a confirmed quote (same options as the quote).
+ * Throws with the first blocking reason when it can't run.
+ */
+export async function startRegeneration(
+  resultId: string,
+  options: RegenerationOptions,
+  quoteHash: string
+): Promise<RegenerationStarted> {
+  const result = await postRegeneration(resultId, { ...options, intent: "run", quote_hash: quoteHash });
+  if (!result.success) {
+    throw new Error(result.error || "Failed to start regeneration");
+  }
+  return result;
+}
+
+/**
+ * Every version of a result with its stored images. Throws when it can't be loaded.
+ */
+export async function getResultVersions(resultId: string): Promise<ResultVersionHistory> {
+  const response = await fetch(`/api/results/${resultId}/versions`);
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || "Failed to load versions");
+  }
+  return result.history;
+}
+
+/**
+ * Make an image from the result's history its primary image (null: back to the default)
+ * @returns The updated history. Throws when it can't be saved.
+ */
+export async function setPrimaryImage(resultId: string, imageId: string | null): Promise<ResultVersionHistory> {
+  const response = await fetch(`/api/results/${resultId}/versions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ image_id: imageId }),
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || "Failed to save primary image");
+  }
+  return result.history;
+}
+
+/**
+ * Tell the server the shop downloaded these results (experiment signals).
+ * Fire and forget - a failed report never affects the download.
+ */
+export function reportDownloads(resultIds: string[]): void {
+  if (resultIds.length === 0) return;
+
+  fetch("/api/signals", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ signal: "download", result_ids: resultIds }),
+  }).catch(error => console.warn("⚠️  Failed to report downloads:", error));
+}
+
+/**
+ * Favorite, rate or reject a result
+ * @returns The saved feedback, or null when it couldn't be saved
+ */
+export async function saveResultFeedback(resultId: string, update: FeedbackUpdate): Promise<ResultFeedback | null> {
+  try {
+    const response = await fetch(`/api/results/${resultId}/feedback`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    });
+    const data = await response.json();
+    return data.success ? data.feedback : null;
+  } catch (error) {
+    console.warn("⚠️  Failed to save feedback:", error);
+    return null;
+  }
+}
@@ -0,0 +1,2 @@
+// Re-export pricing catalog
+export * from "./pricing-catalog.server";
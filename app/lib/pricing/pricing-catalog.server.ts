@@ -0,0 +1,270 @@
+/**
+ * Pricing Catalog
+ * Single source of truth for credit costs and subscription plan prices.
+ *
+ * Feature prices are rules matched on feature, subscription tier and
+ * generation mode. The most specific rule wins (tier + mode > tier > mode >
+ * default). Every rule has an effective window, so a price change can be
+ * added ahead of time without touching the routes that charge for it.
+ * Volume discounts reduce the unit price once a quantity threshold is met.
+ */
+
+// =============================================
+// TYPES
+// =============================================
+
+export type PricedFeature = "generation" | "upscale" | "background_removal";
+
+export type PricingTier = "free" | "creator" | "professional" | "enterprise";
+
+// try_on = Virtual Try-On (no studio mode)
+export type PricingMode = "try_on" | "product_shots" | "social_media";
+
+export interface FeaturePriceRule {
+  feature: PricedFeature;
+  credits: number; // Per unit (pose, image or operation)
+  tier?: PricingTier; // Omitted = every tier
+  mode?: PricingMode; // Omitted = every mode
+  effective_from: string; // Inclusive, ISO timestamp
+  effective_until?: string; // Exclusive, ISO timestamp
+  description: string;
+}
+
+export interface DiscountRule {
+  feature: PricedFeature;
+  min_quantity: number; // Applies when the quoted quantity reaches this
+  percent_off: number;
+  tier?: PricingTier;
+  effective_from: string;
+  effective_until?: string;
+  description: string;
+}
+
+export interface PriceQuery {
+  tier?: string | null;
+  mode?: string | null;
+  at?: Date;
+}
+
+export interface PriceQuote {
+  feature: PricedFeature;
+  tier: PricingTier;
+  mode: PricingMode;
+  quantity: number;
+  list_unit_credits: number; // Catalog price before discounts
+  unit_credits: number; // Charged per unit
+  total_credits: number;
+  discount: { description: string; percent_off: number; credits: number } | null;
+  effective_from: string;
+  quoted_at: string;
+}
+
+export interface SubscriptionPlanPrice {
+  name: string; // Shopify charge name
+  displayName: string;
+  price: number; // USD per 30 days
+  images: number;
+  credits: number;
+  tier: Exclude<PricingTier, "free">;
+}
+
+// =============================================
+// CATALOG
+// =============================================
+
+const LAUNCH_DATE = "2024-01-01T00:00:00.000Z";
+
+const FEATURE_PRICES: FeaturePriceRule[] = [
+  { feature: "generation", credits: 1000, effective_from: LAUNCH_DATE, description: "AI image generation (per pose)" },
+  { feature: "upscale", credits: 1000, effective_from: LAUNCH_DATE, description: "4K upscale" },
+  { feature: "background_removal", credits: 500, effective_from: LAUNCH_DATE, description: "Background removal" },
+];
+
+// Largest matching discount wins; none are active at the moment
+const DISCOUNTS: DiscountRule[] = [];
+
+// Share of the per-pose price charged when a pose is served from the result cache
+const CACHED_RESULT_PERCENT = 0;
+
+export const SUBSCRIPTION_PLANS: Record<Exclude<PricingTier, "free">, SubscriptionPlanPrice> = {
+  creator: {
+    name: "Creator Plan",
+    displayName: "Creator",
+    price: 29.0,
+    images: 30,
+    credits: 30000,
+    tier: "creator",
+  },
+  professional: {
+    name: "Professional Plan",
+    displayName: "Professional",
+    price: 89.0,
+    images: 95,
+    credits: 95000,
+    tier: "professional",
+  },
+  enterprise: {
+    name: "Enterprise Plan",
+    displayName: "Enterprise",
+    price: 199.0,
+    images: 220,
+    credits: 220000,
+    tier: "enterprise",
+  },
+};
+
+export type SubscriptionPlanKey = keyof typeof SUBSCRIPTION_PLANS;
+
+const PRICING_TIERS: PricingTier[] = ["free", "creator", "professional", "enterprise"];
+const PRICING_MODES: PricingMode[] = ["try_on", "product_shots", "social_media"];
+const PRICED_FEATURES: PricedFeature[] = ["generation", "upscale", "background_removal"];
+
+// =============================================
+// LOOKUP
+// =============================================
+
+export function isPricedFeature(value: unknown): value is PricedFeature {
+  return PRICED_FEATURES.includes(value as PricedFeature);
+}
+
+export function toPricingTier(tier?: string | null): PricingTier {
+  const normalized = (tier || "free").toLowerCase() as PricingTier;
+  return PRICING_TIERS.includes(normalized) ? normalized : "free";
+}
+
+/**
+ * Pipeline executions without a studio mode are Virtual Try-On
+ */
+export function toPricingMode(mode?: string | null): PricingMode {
+  return mode && PRICING_MODES.includes(mode as PricingMode) ? (mode as PricingMode) : "try_on";
+}
+
+function isEffective(rule: { effective_from: string; effective_until?: string }, at: Date): boolean {
+  const time = at.getTime();
+  return (
+    new Date(rule.effective_from).getTime() <= time &&
+    (!rule.effective_until || time < new Date(rule.effective_until).getTime())
+  );
+}
+
+function specificity(rule: FeaturePriceRule): number {
+  return (rule.tier ? 2 : 0) + (rule.mode ? 1 : 0);
+}
+
+/**
+ * Resolve the price rule that applies to a feature for a tier/mode at a point in time
+ */
+export function getFeaturePrice(feature: PricedFeature, query: PriceQuery = {}): FeaturePriceRule {
+  const tier = toPricingTier(query.tier);
+  const mode = toPricingMode(query.mode);
+  const at = query.at || new Date();
+
+  const matches = FEATURE_PRICES.filter(rule =>
+    rule.feature === feature &&
+    (!rule.tier || rule.tier === tier) &&
+    (!rule.mode || rule.mode === mode) &&
+    isEffective(rule, at)
+  );
+
+  if (matches.length === 0) {
+    throw new Error(`No price configured for ${feature} (${tier}, ${mode})`);
+  }
+
+  // Most specific first, then the most recently effective
+  matches.sort((a, b) =>
+    specificity(b) - specificity(a) ||
+    new Date(b.effective_from).getTime() - new Date(a.effective_from).getTime()
+  );
+
+  return matches[0];
+}
+
+/**
+ * Credits for one unit of a feature
+ */
+export function getFeatureCost(feature: PricedFeature, query: PriceQuery = {}): number {
+  return getFeaturePrice(feature, query).credits;
+}
+
+/**
+ * Credits for a pose served from the result cache instead of being generated
+ */
+export function getCachedResultCost(unitCredits: number): number {
+  return Math.round((unitCredits * CACHED_RESULT_PERCENT) / 100);
+}
+
+/**
+ * Best volume discount for a quantity, if any
+ */
+export function getApplicableDiscount(
+  feature: PricedFeature,
+  quantity: number,
+  query: PriceQuery = {}
+): DiscountRule | null {
+  const tier = toPricingTier(query.tier);
+  const at = query.at || new Date();
+
+  const matches = DISCOUNTS.filter(rule =>
+    rule.feature === feature &&
+    quantity >= rule.min_quantity &&
+    (!rule.tier || rule.tier === tier) &&
+    isEffective(rule, at)
+  );
+
+  return matches.sort((a, b) => b.percent_off - a.percent_off)[0] || null;
+}
+
+/**
+ * Exact cost of running a feature `quantity` times (e.g. one generation per pose).
+ * Discounts lower the unit price, so per-unit captures and refunds stay exact.
+ */
+export function quoteFeature(feature: PricedFeature, quantity: number, query: PriceQuery = {}): PriceQuote {
+  const at = query.at || new Date();
+  const rule = getFeaturePrice(feature, { ...query, at });
+  const units = Math.max(0, Math.floor(quantity));
+  const discount = getApplicableDiscount(feature, units, { ...query, at });
+  const unitCredits = discount
+    ? Math.round(rule.credits * (1 - discount.percent_off / 100))
+    : rule.credits;
+
+  return {
+    feature,
+    tier: toPricingTier(query.tier),
+    mode: toPricingMode(query.mode),
+    quantity: units,
+    list_unit_credits: rule.credits,
+    unit_credits: unitCredits,
+    total_credits: unitCredits * units,
+    discount: discount
+      ? {
+          description: discount.description,
+          percent_off: discount.percent_off,
+          credits: (rule.credits - unitCredits) * units,
+        }
+      : null,
+    effective_from: rule.effective_from,
+    quoted_at: at.toISOString(),
+  };
+}
+
+/**
+ * Every feature price that currently applies to a tier, one entry per mode
+ */
+export function getPriceList(tier?: string | null, at: Date = new Date()) {
+  return PRICED_FEATURES.flatMap(feature =>
+    PRICING_MODES.map(mode => {
+      const rule = getFeaturePrice(feature, { tier, mode, at });
+      return {
+        feature,
+        mode,
+        credits: rule.credits,
+        description: rule.description,
+        effective_from: rule.effective_from,
+      };
+    })
+  );
+}
+
+export function getSubscriptionPlanPrice(planKey: string): SubscriptionPlanPrice | null {
+  return SUBSCRIPTION_PLANS[planKey as SubscriptionPlanKey] || null;
+}
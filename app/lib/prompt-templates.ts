@@ -0,0 +1,155 @@
+/**
+ * Prompt templates (shared by the studio and the server)
+ *
+ * Every generation prompt is a template with `{{variable}}` placeholders,
+ * rendered from the run's gender, garment category, outfit and the
+ * theme/background/angle resource prompts. Versions are stored by
+ * prompt-template.service; the bodies below are the built-in version 0
+ * used until a template is published for a key.
+ */
+
+import type { OutfitLayer, OutfitSlot } from "./outfit";
+
+export type PromptTemplateKey = "tryon" | "tryon-outfit" | "post-ready" | "shop-ready";
+export type StudioPromptMode = "social_media" | "product_shots";
+
+export const PROMPT_TEMPLATE_KEYS: PromptTemplateKey[] = ["tryon", "tryon-outfit", "post-ready", "shop-ready"];
+
+/**
+ * Which template/version produced a prompt - recorded on every generation
+ */
+export interface PromptTemplateRef {
+  id: string; // `builtin:<key>` for the built-in templates
+  key: PromptTemplateKey;
+  version: number;
+}
+
+export interface PromptTemplate extends PromptTemplateRef {
+  body: string;
+}
+
+export interface PromptVariables {
+  gender: "male" | "female";
+  garment_category?: OutfitSlot;
+  outfit?: OutfitLayer[]; // Innermost layer first
+  theme?: string | null;
+  background?: string | null;
+  angle?: string | null;
+}
+
+export const PROMPT_TEMPLATE_VARIABLES: Record<string, string> = {
+  gender: "male or female",
+  pronoun: "him or her",
+  possessive: "his or her",
+  garment_category: "top, bottom, full, dress or outerwear (empty when unknown)",
+  garment_hint: "What the clothing reference replaces (empty when the category is unknown)",
+  garments: "The outfit's reference images, one per layer (outfit try-on only)",
+  theme: "Theme resource prompt",
+  background: "Background resource prompt",
+  angle: "Angle resource prompt",
+};
+
+// =============================================
+// VARIABLE VALUES
+// =============================================
+
+const GARMENT_CATEGORY_HINTS: Record<OutfitSlot, string> = {
+  top: "The clothing reference is a top (shirt, t-shirt, sweater or jacket). Replace only the upper-body garment and keep the existing bottoms.",
+  bottom: "The clothing reference is a bottom (trousers, jeans, shorts or skirt). Replace only the lower-body garment and keep the existing top.",
+  full: "The clothing reference is a full-body garment (jumpsuit or co-ord set). Replace both the top and the bottoms with it.",
+  dress: "The clothing reference is a dress. Replace both the top and the bottoms with it.",
+  outerwear: "The clothing reference is outerwear (coat, jacket or blazer). Layer it over the existing clothes and keep everything underneath.",
+};
+
+// How each outfit layer is described in multi-reference prompts
+const OUTFIT_SLOT_DESCRIPTIONS: Record<OutfitSlot, string> = {
+  full: "a full-body garment (jumpsuit or co-ord set)",
+  dress: "a dress",
+  bottom: "the bottom (trousers, jeans, shorts or skirt)",
+  top: "the top (shirt, t-shirt or sweater)",
+  outerwear: "outerwear (coat, jacket or blazer) worn over the other layers",
+};
+
+// Used when the shop didn't pick a resource
+const DEFAULT_THEME = "Professional fashion photography style with elegant lighting and composition";
+const DEFAULT_BACKGROUND = "Clean, minimal studio background with soft neutral tones";
+const DEFAULT_ANGLE = "Front-facing product shot with balanced composition";
+
+function getVariableValues(variables: PromptVariables): Record<string, string> {
+  const male = variables.gender === "male";
+  return {
+    gender: male ? "male" : "female",
+    pronoun: male ? "him" : "her",
+    possessive: male ? "his" : "her",
+    garment_category: variables.garment_category || "",
+    garment_hint: variables.garment_category ? GARMENT_CATEGORY_HINTS[variables.garment_category] : "",
+    // Reference image 1 is the model, the layers follow
+    garments: (variables.outfit || [])
+      .map((layer, index) => `reference image ${index + 2} is ${OUTFIT_SLOT_DESCRIPTIONS[layer.slot]}`)
+      .join("; "),
+    theme: variables.theme || DEFAULT_THEME,
+    background: variables.background || DEFAULT_BACKGROUND,
+    angle: variables.angle || DEFAULT_ANGLE,
+  };
+}
+
+// =============================================
+// BUILT-IN TEMPLATES
+// =============================================
+
+export const BUILTIN_PROMPT_TEMPLATES: Record<PromptTemplateKey, string> = {
+  "tryon": "Use the {{gender}} from the reference image. Preserve {{possessive}} exact pose, if only upper body is visible then keep only upper body visible, facial expression, body proportions, and camera angle. Apply the outfit from the clothing reference image onto {{pronoun}}, making it look natural, well-fitted, and realistic. Match lighting, shadows, folds, and texture. Do not alter {{possessive}} pose or appearance—only replace {{possessive}} clothing with the provided outfit. {{garment_hint}}",
+  "tryon-outfit": "Use the {{gender}} from reference image 1. Preserve {{possessive}} exact pose, if only upper body is visible then keep only upper body visible, facial expression, body proportions, and camera angle. Dress {{pronoun}} in the complete outfit from the other reference images: {{garments}}. Replace all of {{possessive}} clothing with these garments, layered naturally, well-fitted, and realistic. Match lighting, shadows, folds, and texture. Do not alter {{possessive}} pose or appearance.",
+  "post-ready": "A single realistic fashion photograph of the model from the reference image wearing the same outfit. {{theme}}. The model is positioned {{background}}. The image should feel genuine and naturally captured, not overly edited or artificial.",
+  "shop-ready": "Using the {{gender}} subject from the reference image, generate a new image that maintains {{possessive}} exact pose (if the reference shows only the upper body, keep only the upper body visible), facial expression, body proportions, and camera angle. {{background}}. {{angle}}",
+};
+
+export function getBuiltinPromptTemplate(key: PromptTemplateKey): PromptTemplate {
+  return { id: `builtin:${key}`, key, version: 0, body: BUILTIN_PROMPT_TEMPLATES[key] };
+}
+
+// =============================================
+// RENDERING
+// =============================================
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export function isPromptTemplateKey(value: unknown): value is PromptTemplateKey {
+  return typeof value === "string" && (PROMPT_TEMPLATE_KEYS as string[]).includes(value);
+}
+
+/**
+ * Template a run's prompts come from: studio modes have their own,
+ * try-on uses the multi-reference template for outfits
+ */
+export function getPromptTemplateKey(mode?: StudioPromptMode | null, hasOutfit?: boolean): PromptTemplateKey {
+  if (mode === "social_media") return "post-ready";
+  if (mode === "product_shots") return "shop-ready";
+  return hasOutfit ? "tryon-outfit" : "tryon";
+}
+
+/**
+ * Placeholders in a template body that aren't known variables
+ */
+export function findUnknownVariables(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(PLACEHOLDER)) {
+    if (!(match[1] in PROMPT_TEMPLATE_VARIABLES)) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+/**
+ * Fill a template's placeholders. Empty variables leave no double spaces behind.
+ */
+export function renderPromptTemplate(template: Pick<PromptTemplate, "body">, variables: PromptVariables): string {
+  const values = getVariableValues(variables);
+  return template.body
+    .replace(PLACEHOLDER, (_, name: string) => values[name] ?? "")
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+export function toPromptTemplateRef(template: PromptTemplate): PromptTemplateRef {
+  return { id: template.id, key: template.key, version: template.version };
+}
@@ -0,0 +1,15 @@
+import { registerProvider } from "./registry.server";
+import { vertexProvider } from "./vertex.server";
+import { replicateProvider } from "./replicate.server";
+import { stubProvider } from "./stub.server";
+
+// Built-in providers; priority per capability comes from generation.constants / env
+registerProvider(vertexProvider);
+registerProvider(replicateProvider);
+registerProvider(stubProvider);
+
+export * from "./types";
+export * from "./registry.server";
+export { vertexProvider } from "./vertex.server";
+export { replicateProvider } from "./replicate.server";
+export { stubProvider } from "./stub.server";
@@ -0,0 +1,143 @@
+/**
+ * Image Provider Registry
+ * Resolves providers per capability in configured priority order
+ * and runs operations with per-provider retries and fallback
+ */
+
+import {
+  DEFAULT_PROVIDER_PRIORITY,
+  PROVIDER_RETRY_POLICY,
+} from "../../config/generation.constants";
+import { acquireProviderToken } from "../services/rate-limit.service";
+import type { ImageProvider, ProviderCapability } from "./types";
+
+const providers = new Map<string, ImageProvider>();
+
+// =============================================
+// REGISTRATION
+// =============================================
+
+/**
+ * Register (or replace) a provider by ID
+ */
+export function registerProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Get a registered provider by ID
+ */
+export function getProvider(id: string): ImageProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviders(): ImageProvider[] {
+  return Array.from(providers.values());
+}
+
+// =============================================
+// PRIORITY RESOLUTION
+// =============================================
+
+function parseProviderList(value?: string): string[] | null {
+  if (!value) return null;
+  const ids = value.split(",").map(id => id.trim()).filter(Boolean);
+  return ids.length > 0 ? ids : null;
+}
+
+/**
+ * Get the configured provider order for a capability.
+ * IMAGE_PROVIDERS_<CAPABILITY> wins over IMAGE_PROVIDERS, which wins over defaults.
+ */
+export function getProviderOrder(capability: ProviderCapability): string[] {
+  const envKey = `IMAGE_PROVIDERS_${capability.toUpperCase().replace(/-/g, "_")}`;
+
+  return (
+    parseProviderList(process.env[envKey]) ||
+    parseProviderList(process.env.IMAGE_PROVIDERS) ||
+    DEFAULT_PROVIDER_PRIORITY[capability]
+  );
+}
+
+/**
+ * Get configured providers that support a capability, in priority order
+ */
+export function getProvidersFor(capability: ProviderCapability): ImageProvider[] {
+  return getProviderOrder(capability)
+    .map(id => {
+      const provider = providers.get(id);
+      if (!provider) {
+        console.warn(`⚠️ Unknown image provider "${id}" in ${capability} priority list`);
+      }
+      return provider;
+    })
+    .filter((provider): provider is ImageProvider =>
+      !!provider &&
+      provider.capabilities.includes(capability) &&
+      provider.isConfigured()
+    );
+}
+
+// =============================================
+// EXECUTION
+// =============================================
+
+/**
+ * Run an operation against each provider for a capability until one succeeds.
+ * Each provider is retried according to PROVIDER_RETRY_POLICY before falling back,
+ * and every attempt waits for a token from the provider's rate limit bucket.
+ * @param options.preferredProvider - Tried first when it supports the capability (experiments)
+ */
+export async function runWithFallback<T>(
+  capability: ProviderCapability,
+  operation: (provider: ImageProvider) => Promise<T>,
+  options: { preferredProvider?: string } = {}
+): Promise<T> {
+  const candidates = getProvidersFor(capability);
+
+  if (candidates.length === 0) {
+    throw new Error(`No image provider configured for ${capability}`);
+  }
+
+  if (options.preferredProvider) {
+    const preferred = candidates.findIndex(provider => provider.id === options.preferredProvider);
+    if (preferred > 0) {
+      candidates.unshift(...candidates.splice(preferred, 1));
+    } else if (preferred === -1) {
+      console.warn(`⚠️ Preferred provider "${options.preferredProvider}" is not available for ${capability}, using the configured order`);
+    }
+  }
+
+  let lastError: unknown;
+
+  for (const provider of candidates) {
+    const { attempts, delayMs } = PROVIDER_RETRY_POLICY[provider.id] || { attempts: 1, delayMs: 0 };
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await acquireProviderToken(provider.id);
+        console.log(`📡 ${capability} via ${provider.id} (attempt ${attempt}/${attempts})...`);
+        const result = await operation(provider);
+        console.log(`✅ ${capability} via ${provider.id} succeeded`);
+        return result;
+      } catch (error) {
+        lastError = error;
+        console.warn(`⚠️ ${provider.id} ${capability} attempt ${attempt} failed: ${error instanceof Error ? error.message : String(error)}`);
+
+        if (attempt < attempts && delayMs > 0) {
+          console.log(`⏳ Waiting ${delayMs}ms before retry...`);
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+    }
+
+    console.warn(`❌ All ${attempts} ${provider.id} attempts failed for ${capability}. Trying next provider...`);
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new Error(`All providers failed for ${capability}`);
+}
@@ -0,0 +1,84 @@
+/**
+ * Replicate Image Provider
+ * Try-on fallback (nano-banana-pro), Crystal upscaler and BiRefNet background removal
+ */
+
+import Replicate from "replicate";
+import type { ImageProvider } from "./types";
+
+const MODELS = {
+  tryon: "google/nano-banana-pro",
+  upscale: "philz1337x/crystal-upscaler",
+  backgroundRemoval: "men1scus/birefnet:f74986db0355b58403ed20963af156525e2891ea3c2d499bfbfb2a28cd87c5d7",
+} as const;
+
+let client: Replicate | null = null;
+
+function getClient(): Replicate {
+  if (!process.env.REPLICATE_API_TOKEN) {
+    throw new Error("Replicate API token is not configured");
+  }
+
+  if (!client) {
+    client = new Replicate({ auth: process.env.REPLICATE_API_TOKEN });
+  }
+
+  return client;
+}
+
+/**
+ * Replicate returns a URL string, an array of URLs or a FileOutput object
+ */
+function extractOutputUrl(output: unknown): string {
+  if (Array.isArray(output)) return extractOutputUrl(output[0]);
+  if (typeof output === "string") return output;
+  if (output && typeof (output as any).url === "function") return String((output as any).url());
+  if (output && (output as any).url) return String((output as any).url);
+  return output ? String(output) : "";
+}
+
+async function runModel(model: `${string}/${string}`, input: Record<string, any>): Promise<string> {
+  const output = await getClient().run(model, { input });
+  const imageUrl = extractOutputUrl(output);
+
+  if (!imageUrl) {
+    throw new Error(`No image returned from ${model}`);
+  }
+
+  return imageUrl;
+}
+
+export const replicateProvider: ImageProvider = {
+  id: "replicate",
+  capabilities: ["tryon", "upscale", "background-removal"],
+
+  isConfigured() {
+    return !!process.env.REPLICATE_API_TOKEN;
+  },
+
+  async tryOn({ modelImageUrl, prompt }) {
+    const imageUrl = await runModel(MODELS.tryon, {
+      prompt,
+      image: modelImageUrl,
+    });
+
+    return { image_url: imageUrl, provider: "replicate", has_nsfw_concepts: false };
+  },
+
+  async upscale({ imageUrl, scale = 4 }) {
+    const upscaledUrl = await runModel(MODELS.upscale, {
+      image: imageUrl,
+      scale,
+    });
+
+    return { image_url: upscaledUrl, provider: "replicate" };
+  },
+
+  async removeBackground({ imageUrl }) {
+    const removedUrl = await runModel(MODELS.backgroundRemoval, {
+      image: imageUrl,
+    });
+
+    return { image_url: removedUrl, provider: "replicate" };
+  },
+};
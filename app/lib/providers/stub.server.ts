@@ -0,0 +1,85 @@
+/**
+ * Local Stub Image Provider
+ * Returns deterministic canned images so the full pipeline can run offline.
+ * Enable with IMAGE_PROVIDERS=stub (or IMAGE_PROVIDERS_<CAPABILITY>=stub).
+ */
+
+import { createHash } from "crypto";
+import sharp from "sharp";
+import type { ImageProvider, ProviderCapability, ProviderImageResult } from "./types";
+
+const STUB_WIDTH = 768;
+const STUB_HEIGHT = 1024;
+
+// A seed changes the image like it would with a real provider; unseeded calls keep their images
+function seedInput(seed?: number): string[] {
+  return seed === undefined ? [] : [`seed:${seed}`];
+}
+
+/**
+ * Render a solid PNG whose colour is derived from the inputs,
+ * so the same request always yields the same image
+ */
+async function renderStubImage(
+  capability: ProviderCapability,
+  inputs: string[]
+): Promise<ProviderImageResult> {
+  const digest = createHash("sha256")
+    .update([capability, ...inputs].join("|"))
+    .digest();
+
+  const label = `${capability} · ${digest.toString("hex").substring(0, 8)}`;
+  const overlay = Buffer.from(
+    `<svg width="${STUB_WIDTH}" height="${STUB_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+      <text x="50%" y="50%" text-anchor="middle" font-family="sans-serif" font-size="36" fill="#ffffff">${label}</text>
+    </svg>`
+  );
+
+  const png = await sharp({
+    create: {
+      width: STUB_WIDTH,
+      height: STUB_HEIGHT,
+      channels: 3,
+      background: { r: digest[0], g: digest[1], b: digest[2] },
+    },
+  })
+    .composite([{ input: overlay }])
+    .png()
+    .toBuffer();
+
+  return {
+    image_url: `data:image/png;base64,${png.toString("base64")}`,
+    provider: "stub",
+    seed: digest.readUInt32BE(0),
+    has_nsfw_concepts: false,
+  };
+}
+
+export const stubProvider: ImageProvider = {
+  id: "stub",
+  capabilities: ["tryon", "studio", "upscale", "background-removal"],
+
+  isConfigured() {
+    return true;
+  },
+
+  tryOn({ modelImageUrl, clothingImageUrl, prompt, seed }) {
+    return renderStubImage("tryon", [modelImageUrl, clothingImageUrl, prompt, ...seedInput(seed)]);
+  },
+
+  tryOnOutfit({ modelImageUrl, garments, prompt, seed }) {
+    return renderStubImage("tryon", [modelImageUrl, ...garments.map(garment => `${garment.slot}:${garment.imageUrl}`), prompt, ...seedInput(seed)]);
+  },
+
+  studio({ referenceImageUrl, prompt, seed }) {
+    return renderStubImage("studio", [referenceImageUrl, prompt, ...seedInput(seed)]);
+  },
+
+  upscale({ imageUrl, scale = 4 }) {
+    return renderStubImage("upscale", [imageUrl, String(scale)]);
+  },
+
+  removeBackground({ imageUrl }) {
+    return renderStubImage("background-removal", [imageUrl]);
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * Image Provider Types
+ * Contract every AI image provider implements
+ */
+
+import type { ProviderCapability } from "../../config/generation.constants";
+import type { OutfitSlot } from "../outfit";
+
+export type { ProviderCapability };
+
+export interface ProviderImageResult {
+  image_url: string; // Remote URL or data URI
+  provider: string; // ID of the provider that produced the image
+  seed?: number;
+  has_nsfw_concepts?: boolean;
+}
+
+export interface TryOnRequest {
+  modelImageUrl: string;
+  clothingImageUrl: string;
+  prompt: string;
+  aspectRatio?: string;
+  seed?: number; // Providers without seed support ignore it
+}
+
+export interface OutfitTryOnRequest {
+  modelImageUrl: string;
+  garments: Array<{ imageUrl: string; slot: OutfitSlot }>; // Innermost layer first
+  prompt: string;
+  aspectRatio?: string;
+  seed?: number;
+}
+
+export interface StudioRequest {
+  referenceImageUrl: string;
+  prompt: string;
+  aspectRatio?: string;
+  seed?: number;
+}
+
+export interface UpscaleRequest {
+  imageUrl: string;
+  scale?: number;
+}
+
+export interface BackgroundRemovalRequest {
+  imageUrl: string;
+}
+
+/**
+ * An image provider implements one or more capabilities.
+ * Methods for capabilities not listed in `capabilities` may be omitted.
+ * Try-on providers without `tryOnOutfit` dress outfits one layer at a time.
+ */
+export interface ImageProvider {
+  id: string;
+  capabilities: ProviderCapability[];
+  isConfigured(): boolean;
+  tryOn?(request: TryOnRequest): Promise<ProviderImageResult>;
+  tryOnOutfit?(request: OutfitTryOnRequest): Promise<ProviderImageResult>;
+  studio?(request: StudioRequest): Promise<ProviderImageResult>;
+  upscale?(request: UpscaleRequest): Promise<ProviderImageResult>;
+  removeBackground?(request: BackgroundRemovalRequest): Promise<ProviderImageResult>;
+}
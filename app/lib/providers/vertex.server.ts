@@ -0,0 +1,66 @@
+/**
+ * Vertex AI Image Provider
+ * Gemini image generation for try-on and Shop/Post Ready studio shots
+ */
+
+import { generateImageVertex, isVertexAIConfigured } from "../services/vertex-gen.service";
+import type { ImageProvider } from "./types";
+
+export const vertexProvider: ImageProvider = {
+  id: "vertex",
+  capabilities: ["tryon", "studio"],
+
+  isConfigured() {
+    return isVertexAIConfigured();
+  },
+
+  async tryOn({ modelImageUrl, clothingImageUrl, prompt, aspectRatio, seed }) {
+    // 3:4 suits vertical fashion shots
+    const result = await generateImageVertex({
+      referenceImageUrls: [modelImageUrl, clothingImageUrl],
+      prompt,
+      aspectRatio: aspectRatio || "3:4",
+      seed,
+    });
+
+    return {
+      image_url: result.image,
+      provider: "vertex",
+      seed,
+      has_nsfw_concepts: false,
+    };
+  },
+
+  async tryOnOutfit({ modelImageUrl, garments, prompt, aspectRatio, seed }) {
+    // Multi-reference: the model first, then one image per garment layer
+    const result = await generateImageVertex({
+      referenceImageUrls: [modelImageUrl, ...garments.map(garment => garment.imageUrl)],
+      prompt,
+      aspectRatio: aspectRatio || "3:4",
+      seed,
+    });
+
+    return {
+      image_url: result.image,
+      provider: "vertex",
+      seed,
+      has_nsfw_concepts: false,
+    };
+  },
+
+  async studio({ referenceImageUrl, prompt, aspectRatio, seed }) {
+    const result = await generateImageVertex({
+      referenceImageUrls: [referenceImageUrl],
+      prompt,
+      aspectRatio: aspectRatio || "3:4",
+      seed,
+    });
+
+    return {
+      image_url: result.image,
+      provider: "vertex",
+      seed,
+      has_nsfw_concepts: false,
+    };
+  },
+};
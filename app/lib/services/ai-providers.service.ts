@@ -1,19 +1,33 @@
 /**
  * AI Provider Service
- * Handles integration with FAL AI and Replicate for image generation pipeline
+ * Runs the image generation pipeline on top of the pluggable provider registry
  */
 
 import { fal } from "@fal-ai/client";
-import Replicate from "replicate";
-import { generateImageVertex, isVertexAIConfigured } from "./vertex-gen.service";
-import { constructVertexPrompt, type VertexPromptMode } from "../vertex-prompt";
+import { getProviderOrder, runWithFallback, type ProviderImageResult } from "../providers";
+import {
+  getPromptTemplateKey,
+  renderPromptTemplate,
+  toPromptTemplateRef,
+  type PromptTemplate,
+  type PromptTemplateKey,
+  type PromptTemplateRef,
+  type StudioPromptMode,
+} from "../prompt-templates";
+import { getActivePromptTemplate } from "./prompt-template.service";
 import {
   uploadToShopifyGenerationsBucket,
   downloadImageAsBuffer,
   generateUniqueFileName,
+  parseStorageUrl,
+  STORAGE_BUCKETS,
   type UploadResult,
 } from "./storage.service";
-import { applyWatermark } from "./watermark.service";
+import { applyWatermark, resolveWatermark, type WatermarkSettings } from "./watermark.service";
+import { trackStoredObject } from "./storage-lifecycle.service";
+import { prepareGarment } from "./garment-preprocessing.service";
+import type { GarmentCategory } from "../garment-fit";
+import { getSlotGarmentCategory, sortOutfitLayers, type OutfitLayer } from "../outfit";
 
 // =============================================
 // TYPES
@@ -23,14 +37,27 @@ export interface TryOnResult {
   image_url: string;
   seed?: number;
   has_nsfw_concepts?: boolean;
+  provider?: string; // Registry ID of the provider that produced the image
+  prompt_template?: PromptTemplateRef; // Template version the prompt was rendered from
 }
 
 export interface UpscaleResult {
   image_url: string;
+  provider?: string;
+}
+
+/**
+ * Per-run overrides for a generation call (experiments pin these)
+ */
+export interface GenerationOptions {
+  template?: PromptTemplate; // Defaults to the active version for the call's template key
+  preferredProvider?: string; // Tried before the configured provider order
+  aspectRatio?: string; // Defaults to 3:4
+  seed?: number; // Fixed seed for providers that support one (regenerations)
 }
 
 export type QualityLevel = 'standard' | 'high' | 'premium';
-export type PipelineStep = 'tryon' | 'watermark' | 'enhanced-upscale' | 'shop-ready' | 'post-ready';
+export type PipelineStep = 'garment-prep' | 'tryon' | 'watermark' | 'enhanced-upscale' | 'shop-ready' | 'post-ready';
 
 // =============================================
 // CONFIGURATION
@@ -57,15 +84,8 @@ if (!FAL_API_KEY) {
   console.log('✅ FAL AI client configured');
 }
 
-// Initialize Replicate client
-let replicate: Replicate | null = null;
 if (!REPLICATE_API_TOKEN) {
   console.warn('⚠️  REPLICATE_API_TOKEN environment variable is not set');
-} else {
-  replicate = new Replicate({
-    auth: REPLICATE_API_TOKEN,
-  });
-  console.log('✅ Replicate client configured');
 }
 
 // =============================================
@@ -78,21 +98,16 @@ if (!REPLICATE_API_TOKEN) {
  * @param clothingImageUrl - URL of the clothing item
  * @param quality - Quality level for generation
  */
-function getTryOnPrompt(gender: 'male' | 'female'): string {
-  const subject = gender === 'male' ? 'male' : 'female';
-  const pronoun = gender === 'male' ? 'him' : 'her'; // Object pronoun
-  const possessive = gender === 'male' ? 'his' : 'her'; // Possessive
-
-  return `Use the ${subject} from the reference image. Preserve ${possessive} exact pose, if only upper body is visible then keep only upper body visible, facial expression, body proportions, and camera angle. Apply the outfit from the clothing reference image onto ${pronoun}, making it look natural, well-fitted, and realistic. Match lighting, shadows, folds, and texture. Do not alter ${possessive} pose or appearance—only replace ${possessive} clothing with the provided outfit.`;
-}
-
 // ... existing code ...
 
 /**
- * Execute try-on generation using Vertex AI (Primary) and Replicate (Fallback)
+ * Execute try-on generation through the provider registry
+ * (Vertex AI primary, Replicate fallback by default)
  * @param modelImageUrl - URL of the model/pose image
  * @param clothingImageUrl - URL of the clothing item
  * @param quality - Quality level for generation
+ * @param garmentCategory - Which part of the outfit the clothing replaces (from garment pre-processing)
+ * @param options - Prompt template, provider and aspect ratio overrides
  */
 export async function executeTryOn(
   modelImageUrl: string,
@@ -100,123 +115,91 @@ export async function executeTryOn(
   quality: QualityLevel = 'standard',
   gender: 'male' | 'female' = 'female',
   // Prompt parameter is kept for signature compatibility but we construct specific one internally
-  _prompt?: string
+  _prompt?: string,
+  garmentCategory?: GarmentCategory,
+  options: GenerationOptions = {}
 ): Promise<TryOnResult> {
-  const sysPrompt = getTryOnPrompt(gender);
-
-  // Debug Logging for Environment Variables (as requested)
-  console.log("--- Vertex AI Environment Check ---");
-  console.log("GOOGLE_CLOUD_PROJECT:", process.env.GOOGLE_CLOUD_PROJECT || "undefined");
-  console.log("GOOGLE_APPLICATION_CREDENTIALS:", process.env.GOOGLE_APPLICATION_CREDENTIALS || "undefined");
-  console.log("GCP_CLIENT_EMAIL:", process.env.GCP_CLIENT_EMAIL ? "Set (Redacted)" : "undefined");
-  console.log("-----------------------------------");
-
-  // --- PRIMARY PIPELINE: VERTEX AI ---
-  if (isVertexAIConfigured()) {
-    console.log("🚀 Attempting primary generation with Vertex AI...");
-
-    // Retry logic: 1 initial call + 3 retries = 4 total attempts
-    const maxRetries = 3;
-    let lastError;
-
-    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
-      try {
-        console.log(`📡 Vertex AI Attempt ${attempt}/${maxRetries + 1}...`);
-
-        // For try-on, we typically need a specific aspect ratio. 
-        // User requested dynamic aspect ratio logic for fallback, but for Vertex AI
-        // we usually want to match the input. 
-        // However, Vertex AI takes specific ratios.
-        // Default to 1:1 if not determined, or we could pass 3:4.
-        // The user prompt for Fallback says "match_input_image, 1:1, ...".
-        // For Vertex, we will just use 3:4 as a safe bet for fashion or let it default.
-        // The user previous prompt used 3:4. I will keep 3:4 or 1:1. 
-        // Let's use 3:4 for vertical fashion shots.
-        const result = await generateImageVertex({
-          referenceImageUrls: [modelImageUrl, clothingImageUrl],
-          prompt: sysPrompt,
-          aspectRatio: "3:4"
-        });
-
-        console.log("✅ Vertex AI generation successful");
-
-        return {
-          image_url: result.image,
-          has_nsfw_concepts: false
-        };
-      } catch (error) {
-        lastError = error;
-        console.warn(`⚠️ Vertex AI Attempt ${attempt} failed: ${error instanceof Error ? error.message : String(error)}`);
-
-        if (attempt <= maxRetries) {
-          const delay = 2000; // 2 second delay between retries
-          console.log(`⏳ Waiting ${delay}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-    }
-
-    console.warn(`❌ All ${maxRetries + 1} Vertex AI attempts failed. Switching to fallback pipeline...`);
-  } else {
-    console.log("ℹ️ Vertex AI not configured, skipping to fallback.");
-  }
-
-  // --- FALLBACK PIPELINE: REPLICATE (google/nano-banana-pro) ---
-  // Requested model: google/nano-banana-pro
-  // NOTE: Previous attempt with this specific model ID failed with 422. 
-  // If the hash is invalid/private, this WILL fail. Implementing as strictly requested.
-  // The user requirement table explicitly lists "google/nano-banana-pro (Replicate)".
-  if (!replicate) {
-    throw new Error('Replicate API token is not configured (and Vertex AI failed/skipped)');
-  }
-
-  try {
-    console.log('Using Fallback Replicate Model: google/nano-banana-pro...');
-
-    // We try to execute with the model name. If it requires a version hash, Replicate might auto-resolve 
-    // if "google/nano-banana-pro" is an alias (unlikely) or if we provide the hash.
-    // Since the hash was rejected last time, I will try to use the 'clean' model name if it exists 
-    // or fallback to the provided hash if I can find it in my logs (bc5b53c...).
-    // However, if the user explicitly names "google/nano-banana-pro", that is usually an OWNER/MODEL pattern.
-
-    // Using the generic run command which usually takes "owner/model:version" or "owner/model" (if public).
-    // I will try just the model name first.
-    const output = await replicate.run(
-      "google/nano-banana-pro",
-      {
-        input: {
-          prompt: sysPrompt,
-          image: modelImageUrl
-        }
-      }
-    );
+  const promptTemplate = options.template || await getActivePromptTemplate('tryon');
+  const sysPrompt = renderPromptTemplate(promptTemplate, { gender, garment_category: garmentCategory });
+
+  console.log(`👗 Executing try-on (providers: ${getProviderOrder('tryon').join(' → ')})...`);
+
+  const result = await runWithFallback('tryon', provider => {
+    if (!provider.tryOn) throw new Error(`${provider.id} does not support try-on`);
+    return provider.tryOn({
+      modelImageUrl,
+      clothingImageUrl,
+      prompt: sysPrompt,
+      aspectRatio: options.aspectRatio || "3:4",
+      seed: options.seed,
+    });
+  }, { preferredProvider: options.preferredProvider });
+
+  return {
+    image_url: result.image_url,
+    seed: result.seed,
+    has_nsfw_concepts: result.has_nsfw_concepts ?? false,
+    provider: result.provider,
+    prompt_template: toPromptTemplateRef(promptTemplate),
+  };
+}
 
-    console.log('✅ Replicate fallback generation completed successfully');
-
-    // Extract output
-    let imageUrl = '';
-    if (Array.isArray(output)) {
-      imageUrl = output[0];
-    } else if (typeof output === 'string') {
-      imageUrl = output;
-    } else {
-      // @ts-ignore
-      imageUrl = output?.url || String(output);
+/**
+ * Dress the model in a multi-garment outfit through the provider registry.
+ * Providers with multi-reference try-on (Vertex) get every layer in one call;
+ * the others put the layers on one at a time, innermost first.
+ * @param layers - Outfit layers, in any order
+ * @param options - Prompt template, provider and aspect ratio overrides
+ */
+export async function executeOutfitTryOn(
+  modelImageUrl: string,
+  layers: OutfitLayer[],
+  gender: 'male' | 'female' = 'female',
+  options: GenerationOptions = {}
+): Promise<TryOnResult> {
+  const ordered = sortOutfitLayers(layers);
+  const promptTemplate = options.template || await getActivePromptTemplate('tryon-outfit');
+  const aspectRatio = options.aspectRatio || "3:4";
+
+  console.log(`👗 Executing outfit try-on: ${ordered.map(layer => layer.slot).join(' + ')} (providers: ${getProviderOrder('tryon').join(' → ')})...`);
+
+  const result = await runWithFallback('tryon', async provider => {
+    if (provider.tryOnOutfit) {
+      return provider.tryOnOutfit({
+        modelImageUrl,
+        garments: ordered.map(layer => ({ imageUrl: layer.image_url, slot: layer.slot })),
+        prompt: renderPromptTemplate(promptTemplate, { gender, outfit: ordered }),
+        aspectRatio,
+        seed: options.seed,
+      });
     }
 
-    if (!imageUrl) {
-      throw new Error('No image generated by Replicate fallback');
+    if (!provider.tryOn) throw new Error(`${provider.id} does not support try-on`);
+
+    // Sequential layering: each pass dresses the previous pass's output
+    const layerTemplate = await getActivePromptTemplate('tryon');
+    let dressed: ProviderImageResult | null = null;
+    for (const layer of ordered) {
+      console.log(`   ↳ Layering ${layer.slot} with ${provider.id}...`);
+      dressed = await provider.tryOn({
+        modelImageUrl: dressed?.image_url || modelImageUrl,
+        clothingImageUrl: layer.image_url,
+        prompt: renderPromptTemplate(layerTemplate, { gender, garment_category: layer.slot }),
+        aspectRatio,
+        seed: options.seed,
+      });
     }
-
-    return {
-      image_url: imageUrl,
-      has_nsfw_concepts: false,
-    };
-  } catch (error) {
-    console.error('❌ Replicate fallback error:', error);
-    // If this fails, we have no more fallbacks.
-    throw error;
-  }
+    if (!dressed) throw new Error('Outfit has no layers');
+    return dressed;
+  }, { preferredProvider: options.preferredProvider });
+
+  return {
+    image_url: result.image_url,
+    seed: result.seed,
+    has_nsfw_concepts: result.has_nsfw_concepts ?? false,
+    provider: result.provider,
+    prompt_template: toPromptTemplateRef(promptTemplate),
+  };
 }
 
 /**
@@ -256,47 +239,23 @@ export async function executeTryOn(
 }
 
 /**
- * Execute basic upscale using Replicate (Crystal Upscaler) - Only for Pro/Enterprise
+ * Execute basic upscale through the provider registry (Crystal Upscaler by default) - Only for Pro/Enterprise
  * @param imageUrl - URL of the image to upscale
  */
 export async function executeBasicUpscale(imageUrl: string): Promise<UpscaleResult> {
-  if (!REPLICATE_API_TOKEN) {
-    throw new Error('Replicate API token is not configured');
-  }
-
   try {
-    console.log('📈 Starting upscale with Replicate (philz1337x/crystal-upscaler)...');
+    console.log(`📈 Starting upscale (providers: ${getProviderOrder('upscale').join(' → ')})...`);
     console.log('🖼️  Input image:', imageUrl.substring(0, 100) + '...');
 
-    // Model: philz1337x/crystal-upscaler
-    // We rely on standard Replicate run with 'image' input
-    // The previous implementation used "basic-upscale" incorrectly pointing to CodeFormer.
-    if (!replicate) throw new Error("Replicate client not initialized");
-    const output = await replicate.run(
-      "philz1337x/crystal-upscaler",
-      {
-        input: {
-          image: imageUrl,
-          // upscale_factor: 2 or 4. Requirement says 2K for Free/Creator (LOCKED), 4K for Pro/Ent.
-          // Since this function is called for "basic-upscale", we need to clarify usage.
-          // If this function is NOW only for Pro/Ent, we can default to 4x or whatever max is.
-          scale: 4,
-        }
-      }
-    );
-
-    let upscaledUrl = '';
-    // Replicate output parsing
-    if (typeof output === 'string') upscaledUrl = output;
-    // @ts-ignore
-    else if (output?.url) upscaledUrl = output.url;
-
-    if (!upscaledUrl) throw new Error("No URL returned from Crystal Upscaler");
+    const result = await runWithFallback('upscale', provider => {
+      if (!provider.upscale) throw new Error(`${provider.id} does not support upscale`);
+      return provider.upscale({ imageUrl, scale: 4 });
+    });
 
     return {
-      image_url: upscaledUrl
+      image_url: result.image_url,
+      provider: result.provider,
     };
-
   } catch (error) {
     console.error('❌ Upscale error:', error);
     throw error;
@@ -318,13 +277,16 @@ export async function executeEnhancedUpscale(imageUrl: string): Promise<UpscaleR
 // =============================================
 
 export interface StudioGenerationInput {
-  mode: VertexPromptMode;
+  mode: StudioPromptMode;
   gender: 'male' | 'female';
   referenceImageUrl: string;
   themePrompt?: string;
   backgroundPrompt?: string;
   anglePrompt?: string;
   aspectRatio?: string;
+  template?: PromptTemplate; // Defaults to the mode's active template version
+  preferredProvider?: string;
+  seed?: number;
 }
 
 /**
@@ -333,43 +295,36 @@ export interface StudioGenerationInput {
 export async function executeStudioGeneration(
   input: StudioGenerationInput
 ): Promise<TryOnResult> {
-  const { mode, gender, referenceImageUrl, themePrompt, backgroundPrompt, anglePrompt, aspectRatio } = input;
+  const { mode, gender, referenceImageUrl, themePrompt, backgroundPrompt, anglePrompt, aspectRatio, seed } = input;
 
-  // Construct the prompt using the strict logic defined in vertex-prompt.ts
-  const prompt = constructVertexPrompt({
-    mode,
+  const promptTemplate = input.template || await getActivePromptTemplate(getPromptTemplateKey(mode));
+  const prompt = renderPromptTemplate(promptTemplate, {
     gender,
-    themePrompt,
-    backgroundPrompt,
-    anglePrompt,
+    theme: themePrompt,
+    background: backgroundPrompt,
+    angle: anglePrompt,
   });
 
   console.log(`🎨 Executing ${mode} generation...`);
   console.log(`   Prompt: ${prompt.substring(0, 100)}...`);
 
-  if (!isVertexAIConfigured()) {
-    console.warn("⚠️ Vertex AI not configured for simplified studio generation. Attempting fallback...");
-    // Fallback logic could go here, but as per requirements Vertex AI is the target.
-    // We can reuse the TryOn fallback or fail.
-    // Integrating simple Replicate fallback for now if Vertex is missing.
-    if (!replicate) throw new Error("No AI provider configured");
-
-    // Using a general model for fallback (e.g. standard Flux or similar if available, or fail)
-    // For now, throwing error if Vertex is missing as this is a specific Vertex feature request
-    // unless we want to map it to a generic replicate model.
-    throw new Error("Vertex AI is required for Studio Generation features");
-  }
-
   try {
-    const result = await generateImageVertex({
-      referenceImageUrls: [referenceImageUrl],
-      prompt: prompt,
-      aspectRatio: aspectRatio || "3:4", // Default to 3:4 for fashion
-    });
+    const result = await runWithFallback('studio', provider => {
+      if (!provider.studio) throw new Error(`${provider.id} does not support studio generation`);
+      return provider.studio({
+        referenceImageUrl,
+        prompt,
+        aspectRatio: aspectRatio || "3:4", // Default to 3:4 for fashion
+        seed,
+      });
+    }, { preferredProvider: input.preferredProvider });
 
     return {
-      image_url: result.image,
-      has_nsfw_concepts: false,
+      image_url: result.image_url,
+      seed: result.seed,
+      has_nsfw_concepts: result.has_nsfw_concepts ?? false,
+      provider: result.provider,
+      prompt_template: toPromptTemplateRef(promptTemplate),
     };
   } catch (error) {
     // Sanitize error log to avoid printing base64 image data
@@ -433,11 +388,19 @@ export function getQualityLevel(tier: string): QualityLevel {
 
 export interface PipelineConfig {
   tier: string;
+  userId?: string; // Owner of stored step images
+  garmentCategory?: GarmentCategory; // Shop-selected category, wins over garment pre-processing's guess
+  outfit?: OutfitLayer[]; // Multi-garment try-on; replaces the single clothing image
+  watermark?: WatermarkSettings; // Shop's watermark profile (paid tiers); free tier always gets the Trayve mark
   enabledSteps?: PipelineStep[];
   quality?: QualityLevel;
   gender?: 'male' | 'female';
   onStepComplete?: (step: PipelineStepResult) => Promise<void>;  // NEW: Callback for incremental updates
-  mode?: VertexPromptMode; // 'social_media' or 'product_shots'
+  mode?: StudioPromptMode; // 'social_media' or 'product_shots'
+  promptTemplate?: PromptTemplate; // Resolved once per run so every pose uses the same version
+  preferredProvider?: string; // Generation provider tried first (experiment variant)
+  aspectRatio?: string; // Generation aspect ratio, 3:4 by default (experiment variant)
+  seed?: number; // Generation seed (regenerations with a chosen seed)
   prompts?: {
     theme?: string;
     background?: string;
@@ -452,6 +415,10 @@ export interface PipelineStepResult {
   originalUrl?: string;  // Original FAL.AI/Replicate URL (for next steps, bypasses 5MB limit)
   error?: string;
   processingTime?: number;
+  provider?: string;  // Image provider used for this step
+  promptTemplate?: PromptTemplateRef;  // Prompt template version used by generation steps
+  seed?: number;  // Seed the generation provider reported, when it reports one
+  completedAt?: string;  // When the step finished (ISO), for the result's version history
 }
 
 // =============================================
@@ -464,12 +431,14 @@ export interface PipelineStepResult {
  * @param aiProviderUrl - URL from FAL/Replicate
  * @param stepType - Pipeline step type
  * @param executionId - Unique execution ID
+ * @param config - Pipeline configuration (owner and tier for retention)
  * @returns Supabase public URL
  */
 async function uploadStepImageToSupabase(
   aiProviderUrl: string,
   stepType: PipelineStep,
-  executionId: string
+  executionId: string,
+  config: PipelineConfig
 ): Promise<string> {
   try {
     console.log(`📤 Uploading ${stepType} image to Supabase...`);
@@ -490,6 +459,18 @@ async function uploadStepImageToSupabase(
     );
 
     console.log(`✅ Uploaded to Supabase: ${uploadResult.url.substring(0, 80)}...`);
+
+    await trackStoredObject({
+      bucket: STORAGE_BUCKETS.SHOPIFY_GENERATIONS,
+      path: uploadResult.path,
+      user_id: config.userId || null,
+      kind: 'intermediate',
+      owner_table: 'pipeline_executions',
+      owner_id: executionId,
+      size_bytes: imageBuffer.length,
+      tier: config.tier,
+    });
+
     return uploadResult.url;
   } catch (error) {
     console.error(`❌ Failed to upload ${stepType} image to Supabase:`, error);
@@ -502,6 +483,40 @@ async function uploadStepImageToSupabase(
 // PIPELINE EXECUTION
 // =============================================
 
+/**
+ * Pre-process every outfit layer. A layer that fails keeps its original photo;
+ * the step only fails when no layer could be prepared.
+ */
+async function prepareOutfitLayers(
+  layers: OutfitLayer[],
+  userId: string
+): Promise<{ layers: OutfitLayer[]; imageUrl: string; provider?: string }> {
+  const outcomes = await Promise.allSettled(
+    layers.map(layer => prepareGarment(layer.image_url, userId, getSlotGarmentCategory(layer.slot)))
+  );
+
+  const prepared = outcomes.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  if (prepared.length === 0) {
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    throw failure?.reason instanceof Error ? failure.reason : new Error('No outfit layer could be prepared');
+  }
+
+  outcomes.forEach((outcome, index) => {
+    if (outcome.status === 'rejected') {
+      console.warn(`⚠️  Pre-processing the ${layers[index].slot} layer failed, using the original photo`);
+    }
+  });
+
+  return {
+    layers: layers.map((layer, index) => {
+      const outcome = outcomes[index];
+      return outcome.status === 'fulfilled' ? { ...layer, image_url: outcome.value.imageUrl } : layer;
+    }),
+    imageUrl: prepared[0].imageUrl,
+    provider: prepared.find(garment => garment.provider)?.provider,
+  };
+}
+
 /**
  * Execute full pipeline with tier-based steps
  * @param modelImageUrl - URL of the model/pose image
@@ -518,6 +533,7 @@ export async function executePipeline(
   const enabledSteps = config.enabledSteps || getEnabledSteps(config.tier);
   const quality = config.quality || getQualityLevel(config.tier);
   const gender = config.gender || 'female';
+  const templateFor = (key: PromptTemplateKey) => (config.promptTemplate?.key === key ? config.promptTemplate : undefined);
 
   const results: PipelineStepResult[] = [];
   let currentImageUrl = '';
@@ -545,11 +561,14 @@ export async function executePipeline(
         themePrompt: config.prompts?.theme,
         backgroundPrompt: config.prompts?.background,
         anglePrompt: config.prompts?.angle,
-        // Aspect ratio could be passed in config if needed, defaulting to 3:4
+        template: templateFor(getPromptTemplateKey(config.mode)),
+        preferredProvider: config.preferredProvider,
+        aspectRatio: config.aspectRatio,
+        seed: config.seed,
       });
 
       const aiProviderUrl = result.image_url;
-      const supabaseUrl = await uploadStepImageToSupabase(aiProviderUrl, stepType, executionId);
+      const supabaseUrl = await uploadStepImageToSupabase(aiProviderUrl, stepType, executionId, config);
       currentImageUrl = aiProviderUrl; // For chain
       generatedImageUrl = supabaseUrl;
 
@@ -559,6 +578,10 @@ export async function executePipeline(
         imageUrl: supabaseUrl,
         originalUrl: aiProviderUrl,
         processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
+        provider: result.provider,
+        promptTemplate: result.prompt_template,
+        seed: result.seed,
       };
       results.push(stepResult);
       if (config.onStepComplete) await config.onStepComplete(stepResult);
@@ -569,6 +592,7 @@ export async function executePipeline(
         status: 'failed',
         error: error instanceof Error ? error.message : 'Unknown error',
         processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
       };
       results.push(stepResult);
       if (config.onStepComplete) await config.onStepComplete(stepResult);
@@ -577,13 +601,69 @@ export async function executePipeline(
   }
   // Case B: Virtual Try-On (Default)
   else if (enabledSteps.includes('tryon')) {
+    let tryOnClothingUrl = clothingImageUrl;
+    let tryOnOutfit = config.outfit?.length ? config.outfit : null;
+    let garmentCategory = config.garmentCategory;
+
+    // Step 0: Garment pre-processing (optional) - a failure falls back to the original photo
+    if (enabledSteps.includes('garment-prep') && (clothingImageUrl || tryOnOutfit) && config.userId) {
+      const startTime = Date.now();
+      try {
+        let prepared: { imageUrl: string; provider?: string };
+        if (tryOnOutfit) {
+          const preparedOutfit = await prepareOutfitLayers(tryOnOutfit, config.userId);
+          tryOnOutfit = preparedOutfit.layers;
+          prepared = preparedOutfit;
+        } else {
+          const preparedGarment = await prepareGarment(clothingImageUrl, config.userId, config.garmentCategory);
+          tryOnClothingUrl = preparedGarment.imageUrl;
+          garmentCategory = preparedGarment.category || garmentCategory;
+          prepared = preparedGarment;
+        }
+
+        const stepResult: PipelineStepResult = {
+          stepType: 'garment-prep',
+          status: 'completed',
+          imageUrl: prepared.imageUrl,
+          processingTime: Date.now() - startTime,
+          completedAt: new Date().toISOString(),
+          provider: prepared.provider,
+        };
+        results.push(stepResult);
+        if (config.onStepComplete) await config.onStepComplete(stepResult);
+      } catch (error) {
+        console.warn('⚠️  Garment pre-processing failed, using the original photo:', error instanceof Error ? error.message : 'Unknown error');
+        const stepResult: PipelineStepResult = {
+          stepType: 'garment-prep',
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          processingTime: Date.now() - startTime,
+          completedAt: new Date().toISOString(),
+        };
+        results.push(stepResult);
+        if (config.onStepComplete) await config.onStepComplete(stepResult);
+      }
+    }
+
     const startTime = Date.now();
     try {
-      const tryOnResult = await executeTryOn(modelImageUrl, clothingImageUrl, quality, gender);
+      const tryOnResult = tryOnOutfit
+        ? await executeOutfitTryOn(modelImageUrl, tryOnOutfit, gender, {
+          template: templateFor('tryon-outfit'),
+          preferredProvider: config.preferredProvider,
+          aspectRatio: config.aspectRatio,
+          seed: config.seed,
+        })
+        : await executeTryOn(modelImageUrl, tryOnClothingUrl, quality, gender, undefined, garmentCategory, {
+          template: templateFor('tryon'),
+          preferredProvider: config.preferredProvider,
+          aspectRatio: config.aspectRatio,
+          seed: config.seed,
+        });
       const aiProviderUrl = tryOnResult.image_url;
 
       // Upload to Supabase immediately
-      const supabaseUrl = await uploadStepImageToSupabase(aiProviderUrl, 'tryon', executionId);
+      const supabaseUrl = await uploadStepImageToSupabase(aiProviderUrl, 'tryon', executionId, config);
       currentImageUrl = aiProviderUrl;  // Use AI provider URL for next step (bypasses 5MB limit)
 
       const stepResult: PipelineStepResult = {
@@ -592,6 +672,10 @@ export async function executePipeline(
         imageUrl: supabaseUrl,  // Store Supabase URL in metadata
         originalUrl: aiProviderUrl,  // Keep AI provider URL for next step
         processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
+        provider: tryOnResult.provider,
+        promptTemplate: tryOnResult.prompt_template,
+        seed: tryOnResult.seed,
       };
 
       results.push(stepResult);
@@ -606,6 +690,7 @@ export async function executePipeline(
         status: 'failed',
         error: error instanceof Error ? error.message : 'Unknown error',
         processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
       };
 
       results.push(stepResult);
@@ -620,30 +705,6 @@ export async function executePipeline(
     }
   }
 
-  // INSERTING WATERMARK BLOCK (Step 1.5)
-  if (enabledSteps.includes('watermark' as any) && currentImageUrl) {
-    try {
-      console.log('▶️ Executing Step: Watermark Enforcement');
-      const startTime = Date.now();
-      // Pass userId if available in config, else default
-      const uid = (config as any).userId || 'system';
-      const watermarkedUrl = await applyWatermark(currentImageUrl, uid);
-
-      const result: PipelineStepResult = {
-        stepType: 'watermark' as any,
-        status: 'completed',
-        imageUrl: watermarkedUrl
-      };
-      results.push(result);
-      currentImageUrl = watermarkedUrl;
-      if (config.onStepComplete) await config.onStepComplete(result);
-    } catch (err) {
-      console.error('❌ Watermark failed', err);
-    }
-  }
-
-
-
   // Step 3: Enhanced Upscale (Professional/Enterprise only)
   if (enabledSteps.includes('enhanced-upscale') && currentImageUrl) {
     const startTime = Date.now();
@@ -657,7 +718,7 @@ export async function executePipeline(
       const aiProviderUrl = enhancedResult.image_url;
 
       // Upload to Supabase immediately
-      const supabaseUrl = await uploadStepImageToSupabase(aiProviderUrl, 'enhanced-upscale', executionId);
+      const supabaseUrl = await uploadStepImageToSupabase(aiProviderUrl, 'enhanced-upscale', executionId, config);
       currentImageUrl = aiProviderUrl;  // Use AI provider URL for next step
 
       const stepResult: PipelineStepResult = {
@@ -666,6 +727,8 @@ export async function executePipeline(
         imageUrl: supabaseUrl,  // Store Supabase URL in metadata
         originalUrl: aiProviderUrl,  // FAL.AI URL for next step
         processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
+        provider: enhancedResult.provider,
       };
 
       results.push(stepResult);
@@ -681,6 +744,7 @@ export async function executePipeline(
         status: 'failed',
         error: error instanceof Error ? error.message : 'Unknown error',
         processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
       };
 
       results.push(stepResult);
@@ -695,6 +759,52 @@ export async function executePipeline(
 
 
 
+  // Watermark: the Trayve mark on free tier, the shop's own profile when a paid run opts in.
+  // Runs last so a logo overlay lands on the upscaled image.
+  if (enabledSteps.includes('watermark') && currentImageUrl) {
+    const startTime = Date.now();
+    try {
+      console.log('▶️ Executing Step: Watermark');
+      // Pass userId if available in config, else default
+      const uid = config.userId || 'system';
+      const watermarkedUrl = await applyWatermark(currentImageUrl, uid, resolveWatermark(config.tier, config.watermark));
+
+      const watermarkedObject = parseStorageUrl(watermarkedUrl);
+      if (watermarkedObject) {
+        await trackStoredObject({
+          ...watermarkedObject,
+          user_id: config.userId || null,
+          kind: 'intermediate',
+          owner_table: 'pipeline_executions',
+          owner_id: executionId,
+          tier: config.tier,
+        });
+      }
+
+      const result: PipelineStepResult = {
+        stepType: 'watermark',
+        status: 'completed',
+        imageUrl: watermarkedUrl,
+        processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
+      };
+      results.push(result);
+      currentImageUrl = watermarkedUrl;
+      if (config.onStepComplete) await config.onStepComplete(result);
+    } catch (err) {
+      console.error('❌ Watermark failed', err);
+      const result: PipelineStepResult = {
+        stepType: 'watermark',
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Unknown error',
+        processingTime: Date.now() - startTime,
+        completedAt: new Date().toISOString(),
+      };
+      results.push(result);
+      if (config.onStepComplete) await config.onStepComplete(result);
+    }
+  }
+
   console.log('✅ Pipeline execution completed', {
     totalSteps: results.length,
     successfulSteps: results.filter(r => r.status === 'completed').length,
@@ -0,0 +1,767 @@
+/**
+ * Catalog Batch Generation Service
+ *
+ * Runs one base model + pose set against many Shopify products at once.
+ * A batch is the parent record: credits for every product are held when it
+ * is created (credit hold `batch:<id>`), then each product becomes a normal
+ * pipeline execution (using the product's featured image as the garment) as
+ * queue capacity allows. Executions capture completed poses from the batch
+ * hold and release failed ones; products that never start (cancelled or
+ * failed to dispatch) are released here, and any remainder when the batch ends.
+ *
+ * generation_batches columns:
+ *   id, user_id, name, source ('collection' | 'products'), source_ref,
+ *   base_model_id, poses (jsonb), subscription_tier,
+ *   status ('processing' | 'completed' | 'cancelled' | 'failed'),
+ *   total_items, credits_per_pose, credits_reserved, created_at, updated_at, completed_at
+ *
+ * generation_batch_items columns:
+ *   id, batch_id, user_id, product_id, product_title, product_handle,
+ *   clothing_image_url,
+ *   status ('pending' | 'dispatching' | 'processing' | 'completed' | 'failed' | 'cancelled'),
+ *   execution_id, project_id, error, published_at, published_media_count,
+ *   created_at, updated_at
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+import { supabaseAdmin } from "../storage/supabase.server";
+import { CATALOG_BATCH } from "../../config/generation.constants";
+import { quoteFeature } from "../pricing";
+import { startPipelineExecution, type ExecutionInput, type PoseInput } from "./pipeline-execution.service";
+import { listProjectGenerations, type Generation } from "./generation.service";
+import { reserveCredits, releaseCredits, getCreditHoldByKey, getHoldRemaining } from "../credits/credit-ledger.server";
+import {
+  pushGenerationsToProduct,
+  type PushMediaResult,
+  type ShopifyProductSummary,
+} from "../shopify/product-media.server";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type BatchStatus = 'processing' | 'completed' | 'cancelled' | 'failed';
+export type BatchItemStatus = 'pending' | 'dispatching' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationBatch {
+  id: string;
+  user_id: string;
+  name: string;
+  source: 'collection' | 'products';
+  source_ref: string | null;
+  base_model_id: string;
+  poses: PoseInput[];
+  subscription_tier: ExecutionInput['subscription_tier'];
+  status: BatchStatus;
+  total_items: number;
+  credits_per_pose: number; // Catalog price when the batch was created
+  credits_reserved: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface GenerationBatchItem {
+  id: string;
+  batch_id: string;
+  user_id: string;
+  product_id: string;
+  product_title: string;
+  product_handle: string | null;
+  clothing_image_url: string;
+  status: BatchItemStatus;
+  execution_id: string | null;
+  project_id: string | null;
+  error: string | null;
+  published_at: string | null;
+  published_media_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateBatchInput {
+  user_id: string;
+  subscription_tier: ExecutionInput['subscription_tier'];
+  name?: string;
+  source: 'collection' | 'products';
+  source_ref?: string;
+  base_model_id: string;
+  poses: PoseInput[];
+  products: ShopifyProductSummary[];
+}
+
+export interface SkippedProduct {
+  product_id: string;
+  title: string;
+  reason: string;
+}
+
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  published: number;
+  percent: number;
+}
+
+export interface BatchCredits {
+  reserved: number;
+  captured: number;
+  released: number;
+  held: number;
+}
+
+export interface BatchItemDetail extends GenerationBatchItem {
+  execution_progress: number;
+  preview_image_url: string | null;
+  result_count: number;
+}
+
+const ACTIVE_ITEM_STATUSES: BatchItemStatus[] = ['pending', 'dispatching', 'processing'];
+
+// =============================================
+// HELPERS
+// =============================================
+
+function creditsPerItem(batch: Pick<GenerationBatch, 'poses' | 'credits_per_pose'>): number {
+  return batch.credits_per_pose * batch.poses.length;
+}
+
+function batchHoldKey(batchId: string): string {
+  return `batch:${batchId}`;
+}
+
+/**
+ * Return held credits for products that never ran
+ */
+async function releaseBatchCredits(
+  batch: GenerationBatch,
+  credits: number | null,
+  idempotencyKey: string,
+  reason: string
+): Promise<void> {
+  if (credits !== null && credits <= 0) return;
+
+  const hold = await getCreditHoldByKey(batchHoldKey(batch.id));
+  if (!hold) {
+    console.error(`❌ No credit hold found for batch ${batch.id}`);
+    return;
+  }
+
+  const result = await releaseCredits(hold.id, credits, idempotencyKey, reason);
+  if (!result.success) {
+    console.error(`❌ Failed to release credits for batch ${batch.id}:`, result.error);
+    return;
+  }
+
+  if (result.amount) {
+    console.log(`💰 Released ${result.amount} credits for batch ${batch.id}: ${reason}`);
+  }
+}
+
+async function updateItem(itemId: string, updates: Partial<GenerationBatchItem>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("generation_batch_items")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", itemId);
+
+  if (error) {
+    console.error(`❌ Failed to update batch item ${itemId}:`, error);
+  }
+}
+
+// =============================================
+// CREATE
+// =============================================
+
+/**
+ * Create a batch, reserve credits for every product and queue the products
+ * for dispatch. Products without a featured image are skipped.
+ */
+export async function createGenerationBatch(
+  input: CreateBatchInput
+): Promise<{ batch: GenerationBatch; skipped: SkippedProduct[] }> {
+  const { user_id, subscription_tier, base_model_id, poses, source } = input;
+
+  if (!poses || poses.length === 0) {
+    throw new Error("At least one pose is required");
+  }
+
+  if (poses.length > 10) {
+    throw new Error("Maximum 10 poses allowed per product");
+  }
+
+  const skipped: SkippedProduct[] = [];
+  const seen = new Set<string>();
+  const products = input.products.filter((product) => {
+    if (seen.has(product.id)) return false;
+    seen.add(product.id);
+
+    if (!product.featured_image_url) {
+      skipped.push({ product_id: product.id, title: product.title, reason: "No featured image" });
+      return false;
+    }
+    return true;
+  });
+
+  if (products.length === 0) {
+    throw new Error("None of the selected products have a featured image");
+  }
+
+  if (products.length > CATALOG_BATCH.maxProducts) {
+    throw new Error(`Maximum ${CATALOG_BATCH.maxProducts} products allowed per batch`);
+  }
+
+  const quote = quoteFeature("generation", poses.length * products.length, { tier: subscription_tier });
+  const creditsPerPose = quote.unit_credits;
+  const creditsToReserve = quote.total_credits;
+  const now = new Date().toISOString();
+
+  console.log('═══════════════════════════════════════════════════════');
+  console.log('📦 CATALOG BATCH CREATE');
+  console.log(`   User: ${user_id} (tier: ${subscription_tier})`);
+  console.log(`   Products: ${products.length} (${skipped.length} skipped)`);
+  console.log(`   Poses per product: ${poses.length}`);
+  console.log(`   Credits to reserve: ${creditsToReserve}`);
+
+  const { data: batch, error: batchError } = await supabaseAdmin
+    .from("generation_batches")
+    .insert({
+      user_id,
+      name: input.name?.trim() || `Catalog batch ${new Date().toLocaleDateString()}`,
+      source,
+      source_ref: input.source_ref || null,
+      base_model_id,
+      poses,
+      subscription_tier,
+      status: 'processing',
+      total_items: products.length,
+      credits_per_pose: creditsPerPose,
+      credits_reserved: creditsToReserve,
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (batchError || !batch) {
+    console.error('❌ Failed to create batch:', batchError);
+    throw new Error("Failed to create batch");
+  }
+
+  // Hold credits for the whole batch upfront
+  const reservation = await reserveCredits({
+    user_id,
+    amount: creditsToReserve,
+    idempotency_key: batchHoldKey(batch.id),
+    description: `Catalog batch - ${products.length} product(s) × ${poses.length} pose(s)`,
+    feature_type: "catalog_batch",
+    reference_id: batch.id,
+  });
+
+  if (!reservation.success) {
+    const errorMsg = reservation.error || "Failed to reserve credits";
+    console.error('❌ Batch credit reservation failed:', errorMsg);
+    await supabaseAdmin
+      .from("generation_batches")
+      .update({ status: 'failed', credits_reserved: 0, updated_at: new Date().toISOString() })
+      .eq("id", batch.id);
+    throw new Error(errorMsg);
+  }
+
+  const { error: itemsError } = await supabaseAdmin
+    .from("generation_batch_items")
+    .insert(products.map((product) => ({
+      batch_id: batch.id,
+      user_id,
+      product_id: product.id,
+      product_title: product.title,
+      product_handle: product.handle,
+      clothing_image_url: product.featured_image_url,
+      status: 'pending',
+      published_media_count: 0,
+      created_at: now,
+      updated_at: now,
+    })));
+
+  if (itemsError) {
+    console.error('❌ Failed to create batch items:', itemsError);
+    await releaseBatchCredits(batch as GenerationBatch, null, `${batchHoldKey(batch.id)}:abort`, "Catalog batch could not be created");
+    await supabaseAdmin
+      .from("generation_batches")
+      .update({ status: 'failed', completed_at: new Date().toISOString() })
+      .eq("id", batch.id);
+    throw new Error("Failed to create batch items");
+  }
+
+  console.log(`✅ Batch created: ${batch.id}`);
+  console.log('═══════════════════════════════════════════════════════');
+
+  return { batch: batch as GenerationBatch, skipped };
+}
+
+// =============================================
+// PROGRESS SYNC
+// =============================================
+
+/**
+ * Copy finished execution statuses onto a batch's items and close the batch
+ * once every item has finished
+ */
+async function syncBatchItems(batch: GenerationBatch): Promise<void> {
+  const { data: running, error } = await supabaseAdmin
+    .from("generation_batch_items")
+    .select("id, execution_id")
+    .eq("batch_id", batch.id)
+    .eq("status", "processing");
+
+  if (error) {
+    console.error(`❌ Failed to load running items for batch ${batch.id}:`, error);
+    return;
+  }
+
+  const executionIds = (running || []).map(item => item.execution_id).filter(Boolean);
+  if (executionIds.length > 0) {
+    const { data: executions } = await supabaseAdmin
+      .from("pipeline_executions")
+      .select("id, status")
+      .in("id", executionIds);
+
+    const statusByExecution = new Map((executions || []).map(execution => [execution.id, execution.status]));
+
+    for (const item of running || []) {
+      const executionStatus = statusByExecution.get(item.execution_id);
+      if (executionStatus === 'completed' || executionStatus === 'failed' || executionStatus === 'cancelled') {
+        await updateItem(item.id, { status: executionStatus });
+      }
+    }
+  }
+
+  if (batch.status === 'failed') return;
+
+  const { count: activeCount } = await supabaseAdmin
+    .from("generation_batch_items")
+    .select("id", { count: "exact", head: true })
+    .eq("batch_id", batch.id)
+    .in("status", ACTIVE_ITEM_STATUSES);
+
+  if (activeCount !== 0) return;
+
+  if (batch.status === 'processing') {
+    await supabaseAdmin
+      .from("generation_batches")
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", batch.id)
+      .eq("status", "processing");
+
+    console.log(`🏁 Batch ${batch.id} finished`);
+  }
+
+  // Anything the executions didn't capture or release goes back to the shop
+  await releaseBatchCredits(batch, null, `${batchHoldKey(batch.id)}:settle`, "Catalog batch finished");
+}
+
+// =============================================
+// DISPATCH
+// =============================================
+
+/**
+ * Start a pending product as a prepaid pipeline execution
+ */
+async function dispatchItem(batch: GenerationBatch, item: GenerationBatchItem): Promise<void> {
+  // Claim the item so concurrent workers don't start it twice
+  const { data: claimed } = await supabaseAdmin
+    .from("generation_batch_items")
+    .update({ status: 'dispatching', updated_at: new Date().toISOString() })
+    .eq("id", item.id)
+    .eq("status", "pending")
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) return;
+
+  try {
+    const execution = await startPipelineExecution({
+      user_id: batch.user_id,
+      subscription_tier: batch.subscription_tier,
+      base_model_id: batch.base_model_id,
+      clothing_image_url: item.clothing_image_url,
+      poses: batch.poses,
+      project_name: `${item.product_title} (${batch.name})`,
+      project_description: `Catalog batch generation for ${item.product_title}`,
+      batch_id: batch.id,
+      prepaid: true,
+      credits_per_pose: batch.credits_per_pose,
+    });
+
+    await updateItem(item.id, {
+      status: 'processing',
+      execution_id: execution.execution_id,
+      project_id: execution.project_id,
+    });
+
+    console.log(`📦 Batch ${batch.id}: started ${item.product_title} (execution ${execution.execution_id})`);
+  } catch (error: any) {
+    console.error(`❌ Batch ${batch.id}: failed to start ${item.product_title}:`, error);
+    await updateItem(item.id, { status: 'failed', error: error.message || "Failed to start generation" });
+    await releaseBatchCredits(
+      batch,
+      creditsPerItem(batch),
+      `${batchHoldKey(batch.id)}:item:${item.id}:release`,
+      `Catalog batch product could not start: ${item.product_title}`
+    );
+  }
+}
+
+/**
+ * Cancelled batches whose products are still generating. They are synced until
+ * the last one finishes, which settles the batch's remaining credits.
+ */
+async function getDrainingBatches(): Promise<GenerationBatch[]> {
+  const { data: items, error } = await supabaseAdmin
+    .from("generation_batch_items")
+    .select("batch_id, generation_batches!inner (status)")
+    .eq("generation_batches.status", "cancelled")
+    .in("status", ACTIVE_ITEM_STATUSES)
+    .limit(100);
+
+  if (error) {
+    console.error('❌ Failed to fetch cancelled batches with running products:', error);
+    return [];
+  }
+
+  const batchIds = [...new Set((items || []).map(item => item.batch_id))];
+  if (batchIds.length === 0) return [];
+
+  const { data: batches } = await supabaseAdmin
+    .from("generation_batches")
+    .select("*")
+    .in("id", batchIds);
+
+  return (batches || []) as GenerationBatch[];
+}
+
+/**
+ * Move batches forward: sync finished items and start pending products while
+ * each batch is below its active-item limit. Called from the pipeline worker.
+ */
+export async function dispatchBatchItems(): Promise<void> {
+  for (const batch of await getDrainingBatches()) {
+    try {
+      await syncBatchItems(batch);
+    } catch (syncError) {
+      console.error(`❌ Failed to sync cancelled batch ${batch.id}:`, syncError);
+    }
+  }
+
+  const { data: batches, error } = await supabaseAdmin
+    .from("generation_batches")
+    .select("*")
+    .eq("status", "processing")
+    .order("created_at", { ascending: true })
+    .limit(20);
+
+  if (error) {
+    console.error('❌ Failed to fetch active batches:', error);
+    return;
+  }
+
+  for (const batch of (batches || []) as GenerationBatch[]) {
+    try {
+      await syncBatchItems(batch);
+
+      const { count: inFlight } = await supabaseAdmin
+        .from("generation_batch_items")
+        .select("id", { count: "exact", head: true })
+        .eq("batch_id", batch.id)
+        .in("status", ["dispatching", "processing"]);
+
+      const openSlots = CATALOG_BATCH.maxActiveItemsPerBatch - (inFlight || 0);
+      if (openSlots <= 0) continue;
+
+      const { data: pending } = await supabaseAdmin
+        .from("generation_batch_items")
+        .select("*")
+        .eq("batch_id", batch.id)
+        .eq("status", "pending")
+        .order("created_at", { ascending: true })
+        .limit(openSlots);
+
+      for (const item of (pending || []) as GenerationBatchItem[]) {
+        await dispatchItem(batch, item);
+      }
+    } catch (batchError) {
+      console.error(`❌ Failed to dispatch batch ${batch.id}:`, batchError);
+    }
+  }
+}
+
+// =============================================
+// READ
+// =============================================
+
+async function getOwnedBatch(batchId: string, userId: string): Promise<GenerationBatch | null> {
+  const { data, error } = await supabaseAdmin
+    .from("generation_batches")
+    .select("*")
+    .eq("id", batchId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`❌ Failed to fetch batch ${batchId}:`, error);
+    throw new Error("Failed to fetch batch");
+  }
+
+  return data as GenerationBatch | null;
+}
+
+function summarizeProgress(items: Array<Pick<BatchItemDetail, 'status' | 'published_at' | 'execution_progress'>>): BatchProgress {
+  const progress: BatchProgress = {
+    total: items.length,
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+    published: 0,
+    percent: 0,
+  };
+
+  let progressSum = 0;
+  for (const item of items) {
+    if (item.status === 'pending') progress.pending++;
+    else if (item.status === 'dispatching' || item.status === 'processing') progress.processing++;
+    else progress[item.status]++;
+
+    if (item.published_at) progress.published++;
+    progressSum += item.status === 'processing' || item.status === 'dispatching' || item.status === 'pending'
+      ? item.execution_progress
+      : 100;
+  }
+
+  progress.percent = items.length > 0 ? Math.round(progressSum / items.length) : 0;
+  return progress;
+}
+
+/**
+ * List a shop's batches, newest first
+ */
+export async function listGenerationBatches(
+  userId: string,
+  limit: number = 20
+): Promise<GenerationBatch[]> {
+  const { data, error } = await supabaseAdmin
+    .from("generation_batches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('❌ Failed to list batches:', error);
+    throw new Error("Failed to fetch batches");
+  }
+
+  return (data || []) as GenerationBatch[];
+}
+
+/**
+ * Get a batch with per-product status, previews, aggregate progress and credit usage
+ */
+export async function getGenerationBatch(
+  batchId: string,
+  userId: string
+): Promise<{ batch: GenerationBatch; items: BatchItemDetail[]; progress: BatchProgress; credits: BatchCredits } | null> {
+  const existing = await getOwnedBatch(batchId, userId);
+  if (!existing) return null;
+
+  await syncBatchItems(existing);
+  const batch = (await getOwnedBatch(batchId, userId)) || existing;
+
+  const { data: items, error } = await supabaseAdmin
+    .from("generation_batch_items")
+    .select("*")
+    .eq("batch_id", batchId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error(`❌ Failed to fetch items for batch ${batchId}:`, error);
+    throw new Error("Failed to fetch batch items");
+  }
+
+  const batchItems = (items || []) as GenerationBatchItem[];
+  const executionIds = batchItems.map(item => item.execution_id).filter(Boolean) as string[];
+  const projectIds = batchItems.map(item => item.project_id).filter(Boolean) as string[];
+
+  const [executionsResult, generations] = await Promise.all([
+    executionIds.length > 0
+      ? supabaseAdmin.from("pipeline_executions").select("id, progress").in("id", executionIds)
+      : Promise.resolve({ data: [] as any[] }),
+    listProjectGenerations(projectIds, { completedOnly: true, latestVersions: true }),
+  ]);
+
+  const progressByExecution = new Map((executionsResult.data || []).map((e: any) => [e.id, e.progress || 0]));
+  const resultsByProject = new Map<string, string[]>();
+  for (const result of generations) {
+    const imageUrl = result.metadata.upscaled_image_url || result.result_image_url;
+    if (!imageUrl) continue;
+    const urls = resultsByProject.get(result.project_id) || [];
+    urls.push(imageUrl);
+    resultsByProject.set(result.project_id, urls);
+  }
+
+  const details: BatchItemDetail[] = batchItems.map((item) => {
+    const images = (item.project_id && resultsByProject.get(item.project_id)) || [];
+    return {
+      ...item,
+      execution_progress: (item.execution_id && progressByExecution.get(item.execution_id)) || 0,
+      preview_image_url: images[0] || null,
+      result_count: images.length,
+    };
+  });
+
+  const hold = await getCreditHoldByKey(batchHoldKey(batch.id));
+  const credits: BatchCredits = {
+    reserved: hold?.amount || batch.credits_reserved,
+    captured: hold?.captured_amount || 0,
+    released: hold?.released_amount || 0,
+    held: hold ? getHoldRemaining(hold) : 0,
+  };
+
+  return { batch, items: details, progress: summarizeProgress(details), credits };
+}
+
+// =============================================
+// CANCEL
+// =============================================
+
+/**
+ * Cancel a batch: products that haven't started are cancelled and refunded,
+ * products already generating are allowed to finish (the worker settles the
+ * batch's credits once they have)
+ */
+export async function cancelGenerationBatch(
+  batchId: string,
+  userId: string
+): Promise<{ success: boolean; cancelled_items?: number; error?: string }> {
+  const batch = await getOwnedBatch(batchId, userId);
+  if (!batch) {
+    return { success: false, error: "Batch not found" };
+  }
+
+  if (batch.status !== 'processing') {
+    return { success: false, error: "Batch is not in processing state" };
+  }
+
+  // Guarded so a batch that finished meanwhile keeps its status
+  const { data: claimed } = await supabaseAdmin
+    .from("generation_batches")
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .eq("status", "processing")
+    .select("id")
+    .maybeSingle();
+
+  if (!claimed) {
+    return { success: false, error: "Batch is not in processing state" };
+  }
+
+  const { data: cancelled, error } = await supabaseAdmin
+    .from("generation_batch_items")
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq("batch_id", batchId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) {
+    console.error(`❌ Failed to cancel items for batch ${batchId}:`, error);
+    return { success: false, error: "Failed to cancel batch" };
+  }
+
+  const cancelledCount = cancelled?.length || 0;
+  await releaseBatchCredits(
+    batch,
+    cancelledCount * creditsPerItem(batch),
+    `${batchHoldKey(batch.id)}:cancel`,
+    `Catalog batch cancelled - ${cancelledCount} product(s) not generated`
+  );
+
+  await supabaseAdmin
+    .from("generation_batches")
+    .update({ completed_at: new Date().toISOString() })
+    .eq("id", batchId);
+
+  console.log(`🛑 Batch ${batchId} cancelled (${cancelledCount} pending product(s) refunded)`);
+  return { success: true, cancelled_items: cancelledCount };
+}
+
+// =============================================
+// PUBLISH
+// =============================================
+
+/**
+ * Push a finished product's generated images to its Shopify product
+ */
+export async function publishBatchItem(
+  admin: Pick<AdminApiContext, "graphql">,
+  userId: string,
+  batchId: string,
+  itemId: string
+): Promise<{ item: GenerationBatchItem; results: PushMediaResult[] }> {
+  const { data: item, error } = await supabaseAdmin
+    .from("generation_batch_items")
+    .select("*")
+    .eq("id", itemId)
+    .eq("batch_id", batchId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !item) {
+    throw new Error("Batch item not found");
+  }
+
+  if (item.status !== 'completed' || !item.project_id) {
+    throw new Error("Only completed products can be published");
+  }
+
+  let results: Generation[];
+  try {
+    results = await listProjectGenerations(item.project_id, { userId, completedOnly: true, latestVersions: true });
+  } catch (resultsError) {
+    console.error(`❌ Failed to load results for batch item ${itemId}:`, resultsError);
+    throw new Error("Failed to load generated images");
+  }
+
+  if (results.length === 0) {
+    throw new Error("No generated images to publish");
+  }
+
+  const pushResults = await pushGenerationsToProduct(admin, {
+    user_id: userId,
+    product_id: item.product_id,
+    items: results.map((result) => ({
+      result_id: result.id,
+      alt: result.pose_name ? `${item.product_title} - ${result.pose_name}` : item.product_title,
+    })),
+  });
+
+  const pushed = pushResults.filter(result => result.action !== 'failed').length;
+  const updates: Partial<GenerationBatchItem> = {};
+  if (pushed > 0) {
+    updates.published_at = new Date().toISOString();
+    updates.published_media_count = pushed;
+    await updateItem(item.id, updates);
+  }
+
+  console.log(`🛍️  Published ${pushed}/${pushResults.length} image(s) for ${item.product_title}`);
+
+  return { item: { ...item, ...updates }, results: pushResults };
+}
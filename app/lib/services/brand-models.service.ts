@@ -0,0 +1,401 @@
+/**
+ * Brand Models Service
+ *
+ * Private base models a Professional/Enterprise shop uploads from photos of
+ * its own models. They live in the regular base_models / model_poses tables
+ * with owner_user_id set, so the pipeline treats them like catalog models,
+ * while models.service only ever returns them to the owning shop.
+ *
+ * Photos are stored in the models bucket under `${userId}/brand-models/`,
+ * the first one becoming the model's cover. Every upload records the
+ * consent attestation the shop confirmed.
+ *
+ * Tables:
+ *   base_models.owner_user_id (null for catalog models)
+ *   model_consent_attestations (id, user_id, base_model_id, shop_domain,
+ *     attested_by, statement, statement_version, ip_address, user_agent,
+ *     attested_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { STORAGE_BUCKETS, deleteStorageObjects, generateUniqueFileName, uploadToModelsBucket } from "./storage.service";
+import { trackStoredObject } from "./storage-lifecycle.service";
+import { getBaseModelById, type BaseModel, type ModelPose } from "./models.service";
+import { BRAND_MODEL_CONSENT } from "./model-access.service";
+import { BRAND_MODELS } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export const BRAND_MODEL_POSE_TYPES: ModelPose["pose_type"][] = [
+  "front",
+  "side",
+  "three-quarter",
+  "back",
+  "dynamic",
+  "seated",
+];
+
+export interface BrandModelImage {
+  buffer: Buffer;
+  contentType: string;
+  pose_type: ModelPose["pose_type"];
+}
+
+export interface ConsentAttestation {
+  shop_domain: string;
+  attested_by: string; // Name typed by the person confirming consent
+  ip_address?: string | null;
+  user_agent?: string | null;
+}
+
+export interface CreateBrandModelInput {
+  name: string;
+  gender: BaseModel["gender"];
+  body_type: BaseModel["body_type"];
+  description?: string;
+  images: BrandModelImage[];
+  attestation: ConsentAttestation;
+}
+
+// =============================================
+// VALIDATION
+// =============================================
+
+/**
+ * Check uploaded photos against the brand model limits
+ * @returns Error message, or null when the photos are acceptable
+ */
+export function validateBrandModelImages(images: BrandModelImage[], existingPoses: number = 0): string | null {
+  if (images.length === 0) {
+    return "At least one photo is required";
+  }
+
+  if (existingPoses + images.length > BRAND_MODELS.maxPosesPerModel) {
+    return `A brand model can have at most ${BRAND_MODELS.maxPosesPerModel} poses`;
+  }
+
+  for (const image of images) {
+    if (!BRAND_MODELS.allowedContentTypes.includes(image.contentType)) {
+      return "Photos must be JPEG, PNG or WebP";
+    }
+    if (image.buffer.length > BRAND_MODELS.maxImageMb * 1024 * 1024) {
+      return `Photos must be ${BRAND_MODELS.maxImageMb}MB or smaller`;
+    }
+    if (!BRAND_MODEL_POSE_TYPES.includes(image.pose_type)) {
+      return `Invalid pose type: ${image.pose_type}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Active brand models a tier may keep at once
+ */
+export function getBrandModelLimit(tier: string): number {
+  return BRAND_MODELS.maxModels[tier] || 0;
+}
+
+// =============================================
+// HELPERS
+// =============================================
+
+function getExtension(contentType: string): string {
+  if (contentType === "image/png") return "png";
+  if (contentType === "image/webp") return "webp";
+  return "jpg";
+}
+
+async function recordAttestation(userId: string, baseModelId: string, attestation: ConsentAttestation): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("model_consent_attestations")
+    .insert({
+      user_id: userId,
+      base_model_id: baseModelId,
+      shop_domain: attestation.shop_domain,
+      attested_by: attestation.attested_by,
+      statement: BRAND_MODEL_CONSENT.statement,
+      statement_version: BRAND_MODEL_CONSENT.version,
+      ip_address: attestation.ip_address || null,
+      user_agent: attestation.user_agent || null,
+      attested_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to record consent attestation: ${error.message}`);
+  }
+}
+
+interface UploadedImage {
+  path: string;
+  url: string;
+  image: BrandModelImage;
+}
+
+/**
+ * Upload photos under the shop's brand model folder.
+ * Already-uploaded files are removed again if one of them fails.
+ */
+async function uploadImages(userId: string, modelId: string, images: BrandModelImage[]): Promise<UploadedImage[]> {
+  const uploaded: UploadedImage[] = [];
+
+  try {
+    for (const image of images) {
+      const fileName = generateUniqueFileName(getExtension(image.contentType), `${userId}/brand-models/${modelId}`);
+      const result = await uploadToModelsBucket(image.buffer, fileName, image.contentType);
+      uploaded.push({ path: result.path, url: result.url, image });
+    }
+  } catch (error) {
+    await removeImages(uploaded);
+    throw error;
+  }
+
+  return uploaded;
+}
+
+async function removeImages(uploaded: UploadedImage[]): Promise<void> {
+  if (uploaded.length === 0) return;
+  await deleteStorageObjects(STORAGE_BUCKETS.MODELS, uploaded.map(file => file.path))
+    .catch(error => console.error("⚠️ Failed to clean up brand model photos:", error));
+}
+
+/**
+ * Create a pose for each uploaded photo and track the files
+ */
+async function savePoses(userId: string, modelId: string, modelName: string, uploaded: UploadedImage[], firstIndex: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("model_poses")
+    .insert(
+      uploaded.map(({ path, url, image }, index) => ({
+        base_model_id: modelId,
+        name: `${modelName} - Pose ${firstIndex + index + 1}`,
+        pose_type: image.pose_type,
+        image_url: url,
+        supabase_path: path,
+        is_active: true,
+      }))
+    );
+
+  if (error) {
+    throw new Error(`Failed to save poses: ${error.message}`);
+  }
+
+  for (const { path, image } of uploaded) {
+    await trackStoredObject({
+      bucket: STORAGE_BUCKETS.MODELS,
+      path,
+      user_id: userId,
+      kind: "model",
+      owner_table: "base_models",
+      owner_id: modelId,
+      size_bytes: image.buffer.length,
+    });
+  }
+}
+
+// =============================================
+// OPERATIONS
+// =============================================
+
+/**
+ * The shop's active brand models with their poses
+ */
+export async function listBrandModels(userId: string): Promise<BaseModel[]> {
+  const { data, error } = await supabaseAdmin
+    .from("base_models")
+    .select(`
+      *,
+      poses:model_poses(*)
+    `)
+    .eq("owner_user_id", userId)
+    .eq("is_active", true)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch brand models: ${error.message}`);
+  }
+
+  return (data || []).map((model: any) => ({
+    ...model,
+    poses: (model.poses || []).filter((pose: any) => pose.is_active),
+  }));
+}
+
+/**
+ * Create a brand model from the shop's photos.
+ * The first photo is used as the model's cover image.
+ */
+export async function createBrandModel(userId: string, input: CreateBrandModelInput): Promise<BaseModel> {
+  const invalid = validateBrandModelImages(input.images);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  const modelId = crypto.randomUUID();
+  const name = input.name.trim();
+  const uploaded = await uploadImages(userId, modelId, input.images);
+
+  try {
+    const { error } = await supabaseAdmin
+      .from("base_models")
+      .insert({
+        id: modelId,
+        name,
+        description: input.description?.trim() || null,
+        gender: input.gender,
+        body_type: input.body_type,
+        image_url: uploaded[0].url,
+        supabase_path: uploaded[0].path,
+        is_active: true,
+        is_promoted: false,
+        source: "brand",
+        uploaded_by: input.attestation.attested_by,
+        owner_user_id: userId,
+      });
+
+    if (error) {
+      throw new Error(`Failed to create brand model: ${error.message}`);
+    }
+
+    await recordAttestation(userId, modelId, input.attestation);
+    await savePoses(userId, modelId, name, uploaded, 0);
+  } catch (error) {
+    // Never leave a model behind without its consent record or poses
+    await supabaseAdmin.from("model_poses").delete().eq("base_model_id", modelId);
+    await supabaseAdmin.from("model_consent_attestations").delete().eq("base_model_id", modelId);
+    await supabaseAdmin.from("base_models").delete().eq("id", modelId);
+    await removeImages(uploaded);
+    throw error;
+  }
+
+  console.log(`🧍 Created brand model ${modelId} (${input.images.length} poses) for user ${userId}`);
+
+  const model = await getBaseModelById(modelId, userId);
+  if (!model) {
+    throw new Error("Brand model was created but could not be loaded");
+  }
+  return model;
+}
+
+/**
+ * Add poses to one of the shop's brand models
+ * @returns The updated model, or null when it doesn't exist or belongs to another shop
+ */
+export async function addBrandModelPoses(
+  userId: string,
+  modelId: string,
+  images: BrandModelImage[],
+  attestation: ConsentAttestation
+): Promise<BaseModel | null> {
+  const model = await getBaseModelById(modelId, userId);
+  if (!model || model.owner_user_id !== userId || !model.is_active) {
+    return null;
+  }
+
+  const invalid = validateBrandModelImages(images, model.poses?.length || 0);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  await recordAttestation(userId, modelId, attestation);
+
+  const uploaded = await uploadImages(userId, modelId, images);
+  try {
+    await savePoses(userId, modelId, model.name, uploaded, model.poses?.length || 0);
+  } catch (error) {
+    await removeImages(uploaded);
+    throw error;
+  }
+
+  console.log(`🧍 Added ${images.length} poses to brand model ${modelId}`);
+  return getBaseModelById(modelId, userId);
+}
+
+/**
+ * Hide a brand model from the shop's pickers. Past results keep their images.
+ * @returns false when the model doesn't exist or belongs to another shop
+ */
+export async function archiveBrandModel(userId: string, modelId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("base_models")
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq("id", modelId)
+    .eq("owner_user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to archive brand model: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) return false;
+
+  console.log(`📦 Archived brand model ${modelId}`);
+  return true;
+}
+
+/**
+ * Active brand models the shop currently has
+ */
+export async function countBrandModels(userId: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from("base_models")
+    .select("id", { count: "exact", head: true })
+    .eq("owner_user_id", userId)
+    .eq("is_active", true);
+
+  if (error) {
+    throw new Error(`Failed to count brand models: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+// =============================================
+// REQUEST PARSING
+// =============================================
+
+/**
+ * Read `images` and their matching `pose_types` from an upload form
+ */
+export async function readBrandModelImages(formData: FormData): Promise<{ images: BrandModelImage[]; error?: string }> {
+  const files = formData.getAll("images").filter((file): file is File => typeof file !== "string");
+  const poseTypes = formData.getAll("pose_types").map(String);
+
+  if (files.length === 0) {
+    return { images: [], error: "At least one photo is required" };
+  }
+
+  if (poseTypes.length !== files.length) {
+    return { images: [], error: "Each photo needs a pose type" };
+  }
+
+  const images = await Promise.all(
+    files.map(async (file, index) => ({
+      buffer: Buffer.from(await file.arrayBuffer()),
+      contentType: file.type,
+      pose_type: poseTypes[index] as ModelPose["pose_type"],
+    }))
+  );
+
+  return { images };
+}
+
+/**
+ * The consent attestation confirmed in an upload form, or null when
+ * the box wasn't ticked or no name was given
+ */
+export function readConsentAttestation(request: Request, formData: FormData, shopDomain: string): ConsentAttestation | null {
+  const consent = formData.get("consent") === "true";
+  const attestedBy = String(formData.get("consent_name") || "").trim();
+
+  if (!consent || !attestedBy) return null;
+
+  return {
+    shop_domain: shopDomain,
+    attested_by: attestedBy,
+    ip_address: request.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+    user_agent: request.headers.get("user-agent"),
+  };
+}
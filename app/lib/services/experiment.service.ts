@@ -0,0 +1,341 @@
+/**
+ * Experiment Service
+ *
+ * A/B experiments on pipeline runs. A running experiment splits new
+ * executions between its variants by weight; each variant can pin a prompt
+ * template version, put a provider first, change the aspect ratio or skip
+ * the tier's upscale step. The assignment is stored on the execution
+ * (experiment_id, experiment_variant, and the variant's config under
+ * config.experiment) so the worker applies it and analytics can group by it.
+ *
+ * Merchant signals (downloads, favorites, pushes to Shopify, regenerations)
+ * are recorded per result in generation_signals and aggregated per variant
+ * by PipelineDatabaseService.getExecutionAnalytics.
+ *
+ * Tables:
+ *   experiments (id, name, description, scope, status, variants, created_by,
+ *     created_at, updated_at)
+ *   generation_signals (id, user_id, execution_id, result_id, signal, created_at)
+ *   pipeline_executions.experiment_id, pipeline_executions.experiment_variant
+ */
+
+import { createHash } from "crypto";
+import { supabaseAdmin } from "../storage/supabase.server";
+import { getProvider } from "../providers";
+import { getPromptTemplateById } from "./prompt-template.service";
+import { getGeneration } from "./generation.service";
+import { EXPERIMENTS } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type ExperimentScope = "tryon" | "studio" | "all";
+export type ExperimentStatus = "draft" | "running" | "stopped";
+export type GenerationSignal = "download" | "favorite" | "push" | "regenerate";
+
+export const EXPERIMENT_SCOPES: ExperimentScope[] = ["tryon", "studio", "all"];
+export const EXPERIMENT_STATUSES: ExperimentStatus[] = ["draft", "running", "stopped"];
+export const GENERATION_SIGNALS: GenerationSignal[] = ["download", "favorite", "push", "regenerate"];
+
+const SIGNAL_QUERY_CHUNK = 200;
+
+export interface ExperimentVariantConfig {
+  prompt_template_id?: string; // Pinned prompt template version (must match the run's template key)
+  provider?: string; // Provider tried first for the generation step
+  aspect_ratio?: string;
+  upscale?: boolean; // false skips the tier's upscale step
+}
+
+export interface ExperimentVariant {
+  id: string; // Short label, e.g. "control" or "b"
+  weight: number; // Relative share of executions
+  config: ExperimentVariantConfig;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  description: string | null;
+  scope: ExperimentScope;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateExperimentInput {
+  name: string;
+  description?: string;
+  scope: ExperimentScope;
+  variants: ExperimentVariant[];
+  created_by?: string;
+}
+
+/**
+ * What an execution was assigned to - stored in its config as `experiment`
+ */
+export interface ExperimentAssignment {
+  experiment_id: string;
+  variant_id: string;
+  config: ExperimentVariantConfig;
+}
+
+// =============================================
+// VALIDATION
+// =============================================
+
+/**
+ * Check an experiment's variants
+ * @returns Error message, or null when the variants are valid
+ */
+export async function validateExperimentVariants(variants: unknown): Promise<string | null> {
+  if (!Array.isArray(variants) || variants.length < EXPERIMENTS.minVariants || variants.length > EXPERIMENTS.maxVariants) {
+    return `An experiment needs ${EXPERIMENTS.minVariants} to ${EXPERIMENTS.maxVariants} variants`;
+  }
+
+  const ids = new Set<string>();
+  for (const variant of variants as ExperimentVariant[]) {
+    if (!variant?.id || typeof variant.id !== "string") {
+      return "Each variant needs an id";
+    }
+    if (ids.has(variant.id)) {
+      return `Duplicate variant id: ${variant.id}`;
+    }
+    ids.add(variant.id);
+
+    if (typeof variant.weight !== "number" || !(variant.weight > 0)) {
+      return `Variant ${variant.id} needs a positive weight`;
+    }
+
+    const config = variant.config || {};
+    if (config.provider !== undefined && !getProvider(config.provider)) {
+      return `Variant ${variant.id}: unknown provider ${config.provider}`;
+    }
+    if (config.aspect_ratio !== undefined && !EXPERIMENTS.aspectRatios.includes(config.aspect_ratio)) {
+      return `Variant ${variant.id}: aspect_ratio must be one of ${EXPERIMENTS.aspectRatios.join(", ")}`;
+    }
+    if (config.upscale !== undefined && typeof config.upscale !== "boolean") {
+      return `Variant ${variant.id}: upscale must be true or false`;
+    }
+    if (config.prompt_template_id !== undefined && !(await getPromptTemplateById(config.prompt_template_id))) {
+      return `Variant ${variant.id}: prompt template not found`;
+    }
+  }
+
+  return null;
+}
+
+// =============================================
+// MANAGEMENT
+// =============================================
+
+export async function listExperiments(): Promise<Experiment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch experiments: ${error.message}`);
+  }
+
+  return (data || []) as Experiment[];
+}
+
+export async function getExperiment(experimentId: string): Promise<Experiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .select("*")
+    .eq("id", experimentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch experiment: ${error.message}`);
+  }
+
+  return (data as Experiment) || null;
+}
+
+/**
+ * Create an experiment as a draft
+ * @returns The experiment, or an error message when the input is invalid
+ */
+export async function createExperiment(input: CreateExperimentInput): Promise<{ experiment: Experiment | null; error?: string }> {
+  if (!input.name?.trim()) {
+    return { experiment: null, error: "name is required" };
+  }
+  if (!EXPERIMENT_SCOPES.includes(input.scope)) {
+    return { experiment: null, error: `scope must be one of ${EXPERIMENT_SCOPES.join(", ")}` };
+  }
+
+  const invalid = await validateExperimentVariants(input.variants);
+  if (invalid) {
+    return { experiment: null, error: invalid };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .insert({
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      scope: input.scope,
+      status: "draft",
+      variants: input.variants.map(variant => ({ id: variant.id, weight: variant.weight, config: variant.config || {} })),
+      created_by: input.created_by || null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create experiment: ${error?.message}`);
+  }
+
+  console.log(`🧪 Created experiment ${data.id} (${input.variants.length} variants)`);
+  return { experiment: data as Experiment };
+}
+
+/**
+ * Start or stop an experiment. Executions already assigned keep their variant.
+ * @returns The experiment, or null when it doesn't exist
+ */
+export async function setExperimentStatus(experimentId: string, status: ExperimentStatus): Promise<Experiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", experimentId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update experiment: ${error.message}`);
+  }
+
+  if (data) {
+    console.log(`🧪 Experiment ${experimentId} is now ${status}`);
+  }
+  return (data as Experiment) || null;
+}
+
+// =============================================
+// ASSIGNMENT
+// =============================================
+
+/**
+ * Weighted variant for an execution. Hashing the execution ID keeps the
+ * assignment stable if the same execution is assigned again.
+ */
+function pickVariant(experiment: Experiment, executionId: string): ExperimentVariant {
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const hash = createHash("sha256").update(`${experiment.id}:${executionId}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  for (const variant of experiment.variants) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+/**
+ * Assign an execution to the oldest running experiment covering its mode
+ * @returns The assignment, or null when no experiment applies. Never throws -
+ * experiments must not block a run.
+ */
+export async function assignExperiment(executionId: string, mode?: string | null): Promise<ExperimentAssignment | null> {
+  const scope: ExperimentScope = mode ? "studio" : "tryon";
+
+  const { data, error } = await supabaseAdmin
+    .from("experiments")
+    .select("*")
+    .eq("status", "running")
+    .in("scope", [scope, "all"])
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("⚠️  Could not load running experiments, running without one:", error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  const experiment = data as Experiment;
+  const variant = pickVariant(experiment, executionId);
+  console.log(`🧪 Execution ${executionId} assigned to experiment ${experiment.id} variant ${variant.id}`);
+
+  return {
+    experiment_id: experiment.id,
+    variant_id: variant.id,
+    config: variant.config || {},
+  };
+}
+
+// =============================================
+// SIGNALS
+// =============================================
+
+/**
+ * Record what a merchant did with a result. Signals are recorded for every
+ * execution, in or out of an experiment. Never throws.
+ * @param input.execution_id - Skips the result lookup when already known
+ * @returns false when the result doesn't exist or belongs to another shop
+ */
+export async function recordGenerationSignal(input: {
+  user_id: string;
+  signal: GenerationSignal;
+  result_id?: string | null;
+  execution_id?: string | null;
+}): Promise<boolean> {
+  try {
+    const executionId = input.execution_id
+      || (input.result_id ? (await getGeneration(input.result_id, input.user_id))?.execution_id : null);
+    if (!executionId) return false;
+
+    const { error } = await supabaseAdmin
+      .from("generation_signals")
+      .insert({
+        user_id: input.user_id,
+        execution_id: executionId,
+        result_id: input.result_id || null,
+        signal: input.signal,
+      });
+
+    if (error) {
+      console.warn(`⚠️  Failed to record ${input.signal} signal:`, error.message);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn(`⚠️  Failed to record ${input.signal} signal:`, error);
+    return false;
+  }
+}
+
+/**
+ * Signal counts per execution
+ */
+export async function getSignalCounts(executionIds: string[]): Promise<Map<string, Record<GenerationSignal, number>>> {
+  const counts = new Map<string, Record<GenerationSignal, number>>();
+
+  // Chunked so the ID filter stays within URL limits
+  for (let i = 0; i < executionIds.length; i += SIGNAL_QUERY_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from("generation_signals")
+      .select("execution_id, signal")
+      .in("execution_id", executionIds.slice(i, i + SIGNAL_QUERY_CHUNK));
+
+    if (error) {
+      throw new Error(`Failed to fetch generation signals: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const entry = counts.get(row.execution_id) || { download: 0, favorite: 0, push: 0, regenerate: 0 };
+      if (row.signal in entry) entry[row.signal as GenerationSignal]++;
+      counts.set(row.execution_id, entry);
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,302 @@
+/**
+ * Feedback Service
+ *
+ * What merchants think of each result: a favorite flag, a 1-5 star rating
+ * and structured rejection reasons. One row per result, updated in place.
+ * The row keeps the result's execution, base model, pose and the provider
+ * that generated it, so quality can be grouped without reading the results
+ * back (see PipelineDatabaseService.getExecutionAnalytics).
+ *
+ * Favoriting a result also records a 'favorite' generation signal.
+ *
+ * Table: generation_feedback (id, user_id, result_id unique, kind, project_id,
+ * execution_id, base_model_id, pose_id, pose_name, provider, favorite, rating,
+ * rejection_reasons text[], created_at, updated_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { getGeneration, type Generation, type GenerationKind } from "./generation.service";
+import { recordGenerationSignal } from "./experiment.service";
+import { RESULT_FEEDBACK, type RejectionReason } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export const REJECTION_REASONS = Object.keys(RESULT_FEEDBACK.rejectionReasons) as RejectionReason[];
+
+export interface ResultFeedback {
+  result_id: string;
+  favorite: boolean;
+  rating: number | null;
+  rejection_reasons: RejectionReason[];
+  updated_at: string;
+}
+
+/**
+ * Stored row, with what the result was generated from
+ */
+export interface FeedbackRecord extends ResultFeedback {
+  kind: GenerationKind;
+  project_id: string;
+  execution_id: string | null;
+  base_model_id: string | null;
+  pose_id: string | null;
+  pose_name: string | null;
+  provider: string | null;
+}
+
+/**
+ * Fields to change; missing fields keep their current value
+ */
+export interface FeedbackUpdate {
+  favorite?: boolean;
+  rating?: number | null; // null clears the rating
+  rejection_reasons?: RejectionReason[];
+}
+
+/**
+ * Results (or projects with a result) matching every given condition
+ */
+export interface FeedbackFilter {
+  favorite?: boolean;
+  min_rating?: number;
+  rejected?: boolean; // At least one rejection reason
+  rejection_reason?: RejectionReason;
+}
+
+// Steps whose provider made the image (later steps only upscale or watermark)
+const GENERATION_STEPS = ["tryon", "post-ready", "shop-ready"];
+
+const FEEDBACK_QUERY_CHUNK = 200;
+
+// =============================================
+// VALIDATION
+// =============================================
+
+function isRejectionReason(value: unknown): value is RejectionReason {
+  return typeof value === "string" && (REJECTION_REASONS as string[]).includes(value);
+}
+
+function isRating(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= RESULT_FEEDBACK.maxRating;
+}
+
+/**
+ * Check a feedback update from a request
+ * @returns Error message, or null when the update is valid
+ */
+export function validateFeedbackUpdate(update: FeedbackUpdate): string | null {
+  if (update.favorite === undefined && update.rating === undefined && update.rejection_reasons === undefined) {
+    return "Provide favorite, rating or rejection_reasons";
+  }
+  if (update.favorite !== undefined && typeof update.favorite !== "boolean") {
+    return "favorite must be true or false";
+  }
+  if (update.rating !== undefined && update.rating !== null && !isRating(update.rating)) {
+    return `rating must be a whole number from 1 to ${RESULT_FEEDBACK.maxRating}`;
+  }
+  if (update.rejection_reasons !== undefined
+    && (!Array.isArray(update.rejection_reasons) || !update.rejection_reasons.every(isRejectionReason))) {
+    return `rejection_reasons must be a list of ${REJECTION_REASONS.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Check feedback filters from a request
+ * @returns Error message, or null when the filters are valid
+ */
+export function validateFeedbackFilter(filter: FeedbackFilter): string | null {
+  if (filter.min_rating !== undefined && !isRating(filter.min_rating)) {
+    return `min_rating must be a whole number from 1 to ${RESULT_FEEDBACK.maxRating}`;
+  }
+  if (filter.rejection_reason !== undefined && !isRejectionReason(filter.rejection_reason)) {
+    return `rejection_reason must be one of ${REJECTION_REASONS.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Read feedback filters from query parameters
+ * (favorite=true, min_rating=4, rejected=true, rejection_reason=bad_hands)
+ */
+export function getFeedbackFilter(params: URLSearchParams): FeedbackFilter {
+  return {
+    favorite: params.get("favorite") === "true" || undefined,
+    min_rating: params.has("min_rating") ? Number(params.get("min_rating")) : undefined,
+    rejected: params.get("rejected") === "true" || undefined,
+    rejection_reason: (params.get("rejection_reason") || undefined) as RejectionReason | undefined,
+  };
+}
+
+export function hasFeedbackFilter(filter: FeedbackFilter): boolean {
+  return !!(filter.favorite || filter.min_rating || filter.rejected || filter.rejection_reason);
+}
+
+/**
+ * Whether a result's feedback (undefined when it has none) matches a filter
+ */
+export function matchesFeedbackFilter(feedback: ResultFeedback | undefined, filter: FeedbackFilter): boolean {
+  if (filter.favorite && !feedback?.favorite) return false;
+  if (filter.min_rating && (feedback?.rating || 0) < filter.min_rating) return false;
+  if (filter.rejected && !feedback?.rejection_reasons.length) return false;
+  if (filter.rejection_reason && !feedback?.rejection_reasons.includes(filter.rejection_reason)) return false;
+  return true;
+}
+
+// =============================================
+// FEEDBACK
+// =============================================
+
+/**
+ * Provider of the step that generated the image
+ */
+function getGenerationProvider(generation: Generation): string | null {
+  const steps: any[] = generation.metadata.step_results || [];
+  return steps.find(step => GENERATION_STEPS.includes(step.stepType) && step.status === "completed")?.provider || null;
+}
+
+async function getBaseModelId(generation: Generation): Promise<string | null> {
+  if (generation.kind === "studio" && generation.base_model_id) {
+    return generation.base_model_id;
+  }
+  if (!generation.execution_id) return null;
+
+  const { data } = await supabaseAdmin
+    .from("pipeline_executions")
+    .select("base_model_id:config->>base_model_id")
+    .eq("id", generation.execution_id)
+    .maybeSingle();
+
+  return data?.base_model_id || null;
+}
+
+function toResultFeedback(row: any): ResultFeedback {
+  return {
+    result_id: row.result_id,
+    favorite: !!row.favorite,
+    rating: row.rating ?? null,
+    rejection_reasons: (row.rejection_reasons || []).filter(isRejectionReason),
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Save a shop's feedback on one of its results
+ * @returns The result's feedback, or null when the result doesn't exist or belongs to another shop
+ */
+export async function saveResultFeedback(
+  userId: string,
+  resultId: string,
+  update: FeedbackUpdate
+): Promise<ResultFeedback | null> {
+  const generation = await getGeneration(resultId, userId);
+  if (!generation) return null;
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from("generation_feedback")
+    .select("*")
+    .eq("result_id", resultId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch feedback: ${fetchError.message}`);
+  }
+
+  const row = {
+    user_id: userId,
+    result_id: resultId,
+    kind: generation.kind,
+    project_id: generation.project_id,
+    execution_id: generation.execution_id,
+    base_model_id: existing ? existing.base_model_id : await getBaseModelId(generation),
+    pose_id: generation.pose_id ? String(generation.pose_id) : null,
+    pose_name: generation.pose_name || null,
+    provider: getGenerationProvider(generation),
+    favorite: update.favorite ?? existing?.favorite ?? false,
+    rating: update.rating !== undefined ? update.rating : existing?.rating ?? null,
+    rejection_reasons: update.rejection_reasons ? [...new Set(update.rejection_reasons)] : existing?.rejection_reasons || [],
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from("generation_feedback")
+    .upsert(row, { onConflict: "result_id" })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save feedback: ${error?.message}`);
+  }
+
+  if (row.favorite && !existing?.favorite) {
+    await recordGenerationSignal({
+      user_id: userId,
+      signal: "favorite",
+      result_id: resultId,
+      execution_id: generation.execution_id,
+    });
+  }
+
+  console.log(`⭐ Saved feedback for result ${resultId}`);
+  return toResultFeedback(data);
+}
+
+/**
+ * Feedback on the given results, keyed by result ID. Results without feedback are missing.
+ */
+export async function getResultFeedback(resultIds: string[]): Promise<Map<string, ResultFeedback>> {
+  const feedback = new Map<string, ResultFeedback>();
+
+  // Chunked so the ID filter stays within URL limits
+  for (let i = 0; i < resultIds.length; i += FEEDBACK_QUERY_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from("generation_feedback")
+      .select("result_id, favorite, rating, rejection_reasons, updated_at")
+      .in("result_id", resultIds.slice(i, i + FEEDBACK_QUERY_CHUNK));
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      feedback.set(row.result_id, toResultFeedback(row));
+    }
+  }
+
+  return feedback;
+}
+
+/**
+ * Feedback on every result of the given executions, for quality analytics
+ */
+export async function listExecutionFeedback(executionIds: string[]): Promise<FeedbackRecord[]> {
+  const records: FeedbackRecord[] = [];
+
+  for (let i = 0; i < executionIds.length; i += FEEDBACK_QUERY_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from("generation_feedback")
+      .select("*")
+      .in("execution_id", executionIds.slice(i, i + FEEDBACK_QUERY_CHUNK));
+
+    if (error) {
+      throw new Error(`Failed to fetch feedback: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      records.push({
+        ...toResultFeedback(row),
+        kind: row.kind,
+        project_id: row.project_id,
+        execution_id: row.execution_id,
+        base_model_id: row.base_model_id,
+        pose_id: row.pose_id,
+        pose_name: row.pose_name,
+        provider: row.provider,
+      });
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,85 @@
+/**
+ * Garment Defaults Service
+ *
+ * Per-shop default selections for each garment category: the pose types
+ * preselected in the try-on studio and the camera angles preselected in
+ * Shop Ready. Poses belong to a model, so defaults store pose types and the
+ * studio resolves them against the selected model's poses.
+ *
+ * Table: garment_category_defaults (id, user_id, category, unique (user_id, category),
+ * pose_types, angle_ids, updated_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import type { GarmentCategory, PoseType } from "../garment-fit";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface GarmentCategoryDefaults {
+  pose_types: PoseType[];
+  angle_ids: string[];
+  updated_at: string | null;
+}
+
+// =============================================
+// OPERATIONS
+// =============================================
+
+/**
+ * Saved defaults for every category the shop has configured
+ */
+export async function getGarmentDefaults(userId: string): Promise<Partial<Record<GarmentCategory, GarmentCategoryDefaults>>> {
+  const { data, error } = await supabaseAdmin
+    .from("garment_category_defaults")
+    .select("category, pose_types, angle_ids, updated_at")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch garment defaults: ${error.message}`);
+  }
+
+  const defaults: Partial<Record<GarmentCategory, GarmentCategoryDefaults>> = {};
+  for (const row of data || []) {
+    defaults[row.category as GarmentCategory] = {
+      pose_types: row.pose_types || [],
+      angle_ids: row.angle_ids || [],
+      updated_at: row.updated_at,
+    };
+  }
+  return defaults;
+}
+
+/**
+ * Save a category's defaults. Fields left undefined keep their saved value.
+ */
+export async function saveGarmentDefaults(
+  userId: string,
+  category: GarmentCategory,
+  update: { pose_types?: PoseType[]; angle_ids?: string[] }
+): Promise<GarmentCategoryDefaults> {
+  const existing = (await getGarmentDefaults(userId))[category];
+
+  const { data, error } = await supabaseAdmin
+    .from("garment_category_defaults")
+    .upsert(
+      {
+        user_id: userId,
+        category,
+        pose_types: update.pose_types ?? existing?.pose_types ?? [],
+        angle_ids: update.angle_ids ?? existing?.angle_ids ?? [],
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,category" }
+    )
+    .select("pose_types, angle_ids, updated_at")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save garment defaults: ${error?.message}`);
+  }
+
+  console.log(`💾 Saved ${category} defaults for user ${userId}: ${data.pose_types.length} pose type(s), ${data.angle_ids.length} angle(s)`);
+  return data as GarmentCategoryDefaults;
+}
@@ -0,0 +1,294 @@
+/**
+ * Garment Pre-processing Service
+ *
+ * Optional clean-up of the shop's clothing photo before try-on:
+ * - background removal through the provider registry
+ * - auto-orient (EXIF) and crop to the garment
+ * - resize and pad onto a white 3:4 canvas so every run gets the same framing
+ * - garment category (top / bottom / full / dress) from the shop, or guessed
+ *   from the cut-out's silhouette
+ *
+ * Cleaned garments are stored per shop and keyed by the source image's
+ * content hash, so the same photo is only processed once across runs.
+ *
+ * Table: prepared_garments (id, user_id, source_hash, unique (user_id, source_hash),
+ * source_url, image_url, storage_path, category, category_source,
+ * background_removed, width, height, use_count, last_used_at, created_at)
+ */
+
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { supabaseAdmin, uploadToStorage } from "../storage/supabase.server";
+import { runWithFallback } from "../providers";
+import { GARMENT_PREP } from "../../config/generation.constants";
+import type { GarmentCategory } from "../garment-fit";
+import { STORAGE_BUCKETS, downloadImageAsBuffer } from "./storage.service";
+import { trackStoredObject } from "./storage-lifecycle.service";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface PreparedGarment {
+  id: string;
+  imageUrl: string;
+  storagePath: string;
+  category: GarmentCategory | null;
+  categorySource: "shop" | "silhouette" | null;
+  backgroundRemoved: boolean;
+  provider?: string; // Background removal provider, when it ran
+  reused: boolean;
+}
+
+// Poses of one run are processed in parallel - share the work for the same garment
+const inFlight = new Map<string, Promise<PreparedGarment>>();
+
+// =============================================
+// IMAGE PROCESSING
+// =============================================
+
+/**
+ * Remove the background, or null when no provider could
+ */
+async function removeGarmentBackground(imageUrl: string): Promise<{ buffer: Buffer; provider: string } | null> {
+  try {
+    const result = await runWithFallback("background-removal", provider => {
+      if (!provider.removeBackground) throw new Error(`${provider.id} does not support background removal`);
+      return provider.removeBackground({ imageUrl });
+    });
+
+    return { buffer: await downloadImageAsBuffer(result.image_url), provider: result.provider };
+  } catch (error) {
+    console.warn(`⚠️  Garment background removal failed, cropping the original: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+/**
+ * Crop to the garment. Cut-outs are trimmed on transparency, photos on the
+ * colour of the top-left corner. Images that can't be trimmed are kept whole.
+ */
+async function cropToGarment(image: Buffer, hasCutout: boolean): Promise<Buffer> {
+  try {
+    return await sharp(image)
+      .rotate()
+      .trim(hasCutout ? {} : { threshold: GARMENT_PREP.trimThreshold })
+      .png()
+      .toBuffer();
+  } catch {
+    return sharp(image).rotate().png().toBuffer();
+  }
+}
+
+/**
+ * Fit the cropped garment onto a padded white canvas with the try-on aspect ratio
+ */
+async function normalizeGarment(cropped: Buffer): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const height = GARMENT_PREP.maxDimension;
+  const width = Math.round(height * GARMENT_PREP.aspectRatio);
+  const innerScale = 1 - (2 * GARMENT_PREP.paddingPercent) / 100;
+
+  const { data, info } = await sharp(cropped)
+    .resize(Math.round(width * innerScale), Math.round(height * innerScale), { fit: "inside" })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const left = Math.floor((width - info.width) / 2);
+  const top = Math.floor((height - info.height) / 2);
+
+  const buffer = await sharp(data)
+    .extend({
+      top,
+      bottom: height - info.height - top,
+      left,
+      right: width - info.width - left,
+      background: { r: 255, g: 255, b: 255, alpha: 1 },
+    })
+    .flatten({ background: "#ffffff" })
+    .png()
+    .toBuffer();
+
+  return { buffer, width, height };
+}
+
+/**
+ * Guess the category from a cropped cut-out's silhouette:
+ * - a gap between the legs at the bottom means trousers/shorts, or a jumpsuit when very tall
+ * - tall without a leg gap is a dress
+ * - widest at the hem and narrower at the waist is a skirt
+ * - anything else is a top
+ */
+async function classifySilhouette(cropped: Buffer): Promise<GarmentCategory | null> {
+  const grid = 48;
+  const metadata = await sharp(cropped).metadata();
+  if (!metadata.width || !metadata.height || !metadata.hasAlpha) return null;
+
+  const { data } = await sharp(cropped)
+    .resize(grid, grid, { fit: "fill" })
+    .extractChannel("alpha")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const opaque = (x: number, y: number) => data[y * grid + x] > 128;
+  const rowWidths = Array.from({ length: grid }, (_, y) =>
+    Array.from({ length: grid }, (_, x) => opaque(x, y)).filter(Boolean).length
+  );
+  const maxWidth = Math.max(...rowWidths);
+  if (maxWidth === 0) return null;
+
+  const band = Math.max(1, Math.round(grid * 0.15));
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const topBand = average(rowWidths.slice(0, band)) / maxWidth;
+  const bottomBand = average(rowWidths.slice(grid - band)) / maxWidth;
+
+  let gapCells = 0;
+  let legCells = 0;
+  for (let y = Math.round(grid * 0.75); y < Math.round(grid * 0.95); y++) {
+    for (let x = Math.round(grid * 0.46); x < Math.round(grid * 0.54); x++) {
+      legCells++;
+      if (!opaque(x, y)) gapCells++;
+    }
+  }
+  const legGap = gapCells / legCells;
+  const aspect = metadata.height / metadata.width;
+
+  if (legGap >= 0.6) return aspect >= 2.6 ? "full" : "bottom";
+  if (aspect >= 1.5) return "dress";
+  if (bottomBand >= 0.9 && topBand < bottomBand * 0.85) return "bottom";
+  return "top";
+}
+
+// =============================================
+// STORAGE
+// =============================================
+
+function toPreparedGarment(row: any, reused: boolean, provider?: string): PreparedGarment {
+  return {
+    id: row.id,
+    imageUrl: row.image_url,
+    storagePath: row.storage_path,
+    category: row.category,
+    categorySource: row.category_source,
+    backgroundRemoved: row.background_removed,
+    provider,
+    reused,
+  };
+}
+
+async function findPreparedGarment(userId: string, sourceHash: string): Promise<any | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prepared_garments")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("source_hash", sourceHash)
+    .maybeSingle();
+
+  if (error) {
+    console.error("❌ Error fetching prepared garment:", error);
+    return null;
+  }
+  return data;
+}
+
+// =============================================
+// PUBLIC API
+// =============================================
+
+/**
+ * Clean a clothing photo for try-on, reusing an earlier result for the same image.
+ * A category from the shop wins over the silhouette guess.
+ */
+export function prepareGarment(
+  clothingImageUrl: string,
+  userId: string,
+  categoryHint?: GarmentCategory
+): Promise<PreparedGarment> {
+  const key = `${userId}:${clothingImageUrl}:${categoryHint || ""}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const work = runGarmentPreparation(clothingImageUrl, userId, categoryHint).finally(() => inFlight.delete(key));
+  inFlight.set(key, work);
+  return work;
+}
+
+async function runGarmentPreparation(
+  clothingImageUrl: string,
+  userId: string,
+  categoryHint?: GarmentCategory
+): Promise<PreparedGarment> {
+  const source = await downloadImageAsBuffer(clothingImageUrl);
+  const sourceHash = createHash("sha256").update(source).digest("hex");
+
+  const existing = await findPreparedGarment(userId, sourceHash);
+  if (existing) {
+    const recategorized = categoryHint && categoryHint !== existing.category;
+    const { data: updated } = await supabaseAdmin
+      .from("prepared_garments")
+      .update({
+        use_count: (existing.use_count || 0) + 1,
+        last_used_at: new Date().toISOString(),
+        ...(recategorized && { category: categoryHint, category_source: "shop" }),
+      })
+      .eq("id", existing.id)
+      .select()
+      .maybeSingle();
+
+    console.log(`♻️  Reusing prepared garment ${existing.id} (${(updated || existing).category || "uncategorized"})`);
+    return toPreparedGarment(updated || existing, true);
+  }
+
+  console.log(`🧺 Preparing garment ${clothingImageUrl.substring(0, 80)}...`);
+
+  const cutout = await removeGarmentBackground(clothingImageUrl);
+  const cropped = await cropToGarment(cutout?.buffer || source, !!cutout);
+  const silhouetteCategory = cutout ? await classifySilhouette(cropped) : null;
+  const normalized = await normalizeGarment(cropped);
+
+  const category = categoryHint || silhouetteCategory;
+  const storagePath = `${userId}/prepared-garments/${sourceHash}.png`;
+
+  const upload = await uploadToStorage(STORAGE_BUCKETS.USER_IMAGES, storagePath, normalized.buffer, "image/png");
+  if (!upload.success || !upload.url) {
+    throw new Error(`Failed to store prepared garment: ${upload.error}`);
+  }
+
+  const { data: row, error } = await supabaseAdmin
+    .from("prepared_garments")
+    .upsert(
+      {
+        user_id: userId,
+        source_hash: sourceHash,
+        source_url: clothingImageUrl,
+        image_url: upload.url,
+        storage_path: storagePath,
+        category,
+        category_source: categoryHint ? "shop" : silhouetteCategory ? "silhouette" : null,
+        background_removed: !!cutout,
+        width: normalized.width,
+        height: normalized.height,
+        use_count: 1,
+        last_used_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,source_hash" }
+    )
+    .select()
+    .single();
+
+  if (error || !row) {
+    throw new Error(`Failed to save prepared garment: ${error?.message}`);
+  }
+
+  await trackStoredObject({
+    bucket: STORAGE_BUCKETS.USER_IMAGES,
+    path: storagePath,
+    user_id: userId,
+    kind: "garment",
+    owner_table: "prepared_garments",
+    owner_id: row.id,
+    size_bytes: normalized.buffer.length,
+  });
+
+  console.log(`✅ Garment prepared: ${category || "uncategorized"}${cutout ? ", background removed" : ""}`);
+  return toPreparedGarment(row, false, cutout?.provider);
+}
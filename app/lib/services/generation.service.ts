@@ -0,0 +1,640 @@
+/**
+ * Generation Service
+ *
+ * One record type for every generated image, whatever table it lives in.
+ * Try-on results are stored in generation_results (status and step output
+ * in generation_metadata, execution in generation_config), Shop Ready and
+ * Post Ready results in studio_generations (status column, metadata,
+ * pipeline_execution_id). Callers work with `Generation` and never branch
+ * on the table; a new mode only needs a store here.
+ *
+ * Both kinds keep `status` inside their metadata as well, so metadata
+ * written through updateGeneration always matches the record's status.
+ *
+ * Regenerating a result adds a new record instead of overwriting it: the
+ * first record is version 1, each regeneration points back to it through
+ * version_of and takes the next version number. A version number can only
+ * be taken once, so of two regenerations started together only one is created.
+ *
+ * Columns (both tables): version_of uuid null, version int default 1,
+ * unique (version_of, version)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import type { StudioPromptMode } from "../prompt-templates";
+
+const UNIQUE_VIOLATION = "23505";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type GenerationKind = "tryon" | "studio";
+export type GenerationStatus = "processing" | "completed" | "failed" | "cancelled";
+export type GenerationTable = "generation_results" | "studio_generations";
+
+interface GenerationBase {
+  id: string;
+  user_id: string;
+  project_id: string;
+  execution_id: string | null;
+  pose_id: string; // Pose ID for try-on, pose identifier for studio
+  pose_name: string;
+  base_model_id: string | null; // From the pose for try-on
+  status: GenerationStatus;
+  result_image_url: string;
+  storage_path: string;
+  metadata: Record<string, any>; // Step results, cache info, Shopify media, ...
+  error: string | null;
+  version_of: string | null; // First version's ID; null on the first version itself
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TryOnGeneration extends GenerationBase {
+  kind: "tryon";
+  generation_id: string | null; // Parent user_generations row
+  tier: string | null;
+  clothing_image_url: string | null;
+  model_image_url: string | null;
+  removed_bg_url: string | null;
+  removed_bg_at: string | null;
+}
+
+export interface StudioGeneration extends GenerationBase {
+  kind: "studio";
+  mode: StudioPromptMode;
+  prompts: Record<string, string | undefined>;
+  pose_prompts: Record<string, string | undefined>;
+}
+
+export type Generation = TryOnGeneration | StudioGeneration;
+
+/**
+ * Enough to address a generation without loading it
+ */
+export type GenerationRef = Pick<Generation, "kind" | "id">;
+
+export interface NewTryOnGeneration {
+  kind: "tryon";
+  user_id: string;
+  project_id: string;
+  execution_id: string;
+  generation_id: string;
+  pose_id: string;
+  pose_name?: string;
+  tier: string;
+  clothing_image_url?: string;
+  model_image_url: string;
+  enabled_steps: string[];
+  version_of?: string;
+  version?: number;
+}
+
+export interface NewStudioGeneration {
+  kind: "studio";
+  user_id: string;
+  project_id: string;
+  execution_id: string;
+  base_model_id: string;
+  mode: StudioPromptMode;
+  pose_identifier: string;
+  prompts?: Record<string, string | undefined>;
+  pose_prompts?: Record<string, string | undefined>;
+  version_of?: string;
+  version?: number;
+}
+
+export type NewGeneration = NewTryOnGeneration | NewStudioGeneration;
+
+export interface GenerationUpdate {
+  status?: GenerationStatus;
+  result_image_url?: string;
+  storage_path?: string;
+  error?: string;
+  metadata?: Record<string, any>; // Merged into the stored metadata (status and error are added to it)
+  removed_bg_url?: string; // Try-on only; also records when the background was removed
+}
+
+// =============================================
+// STORES
+// =============================================
+
+interface GenerationStore {
+  table: GenerationTable;
+  select: string; // The row plus the joined columns toGeneration reads
+  modelSelect: string; // Joined columns that make modelColumn filterable (rows without a model drop out)
+  modelColumn: string; // Base model ID to filter on
+  referenceType: string; // Credit ledger reference_type for refunds linked to a result
+  metadataColumn: string;
+  statusColumn: string; // Filterable status: try-on keeps it in its metadata
+  filterByExecution: (query: any, executionId: string) => any;
+  toGeneration: (row: any) => Generation;
+  toRow: (update: GenerationUpdate) => Record<string, unknown>;
+}
+
+const STORES: Record<GenerationKind, GenerationStore> = {
+  tryon: {
+    table: "generation_results",
+    // Try-on rows reach their base model (and fall back to a pose name) through the pose
+    select: "*, poses:pose_id (name, base_model_id)",
+    modelSelect: "poses:pose_id!inner (name, base_model_id)",
+    modelColumn: "poses.base_model_id",
+    referenceType: "generation_result",
+    metadataColumn: "generation_metadata",
+    statusColumn: "generation_metadata->>status",
+    filterByExecution: (query, executionId) => query.contains("generation_config", { pipeline_execution_id: executionId }),
+    toGeneration: (row): TryOnGeneration => {
+      const metadata = row.generation_metadata || {};
+      return {
+        kind: "tryon",
+        id: row.id,
+        user_id: row.user_id,
+        project_id: row.project_id,
+        execution_id: row.generation_config?.pipeline_execution_id || null,
+        pose_id: row.pose_id,
+        pose_name: row.pose_name || row.poses?.name || "",
+        base_model_id: row.poses?.base_model_id || null,
+        status: metadata.status || "processing",
+        result_image_url: row.result_image_url || "",
+        storage_path: row.supabase_path || "",
+        metadata,
+        error: metadata.error_message || metadata.error || null,
+        version_of: row.version_of || null,
+        version: row.version || 1,
+        created_at: row.created_at,
+        updated_at: row.updated_at || row.created_at,
+        generation_id: row.generation_id || null,
+        tier: row.generation_tier || null,
+        clothing_image_url: row.clothing_image_url || null,
+        model_image_url: row.model_image_url || null,
+        removed_bg_url: row.removed_bg_url || null,
+        removed_bg_at: row.removed_bg_at || null,
+      };
+    },
+    // Status only lives in the metadata, so a status change is written into it
+    toRow: update => ({
+      ...((update.metadata || update.status) && {
+        generation_metadata: {
+          ...update.metadata,
+          ...(update.status && { status: update.status }),
+          ...(update.error && { error_message: update.error }),
+        },
+      }),
+      ...(update.result_image_url !== undefined && { result_image_url: update.result_image_url }),
+      ...(update.storage_path !== undefined && { supabase_path: update.storage_path }),
+      ...(update.removed_bg_url !== undefined && {
+        removed_bg_url: update.removed_bg_url,
+        removed_bg_at: new Date().toISOString(),
+      }),
+    }),
+  },
+  studio: {
+    table: "studio_generations",
+    select: "*",
+    modelSelect: "base_model_id",
+    modelColumn: "base_model_id",
+    referenceType: "studio_generation",
+    metadataColumn: "metadata",
+    statusColumn: "status",
+    filterByExecution: (query, executionId) => query.eq("pipeline_execution_id", executionId),
+    toGeneration: (row): StudioGeneration => ({
+      kind: "studio",
+      id: row.id,
+      user_id: row.user_id,
+      project_id: row.project_id,
+      execution_id: row.pipeline_execution_id || null,
+      pose_id: row.pose_identifier,
+      pose_name: row.pose_identifier || "",
+      base_model_id: row.base_model_id || null,
+      status: row.status || "processing",
+      result_image_url: row.result_image_url || "",
+      storage_path: row.supabase_path || "",
+      metadata: row.metadata || {},
+      error: row.error_message || row.metadata?.error || null,
+      version_of: row.version_of || null,
+      version: row.version || 1,
+      created_at: row.created_at || row.updated_at,
+      updated_at: row.updated_at || row.created_at,
+      mode: row.mode,
+      prompts: row.prompt_config?.prompts || {},
+      pose_prompts: row.prompt_config?.pose_prompts || {},
+    }),
+    toRow: update => ({
+      ...(update.status && { status: update.status }),
+      ...(update.error && { error_message: update.error }),
+      ...(update.metadata && {
+        metadata: {
+          ...update.metadata,
+          ...(update.status && { status: update.status }),
+          ...(update.error && { error: update.error }),
+        },
+      }),
+      ...(update.result_image_url !== undefined && { result_image_url: update.result_image_url }),
+      ...(update.storage_path !== undefined && { supabase_path: update.storage_path }),
+    }),
+  },
+};
+
+export const GENERATION_KINDS = Object.keys(STORES) as GenerationKind[];
+
+/**
+ * Kind of generation an execution produces: studio modes have their own table
+ */
+export function getGenerationKind(mode?: string | null): GenerationKind {
+  return mode ? "studio" : "tryon";
+}
+
+/**
+ * Table a kind is stored in (stored-object owners, joins)
+ */
+export function getGenerationTable(kind: GenerationKind): GenerationTable {
+  return STORES[kind].table;
+}
+
+/**
+ * Credit ledger reference type of a kind's results
+ */
+export function getGenerationReferenceType(kind: GenerationKind): string {
+  return STORES[kind].referenceType;
+}
+
+// =============================================
+// READS
+// =============================================
+
+/**
+ * A generation by ID from either table
+ * @param userId - When given, generations of other users are treated as missing
+ */
+export async function getGeneration(id: string, userId?: string): Promise<Generation | null> {
+  for (const kind of GENERATION_KINDS) {
+    const { data, error } = await supabaseAdmin
+      .from(STORES[kind].table)
+      .select(STORES[kind].select)
+      .eq("id", id)
+      .maybeSingle<Record<string, any>>();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation: ${error.message}`);
+    }
+    if (data) {
+      return !userId || data.user_id === userId ? STORES[kind].toGeneration(data) : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every generation of an execution
+ * @param projectId - Narrows the try-on lookup, which matches on a JSON column
+ */
+export async function listExecutionGenerations(
+  kind: GenerationKind,
+  executionId: string,
+  projectId?: string
+): Promise<Generation[]> {
+  const store = STORES[kind];
+  let query = store.filterByExecution(supabaseAdmin.from(store.table).select(store.select), executionId);
+
+  if (projectId) {
+    query = query.eq("project_id", projectId);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch generations for execution ${executionId}: ${error.message}`);
+  }
+
+  return (data || []).map(store.toGeneration);
+}
+
+/**
+ * ID shared by every version of a generation
+ */
+export function getVersionRootId(generation: Pick<Generation, "id" | "version_of">): string {
+  return generation.version_of || generation.id;
+}
+
+/**
+ * The highest version of each generation, in the given order
+ */
+export function latestVersions<T extends Generation>(generations: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const generation of generations) {
+    const current = latest.get(getVersionRootId(generation));
+    if (!current || generation.version > current.version) {
+      latest.set(getVersionRootId(generation), generation);
+    }
+  }
+  return generations.filter(generation => latest.get(getVersionRootId(generation)) === generation);
+}
+
+/**
+ * Generations of one or more projects from both tables, oldest first
+ * @param options.completedOnly - Only generations with a result image
+ * @param options.latestVersions - Only the highest (remaining) version of each generation
+ */
+export async function listProjectGenerations(
+  projectIds: string | string[],
+  options: { userId?: string; completedOnly?: boolean; latestVersions?: boolean } = {}
+): Promise<Generation[]> {
+  const ids = Array.isArray(projectIds) ? projectIds : [projectIds];
+  if (ids.length === 0) return [];
+
+  const lists = await Promise.all(GENERATION_KINDS.map(async kind => {
+    const store = STORES[kind];
+    let query = supabaseAdmin
+      .from(store.table)
+      .select(store.select)
+      .in("project_id", ids);
+
+    if (options.userId) {
+      query = query.eq("user_id", options.userId);
+    }
+    if (options.completedOnly) {
+      query = query.neq("result_image_url", "").not("result_image_url", "is", null);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch ${kind} generations: ${error.message}`);
+    }
+
+    return (data || []).map(store.toGeneration);
+  }));
+
+  const generations = lists.flat().sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return options.latestVersions ? latestVersions(generations) : generations;
+}
+
+/**
+ * Every version of a generation, oldest first
+ */
+export async function listGenerationVersions(generation: Generation): Promise<Generation[]> {
+  const store = STORES[generation.kind];
+  const rootId = getVersionRootId(generation);
+
+  const { data, error } = await supabaseAdmin
+    .from(store.table)
+    .select(store.select)
+    .or(`id.eq.${rootId},version_of.eq.${rootId}`)
+    .order("version", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch versions of generation ${generation.id}: ${error.message}`);
+  }
+
+  return (data || []).map(store.toGeneration);
+}
+
+/**
+ * A shop's generations made with a base model, from both tables, newest first
+ * @param options.completedOnly - Only generations with a result image
+ * @param options.latestVersions - Only the highest version of each generation
+ */
+export async function listModelGenerations(
+  userId: string,
+  baseModelId: string,
+  options: { completedOnly?: boolean; latestVersions?: boolean } = {}
+): Promise<Generation[]> {
+  const lists = await Promise.all(GENERATION_KINDS.map(async kind => {
+    const store = STORES[kind];
+    let query = supabaseAdmin
+      .from(store.table)
+      .select(`*, ${store.modelSelect}`)
+      .eq("user_id", userId)
+      .eq(store.modelColumn, baseModelId);
+
+    if (options.completedOnly) {
+      query = query.neq("result_image_url", "").not("result_image_url", "is", null);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch ${kind} generations of model ${baseModelId}: ${error.message}`);
+    }
+
+    return (data || []).map(store.toGeneration);
+  }));
+
+  const generations = lists.flat().sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return options.latestVersions ? latestVersions(generations) : generations;
+}
+
+/**
+ * How many generations a shop has per base model, across both tables
+ */
+export async function countGenerationsByModel(userId: string): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+
+  for (const kind of GENERATION_KINDS) {
+    const store = STORES[kind];
+
+    // Paged, since a single select stops at the API's row limit
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabaseAdmin
+        .from(store.table)
+        .select(`id, ${store.modelSelect}`)
+        .eq("user_id", userId)
+        .order("id")
+        .range(from, from + 999);
+
+      if (error) {
+        throw new Error(`Failed to count ${kind} generations: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        const baseModelId = store.toGeneration(row).base_model_id;
+        if (baseModelId) {
+          counts[baseModelId] = (counts[baseModelId] || 0) + 1;
+        }
+      }
+
+      if (!data || data.length < 1000) break;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Status and prompt template reference of every generation made from a
+ * template key since a date, whichever table its mode stores it in
+ */
+export async function listPromptTemplateRuns(
+  key: string,
+  since: string
+): Promise<Array<{ status: GenerationStatus; prompt_template: { id?: string; version: number } | null }>> {
+  const runs: Array<{ status: GenerationStatus; prompt_template: { id?: string; version: number } | null }> = [];
+
+  for (const kind of GENERATION_KINDS) {
+    const { metadataColumn, statusColumn, table } = STORES[kind];
+
+    // Paged, since a single select stops at the API's row limit
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabaseAdmin
+        .from(table)
+        .select(`status:${statusColumn}, prompt_template:${metadataColumn}->prompt_template`)
+        .eq(`${metadataColumn}->prompt_template->>key`, key)
+        .gte("created_at", since)
+        .order("id")
+        .range(from, from + 999);
+
+      if (error) {
+        throw new Error(`Failed to fetch ${kind} prompt template usage: ${error.message}`);
+      }
+
+      runs.push(...((data || []) as any[]));
+      if (!data || data.length < 1000) break;
+    }
+  }
+
+  return runs;
+}
+
+// =============================================
+// WRITES
+// =============================================
+
+/**
+ * Placeholder records for a run's poses, in pose order
+ * @returns null when a version in the records is already taken
+ */
+export async function createGenerations(records: NewGeneration[]): Promise<Generation[] | null> {
+  if (records.length === 0) return [];
+  const kind = records[0].kind;
+  const store = STORES[kind];
+
+  const rows = records.map(record => record.kind === "tryon"
+    ? {
+      generation_id: record.generation_id, // Link to user_generations record
+      project_id: record.project_id,
+      user_id: record.user_id,
+      pose_id: record.pose_id,
+      pose_name: record.pose_name,
+      clothing_image_url: record.clothing_image_url,
+      model_image_url: record.model_image_url,
+      result_image_url: '', // Will be updated after generation
+      supabase_path: '', // Will be updated after upload
+      generation_tier: record.tier,
+      generation_config: {
+        enabled_steps: record.enabled_steps,
+        pipeline_execution_id: record.execution_id, // Store pipeline execution reference in config
+      },
+      generation_metadata: { status: 'processing' },
+      version_of: record.version_of || null,
+      version: record.version || 1,
+    }
+    : {
+      user_id: record.user_id,
+      project_id: record.project_id,
+      pipeline_execution_id: record.execution_id,
+      base_model_id: record.base_model_id,
+      mode: record.mode,
+      prompt_config: {
+        prompts: record.prompts,
+        pose_prompts: record.pose_prompts,
+      },
+      pose_identifier: record.pose_identifier,
+      status: 'processing',
+      metadata: { status: 'processing' },
+      version_of: record.version_of || null,
+      version: record.version || 1,
+    });
+
+  const { data, error } = await supabaseAdmin
+    .from(store.table)
+    .insert(rows)
+    .select();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    console.log(`⚠️  ${kind} generation version already taken`);
+    return null;
+  }
+
+  if (error || !data) {
+    throw new Error(`Failed to create ${kind} generation records: ${error?.message}`);
+  }
+
+  return data.map(store.toGeneration);
+}
+
+/**
+ * Update a generation's status, image or metadata (metadata is merged, never replaced)
+ * @returns false when no row was updated
+ */
+export async function updateGeneration(ref: GenerationRef, update: GenerationUpdate): Promise<boolean> {
+  const store = STORES[ref.kind];
+  const row: Record<string, any> = store.toRow(update);
+
+  // Partial metadata keeps the stored keys (step results, Shopify media, cache and experiment fields)
+  if (row[store.metadataColumn]) {
+    const { data: current, error: readError } = await supabaseAdmin
+      .from(store.table)
+      .select(store.metadataColumn)
+      .eq("id", ref.id)
+      .maybeSingle<Record<string, any>>();
+
+    if (readError) {
+      throw new Error(`Failed to fetch generation ${ref.id}: ${readError.message}`);
+    }
+    if (!current) return false;
+
+    row[store.metadataColumn] = { ...current[store.metadataColumn], ...row[store.metadataColumn] };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(store.table)
+    .update({
+      ...row,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", ref.id)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to update generation ${ref.id}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Merge keys into a generation's metadata, keeping everything else
+ */
+export async function mergeGenerationMetadata(generation: Generation, patch: Record<string, any>): Promise<void> {
+  const store = STORES[generation.kind];
+  const { error } = await supabaseAdmin
+    .from(store.table)
+    .update({
+      [store.metadataColumn]: { ...generation.metadata, ...patch },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", generation.id);
+
+  if (error) {
+    throw new Error(`Failed to update generation ${generation.id}: ${error.message}`);
+  }
+}
+
+/**
+ * Delete every generation of a project from both tables
+ */
+export async function deleteProjectGenerations(projectId: string): Promise<void> {
+  for (const kind of GENERATION_KINDS) {
+    const { error } = await supabaseAdmin
+      .from(STORES[kind].table)
+      .delete()
+      .eq("project_id", projectId);
+
+    if (error) {
+      throw new Error(`Failed to delete ${kind} generations: ${error.message}`);
+    }
+  }
+}
@@ -2,6 +2,9 @@
  * Model Access Control for Shopify App
  * Determines which models are accessible based on user's subscription tier
  * Mirrors logic from main Trayve app
+ *
+ * Brand models (private models a shop uploaded itself) need a Professional
+ * or Enterprise plan, whatever their name.
  */
 
 // =============================================
@@ -41,6 +44,28 @@ export const FREE_TIER_MODELS = [
 
 export type FreeTierModel = typeof FREE_TIER_MODELS[number];
 
+/**
+ * Plans that can upload and generate with their own brand models
+ */
+export const BRAND_MODEL_TIERS: SubscriptionTier[] = ["professional", "enterprise"];
+
+/**
+ * Attestation a shop confirms for every brand model it uploads.
+ * Bump the version whenever the wording changes - it is stored with each attestation.
+ */
+export const BRAND_MODEL_CONSENT = {
+  version: "2026-10-01",
+  statement:
+    "I confirm that the person shown in these photos has given written consent for their likeness to be used to generate AI product imagery for this store, and that I hold the rights to upload these photos.",
+} as const;
+
+/**
+ * Check if a tier can upload and use brand models
+ */
+export function canUseBrandModels(tier: SubscriptionTier): boolean {
+  return BRAND_MODEL_TIERS.includes(tier);
+}
+
 /**
  * Check if a model is accessible on free tier
  */
@@ -56,12 +81,18 @@ export function isFreeTierModel(modelName: string): boolean {
  * Check if a model is locked for a given subscription tier
  * @param modelName - Name of the model
  * @param tier - User's subscription tier
+ * @param isBrandModel - Private model uploaded by the shop
  * @returns true if model is locked, false if accessible
  */
 export function isModelLocked(
   modelName: string,
-  tier: SubscriptionTier
+  tier: SubscriptionTier,
+  isBrandModel: boolean = false
 ): boolean {
+  if (isBrandModel) {
+    return !canUseBrandModels(tier);
+  }
+
   // All models are unlocked for users with ANY paid plan
   // Once a user purchases any plan (creator, professional, enterprise),
   // they get access to all models
@@ -91,23 +122,30 @@ export function canAccessModel(
  * Get access information for a model
  * @param modelName - Name of the model
  * @param tier - User's subscription tier
+ * @param isBrandModel - Private model uploaded by the shop
  * @returns ModelAccessInfo object with lock status and access details
  */
 export function getModelAccessInfo(
   modelName: string,
-  tier: SubscriptionTier
+  tier: SubscriptionTier,
+  isBrandModel: boolean = false
 ): ModelAccessInfo {
-  const locked = isModelLocked(modelName, tier);
+  const locked = isModelLocked(modelName, tier, isBrandModel);
   const canAccess = !locked;
 
   // Free tier models are accessible to everyone
   // Premium models require any paid plan (creator, professional, or enterprise)
-  const requiredTier: SubscriptionTier = isFreeTierModel(modelName)
-    ? "free"
-    : "creator"; // Any paid plan unlocks all models
+  // Brand models require a plan that includes them
+  const requiredTier: SubscriptionTier = isBrandModel
+    ? BRAND_MODEL_TIERS[0]
+    : isFreeTierModel(modelName)
+      ? "free"
+      : "creator"; // Any paid plan unlocks all models
 
   const upgradePrompt = locked
-    ? "Upgrade to any plan to unlock all models"
+    ? isBrandModel
+      ? "Upgrade to Professional to use your brand models"
+      : "Upgrade to any plan to unlock all models"
     : undefined;
 
   return {
@@ -121,12 +159,12 @@ export function getModelAccessInfo(
 /**
  * Enrich a single model with access information
  */
-export function enrichModelWithAccess<T extends { name?: string }>(
+export function enrichModelWithAccess<T extends { name?: string; owner_user_id?: string | null }>(
   model: T,
   tier: SubscriptionTier
 ): EnrichedModel<T> {
   const modelName = model.name || "";
-  const accessInfo = getModelAccessInfo(modelName, tier);
+  const accessInfo = getModelAccessInfo(modelName, tier, !!model.owner_user_id);
 
   return {
     ...model,
@@ -137,7 +175,7 @@ export function enrichModelWithAccess<T extends { name?: string }>(
 /**
  * Enrich multiple models with access information
  */
-export function enrichModelsWithAccess<T extends { name?: string }>(
+export function enrichModelsWithAccess<T extends { name?: string; owner_user_id?: string | null }>(
   models: T[],
   tier: SubscriptionTier
 ): EnrichedModel<T>[] {
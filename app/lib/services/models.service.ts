@@ -1,6 +1,10 @@
 /**
  * Models Service
  * Handles all operations related to base models and poses
+ *
+ * Base models are the shared catalog plus each shop's private brand models
+ * (owner_user_id set, see brand-models.service). Brand models are only ever
+ * returned to the shop that owns them.
  */
 
 import { supabaseAdmin } from "../storage/supabase.server";
@@ -40,6 +44,7 @@ export interface BaseModel {
   updated_at: string;
   uploaded_by?: string;
   source?: string;
+  owner_user_id?: string | null; // Set on a shop's private brand model
   metadata?: any;
   poses?: ModelPose[];
 }
@@ -62,6 +67,7 @@ export interface ModelFilters {
   body_type?: string;
   is_active?: boolean;
   promoted_only?: boolean;
+  visible_to?: string; // Shop (Trayve user ID) whose brand models are included
 }
 
 // =============================================
@@ -95,10 +101,18 @@ export async function getBaseModels(filters?: ModelFilters): Promise<BaseModel[]
       query = query.eq("is_active", filters.is_active);
     }
 
-    // Only filter by promoted if explicitly requested
+    // Catalog models, plus the viewing shop's own brand models
+    // Only filter by promoted if explicitly requested - brand models always pass
     // (skip if promoted_only is false or undefined to avoid errors if column doesn't exist)
-    if (filters?.promoted_only === true) {
-      query = query.eq("is_promoted", true);
+    if (filters?.visible_to) {
+      query = filters.promoted_only === true
+        ? query.or(`and(owner_user_id.is.null,is_promoted.eq.true),owner_user_id.eq.${filters.visible_to}`)
+        : query.or(`owner_user_id.is.null,owner_user_id.eq.${filters.visible_to}`);
+    } else {
+      query = query.is("owner_user_id", null);
+      if (filters?.promoted_only === true) {
+        query = query.eq("is_promoted", true);
+      }
     }
 
     // Order by promoted status first (unlocked models first), then by creation date
@@ -144,9 +158,10 @@ export async function getBaseModels(filters?: ModelFilters): Promise<BaseModel[]
 /**
  * Get a single base model by ID with its poses
  * @param id - Base model ID
+ * @param viewerUserId - Shop asking; another shop's brand model is not found
  * @returns Base model with poses or null if not found
  */
-export async function getBaseModelById(id: string): Promise<BaseModel | null> {
+export async function getBaseModelById(id: string, viewerUserId?: string): Promise<BaseModel | null> {
   try {
     const { data, error } = await supabaseAdmin
       .from("base_models")
@@ -163,6 +178,7 @@ export async function getBaseModelById(id: string): Promise<BaseModel | null> {
     }
 
     if (!data) return null;
+    if (data.owner_user_id && data.owner_user_id !== viewerUserId) return null;
 
     // Convert supabase_path to full image URLs
     const modelWithUrl = {
@@ -190,10 +206,21 @@ export async function getBaseModelById(id: string): Promise<BaseModel | null> {
 /**
  * Get all poses for a specific base model
  * @param baseModelId - Base model ID
+ * @param viewerUserId - Shop asking; another shop's brand model has no poses
  * @returns Array of model poses
  */
-export async function getModelPoses(baseModelId: string): Promise<ModelPose[]> {
+export async function getModelPoses(baseModelId: string, viewerUserId?: string): Promise<ModelPose[]> {
   try {
+    const { data: model } = await supabaseAdmin
+      .from("base_models")
+      .select("owner_user_id")
+      .eq("id", baseModelId)
+      .maybeSingle();
+
+    if (model?.owner_user_id && model.owner_user_id !== viewerUserId) {
+      return [];
+    }
+
     const { data, error } = await supabaseAdmin
       .from("model_poses")
       .select("*")
@@ -254,8 +281,15 @@ export async function getModelsCount(filters?: ModelFilters): Promise<number> {
       query = query.eq("is_active", filters.is_active);
     }
 
-    if (filters?.promoted_only) {
-      query = query.eq("is_promoted", true);
+    if (filters?.visible_to) {
+      query = filters.promoted_only
+        ? query.or(`and(owner_user_id.is.null,is_promoted.eq.true),owner_user_id.eq.${filters.visible_to}`)
+        : query.or(`owner_user_id.is.null,owner_user_id.eq.${filters.visible_to}`);
+    } else {
+      query = query.is("owner_user_id", null);
+      if (filters?.promoted_only) {
+        query = query.eq("is_promoted", true);
+      }
     }
 
     const { count, error } = await query;
@@ -0,0 +1,145 @@
+/**
+ * Outfit Service
+ *
+ * Saved outfits: sets of garment layers (top, bottom, outerwear, ...) a shop
+ * can try on together and reuse across runs. An outfit is created with the
+ * project it was first generated in and stays in the shop's library when
+ * that project is deleted.
+ *
+ * Table: outfits (id, user_id, project_id, name, layers, use_count,
+ * last_used_at, created_at, updated_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { sortOutfitLayers, validateOutfitLayers, type OutfitLayer } from "../outfit";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface Outfit {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  name: string;
+  layers: OutfitLayer[];
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// =============================================
+// OPERATIONS
+// =============================================
+
+/**
+ * Save an outfit. Layers are stored innermost first.
+ */
+export async function createOutfit(
+  userId: string,
+  input: { layers: OutfitLayer[]; name?: string; project_id?: string | null }
+): Promise<Outfit> {
+  const invalid = validateOutfitLayers(input.layers);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  const layers = sortOutfitLayers(input.layers).map(({ slot, image_url }) => ({ slot, image_url }));
+
+  const { data, error } = await supabaseAdmin
+    .from("outfits")
+    .insert({
+      user_id: userId,
+      project_id: input.project_id || null,
+      name: input.name?.trim() || "Untitled outfit",
+      layers,
+      use_count: 0,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save outfit: ${error?.message}`);
+  }
+
+  console.log(`👗 Saved outfit ${data.id} (${layers.map(layer => layer.slot).join(" + ")}) for user ${userId}`);
+  return data as Outfit;
+}
+
+/**
+ * A shop's outfit, or null when it doesn't exist or belongs to another shop
+ */
+export async function getOutfit(userId: string, outfitId: string): Promise<Outfit | null> {
+  const { data, error } = await supabaseAdmin
+    .from("outfits")
+    .select("*")
+    .eq("id", outfitId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch outfit: ${error.message}`);
+  }
+
+  return data as Outfit | null;
+}
+
+/**
+ * The shop's outfits, most recently used first
+ */
+export async function listOutfits(userId: string, options: { projectId?: string } = {}): Promise<Outfit[]> {
+  let query = supabaseAdmin
+    .from("outfits")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (options.projectId) {
+    query = query.eq("project_id", options.projectId);
+  }
+
+  const { data, error } = await query
+    .order("last_used_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch outfits: ${error.message}`);
+  }
+
+  return (data || []) as Outfit[];
+}
+
+/**
+ * Record that a run used the outfit
+ */
+export async function recordOutfitUse(outfit: Outfit): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("outfits")
+    .update({
+      use_count: (outfit.use_count || 0) + 1,
+      last_used_at: new Date().toISOString(),
+    })
+    .eq("id", outfit.id);
+
+  if (error) {
+    console.warn(`⚠️  Failed to record use of outfit ${outfit.id}:`, error.message);
+  }
+}
+
+/**
+ * Delete an outfit. Runs that used it keep their copy of the layers.
+ */
+export async function deleteOutfit(userId: string, outfitId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("outfits")
+    .delete()
+    .eq("id", outfitId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete outfit: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
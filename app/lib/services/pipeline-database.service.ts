@@ -5,6 +5,15 @@
  */
 
 import { supabaseAdmin } from "../storage/supabase.server";
+import {
+  PIPELINE_QUEUE,
+  RESULT_CACHE,
+  getTierConcurrencyLimit,
+  type RejectionReason,
+} from "../../config/generation.constants";
+import { getQueueSnapshot } from "./pipeline-queue.service";
+import { GENERATION_SIGNALS, getSignalCounts, type GenerationSignal } from "./experiment.service";
+import { REJECTION_REASONS, listExecutionFeedback, type FeedbackRecord } from "./feedback.service";
 
 // =============================================
 // TYPE DEFINITIONS
@@ -31,15 +40,54 @@ export interface ExecutionAnalytics {
   successRate: number;
   executionsByTier: Record<string, number>;
   executionsByStatus: Record<string, number>;
+  experimentVariants: ExperimentVariantStats[];
+  quality: {
+    byModel: ResultQualityStats[];
+    byPose: ResultQualityStats[];
+    byProvider: ResultQualityStats[];
+  };
+}
+
+/**
+ * Merchant feedback on the results of one base model, pose or provider
+ */
+export interface ResultQualityStats {
+  key: string; // Base model ID, pose ID or provider
+  label: string; // Pose name for poses, the key otherwise
+  reviewed: number; // Results with any feedback
+  favorites: number;
+  rated: number;
+  averageRating: number | null;
+  rejected: number;
+  rejectionReasons: Record<RejectionReason, number>;
+}
+
+/**
+ * Outcomes of one experiment variant. Signal rates are per execution.
+ */
+export interface ExperimentVariantStats {
+  experimentId: string;
+  variant: string;
+  executions: number;
+  completedExecutions: number;
+  failedExecutions: number;
+  successRate: number;
+  averageProcessingTime: number;
+  signals: Record<GenerationSignal, number>;
+  signalRates: Record<GenerationSignal, number>;
 }
 
 export interface QueueStatus {
   activeExecutions: number;
   queuedExecutions: number;
   concurrentLimit: number;
+  inFlightPoseLimit: number;
   dailyUsage: number;
   dailyLimit: number;
   canStartNew: boolean;
+  willQueue: boolean; // A new execution would wait in the queue before starting
+  estimatedStartAt: string; // Estimated start of an execution submitted now
+  nextQueuedStartAt: string | null; // Estimated start of the user's oldest queued execution
 }
 
 export interface UsageStats {
@@ -51,13 +99,142 @@ export interface UsageStats {
   successRate: number;
 }
 
+/**
+ * Finished pose stored in pipeline_result_cache
+ * (content_hash unique, image_url, storage_path, step_results jsonb,
+ * source_execution_id, hit_count, last_hit_at, created_at)
+ */
 export interface CachedResult {
-  stepType: string;
+  contentHash: string;
   imageUrl: string;
-  metadata: any;
+  storagePath: string;
+  stepResults: any[];
+  sourceExecutionId: string | null;
+  hitCount: number;
   createdAt: string;
 }
 
+// =============================================
+// ANALYTICS HELPERS
+// =============================================
+
+/**
+ * Average seconds from start to completion of completed executions
+ */
+function getAverageProcessingTime(executions: any[]): number {
+  const completedWithTime = executions.filter(
+    e => e.status === "completed" && e.started_at && e.completed_at
+  );
+  return completedWithTime.length > 0
+    ? completedWithTime.reduce((sum, e) => {
+        const start = new Date(e.started_at).getTime();
+        const end = new Date(e.completed_at).getTime();
+        return sum + (end - start);
+      }, 0) / completedWithTime.length / 1000 // Convert to seconds
+    : 0;
+}
+
+/**
+ * Group experiment executions by variant with their merchant signals
+ */
+async function getExperimentVariantStats(executions: any[]): Promise<ExperimentVariantStats[]> {
+  const assigned = executions.filter(e => e.experiment_id && e.experiment_variant);
+  if (assigned.length === 0) return [];
+
+  const signalCounts = await getSignalCounts(assigned.map(e => e.id));
+  const groups = new Map<string, any[]>();
+  for (const execution of assigned) {
+    const key = `${execution.experiment_id}:${execution.experiment_variant}`;
+    groups.set(key, [...(groups.get(key) || []), execution]);
+  }
+
+  return [...groups.values()].map(group => {
+    const completed = group.filter(e => e.status === "completed").length;
+    const signals = Object.fromEntries(GENERATION_SIGNALS.map(signal => [signal, 0])) as Record<GenerationSignal, number>;
+    for (const execution of group) {
+      const counts = signalCounts.get(execution.id);
+      GENERATION_SIGNALS.forEach(signal => { signals[signal] += counts?.[signal] || 0; });
+    }
+
+    return {
+      experimentId: group[0].experiment_id,
+      variant: group[0].experiment_variant,
+      executions: group.length,
+      completedExecutions: completed,
+      failedExecutions: group.filter(e => e.status === "failed").length,
+      successRate: Math.round((completed / group.length) * 10000) / 100,
+      averageProcessingTime: Math.round(getAverageProcessingTime(group)),
+      signals,
+      signalRates: Object.fromEntries(
+        GENERATION_SIGNALS.map(signal => [signal, Math.round((signals[signal] / group.length) * 100) / 100])
+      ) as Record<GenerationSignal, number>,
+    };
+  }).sort((a, b) => a.experimentId.localeCompare(b.experimentId) || a.variant.localeCompare(b.variant));
+}
+
+/**
+ * Group result feedback by a key (results without one are left out)
+ */
+function groupResultQuality(
+  records: FeedbackRecord[],
+  getKey: (record: FeedbackRecord) => string | null,
+  getLabel: (record: FeedbackRecord) => string | null = () => null
+): ResultQualityStats[] {
+  const groups = new Map<string, ResultQualityStats & { ratingSum: number }>();
+
+  for (const record of records) {
+    const key = getKey(record);
+    if (!key) continue;
+
+    const stats = groups.get(key) || {
+      key,
+      label: getLabel(record) || key,
+      reviewed: 0,
+      favorites: 0,
+      rated: 0,
+      averageRating: null,
+      rejected: 0,
+      rejectionReasons: Object.fromEntries(REJECTION_REASONS.map(reason => [reason, 0])) as Record<RejectionReason, number>,
+      ratingSum: 0,
+    };
+
+    stats.reviewed++;
+    if (record.favorite) stats.favorites++;
+    if (record.rating) {
+      stats.rated++;
+      stats.ratingSum += record.rating;
+    }
+    if (record.rejection_reasons.length > 0) stats.rejected++;
+    record.rejection_reasons.forEach(reason => { stats.rejectionReasons[reason]++; });
+    groups.set(key, stats);
+  }
+
+  return [...groups.values()]
+    .map(({ ratingSum, ...stats }) => ({
+      ...stats,
+      averageRating: stats.rated > 0 ? Math.round((ratingSum / stats.rated) * 100) / 100 : null,
+    }))
+    .sort((a, b) => b.reviewed - a.reviewed);
+}
+
+/**
+ * Merchant feedback on the executions' results by base model, pose and provider
+ */
+async function getResultQualityStats(executions: any[]): Promise<ExecutionAnalytics["quality"]> {
+  const records = executions.length > 0 ? await listExecutionFeedback(executions.map(e => e.id)) : [];
+  const executionModels = new Map<string, string | null>(
+    executions.map(e => [e.id, e.config?.base_model_id || null])
+  );
+
+  return {
+    byModel: groupResultQuality(records, record =>
+      record.base_model_id || (record.execution_id && executionModels.get(record.execution_id)) || null
+    ),
+    byPose: groupResultQuality(records, record => record.pose_id, record => record.pose_name),
+    byProvider: groupResultQuality(records, record => record.provider),
+  };
+}
+
 // =============================================
 // PIPELINE DATABASE SERVICE CLASS
 // =============================================
@@ -125,10 +302,13 @@ export class PipelineDatabaseService {
 
   /**
    * Get execution analytics for a user or time period
+   * @param userId - null for every shop (experiment reporting)
+   * @param options.experimentId - Only executions assigned to this experiment
    */
   static async getExecutionAnalytics(
-    userId: string,
-    period: string = "30d"
+    userId: string | null,
+    period: string = "30d",
+    options: { experimentId?: string } = {}
   ): Promise<ExecutionAnalytics> {
     const daysMap: Record<string, number> = {
       "7d": 7,
@@ -140,12 +320,21 @@ export class PipelineDatabaseService {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const { data: executions, error } = await supabaseAdmin
+    let query = supabaseAdmin
       .from("pipeline_executions")
       .select("*")
-      .eq("user_id", userId)
       .gte("created_at", startDate.toISOString());
 
+    if (userId) {
+      query = query.eq("user_id", userId);
+    }
+
+    if (options.experimentId) {
+      query = query.eq("experiment_id", options.experimentId);
+    }
+
+    const { data: executions, error } = await query;
+
     if (error || !executions) {
       throw new Error("Failed to fetch analytics");
     }
@@ -156,16 +345,7 @@ export class PipelineDatabaseService {
     const activeExecutions = executions.filter(e => e.status === "processing").length;
 
     // Calculate average processing time (completed only)
-    const completedWithTime = executions.filter(
-      e => e.status === "completed" && e.started_at && e.completed_at
-    );
-    const avgProcessingTime = completedWithTime.length > 0
-      ? completedWithTime.reduce((sum, e) => {
-          const start = new Date(e.started_at).getTime();
-          const end = new Date(e.completed_at).getTime();
-          return sum + (end - start);
-        }, 0) / completedWithTime.length / 1000 // Convert to seconds
-      : 0;
+    const avgProcessingTime = getAverageProcessingTime(executions);
 
     const totalCreditsUsed = executions.reduce((sum, e) => sum + (e.credits_used || 0), 0);
     const successRate = totalExecutions > 0 ? (completedExecutions / totalExecutions) * 100 : 0;
@@ -194,23 +374,19 @@ export class PipelineDatabaseService {
       successRate: Math.round(successRate * 100) / 100,
       executionsByTier,
       executionsByStatus,
+      experimentVariants: await getExperimentVariantStats(executions),
+      quality: await getResultQualityStats(executions),
     };
   }
 
   /**
    * Get queue status for a user
    */
-  static async getQueueStatus(userId: string): Promise<QueueStatus> {
-    // Get active executions
-    const { data: activeExecs, error: activeError } = await supabaseAdmin
-      .from("pipeline_executions")
-      .select("id")
-      .eq("user_id", userId)
-      .eq("status", "processing");
+  static async getQueueStatus(userId: string, tier?: string): Promise<QueueStatus> {
+    const limits = getTierConcurrencyLimit(tier);
 
-    if (activeError) {
-      throw new Error("Failed to fetch queue status");
-    }
+    // Running/queued executions come from the durable job queue
+    const snapshot = await getQueueSnapshot(userId);
 
     // Get today's usage
     const today = new Date();
@@ -226,20 +402,30 @@ export class PipelineDatabaseService {
       throw new Error("Failed to fetch daily usage");
     }
 
-    const activeExecutions = activeExecs?.length || 0;
     const dailyUsage = todayExecs?.length || 0;
 
-    // Limits (can be customized per user tier)
-    const concurrentLimit = 5; // Max 5 concurrent executions
-    const dailyLimit = 100; // Max 100 executions per day
+    // Rough ETA: executions run in rounds of PIPELINE_QUEUE.estimatedExecutionMs,
+    // bounded by both the fleet's worker capacity and the shop's own running limit
+    const capacity = snapshot.workerCapacity;
+    const estimateStart = (jobsAhead: number, userJobsAhead: number): string => {
+      const globalRounds = Math.max(0, Math.ceil((snapshot.globalRunning + jobsAhead + 1 - capacity) / capacity));
+      const userRounds = Math.max(0, Math.ceil((snapshot.userRunning + userJobsAhead + 1 - limits.maxRunningExecutions) / limits.maxRunningExecutions));
+      const waitMs = Math.max(globalRounds, userRounds) * PIPELINE_QUEUE.estimatedExecutionMs;
+      return new Date(Date.now() + waitMs).toISOString();
+    };
 
     return {
-      activeExecutions,
-      queuedExecutions: 0, // Not implemented yet
-      concurrentLimit,
+      activeExecutions: snapshot.userRunning,
+      queuedExecutions: snapshot.userQueued,
+      concurrentLimit: limits.maxRunningExecutions,
+      inFlightPoseLimit: limits.maxInFlightPoses,
       dailyUsage,
-      dailyLimit,
-      canStartNew: activeExecutions < concurrentLimit && dailyUsage < dailyLimit,
+      dailyLimit: limits.dailyExecutions,
+      canStartNew: dailyUsage < limits.dailyExecutions,
+      willQueue: snapshot.userRunning + snapshot.userQueued >= limits.maxRunningExecutions ||
+        snapshot.globalRunning + snapshot.globalQueued >= capacity,
+      estimatedStartAt: estimateStart(snapshot.globalQueued, snapshot.userQueued),
+      nextQueuedStartAt: snapshot.userQueued > 0 ? estimateStart(snapshot.jobsAheadOfUser, 0) : null,
     };
   }
 
@@ -326,55 +512,75 @@ export class PipelineDatabaseService {
 
   /**
    * Check for cached result (avoid duplicate processing)
+   * Entries older than RESULT_CACHE.maxAgeDays are treated as misses
+   * @param options.countHit - Count the lookup as a hit (false when only peeking)
    */
   static async getCachedResult(
     contentHash: string,
-    stepType: string,
-    qualityLevel: string
+    options: { countHit?: boolean } = {}
   ): Promise<CachedResult | null> {
-    // Query generation_results for matching content
+    const minCreatedAt = new Date(Date.now() - RESULT_CACHE.maxAgeDays * 24 * 60 * 60 * 1000);
+
     const { data, error } = await supabaseAdmin
-      .from("generation_results")
+      .from("pipeline_result_cache")
       .select("*")
-      .contains("generation_metadata", { contentHash, stepType, qualityLevel })
-      .eq("generation_metadata->status", "completed")
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
+      .eq("content_hash", contentHash)
+      .gte("created_at", minCreatedAt.toISOString())
+      .maybeSingle();
 
     if (error || !data) {
       return null;
     }
 
+    // Hit counter is informational only, a lost update under concurrency is fine
+    if (options.countHit !== false) {
+      await supabaseAdmin
+        .from("pipeline_result_cache")
+        .update({ hit_count: (data.hit_count || 0) + 1, last_hit_at: new Date().toISOString() })
+        .eq("content_hash", contentHash);
+    }
+
     return {
-      stepType,
-      imageUrl: data.result_image_url,
-      metadata: data.generation_metadata,
+      contentHash,
+      imageUrl: data.image_url,
+      storagePath: data.storage_path,
+      stepResults: data.step_results || [],
+      sourceExecutionId: data.source_execution_id,
+      hitCount: (data.hit_count || 0) + (options.countHit !== false ? 1 : 0),
       createdAt: data.created_at,
     };
   }
 
   /**
    * Set cached result for future use
+   * A regenerated pose replaces the previous entry for the same content
    */
   static async setCachedResult(
     contentHash: string,
-    stepType: string,
-    qualityLevel: string,
     imageUrl: string,
-    metadata: any
+    storagePath: string,
+    stepResults: any[],
+    sourceExecutionId: string
   ): Promise<void> {
-    // Update generation_metadata with cache info
-    const cacheMetadata = {
-      ...metadata,
-      contentHash,
-      stepType,
-      qualityLevel,
-      cached: true,
-    };
+    const { error } = await supabaseAdmin
+      .from("pipeline_result_cache")
+      .upsert(
+        {
+          content_hash: contentHash,
+          image_url: imageUrl,
+          storage_path: storagePath,
+          step_results: stepResults,
+          source_execution_id: sourceExecutionId,
+          hit_count: 0,
+          last_hit_at: null,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "content_hash" }
+      );
 
-    // This would be stored in generation_metadata
-    // Implementation depends on how you want to structure caching
+    if (error) {
+      console.error("Error caching result:", error);
+    }
   }
 
   /**
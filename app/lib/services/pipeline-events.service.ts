@@ -0,0 +1,96 @@
+/**
+ * Pipeline Events Service
+ *
+ * Append-only log of execution progress, backed by the `pipeline_events` table.
+ * Events are written by the pipeline worker as steps finish and read by the
+ * SSE endpoint. The auto-incrementing `id` doubles as the SSE event ID, so
+ * clients resume from Last-Event-ID without missing or repeating events.
+ *
+ * pipeline_events columns:
+ *   id (bigserial), execution_id, project_id, user_id, result_id, pose_id,
+ *   event_type, step_type, image_url, payload (jsonb), created_at
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type PipelineEventType =
+  | 'step.completed'
+  | 'step.failed'
+  | 'pose.completed'
+  | 'pose.failed'
+  | 'execution.completed'
+  | 'execution.failed'
+  | 'execution.cancelled';
+
+export interface PipelineEventInput {
+  execution_id: string;
+  project_id: string;
+  user_id: string;
+  event_type: PipelineEventType;
+  result_id?: string;
+  pose_id?: string;
+  step_type?: string;
+  image_url?: string;
+  payload?: Record<string, any>;
+}
+
+export interface PipelineEvent extends PipelineEventInput {
+  id: number;
+  created_at: string;
+}
+
+// =============================================
+// WRITE
+// =============================================
+
+/**
+ * Record a progress event. Best effort: a failed write never fails the pipeline,
+ * clients fall back to polling the results API.
+ */
+export async function recordPipelineEvent(event: PipelineEventInput): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("pipeline_events")
+    .insert({
+      ...event,
+      payload: event.payload || {},
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error(`❌ Failed to record ${event.event_type} event for execution ${event.execution_id}:`, error);
+  }
+}
+
+// =============================================
+// READ
+// =============================================
+
+/**
+ * Fetch a project's events after a given event ID, oldest first
+ */
+export async function getProjectEventsSince(
+  projectId: string,
+  userId: string,
+  afterId: number = 0,
+  limit: number = 100
+): Promise<PipelineEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from("pipeline_events")
+    .select("*")
+    .eq("project_id", projectId)
+    .eq("user_id", userId)
+    .gt("id", afterId)
+    .order("id", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error(`❌ Failed to fetch events for project ${projectId}:`, error);
+    throw new Error("Failed to fetch pipeline events");
+  }
+
+  return (data || []) as PipelineEvent[];
+}
@@ -3,6 +3,8 @@
  * 
  * Core orchestration service for AI image generation pipeline.
  * Handles multi-step processing, credit management, and result storage.
+ * Executions are queued durably (pipeline-queue.service) and processed by
+ * the pipeline worker (pipeline-worker.service).
  * 
  * Pipeline Steps (tier-dependent):
  * 1. try-on: Virtual try-on using FAL AI
@@ -10,12 +12,27 @@
  * 3. enhanced-upscale: 4x upscaling (professional/enterprise only)
  * 4. face-swap: Face refinement (professional/enterprise only)
  * 
- * CRITICAL: Credits (1000 per generation) are ONLY deducted on successful completion.
- * Failed executions trigger automatic refunds.
+ * CRITICAL: Credits (per pose, priced by the pricing catalog) are held when the
+ * execution starts and captured per pose as each one completes. Each pose whose pipeline
+ * fails is refunded on its own, linked to its result row; credits for cancelled
+ * poses are released back to the shop. A cancelled run, or one whose worker lost
+ * its lease, stops before the next pose and never overwrites the cancel.
+ *
+ * Finished poses are cached by content hash (pose image, garment, mode, prompts,
+ * prompt template version, providers, tier steps). An identical pose reuses the
+ * stored image and is charged the catalog's cached-result price unless the run
+ * forces regeneration.
+ *
+ * Regenerating a single result (regeneration.service) is a one-pose execution
+ * in the result's project: it adds the next version of the result instead of
+ * a new project, and can fix the seed or the provider.
  */
 
+import { createHash } from "crypto";
 import { supabaseAdmin } from "../storage/supabase.server";
-import type { VertexPromptMode } from "../vertex-prompt";
+import { getPromptTemplateKey, toPromptTemplateRef, type PromptTemplateRef, type StudioPromptMode } from "../prompt-templates";
+import { getActivePromptTemplate, getPromptTemplateById } from "./prompt-template.service";
+import { assignExperiment, recordGenerationSignal, type ExperimentAssignment, type ExperimentVariantConfig } from "./experiment.service";
 import {
   executePipeline,
   getEnabledSteps,
@@ -23,11 +40,42 @@ import {
   type PipelineConfig,
   type PipelineStepResult,
 } from "./ai-providers.service";
+import type { GarmentCategory } from "../garment-fit";
+import { getOutfitGarmentCategory, type OutfitLayer } from "../outfit";
+import { createOutfit } from "./outfit.service";
+import {
+  createGenerations,
+  getGenerationKind,
+  getGenerationReferenceType,
+  getGenerationTable,
+  listExecutionGenerations,
+  updateGeneration,
+  type Generation,
+  type GenerationKind,
+  type GenerationRef,
+} from "./generation.service";
+import { canCustomizeWatermark, type WatermarkSettings } from "./watermark.service";
 import {
   uploadToShopifyGenerationsBucket,
   getPublicUrl,
+  STORAGE_BUCKETS,
   type UploadResult,
 } from "./storage.service";
+import { keepResultStepImages, trackStoredObject } from "./storage-lifecycle.service";
+import { enqueuePipelineJob, cancelJobForExecution } from "./pipeline-queue.service";
+import { withPoseSlot } from "./rate-limit.service";
+import { recordPipelineEvent, type PipelineEventInput } from "./pipeline-events.service";
+import { PipelineDatabaseService } from "./pipeline-database.service";
+import { getTierConcurrencyLimit } from "../../config/generation.constants";
+import { getProviderOrder } from "../providers";
+import { getCachedResultCost, getFeatureCost } from "../pricing";
+import {
+  reserveCredits,
+  captureCredits,
+  releaseCredits,
+  getCreditHoldByKey,
+  type CreditHold,
+} from "../credits/credit-ledger.server";
 
 // =============================================
 // TYPES
@@ -53,12 +101,35 @@ export interface ExecutionInput {
   poses: PoseInput[];
   project_name?: string;
   project_description?: string;
-  mode?: VertexPromptMode; // NEW: 'social_media' or 'product_shots'
+  mode?: StudioPromptMode; // NEW: 'social_media' or 'product_shots'
   prompts?: {
     theme?: string;
     background?: string;
     angle?: string;
   };
+  batch_id?: string; // Catalog batch this execution belongs to
+  prepaid?: boolean; // Credits are held by the batch - skip the check and reservation
+  credits_per_pose?: number; // Price locked in by the batch; defaults to the catalog price
+  force_regenerate?: boolean; // Skip the result cache and call the providers for every pose
+  preprocess_garment?: boolean; // Clean the clothing photo before try-on (ignored in studio modes)
+  garment_category?: GarmentCategory; // Shop-selected category, wins over the pre-processing guess
+  outfit?: OutfitLayer[]; // Multi-garment try-on; the first layer doubles as the clothing image
+  outfit_id?: string; // Saved outfit the layers came from - new outfits are saved with the project
+  watermark_profile_id?: string; // Shop watermark profile the settings came from
+  watermark?: WatermarkSettings; // Overlay the shop's watermark as an extra step (paid tiers only)
+  project_id?: string; // Add the run to this existing project instead of creating one
+  regeneration?: RegenerationConfig; // Re-run of one result (one pose, never cached)
+}
+
+/**
+ * What a regeneration re-runs and how - stored in the execution config as `regeneration`
+ */
+export interface RegenerationConfig {
+  source_result_id: string; // Result the shop regenerated
+  version_of: string; // First version of that result
+  version: number; // Version the new result becomes
+  seed?: number;
+  provider?: string; // Generation provider tried first
 }
 
 export interface ExecutionResult {
@@ -76,7 +147,7 @@ export interface GenerationResult {
   result_id: string;
   pose_id: string;
   pose_name?: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
   final_image_url?: string;
   step_results: {
     [key in PipelineStep]?: string; // step_name -> image_url
@@ -89,24 +160,27 @@ export interface GenerationResult {
 // =============================================
 
 /**
- * Update generation result metadata in database
- * Saves intermediate pipeline progress for real-time UI updates
+ * Save a generation's pipeline progress for real-time UI updates.
+ * Step outputs are flattened into the metadata (tryon_url, upscaled_image_url, ...)
+ * next to the full step_results; a final image marks the generation completed.
  */
 async function updateGenerationMetadata(
-  resultId: string,
+  generation: GenerationRef,
   pipelineResults: PipelineStepResult[],
   finalImageUrl?: string,
-  storagePath?: string
+  storagePath?: string,
+  extraMetadata: Record<string, any> = {}
 ): Promise<void> {
   try {
-    console.log(`💾 Updating metadata for result ${resultId}...`);
+    console.log(`💾 Updating metadata for result ${generation.id}...`);
     console.log(`   Pipeline results count: ${pipelineResults.length}`);
     console.log(`   Final image URL: ${finalImageUrl ? 'PROVIDED' : 'NONE'}`);
 
     // Build metadata from pipeline results
     const metadata: any = {
-      status: finalImageUrl ? 'completed' : 'processing',
       updated_at: new Date().toISOString(),
+      step_results: pipelineResults,
+      ...extraMetadata,
     };
 
     if (finalImageUrl) {
@@ -116,6 +190,10 @@ async function updateGenerationMetadata(
     pipelineResults.forEach((step) => {
       console.log(`   Processing step: ${step.stepType} - status: ${step.status}`);
 
+      if (step.promptTemplate) {
+        metadata.prompt_template = step.promptTemplate;
+      }
+
       if (step.stepType === 'tryon') {
         metadata.tryon_status = step.status;
         if (step.status === 'completed' && step.imageUrl) {
@@ -135,39 +213,106 @@ async function updateGenerationMetadata(
       }
     });
 
-    console.log(`   Metadata to save:`, JSON.stringify(metadata, null, 2));
     console.log(`   Metadata keys: ${Object.keys(metadata).join(', ')}`);
     console.log(`   Metadata size: ${JSON.stringify(metadata).length} bytes`);
 
-    // Use UPDATE instead of UPSERT to avoid issues with partial field updates
-    const { data: updateResult, error } = await supabaseAdmin
-      .from("generation_results")
-      .update({
-        generation_metadata: metadata,
-        ...(finalImageUrl && { result_image_url: finalImageUrl }),
-        ...(storagePath && { supabase_path: storagePath }),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', resultId)
-      .select();
-
-    if (error) {
-      console.error(`❌ Failed to update metadata:`, error);
-      throw error;
-    }
+    const updated = await updateGeneration(generation, {
+      status: finalImageUrl ? 'completed' : 'processing',
+      metadata,
+      ...(finalImageUrl && { result_image_url: finalImageUrl }),
+      ...(storagePath !== undefined && { storage_path: storagePath }),
+    });
 
-    if (!updateResult || updateResult.length === 0) {
-      console.error(`❌ No rows updated for result ${resultId}`);
-      throw new Error(`Failed to update generation result ${resultId} - no rows affected`);
+    if (!updated) {
+      console.error(`❌ No rows updated for result ${generation.id}`);
+      throw new Error(`Failed to update generation result ${generation.id} - no rows affected`);
     }
 
-    console.log(`✅ Metadata updated successfully (${updateResult.length} row(s) affected)`);
+    console.log(`✅ Metadata updated successfully`);
   } catch (error) {
     console.error(`❌ Error in updateGenerationMetadata:`, error);
     throw error;
   }
 }
 
+/**
+ * Whether a generation was served from the result cache
+ */
+function isCachedResult(generation: Generation): boolean {
+  return !!generation.metadata.cache_hit;
+}
+
+/**
+ * Content hash of everything that determines a pose's output image.
+ * Scoped to the shop; `variant` numbers identical poses within one run
+ * (Post Ready variations) so they don't collapse into a single image.
+ */
+function getResultCacheKey(params: {
+  user_id: string;
+  pose_image_url: string;
+  clothing_image_url: string;
+  mode?: string;
+  prompts: Record<string, any>;
+  steps: PipelineStep[];
+  garment_category?: string;
+  outfit?: OutfitLayer[];
+  watermark?: WatermarkSettings;
+  prompt_template: PromptTemplateRef;
+  experiment?: ExperimentVariantConfig;
+  seed?: number;
+  provider?: string; // Provider the shop chose for a regeneration
+  variant: number;
+}): string {
+  const prompts = Object.keys(params.prompts)
+    .filter(key => params.prompts[key] !== undefined && params.prompts[key] !== null && params.prompts[key] !== '')
+    .sort()
+    .map(key => [key, params.prompts[key]]);
+
+  const providers = {
+    generation: getProviderOrder(params.mode ? 'studio' : 'tryon'),
+    upscale: params.steps.includes('enhanced-upscale') ? getProviderOrder('upscale') : [],
+  };
+
+  return createHash('sha256')
+    .update(JSON.stringify({
+      user_id: params.user_id,
+      pose_image_url: params.pose_image_url,
+      clothing_image_url: params.clothing_image_url || null,
+      mode: params.mode || null,
+      prompts,
+      providers,
+      steps: params.steps,
+      garment_category: params.garment_category || null,
+      outfit: params.outfit?.length ? params.outfit.map(layer => [layer.slot, layer.image_url]) : null,
+      watermark: params.watermark || null,
+      prompt_template: [params.prompt_template.id, params.prompt_template.version],
+      experiment: params.experiment || null,
+      variant: params.variant,
+      // Only part of the key when set, so keys of ordinary runs don't change
+      ...(params.seed !== undefined && { seed: params.seed }),
+      ...(params.provider && { provider: params.provider }),
+    }))
+    .digest('hex');
+}
+
+/**
+ * Steps a run executes: the tier's steps, plus garment pre-processing when requested for try-on
+ * and the shop's watermark when a paid run opts in. An experiment variant can skip the upscale.
+ */
+function getExecutionSteps(
+  tier: string,
+  options: { mode?: string; preprocessGarment?: boolean; watermark?: boolean; upscale?: boolean }
+): PipelineStep[] {
+  let steps = getEnabledSteps(tier);
+  if (options.upscale === false) {
+    steps = steps.filter(step => step !== 'enhanced-upscale');
+  }
+  if (options.watermark && !steps.includes('watermark')) {
+    steps = [...steps, 'watermark'];
+  }
+  return options.preprocessGarment && !options.mode ? ['garment-prep', ...steps] : steps;
+}
+
 // =============================================
 // MAIN EXECUTION FUNCTION
 // =============================================
@@ -179,7 +324,13 @@ async function updateGenerationMetadata(
 export async function startPipelineExecution(
   input: ExecutionInput
 ): Promise<ExecutionResult> {
-  const { user_id, subscription_tier, base_model_id, clothing_image_url, poses, project_name, project_description, mode, prompts } = input;
+  const { user_id, subscription_tier, base_model_id, poses, project_name, project_description, mode, prompts, batch_id, prepaid, force_regenerate, preprocess_garment } = input;
+  const outfit = !mode && input.outfit?.length ? input.outfit : undefined;
+  const clothing_image_url = input.clothing_image_url || outfit?.[0].image_url;
+  const garment_category = outfit ? getOutfitGarmentCategory(outfit) : input.garment_category;
+  const watermark = canCustomizeWatermark(subscription_tier) ? input.watermark : undefined;
+  const creditsPerPose = input.credits_per_pose ?? getFeatureCost("generation", { tier: subscription_tier, mode });
+  const regeneration = input.regeneration;
 
   try {
     console.log('═══════════════════════════════════════════════════════');
@@ -189,6 +340,9 @@ export async function startPipelineExecution(
     console.log(`🎯 Subscription Tier: ${subscription_tier}`);
     console.log(`🎨 Base Model ID: ${base_model_id}`);
     console.log(`👔 Clothing Image: ${clothing_image_url}`);
+    if (outfit) {
+      console.log(`👗 Outfit: ${outfit.map(layer => layer.slot).join(' + ')}${input.outfit_id ? ` (saved outfit ${input.outfit_id})` : ''}`);
+    }
     console.log(`📸 Number of Poses: ${poses.length}`);
     console.log(`📝 Project Name: ${project_name || 'Untitled'}`);
     console.log('───────────────────────────────────────────────────────');
@@ -204,66 +358,135 @@ export async function startPipelineExecution(
       throw new Error("Maximum 10 poses allowed per execution");
     }
 
+    if (regeneration && poses.length !== 1) {
+      console.error('❌ VALIDATION ERROR: A regeneration runs exactly one pose');
+      throw new Error("A regeneration runs exactly one pose");
+    }
+
     console.log('✅ Input validation passed');
     console.log('───────────────────────────────────────────────────────');
 
-    // Check user credits
-    console.log('💳 Checking user credits...');
-    const { data: userCredits, error: creditsError } = await supabaseAdmin
-      .from("user_credits")
-      .select("available_credits")
-      .eq("user_id", user_id)
-      .single();
+    // Check user credits (batch executions were paid for when the batch was created)
+    if (prepaid) {
+      console.log(`💳 Credits prepaid by batch ${batch_id}`);
+    } else {
+      console.log('💳 Checking user credits...');
+      const { data: userCredits, error: creditsError } = await supabaseAdmin
+        .from("user_credits")
+        .select("available_credits")
+        .eq("user_id", user_id)
+        .single();
+
+      if (creditsError || !userCredits) {
+        console.error('❌ CREDITS ERROR:', creditsError);
+        throw new Error("Unable to fetch user credits");
+      }
 
-    if (creditsError || !userCredits) {
-      console.error('❌ CREDITS ERROR:', creditsError);
-      throw new Error("Unable to fetch user credits");
-    }
+      const requiredCredits = creditsPerPose * poses.length;
+      console.log(`   Required Credits: ${requiredCredits}`);
+      console.log(`   Available Credits: ${userCredits.available_credits}`);
 
-    const requiredCredits = 1000 * poses.length; // 1000 credits per pose
-    console.log(`   Required Credits: ${requiredCredits}`);
-    console.log(`   Available Credits: ${userCredits.available_credits}`);
+      if (userCredits.available_credits < requiredCredits) {
+        console.error(`❌ INSUFFICIENT CREDITS: Need ${requiredCredits}, Have ${userCredits.available_credits}`);
+        throw new Error(
+          `Insufficient credits. Required: ${requiredCredits}, Available: ${userCredits.available_credits}`
+        );
+      }
 
-    if (userCredits.available_credits < requiredCredits) {
-      console.error(`❌ INSUFFICIENT CREDITS: Need ${requiredCredits}, Have ${userCredits.available_credits}`);
-      throw new Error(
-        `Insufficient credits. Required: ${requiredCredits}, Available: ${userCredits.available_credits}`
-      );
+      console.log('✅ Credit validation passed');
     }
-
-    console.log('✅ Credit validation passed');
     console.log('───────────────────────────────────────────────────────');
 
-    // Create project record
-    console.log('📁 Creating project record...');
-    const { data: project, error: projectError } = await supabaseAdmin
-      .from("user_generation_projects")
-      .insert({
-        user_id,
-        name: project_name || 'Untitled project',
-        description: project_description || "AI-generated fashion images",
-        base_model_id,
-        clothing_image_url,
-        result_count: 0, // Will be updated as generations complete
-        status: 'active', // active = in progress, archived = completed,
-      })
-      .select()
-      .single();
+    // Create project record, or reuse the shop's existing project
+    let project: any;
+    if (input.project_id) {
+      console.log(`📁 Adding to existing project ${input.project_id}...`);
+      const { data: existingProject, error: projectError } = await supabaseAdmin
+        .from("user_generation_projects")
+        .select("*")
+        .eq("id", input.project_id)
+        .eq("user_id", user_id)
+        .maybeSingle();
+
+      if (projectError || !existingProject) {
+        console.error("❌ PROJECT LOOKUP ERROR:", projectError);
+        throw new Error("Project not found");
+      }
 
-    if (projectError || !project) {
-      console.error("❌ PROJECT CREATION ERROR:", projectError);
-      throw new Error("Failed to create project record");
+      const { error: statusError } = await supabaseAdmin
+        .from("user_generation_projects")
+        .update({ status: 'active', updated_at: new Date().toISOString() })
+        .eq("id", existingProject.id);
+
+      if (statusError) {
+        console.warn('⚠️  Could not mark the project active:', statusError.message);
+      }
+
+      project = existingProject;
+      console.log(`✅ Using project: ${project.id} - "${project.name}"`);
+    } else {
+      console.log('📁 Creating project record...');
+      const { data: newProject, error: projectError } = await supabaseAdmin
+        .from("user_generation_projects")
+        .insert({
+          user_id,
+          name: project_name || 'Untitled project',
+          description: project_description || "AI-generated fashion images",
+          base_model_id,
+          clothing_image_url,
+          result_count: 0, // Will be updated as generations complete
+          status: 'active', // active = in progress, archived = completed,
+        })
+        .select()
+        .single();
+
+      if (projectError || !newProject) {
+        console.error("❌ PROJECT CREATION ERROR:", projectError);
+        throw new Error("Failed to create project record");
+      }
+
+      project = newProject;
+      console.log(`✅ Project created: ${project.id} - "${project.name}"`);
     }
 
-    console.log(`✅ Project created: ${project.id} - "${project.name}"`);
+    // New outfits become a reusable asset of the project
+    let outfitId = outfit ? input.outfit_id : undefined;
+    if (outfit && !outfitId && !input.project_id) {
+      try {
+        const savedOutfit = await createOutfit(user_id, {
+          layers: outfit,
+          name: project_name ? `${project_name} outfit` : undefined,
+          project_id: project.id,
+        });
+        outfitId = savedOutfit.id;
+      } catch (outfitError) {
+        console.warn('⚠️  Could not save the outfit, continuing without it:', outfitError);
+      }
+    }
     console.log('───────────────────────────────────────────────────────');
 
+    // Running experiments can change how this execution is generated
+    // (regenerations are the shop's own choices, so they stay out of experiments)
+    const executionId = crypto.randomUUID();
+    const experiment = regeneration ? null : await assignExperiment(executionId, mode);
+
     // Get enabled pipeline steps for this tier
-    const enabledSteps = getEnabledSteps(subscription_tier);
+    const enabledSteps = getExecutionSteps(subscription_tier, {
+      mode,
+      preprocessGarment: preprocess_garment,
+      watermark: !!watermark,
+      upscale: experiment?.config.upscale,
+    });
     console.log('🔧 Pipeline configuration:');
     console.log(`   Tier: ${subscription_tier}`);
     console.log(`   Enabled Steps: [${enabledSteps.join(', ')}]`);
     console.log(`   Total Steps: ${enabledSteps.length}`);
+    if (experiment) {
+      console.log(`   Experiment: ${experiment.experiment_id} (variant ${experiment.variant_id})`);
+    }
+    if (regeneration) {
+      console.log(`   Regeneration: result ${regeneration.source_result_id} → version ${regeneration.version}`);
+    }
     console.log('───────────────────────────────────────────────────────');
 
     // Create pipeline execution record
@@ -271,6 +494,7 @@ export async function startPipelineExecution(
     const { data: execution, error: executionError } = await supabaseAdmin
       .from("pipeline_executions")
       .insert({
+        id: executionId,
         user_id,
         project_id: project.id,
         user_image_url: poses[0].image_url, // First pose as user image
@@ -283,19 +507,34 @@ export async function startPipelineExecution(
         user_source: 'shopify_user', // Mark as Shopify app generation
         config: {
           tier: subscription_tier,
+          base_model_id,
           total_poses: poses.length,
           poses: poses.map(p => ({ pose_id: p.pose_id, pose_name: p.pose_name })),
           mode, // Store mode
-          prompts // Store prompts
+          prompts, // Store prompts
+          credits_per_pose: creditsPerPose, // Price at start, used for captures and refunds
+          force_regenerate: !!(force_regenerate || regeneration), // Bypass the result cache
+          preprocess_garment: enabledSteps.includes('garment-prep'),
+          ...(garment_category && { garment_category }),
+          ...(outfitId && { outfit_id: outfitId }),
+          ...(watermark && { watermark, watermark_profile_id: input.watermark_profile_id }),
+          ...(experiment && { experiment }),
+          ...(regeneration && { regeneration }),
         },
         input: {
           poses: poses,
           clothing_image_url,
+          ...(outfit && { outfit }),
         },
         metadata: {
           project_name: project_name || 'Untitled project',
+          ...(batch_id && { batch_id }),
         },
-        credits_reserved: 1000 * poses.length,
+        credits_reserved: creditsPerPose * poses.length,
+        ...(experiment && {
+          experiment_id: experiment.experiment_id,
+          experiment_variant: experiment.variant_id,
+        }),
         started_at: new Date().toISOString(),
       })
       .select()
@@ -321,6 +560,7 @@ export async function startPipelineExecution(
         base_model_id,
         selected_poses: poses.map(p => p.pose_id),
         generation_config: {
+          pipeline_execution_id: executionId, // Scopes status updates to this run
           tier: subscription_tier,
           enabled_steps: enabledSteps,
           clothing_image_url: clothing_image_url || '',
@@ -343,134 +583,114 @@ export async function startPipelineExecution(
     console.log(`✅ User generation created: ${userGeneration.id}`);
     console.log('───────────────────────────────────────────────────────');
 
-    let generationResults: any[] = [];
-
-    if (mode) {
-      // -------------------------------------------------------------------------
-      // STUDIO MODE (Shop/Post Ready) -> Insert into studio_generations
-      // -------------------------------------------------------------------------
-      console.log('📝 Creating STUDIO generation records...');
-      const studioRecords = poses.map((pose) => ({
+    // Studio modes (Shop/Post Ready) and try-on are stored as different generation kinds
+    console.log(`📝 Creating ${getGenerationKind(mode)} generation records...`);
+    const generationResults = await createGenerations(poses.map(pose => mode
+      ? {
+        kind: 'studio' as const,
         user_id,
         project_id: project.id,
-        pipeline_execution_id: execution.id,
+        execution_id: execution.id,
         base_model_id,
         mode,
-        prompt_config: {
-          prompts,
-          pose_prompts: pose.prompt_overrides
-        },
         pose_identifier: pose.pose_name || pose.pose_id,
-        status: 'processing',
-        metadata: {
-          status: 'processing'
-        }
-      }));
-
-      const { data: studioResults, error: studioError } = await supabaseAdmin
-        .from("studio_generations")
-        .insert(studioRecords)
-        .select();
-
-      if (studioError || !studioResults) {
-        console.error("❌ STUDIO GENERATION RECORDS ERROR:", studioError);
-        throw new Error("Failed to create studio generation records");
+        prompts,
+        pose_prompts: pose.prompt_overrides,
+        version_of: regeneration?.version_of,
+        version: regeneration?.version,
       }
-
-      // Map back to expected format for return
-      generationResults = studioResults.map(r => ({
-        ...r,
-        pose_id: r.pose_identifier, // Map identifier to pose_id for consistency in response
-        pose_name: r.pose_identifier
-      }));
-
-    } else {
-      // -------------------------------------------------------------------------
-      // VTO MODE -> Insert into generation_results
-      // -------------------------------------------------------------------------
-      console.log('📝 Creating VTO generation result placeholders...');
-      const generationRecords = poses.map((pose) => ({
-        generation_id: userGeneration.id, // Link to user_generations record
-        project_id: project.id,
+      : {
+        kind: 'tryon' as const,
         user_id,
+        project_id: project.id,
+        execution_id: execution.id,
+        generation_id: userGeneration.id, // Link to user_generations record
         pose_id: pose.pose_id,
         pose_name: pose.pose_name,
+        tier: subscription_tier,
         clothing_image_url,
         model_image_url: pose.image_url,
-        result_image_url: '', // Will be updated after generation
-        supabase_path: '', // Will be updated after upload
-        generation_tier: subscription_tier,
-        generation_config: {
-          enabled_steps: enabledSteps,
-          pipeline_execution_id: execution.id, // Store pipeline execution reference in config
-          mode: undefined,
-          prompts: undefined
-        },
-        generation_metadata: {
-          status: 'processing',
-        },
-      }));
-
-      const { data: vtoResults, error: vtoError } = await supabaseAdmin
-        .from("generation_results")
-        .insert(generationRecords)
-        .select();
-
-      if (vtoError || !vtoResults) {
-        console.error("❌ GENERATION RECORDS ERROR:", vtoError);
-        throw new Error("Failed to create generation records");
+        enabled_steps: enabledSteps,
+        version_of: regeneration?.version_of,
+        version: regeneration?.version,
       }
-      generationResults = vtoResults;
+    ));
+
+    // Another regeneration of the same result claimed this version first (nothing is held yet)
+    if (!generationResults) {
+      console.error(`❌ VERSION TAKEN: version ${regeneration?.version} of result ${regeneration?.version_of} already exists`);
+      await updateExecutionStatus(execution.id, "failed", 0, poses.length, 0);
+      return {
+        execution_id: execution.id,
+        project_id: project.id,
+        status: "failed",
+        total_poses: poses.length,
+        completed_poses: 0,
+        failed_poses: poses.length,
+        generation_results: [],
+        error: "Another regeneration of this result just started",
+      };
     }
 
     console.log(`✅ Created ${generationResults.length} generation result records`);
-    generationResults.forEach((result: any, index: number) => {
+    generationResults.forEach((result, index) => {
       console.log(`   ${index + 1}. Result ID: ${result.id} - Pose: ${result.pose_name || result.pose_id}`);
     });
     console.log('───────────────────────────────────────────────────────');
 
-    // CRITICAL: Deduct credits IMMEDIATELY when generation starts (upfront payment)
-    console.log('💳 DEDUCTING CREDITS (Upfront Payment)...');
-    const creditsToConsume = 1000 * poses.length;
-    console.log(`   Amount to deduct: ${creditsToConsume} credits`);
-    console.log(`   Breakdown: ${poses.length} poses × 1000 credits`);
+    // CRITICAL: Hold credits IMMEDIATELY when generation starts (captured per completed pose)
+    const creditsToConsume = creditsPerPose * poses.length;
 
-    const consumeResult = await consumeCreditsForExecution(execution.id, creditsToConsume);
+    if (!prepaid) {
+      console.log('💳 HOLDING CREDITS (Upfront Reservation)...');
+      console.log(`   Amount to hold: ${creditsToConsume} credits`);
+      console.log(`   Breakdown: ${poses.length} poses × ${creditsPerPose} credits`);
 
-    if (!consumeResult.success) {
-      console.error('❌ CREDIT DEDUCTION FAILED:', consumeResult.error);
-      // If credit deduction fails, mark execution as failed and cleanup
-      await updateExecutionStatus(execution.id, "failed", 0, poses.length, 0);
-      throw new Error(consumeResult.error || "Failed to deduct credits");
-    }
+      const holdResult = await reserveCreditsForExecution(execution.id, user_id, creditsToConsume, poses.length);
 
-    console.log(`✅ Credits deducted successfully: ${creditsToConsume}`);
-    console.log(`   New balance: ${userCredits.available_credits - creditsToConsume}`);
-    console.log('───────────────────────────────────────────────────────');
+      if (!holdResult.success) {
+        console.error('❌ CREDIT HOLD FAILED:', holdResult.error);
+        // If the hold fails, mark execution as failed and cleanup
+        await updateExecutionStatus(execution.id, "failed", 0, poses.length, 0);
+        throw new Error(holdResult.error || "Failed to reserve credits");
+      }
+
+      console.log(`✅ Credits held successfully: ${creditsToConsume}`);
+      console.log('───────────────────────────────────────────────────────');
+    }
 
-    // Update execution record with consumed credits
+    // Update execution record with held credits
     await supabaseAdmin
       .from("pipeline_executions")
       .update({ credits_used: creditsToConsume })
       .eq("id", execution.id);
 
-    console.log('🎬 Starting background processing...');
+    // Hand off to the durable queue - a worker leases the job and processes the poses.
+    // If this process dies mid-generation, the reaper resumes or refunds the execution.
+    console.log('📬 Queueing execution for background processing...');
+    try {
+      await enqueuePipelineJob({
+        execution_id: execution.id,
+        user_id,
+        subscription_tier,
+      });
+    } catch (queueError) {
+      // Prepaid batch items are released by the batch when dispatch fails
+      if (!prepaid) {
+        console.log(`💰 Releasing ${creditsToConsume} credits - execution could not be queued`);
+        await releaseExecutionCredits(execution.id, creditsToConsume, "Execution could not be queued");
+      }
+      await updateExecutionStatus(execution.id, "failed", 0, poses.length, 0);
+      throw queueError;
+    }
+
     console.log('   Processing will continue asynchronously');
     console.log('   Use execution ID to poll for status updates');
     console.log('═══════════════════════════════════════════════════════');
-    console.log(`✅ PIPELINE EXECUTION INITIATED: ${execution.id}`);
+    console.log(`✅ PIPELINE EXECUTION QUEUED: ${execution.id}`);
     console.log('═══════════════════════════════════════════════════════');
     console.log('');
 
-    // Start async processing (don't await - return immediately)
-    processAllPoses(execution.id, poses, clothing_image_url || '', subscription_tier, base_model_id, creditsToConsume).catch(async (error) => {
-      console.error(`❌ Error in background processing for execution ${execution.id}:`, error);
-      // CRITICAL: Refund credits if the ENTIRE background process crashes
-      console.log(`💰 Refunding ${creditsToConsume} credits due to critical process failure`);
-      await refundCreditsForExecution(execution.id, creditsToConsume);
-      await updateExecutionStatus(execution.id, "failed", 0, poses.length, 0);
-    });
-
     return {
       execution_id: execution.id,
       project_id: project.id,
@@ -500,8 +720,9 @@ export async function startPipelineExecution(
 
 /**
  * Process all poses for an execution
- * Runs in background, processes each pose sequentially
- * Credits already deducted upfront - refund on failure
+ * Runs in the pipeline worker, processes poses in parallel up to the tier's in-flight limit
+ * Poses already finished by a previous attempt are skipped
+ * Credits are held upfront - each completed pose is captured, the rest released
  */
 async function processAllPoses(
   execution_id: string,
@@ -509,7 +730,9 @@ async function processAllPoses(
   clothing_image_url: string,
   subscription_tier: string,
   base_model_id: string,
-  creditsAlreadyDeducted: number
+  creditsAlreadyDeducted: number,
+  outfit?: OutfitLayer[],
+  isLeaseLost: () => boolean = () => false
 ): Promise<void> {
   console.log('');
   console.log('═══════════════════════════════════════════════════════');
@@ -530,64 +753,94 @@ async function processAllPoses(
   // First get the user_generation record linked to this execution via project_id
   const { data: executionData } = await supabaseAdmin
     .from("pipeline_executions")
-    .select("project_id, config")
+    .select("project_id, config, user_id, metadata")
     .eq("id", execution_id)
     .single();
 
   if (!executionData?.project_id) {
     console.error(`❌ Failed to find project for execution ${execution_id}`);
-    await refundCreditsForExecution(execution_id, creditsAlreadyDeducted);
+    await releaseExecutionCredits(execution_id, creditsAlreadyDeducted, "Execution could not start");
     await updateExecutionStatus(execution_id, "failed", 0, poses.length, 0);
     return;
   }
 
   const executionConfig = executionData.config as any;
-  const isStudioMode = !!executionConfig?.mode;
-  let generationResults: any[] = [];
-
-  if (isStudioMode) {
-    // Fetch STUDIO results
-    const { data, error } = await supabaseAdmin
-      .from("studio_generations")
-      .select("*")
-      .eq("pipeline_execution_id", execution_id);
-
-    if (error || !data) {
-      console.error(`❌ Failed to fetch studio generations for execution ${execution_id}`);
-      await refundCreditsForExecution(execution_id, creditsAlreadyDeducted);
-      await updateExecutionStatus(execution_id, "failed", 0, poses.length, 0);
-      return;
-    }
-    generationResults = data.map(r => ({
-      ...r,
-      pose_id: r.pose_identifier, // Map identifier to pose_id
-      generation_config: {  // Normalize config structure
-        mode: r.mode,
-        prompts: r.prompt_config?.prompts,
-        pose_prompts: r.prompt_config?.pose_prompts
-      }
-    }));
-  } else {
-    // Fetch VTO results
-    const { data, error } = await supabaseAdmin
-      .from("generation_results")
-      .select("*")
-      .eq("project_id", executionData.project_id)
-      .contains("generation_config", { pipeline_execution_id: execution_id });
-
-    if (error || !data) {
-      console.error(`❌ Failed to fetch generation results for execution ${execution_id}`);
-      console.error('Error:', error);
-      await refundCreditsForExecution(execution_id, creditsAlreadyDeducted);
-      await updateExecutionStatus(execution_id, "failed", 0, poses.length, 0);
-      return;
-    }
-    generationResults = data;
+  const poseCost = getExecutionPoseCost(executionConfig);
+  const creditHold = await getExecutionCreditHold(execution_id, (executionData.metadata as any)?.batch_id);
+
+  // Progress events for the SSE stream
+  const emitEvent = (event: Omit<PipelineEventInput, 'execution_id' | 'project_id' | 'user_id'>) =>
+    recordPipelineEvent({
+      ...event,
+      execution_id,
+      project_id: executionData.project_id,
+      user_id: executionData.user_id,
+    });
+  const generationKind = getGenerationKind(executionConfig?.mode);
+  const forceRegenerate = !!executionConfig?.force_regenerate;
+  const enabledSteps = getExecutionSteps(subscription_tier, {
+    mode: executionConfig?.mode,
+    preprocessGarment: executionConfig?.preprocess_garment,
+    watermark: !!executionConfig?.watermark,
+    upscale: executionConfig?.experiment?.config?.upscale,
+  });
+  const garmentCategory: GarmentCategory | undefined = executionConfig?.garment_category;
+  const watermark: WatermarkSettings | undefined = executionConfig?.watermark;
+  const experiment: ExperimentAssignment | undefined = executionConfig?.experiment;
+  const regeneration: RegenerationConfig | undefined = executionConfig?.regeneration;
+
+  // Every pose of the run renders its prompt from the same template version;
+  // an experiment variant can pin one (ignored when it's for another template key)
+  const promptTemplateKey = getPromptTemplateKey(executionConfig?.mode, !!outfit?.length);
+  const pinnedTemplate = experiment?.config.prompt_template_id
+    ? await getPromptTemplateById(experiment.config.prompt_template_id)
+    : null;
+  const promptTemplate = pinnedTemplate?.key === promptTemplateKey
+    ? pinnedTemplate
+    : await getActivePromptTemplate(promptTemplateKey);
+  const promptTemplateRef = toPromptTemplateRef(promptTemplate);
+  console.log(`📝 Prompt template: ${promptTemplate.key} v${promptTemplate.version}`);
+  let cacheHits = 0;
+  let cacheMisses = 0;
+  let generationResults: Generation[];
+  try {
+    generationResults = await listExecutionGenerations(generationKind, execution_id, executionData.project_id);
+  } catch (error) {
+    console.error(`❌ Failed to fetch generation results for execution ${execution_id}:`, error);
+    await releaseExecutionCredits(execution_id, creditsAlreadyDeducted, "Execution could not start");
+    await updateExecutionStatus(execution_id, "failed", 0, poses.length, 0);
+    return;
   }
 
   console.log(`✅ Fetched ${generationResults.length} generation result records`);
   console.log('───────────────────────────────────────────────────────');
 
+  // A cancelled execution or a lost lease (another worker resumes the job) stops
+  // the run between poses; poses stopped this way are left for their new owner
+  let stopReason: string | null = null;
+  const shouldStop = async (): Promise<boolean> => {
+    if (stopReason) return true;
+    if (isLeaseLost()) {
+      stopReason = 'lease lost';
+    } else {
+      const { data: current } = await supabaseAdmin
+        .from("pipeline_executions")
+        .select("status")
+        .eq("id", execution_id)
+        .single();
+      if (current && current.status !== 'processing') {
+        stopReason = `execution ${current.status}`;
+      }
+    }
+    return !!stopReason;
+  };
+  // Step updates made while the pose ran can undo the cancel's status
+  const markStoppedPose = async (generation: Generation) => {
+    if (stopReason !== 'lease lost') {
+      await updateGeneration(generation, { status: 'cancelled' });
+    }
+  };
+
   // Process all poses in parallel for faster execution
   console.log('🚀 Starting PARALLEL processing of all poses...');
   console.log(`   Total poses to process: ${poses.length}`);
@@ -605,21 +858,105 @@ async function processAllPoses(
     console.log(`📝 Pose Name: ${pose.pose_name || 'Unnamed'}`);
     console.log(`🖼️  Pose Image: ${pose.image_url.substring(0, 80)}...`);
 
+    if (await shouldStop()) {
+      console.log(`🛑 Not starting pose ${index + 1}: ${stopReason}`);
+      return { success: false, index, stopped: true };
+    }
+
     if (!generationResult) {
       console.error(`❌ Generation result not found for pose ${pose.pose_id} / ${pose.pose_name}`);
+      await refundPoseCredits(creditHold, execution_id, null, index, generationKind, poseCost, `Refund: pose ${pose.pose_name || pose.pose_id} could not start`);
       return { success: false, index };
     }
 
-    // Extract mode and prompts from config
-    const genConfig = generationResult.generation_config as any;
-    const mode = genConfig?.mode;
-    const globalPrompts = genConfig?.prompts || {};
-    const posePrompts = genConfig?.pose_prompts || {};
-    const prompts = { ...globalPrompts, ...posePrompts };
+    // Resumed job: poses finished by a previous worker keep their outcome
+    const previousStatus = generationResult.status;
+    if (previousStatus === 'completed' || previousStatus === 'failed') {
+      console.log(`⏭️  Pose already ${previousStatus} by a previous attempt, skipping`);
+      // No-op if the previous worker captured or refunded it before dying
+      if (previousStatus === 'completed') {
+        await capturePoseCredits(creditHold, execution_id, generationResult.id, poseCost);
+      } else {
+        await refundPoseCredits(creditHold, execution_id, generationResult.id, index, generationKind, poseCost, `Refund: pose ${pose.pose_name || pose.pose_id} failed`);
+      }
+      return { success: previousStatus === 'completed', index };
+    }
+
+    // Studio generations carry their mode and prompts (pose overrides win)
+    const mode = generationResult.kind === 'studio' ? generationResult.mode : undefined;
+    const prompts = generationResult.kind === 'studio'
+      ? { ...generationResult.prompts, ...generationResult.pose_prompts }
+      : {};
 
     console.log(`🆔 Result Record ID: ${generationResult.id}`);
     console.log('───────────────────────────────────────────────────────');
 
+    // Identical poses earlier in this run are separate variations, not repeats
+    const variant = poses.slice(0, index).filter(other =>
+      other.image_url === pose.image_url &&
+      JSON.stringify(other.prompt_overrides || {}) === JSON.stringify(pose.prompt_overrides || {})
+    ).length;
+    const cacheKey = getResultCacheKey({
+      user_id: executionData.user_id,
+      pose_image_url: pose.image_url,
+      clothing_image_url,
+      mode,
+      prompts,
+      steps: enabledSteps,
+      garment_category: garmentCategory,
+      outfit,
+      watermark,
+      prompt_template: promptTemplateRef,
+      experiment: experiment?.config,
+      seed: regeneration?.seed,
+      provider: regeneration?.provider,
+      variant,
+    });
+
+    if (forceRegenerate) {
+      console.log('♻️  Force regenerate - skipping result cache');
+      // Regenerating an identical pose counts against the execution that produced it
+      // (a regeneration already recorded its signal against the result it replaces)
+      const previous = regeneration ? null : await PipelineDatabaseService.getCachedResult(cacheKey, { countHit: false });
+      if (previous?.sourceExecutionId && previous.sourceExecutionId !== execution_id) {
+        await recordGenerationSignal({
+          user_id: executionData.user_id,
+          signal: 'regenerate',
+          execution_id: previous.sourceExecutionId,
+        });
+      }
+    } else {
+      const cached = await PipelineDatabaseService.getCachedResult(cacheKey);
+      if (cached) {
+        try {
+          console.log(`⚡ Cache hit (${cacheKey.substring(0, 12)}…) - reusing ${cached.imageUrl.substring(0, 80)}...`);
+
+          await updateGenerationMetadata(generationResult, cached.stepResults, cached.imageUrl, cached.storagePath, {
+            prompt_template: promptTemplateRef,
+            cache_hit: true,
+            cache_key: cacheKey,
+          });
+
+          cacheHits++;
+          await settleCachedPoseCredits(creditHold, execution_id, generationResult.id, poseCost);
+
+          await emitEvent({
+            event_type: 'pose.completed',
+            result_id: generationResult.id,
+            pose_id: generationResult.pose_id,
+            image_url: cached.imageUrl,
+            payload: { cached: true, credits_charged: getCachedResultCost(poseCost) },
+          });
+
+          return { success: true, index };
+        } catch (cacheError) {
+          console.warn('⚠️  Could not serve cached result, generating instead:', cacheError);
+        }
+      }
+    }
+
+    cacheMisses++;
+
     try {
       const poseStartTime = Date.now();
       console.log(`⏱️  Started at: ${new Date().toISOString()}`);
@@ -639,6 +976,15 @@ async function processAllPoses(
         clothing_image_url || '', // Can be empty for studio modes
         {
           tier: subscription_tier as any,
+          userId: executionData.user_id,
+          enabledSteps,
+          garmentCategory,
+          outfit,
+          watermark,
+          promptTemplate,
+          preferredProvider: regeneration?.provider || experiment?.config.provider,
+          aspectRatio: experiment?.config.aspect_ratio,
+          seed: regeneration?.seed,
           mode: mode, // Pass mode
           prompts: prompts, // Pass prompts
 
@@ -649,22 +995,27 @@ async function processAllPoses(
             stepResultsAccumulator.push(step);
 
             try {
-              if (isStudioMode) {
-                // Update Studio Generations
-                await supabaseAdmin.from("studio_generations").update({
-                  metadata: {
-                    status: 'processing', // Keep as processing until done
-                    step_results: stepResultsAccumulator
-                  }
-                }).eq("id", generationResult.id);
-              } else {
-                // Update VTO Generations
-                await updateGenerationMetadata(generationResult.id, stepResultsAccumulator);
-              }
+              // Stays processing until the final image is stored
+              await updateGenerationMetadata(generationResult, stepResultsAccumulator, undefined, undefined, {
+                prompt_template: promptTemplateRef,
+              });
               console.log(`✅ Real-time metadata update saved for ${step.stepType}`);
             } catch (error) {
               console.error(`❌ Failed to save real-time metadata for ${step.stepType}:`, error);
             }
+
+            await emitEvent({
+              event_type: step.status === 'failed' ? 'step.failed' : 'step.completed',
+              result_id: generationResult.id,
+              pose_id: generationResult.pose_id,
+              step_type: step.stepType,
+              image_url: step.imageUrl,
+              payload: {
+                provider: step.provider,
+                processing_time: step.processingTime,
+                error: step.error,
+              },
+            });
           }
         },
         execution_id  // Pass execution ID for storage path
@@ -686,6 +1037,13 @@ async function processAllPoses(
       });
       console.log('───────────────────────────────────────────────────────');
 
+      // Cancelled meanwhile (its hold is released) or resumed elsewhere: keep nothing, charge nothing
+      if (await shouldStop()) {
+        console.log(`🛑 Discarding pose ${index + 1}: ${stopReason}`);
+        await markStoppedPose(generationResult);
+        return { success: false, index, stopped: true };
+      }
+
       // ✅ UPDATE DATABASE AFTER PIPELINE COMPLETES
       // This saves all step results immediately so UI can show them
       console.log('🔄 About to save metadata to database...');
@@ -696,21 +1054,10 @@ async function processAllPoses(
       // Derived path logic if needed, or empty string here as it is intermediate
       const finalPath = '';
 
-      if (isStudioMode) {
-        await supabaseAdmin.from("studio_generations").update({
-          status: 'completed',
-          result_image_url: finalImage,
-          supabase_path: finalPath,
-          updated_at: new Date().toISOString(),
-          metadata: {
-            status: 'completed',
-            duration: Date.now() - poseStartTime,
-            step_results: pipelineResults
-          }
-        }).eq("id", generationResult.id);
-      } else {
-        await updateGenerationMetadata(generationResult.id, pipelineResults, finalImage, finalPath);
-      }
+      await updateGenerationMetadata(generationResult, pipelineResults, finalImage, finalPath, {
+        duration: Date.now() - poseStartTime,
+        prompt_template: promptTemplateRef,
+      });
       console.log('✅ Intermediate metadata saved to database');
 
       // Check if CRITICAL steps failed (try-on is critical, upscales are optional)
@@ -769,28 +1116,40 @@ async function processAllPoses(
       console.log(`   Public URL: ${finalImageUrl.substring(0, 80)}...`);
       console.log('───────────────────────────────────────────────────────');
 
+      await trackStoredObject({
+        bucket: STORAGE_BUCKETS.SHOPIFY_GENERATIONS,
+        path: uploadResult.path,
+        user_id: executionData.user_id,
+        kind: 'final',
+        owner_table: getGenerationTable(generationKind),
+        owner_id: generationResult.id,
+        size_bytes: imageBuffer.length,
+        tier: subscription_tier,
+      });
+      await keepResultStepImages(getGenerationTable(generationKind), generationResult.id, pipelineResults);
+
       // ✅ UPDATE DATABASE WITH FINAL RESULT
       // This updates the metadata with the final image URL and marks as completed
       console.log('💾 Updating database with final results...');
 
-      if (isStudioMode) {
-        await supabaseAdmin.from("studio_generations").update({
-          status: 'completed',
-          result_image_url: finalImageUrl,
-          supabase_path: uploadResult.path,
-          updated_at: new Date().toISOString(),
-          metadata: {
-            status: 'completed',
-            duration: Date.now() - poseStartTime,
-            step_results: pipelineResults
-          }
-        }).eq("id", generationResult.id);
-      } else {
-        await updateGenerationMetadata(generationResult.id, pipelineResults, finalImageUrl, uploadResult.path);
-      }
+      await updateGenerationMetadata(generationResult, pipelineResults, finalImageUrl, uploadResult.path, {
+        duration: Date.now() - poseStartTime,
+        prompt_template: promptTemplateRef,
+        cache_hit: false,
+        cache_key: cacheKey,
+      });
 
       console.log('✅ Database updated successfully');
 
+      await PipelineDatabaseService.setCachedResult(cacheKey, finalImageUrl, uploadResult.path, pipelineResults, execution_id);
+
+      await emitEvent({
+        event_type: 'pose.completed',
+        result_id: generationResult.id,
+        pose_id: generationResult.pose_id,
+        image_url: finalImageUrl,
+      });
+
       // Print real-time results summary
       console.log('');
       console.log('📸 Results Summary:');
@@ -828,6 +1187,8 @@ async function processAllPoses(
       console.log(`┃  ✅ POSE ${index + 1}/${poses.length} COMPLETED SUCCESSFULLY           ┃`);
       console.log('┗━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┛');
 
+      await capturePoseCredits(creditHold, execution_id, generationResult.id, poseCost);
+
       return { success: true, index };
     } catch (error: any) {
       console.error('┏━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━┓');
@@ -836,41 +1197,59 @@ async function processAllPoses(
       console.error(`Error Message: ${error.message}`);
       console.error('Error Details:', error);
 
-      // Mark this generation as failed
-      if (isStudioMode) {
-        await supabaseAdmin.from("studio_generations").update({
-          status: 'failed',
-          error_message: error.message,
-          metadata: {
-            status: 'failed',
-            error: error.message,
-            completed_at: new Date().toISOString()
-          },
-          updated_at: new Date().toISOString()
-        }).eq("id", generationResult.id);
-      } else {
-        await supabaseAdmin
-          .from("generation_results")
-          .update({
-            generation_metadata: {
-              status: 'failed',
-              error_message: error.message,
-              completed_at: new Date().toISOString(),
-            },
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", generationResult.id);
+      // A stopped run neither fails nor refunds the pose (the cancel released it)
+      if (await shouldStop()) {
+        await markStoppedPose(generationResult);
+        return { success: false, index, stopped: true };
       }
 
+      // Mark this generation as failed
+      await updateGeneration(generationResult, {
+        status: 'failed',
+        error: error.message,
+        metadata: {
+          prompt_template: promptTemplateRef,
+          completed_at: new Date().toISOString(),
+        },
+      });
+
+      // Refund this pose's credits right away, linked to its result
+      const creditsRefunded = await refundPoseCredits(
+        creditHold,
+        execution_id,
+        generationResult.id,
+        index,
+        generationKind,
+        poseCost,
+        `Refund: pose ${pose.pose_name || pose.pose_id} failed`
+      );
+
+      await emitEvent({
+        event_type: 'pose.failed',
+        result_id: generationResult.id,
+        pose_id: generationResult.pose_id,
+        payload: { error: error.message, credits_refunded: creditsRefunded },
+      });
+
       return { success: false, index };
     }
   };
 
-  // Execute all poses in parallel using Promise.allSettled to handle individual failures
+  // Execute poses in parallel (capped per shop by tier) using Promise.allSettled to handle individual failures
+  const { maxInFlightPoses } = getTierConcurrencyLimit(subscription_tier);
+  console.log(`🚦 In-flight pose limit for ${subscription_tier}: ${maxInFlightPoses}`);
+
   const results = await Promise.allSettled(
-    poses.map((pose, index) => processPose(pose, index))
+    poses.map((pose, index) =>
+      withPoseSlot(executionData.user_id, maxInFlightPoses, () => processPose(pose, index))
+    )
   );
 
+  if (stopReason) {
+    console.log(`🛑 EXECUTION ${execution_id} STOPPED (${stopReason}) - leaving its status to the cancel or the new worker`);
+    return;
+  }
+
   // Count completed and failed poses
   results.forEach((result) => {
     if (result.status === 'fulfilled' && result.value.success) {
@@ -898,30 +1277,37 @@ async function processAllPoses(
   const finalStatus = failedCount === poses.length ? "failed" : "completed";
   console.log(`🎯 Final Execution Status: ${finalStatus}`);
 
-  // CRITICAL: Refund credits for FAILED generations (credits were already deducted upfront)
-  if (failedCount > 0) {
-    const creditsToRefund = failedCount * 1000;
-    console.log('───────────────────────────────────────────────────────');
-    console.log(`💰 REFUNDING CREDITS FOR FAILED POSES`);
-    console.log(`   Failed Poses: ${failedCount}`);
-    console.log(`   Credits to Refund: ${creditsToRefund}`);
-    console.log(`   Breakdown: ${failedCount} × 1000 credits`);
-
-    await refundCreditsForExecution(execution_id, creditsToRefund);
-    console.log(`✅ Refund processed: ${creditsToRefund} credits`);
-  }
-
-  // Update execution with final counts (credits already deducted, just update the record)
-  const finalCreditsConsumed = completedCount * 1000;
+  // Update execution with final counts (completed poses were captured, failed poses refunded as they failed).
+  // Cached poses are read from the results, so ones served before a resume are priced as cached too.
+  const finishedResults = await listExecutionGenerations(generationKind, execution_id, executionData.project_id);
+  const cachedCount = finishedResults.filter(r => r.status === 'completed' && isCachedResult(r)).length;
+  const finalCreditsConsumed = (completedCount - cachedCount) * poseCost + cachedCount * getCachedResultCost(poseCost);
   console.log('───────────────────────────────────────────────────────');
   console.log(`💳 FINAL CREDIT SUMMARY:`);
-  console.log(`   Initially Deducted: ${creditsAlreadyDeducted} credits`);
-  console.log(`   Refunded: ${failedCount * 1000} credits`);
+  console.log(`   Initially Held: ${creditsAlreadyDeducted} credits`);
+  console.log(`   Refunded: ${failedCount * poseCost} credits (${failedCount} failed pose(s) × ${poseCost})`);
+  console.log(`   Cache: ${cacheHits} hit(s), ${cacheMisses} miss(es)${forceRegenerate ? ' (forced regenerate)' : ''}`);
   console.log(`   Net Consumed: ${finalCreditsConsumed} credits`);
   console.log('───────────────────────────────────────────────────────');
 
   await updateExecutionStatus(execution_id, finalStatus, completedCount, failedCount, finalCreditsConsumed);
 
+  // Record cache usage on the execution
+  await supabaseAdmin
+    .from("pipeline_executions")
+    .update({
+      metadata: {
+        ...(executionData.metadata as any),
+        cache: { hits: cacheHits, misses: cacheMisses, force_regenerate: forceRegenerate },
+      },
+    })
+    .eq("id", execution_id);
+
+  await emitEvent({
+    event_type: finalStatus === 'failed' ? 'execution.failed' : 'execution.completed',
+    payload: { completed: completedCount, failed: failedCount, total: poses.length },
+  });
+
   console.log(`✅ Execution status updated in database`);
   console.log('═══════════════════════════════════════════════════════');
   console.log(`🏁 EXECUTION ${execution_id} FINISHED`);
@@ -931,6 +1317,139 @@ async function processAllPoses(
   console.log('');
 }
 
+// =============================================
+// QUEUE WORKER ENTRY POINTS
+// =============================================
+
+/**
+ * Process a queued execution (called by the pipeline worker once it holds the lease).
+ * Inputs are reloaded from the execution record so a resumed job picks up
+ * exactly where the previous worker stopped.
+ */
+export async function runQueuedExecution(
+  execution_id: string,
+  isLeaseLost?: () => boolean
+): Promise<void> {
+  const { data: execution, error } = await supabaseAdmin
+    .from("pipeline_executions")
+    .select("id, status, subscription_tier, config, input, credits_used, credits_reserved")
+    .eq("id", execution_id)
+    .single();
+
+  if (error || !execution) {
+    throw new Error(`Execution ${execution_id} not found`);
+  }
+
+  if (execution.status !== "processing") {
+    console.log(`⏭️  Execution ${execution_id} is ${execution.status}, nothing to process`);
+    return;
+  }
+
+  const input = (execution.input || {}) as { poses?: PoseInput[]; clothing_image_url?: string; outfit?: OutfitLayer[] };
+  const poses = input.poses || [];
+
+  await processAllPoses(
+    execution_id,
+    poses,
+    input.clothing_image_url || '',
+    execution.subscription_tier,
+    (execution.config as any)?.base_model_id || '',
+    execution.credits_used || execution.credits_reserved || getExecutionPoseCost(execution.config) * poses.length,
+    input.outfit,
+    isLeaseLost
+  );
+}
+
+/**
+ * Finalize an execution whose worker died and cannot be resumed.
+ * Poses that already completed are kept (and captured); everything else is
+ * marked failed and its held credits are released.
+ */
+export async function failStalledExecution(
+  execution_id: string,
+  reason: string
+): Promise<void> {
+  console.log('═══════════════════════════════════════════════════════');
+  console.log(`💀 FAILING STALLED EXECUTION: ${execution_id}`);
+  console.log(`   Reason: ${reason}`);
+  console.log('═══════════════════════════════════════════════════════');
+
+  const { data: execution } = await supabaseAdmin
+    .from("pipeline_executions")
+    .select("id, status, project_id, user_id, config, metadata")
+    .eq("id", execution_id)
+    .single();
+
+  if (!execution || execution.status !== "processing") {
+    console.log(`⏭️  Execution ${execution_id} is no longer processing, skipping`);
+    return;
+  }
+
+  const creditHold = await getExecutionCreditHold(execution_id, (execution.metadata as any)?.batch_id);
+
+  const generationKind = getGenerationKind((execution.config as any)?.mode);
+  const totalPoses = (execution.config as any)?.total_poses || 0;
+  const results = await listExecutionGenerations(generationKind, execution_id, execution.project_id);
+
+  const unfinished = results.filter(r => r.status === 'processing');
+  const completedCount = results.filter(r => r.status === 'completed').length;
+  const failedCount = Math.max(totalPoses, results.length) - completedCount;
+  const missingCount = Math.max(0, totalPoses - results.length);
+  const poseCost = getExecutionPoseCost(execution.config);
+
+  for (const result of unfinished) {
+    await updateGeneration(result, {
+      status: 'failed',
+      error: reason,
+      metadata: { completed_at: new Date().toISOString() },
+    });
+
+    await recordPipelineEvent({
+      execution_id,
+      project_id: execution.project_id,
+      user_id: execution.user_id,
+      event_type: 'pose.failed',
+      result_id: result.id,
+      pose_id: result.pose_id,
+      payload: { error: reason },
+    });
+  }
+
+  // Captures and refunds are keyed per result, so poses settled before the stall are not charged or refunded twice
+  for (const [index, result] of results.entries()) {
+    if (result.status === 'completed') {
+      if (isCachedResult(result)) {
+        await settleCachedPoseCredits(creditHold, execution_id, result.id, poseCost);
+      } else {
+        await capturePoseCredits(creditHold, execution_id, result.id, poseCost);
+      }
+    } else {
+      await refundPoseCredits(creditHold, execution_id, result.id, index, generationKind, poseCost, `Refund: interrupted generation (${reason})`);
+    }
+  }
+
+  if (missingCount > 0) {
+    console.log(`💰 Releasing ${missingCount * poseCost} credits for ${missingCount} pose(s) without a result record`);
+    await releaseExecutionCredits(execution_id, missingCount * poseCost, `Refund for ${missingCount} interrupted generation(s)`);
+  }
+
+  const cachedCount = results.filter(r => r.status === 'completed' && isCachedResult(r)).length;
+  const creditsConsumed = (completedCount - cachedCount) * poseCost + cachedCount * getCachedResultCost(poseCost);
+
+  const finalStatus = completedCount > 0 ? "completed" : "failed";
+  await updateExecutionStatus(execution_id, finalStatus, completedCount, failedCount, creditsConsumed);
+
+  await recordPipelineEvent({
+    execution_id,
+    project_id: execution.project_id,
+    user_id: execution.user_id,
+    event_type: finalStatus === 'failed' ? 'execution.failed' : 'execution.completed',
+    payload: { completed: completedCount, failed: failedCount, total: Math.max(totalPoses, results.length), error: reason },
+  });
+
+  console.log(`✅ Stalled execution ${execution_id} finalized as ${finalStatus} (${completedCount} completed, ${failedCount} failed)`);
+}
+
 /**
  * Update execution progress (called after each pose)
  */
@@ -966,12 +1485,14 @@ async function updateExecutionStatus(
   // Get project_id first
   const { data: execution } = await supabaseAdmin
     .from("pipeline_executions")
-    .select("project_id")
+    .select("project_id, config")
     .eq("id", execution_id)
     .single();
+  // A regeneration adds a version to a result the project already counts
+  const isRegeneration = !!(execution?.config as any)?.regeneration;
 
-  // Update pipeline execution
-  await supabaseAdmin
+  // Update pipeline execution (a cancelled execution keeps its status)
+  const { data: finished } = await supabaseAdmin
     .from("pipeline_executions")
     .update({
       status,
@@ -980,25 +1501,41 @@ async function updateExecutionStatus(
       completed_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
-    .eq("id", execution_id);
+    .eq("id", execution_id)
+    .eq("status", "processing")
+    .select("id");
+
+  if (!finished?.length) {
+    console.log(`⏭️  Execution ${execution_id} is no longer processing, keeping its status`);
+    return;
+  }
 
   if (execution?.project_id) {
-    // Update user_generations status
+    // Update this run's user_generations status (earlier runs in the project keep theirs)
     await supabaseAdmin
       .from("user_generations")
       .update({
         status: status === 'failed' ? 'failed' : 'completed',
         completed_at: new Date().toISOString(),
       })
-      .eq("project_id", execution.project_id);
+      .contains("generation_config", { pipeline_execution_id: execution_id });
+
+    // The project stays active while another of its runs (a regeneration) is still going
+    const { count: activeRuns } = await supabaseAdmin
+      .from("pipeline_executions")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", execution.project_id)
+      .eq("status", "processing");
 
     // Update project completion count
     await supabaseAdmin
       .from("user_generation_projects")
       .update({
-        result_count: completed,
-        status: 'archived', // archived = completed
-        completed_at: new Date().toISOString(),
+        ...(!isRegeneration && { result_count: completed }),
+        ...(!activeRuns && {
+          status: 'archived', // archived = completed
+          completed_at: new Date().toISOString(),
+        }),
         updated_at: new Date().toISOString(),
       })
       .eq("id", execution.project_id);
@@ -1006,94 +1543,187 @@ async function updateExecutionStatus(
 }
 
 /**
- * Consume credits at the start of execution (upfront payment)
+ * Per-pose price an execution was started with (older executions fall back to the catalog)
+ */
+function getExecutionPoseCost(config: any): number {
+  return config?.credits_per_pose || getFeatureCost("generation", { tier: config?.tier, mode: config?.mode });
+}
+
+/**
+ * Idempotency key of the credit hold that pays for an execution.
+ * Batch executions draw from the batch's hold.
+ */
+function getExecutionHoldKey(execution_id: string, batch_id?: string): string {
+  return batch_id ? `batch:${batch_id}` : `pipeline:${execution_id}`;
+}
+
+async function getExecutionCreditHold(execution_id: string, batch_id?: string): Promise<CreditHold | null> {
+  const hold = await getCreditHoldByKey(getExecutionHoldKey(execution_id, batch_id));
+  if (!hold) {
+    console.warn(`⚠️ No credit hold found for execution ${execution_id}`);
+  }
+  return hold;
+}
+
+/**
+ * Hold credits at the start of execution (upfront reservation)
  * Returns success/error result for validation
  */
-async function consumeCreditsForExecution(
+async function reserveCreditsForExecution(
   execution_id: string,
-  credits: number
+  user_id: string,
+  credits: number,
+  poseCount: number
 ): Promise<{ success: boolean; error?: string }> {
-  try {
-    console.log('💳 consumeCreditsForExecution called');
-    console.log(`   Execution ID: ${execution_id}`);
-    console.log(`   Credits: ${credits}`);
+  console.log('💳 reserveCreditsForExecution called');
+  console.log(`   Execution ID: ${execution_id}`);
+  console.log(`   Credits: ${credits}`);
+
+  const result = await reserveCredits({
+    user_id,
+    amount: credits,
+    idempotency_key: getExecutionHoldKey(execution_id),
+    description: `AI image generation - ${poseCount} pose(s)`,
+    feature_type: "ai_generation",
+    reference_id: execution_id,
+  });
 
-    // Get execution details
-    const { data: execution, error: fetchError } = await supabaseAdmin
-      .from("pipeline_executions")
-      .select("user_id")
-      .eq("id", execution_id)
-      .single();
+  if (!result.success) {
+    console.error(`❌ Credit hold failed:`, result.error);
+    return { success: false, error: result.error };
+  }
 
-    if (fetchError || !execution) {
-      console.error(`❌ Failed to fetch execution for credit consumption:`, fetchError);
-      return { success: false, error: "Failed to fetch execution details" };
-    }
+  console.log(`✅ Credits held: ${result.hold?.id}`);
+  console.log(`   Remaining Credits: ${result.remainingBalance}`);
+  return { success: true };
+}
 
-    console.log(`   User ID: ${execution.user_id}`);
-    console.log('   Calling RPC: consume_credits...');
+/**
+ * Capture one completed pose against the execution's hold.
+ * Keyed per result so resumed jobs never capture a pose twice.
+ */
+async function capturePoseCredits(
+  hold: CreditHold | null,
+  execution_id: string,
+  result_id: string,
+  credits: number
+): Promise<void> {
+  if (!hold) return;
 
-    // Call RPC function to consume credits atomically
-    const { data, error } = await supabaseAdmin.rpc("consume_credits", {
-      p_user_id: execution.user_id,
-      p_credits: credits,
-      p_generation_id: execution_id,
-      p_description: `AI image generation - ${credits / 1000} pose(s)`,
-    });
+  const result = await captureCredits(
+    hold.id,
+    credits,
+    `pipeline:${execution_id}:pose:${result_id}`,
+    `AI image generation - pose ${result_id}`
+  );
 
-    if (error || !data?.success) {
-      const errorMsg = error?.message || data?.error || "Failed to consume credits";
-      console.error(`❌ RPC consume_credits failed:`, errorMsg);
-      console.error('   Error details:', error || data);
-      return { success: false, error: errorMsg };
+  if (!result.success) {
+    console.error(`❌ Failed to capture credits for pose ${result_id}:`, result.error);
+  }
+}
+
+/**
+ * Charge a pose served from the result cache: capture the cached-result price
+ * and release the rest of the pose's hold. Not linked to the result row, so it
+ * isn't reported as a failed-pose refund.
+ */
+async function settleCachedPoseCredits(
+  hold: CreditHold | null,
+  execution_id: string,
+  result_id: string,
+  poseCost: number
+): Promise<void> {
+  if (!hold) return;
+
+  const cachedCost = getCachedResultCost(poseCost);
+  if (cachedCost > 0) {
+    await capturePoseCredits(hold, execution_id, result_id, cachedCost);
+  }
+
+  if (poseCost - cachedCost > 0) {
+    const result = await releaseCredits(
+      hold.id,
+      poseCost - cachedCost,
+      `pipeline:${execution_id}:pose:${result_id}:cached`,
+      `Cached result reused for pose ${result_id}`
+    );
+
+    if (!result.success) {
+      console.error(`❌ Failed to release credits for cached pose ${result_id}:`, result.error);
+    } else if (!result.duplicate) {
+      console.log(`💰 Released ${result.amount} credits - pose ${result_id} served from cache`);
     }
+  }
+}
 
-    console.log(`✅ Credits consumed successfully via RPC`);
-    console.log(`   Transaction ID: ${data.transaction_id}`);
-    console.log(`   Remaining Credits: ${data.remaining_credits}`);
-    return { success: true };
-  } catch (error: any) {
-    console.error(`❌ Exception in consumeCreditsForExecution:`, error);
-    return { success: false, error: error.message || "Unknown error" };
+/**
+ * Refund one failed pose against the execution's hold, as its own transaction
+ * linked to the pose's result row. Keyed per result (or pose index when the
+ * result record is missing) so a resumed job never refunds a pose twice.
+ * Returns the credits refunded.
+ */
+async function refundPoseCredits(
+  hold: CreditHold | null,
+  execution_id: string,
+  result_id: string | null,
+  pose_index: number,
+  kind: GenerationKind,
+  credits: number,
+  reason: string
+): Promise<number> {
+  if (!hold) return 0;
+
+  const result = await releaseCredits(
+    hold.id,
+    credits,
+    `pipeline:${execution_id}:pose:${result_id || `index-${pose_index}`}:refund`,
+    reason,
+    result_id
+      ? { type: getGenerationReferenceType(kind), id: result_id }
+      : undefined
+  );
+
+  if (!result.success) {
+    console.error(`❌ Failed to refund credits for pose ${result_id || pose_index}:`, result.error);
+    return 0;
   }
+
+  if (!result.duplicate && result.amount) {
+    console.log(`💰 Refunded ${result.amount} credits for failed pose ${result_id || pose_index}`);
+  }
+  return result.amount || 0;
 }
 
 /**
- * Refund credits for failed generations
- * Called when poses fail after upfront payment
+ * Release held credits for poses that did not complete
+ * Called when executions are interrupted, cancelled or cannot start
  */
-async function refundCreditsForExecution(
+async function releaseExecutionCredits(
   execution_id: string,
-  credits: number
+  credits: number,
+  reason: string
 ): Promise<void> {
+  if (credits <= 0) return;
+
   try {
-    // Get execution details
-    const { data: execution, error: fetchError } = await supabaseAdmin
+    const { data: execution } = await supabaseAdmin
       .from("pipeline_executions")
-      .select("user_id")
+      .select("metadata")
       .eq("id", execution_id)
       .single();
 
-    if (fetchError || !execution) {
-      console.error(`❌ Failed to fetch execution for credit refund:`, fetchError);
-      return;
-    }
+    const hold = await getExecutionCreditHold(execution_id, (execution?.metadata as any)?.batch_id);
+    if (!hold) return;
 
-    // Call RPC function to refund credits atomically
-    const { data, error } = await supabaseAdmin.rpc("refund_credits", {
-      p_user_id: execution.user_id,
-      p_credits: credits,
-      p_reason: `Refund for ${credits / 1000} failed generation(s)`,
-      p_reference_id: execution_id,
-    });
+    const result = await releaseCredits(hold.id, credits, `pipeline:${execution_id}:release`, reason);
 
-    if (error || !data?.success) {
-      console.error(`❌ Failed to refund credits:`, error || data?.error);
-    } else {
-      console.log(`� Refunded ${credits} credits for execution ${execution_id}`);
+    if (!result.success) {
+      console.error(`❌ Failed to release credits:`, result.error);
+    } else if (!result.duplicate) {
+      console.log(`💰 Released ${result.amount} credits for execution ${execution_id}`);
     }
   } catch (error) {
-    console.error(`❌ Error in refundCreditsForExecution:`, error);
+    console.error(`❌ Error in releaseExecutionCredits:`, error);
   }
 }
 
@@ -1116,56 +1746,21 @@ export async function getExecutionStatus(
       return null;
     }
 
-    // Determine mode
-    const config = execution.config as any;
-    const isStudioMode = !!config?.mode;
-
-    let results: any[] = [];
-
-    if (isStudioMode) {
-      // Fetch STUDIO results
-      const { data, error } = await supabaseAdmin
-        .from("studio_generations")
-        .select("*")
-        .eq("pipeline_execution_id", execution_id);
-
-      if (error) {
-        console.error(`❌ Error fetching studio results:`, error);
-        return null;
-      }
-      results = (data || []).map(r => ({
-        result_id: r.id,
-        pose_id: r.pose_identifier,
-        pose_name: r.pose_identifier,
-        status: r.status,
-        final_image_url: r.result_image_url,
-        // Assuming Metadata structure matches what we wrote: { step_results: ... }
-        step_results: (r.metadata as any)?.step_results || {},
-        error: r.error_message
-      }));
-    } else {
-      // Fetch VTO results
-      const { data, error } = await supabaseAdmin
-        .from("generation_results")
-        .select("*")
-        .eq("project_id", execution.project_id)
-        .contains("generation_config", { pipeline_execution_id: execution_id });
-
-      if (error) {
-        console.error(`❌ Error fetching results:`, error);
-        return null;
-      }
-
-      results = (data || []).map(r => ({
-        result_id: r.id,
-        pose_id: r.pose_id,
-        pose_name: r.pose_name,
-        status: r.generation_metadata?.status || 'processing',
-        final_image_url: r.result_image_url,
-        step_results: r.generation_metadata?.step_results || {},
-        error: r.generation_metadata?.error_message
-      }));
-    }
+    const generations = await listExecutionGenerations(
+      getGenerationKind((execution.config as any)?.mode),
+      execution_id,
+      execution.project_id
+    );
+
+    const results: GenerationResult[] = generations.map(generation => ({
+      result_id: generation.id,
+      pose_id: generation.pose_id,
+      pose_name: generation.pose_name,
+      status: generation.status,
+      final_image_url: generation.result_image_url,
+      step_results: generation.metadata.step_results || {},
+      error: generation.error || undefined,
+    }));
 
     // Count completed and failed
     const completed = results.filter(r => r.status === 'completed').length;
@@ -1209,6 +1804,9 @@ export async function cancelExecution(
       return { success: false, error: "Execution is not in processing state" };
     }
 
+    // Stop the queued job so no worker picks it up
+    await cancelJobForExecution(execution_id);
+
     // Update execution status to cancelled
     await supabaseAdmin
       .from("pipeline_executions")
@@ -1219,29 +1817,32 @@ export async function cancelExecution(
       .eq("id", execution_id);
 
     // Mark incomplete generations as cancelled
-    await supabaseAdmin
-      .from("generation_results")
-      .update({
-        generation_metadata: {
-          status: 'cancelled',
-          completed_at: new Date().toISOString(),
-        },
-        updated_at: new Date().toISOString(),
-      })
-      .eq("project_id", execution.project_id)
-      .contains("generation_config", { pipeline_execution_id: execution_id })
-      .eq("generation_metadata->status", "processing");
+    const generations = await listExecutionGenerations(
+      getGenerationKind((execution.config as any)?.mode),
+      execution_id,
+      execution.project_id
+    );
+    for (const generation of generations.filter(g => g.status === 'processing')) {
+      await updateGeneration(generation, {
+        status: 'cancelled',
+        metadata: { ...generation.metadata, completed_at: new Date().toISOString() },
+      });
+    }
 
-    // Refund credits if any were consumed
+    // Release credits for poses that were still running (completed poses stay captured, failed ones were already refunded)
     if (execution.credits_used > 0) {
-      await supabaseAdmin.rpc("refund_credits", {
-        p_user_id: execution.user_id,
-        p_credits: execution.credits_used,
-        p_reason: `Execution cancelled: ${execution_id}`,
-        p_reference_id: execution_id,
-      });
+      const settledCount = generations.filter(g => g.status === 'completed' || g.status === 'failed').length;
+      const uncaptured = Math.max(0, execution.credits_used - settledCount * getExecutionPoseCost(execution.config));
+      await releaseExecutionCredits(execution_id, uncaptured, `Execution cancelled: ${execution_id}`);
     }
 
+    await recordPipelineEvent({
+      execution_id,
+      project_id: execution.project_id,
+      user_id: execution.user_id,
+      event_type: 'execution.cancelled',
+    });
+
     console.log(`✅ Execution ${execution_id} cancelled`);
     return { success: true };
   } catch (error: any) {
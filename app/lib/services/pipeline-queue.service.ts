@@ -0,0 +1,477 @@
+/**
+ * Pipeline Queue Service
+ *
+ * Durable job queue for pipeline executions, backed by the `pipeline_jobs` table.
+ * One job per execution. Workers lease a job, heartbeat while processing and
+ * release it on completion; expired leases are picked up by the reaper.
+ *
+ * A leased job holds one of its shop's run slots (0 up to the tier's running
+ * limit). Slots are unique per shop, so the limit holds however many workers
+ * claim jobs at once.
+ *
+ * pipeline_jobs columns:
+ *   id, execution_id, user_id, subscription_tier,
+ *   status ('queued' | 'leased' | 'completed' | 'failed' | 'cancelled'),
+ *   attempts, max_attempts, locked_by, lease_expires_at, heartbeat_at,
+ *   available_at, last_error, run_slot (unique with user_id, null unless leased),
+ *   created_at, updated_at, completed_at
+ *
+ * pipeline_workers columns (live workers, for queue capacity):
+ *   worker_id primary key, concurrency, last_seen_at
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { PIPELINE_QUEUE, getTierConcurrencyLimit } from "../../config/generation.constants";
+
+const UNIQUE_VIOLATION = "23505";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type PipelineJobStatus = 'queued' | 'leased' | 'completed' | 'failed' | 'cancelled';
+
+export interface PipelineJob {
+  id: string;
+  execution_id: string;
+  user_id: string;
+  subscription_tier: string;
+  status: PipelineJobStatus;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  available_at: string;
+  last_error: string | null;
+  run_slot: number | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// =============================================
+// HELPERS
+// =============================================
+
+function leaseExpiry(): string {
+  return new Date(Date.now() + PIPELINE_QUEUE.leaseMs).toISOString();
+}
+
+// =============================================
+// ENQUEUE
+// =============================================
+
+/**
+ * Queue an execution for processing by a worker
+ */
+export async function enqueuePipelineJob(input: {
+  execution_id: string;
+  user_id: string;
+  subscription_tier: string;
+}): Promise<PipelineJob> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .insert({
+      execution_id: input.execution_id,
+      user_id: input.user_id,
+      subscription_tier: input.subscription_tier,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: PIPELINE_QUEUE.maxAttempts,
+      available_at: now,
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error(`❌ Failed to enqueue execution ${input.execution_id}:`, error);
+    throw new Error("Failed to queue pipeline execution");
+  }
+
+  console.log(`📬 Queued execution ${input.execution_id} (job ${data.id})`);
+  return data as PipelineJob;
+}
+
+// =============================================
+// LEASING
+// =============================================
+
+/**
+ * Run slots held by leased (running) jobs, per user
+ */
+async function getRunningJobSlots(userIds: string[]): Promise<Record<string, Set<number>>> {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .select("user_id, run_slot")
+    .eq("status", "leased")
+    .in("user_id", userIds);
+
+  if (error) {
+    console.error('❌ Failed to count running jobs:', error);
+    throw new Error("Failed to count running jobs");
+  }
+
+  return (data || []).reduce((slots: Record<string, Set<number>>, row: { user_id: string; run_slot: number | null }) => {
+    slots[row.user_id] = slots[row.user_id] || new Set();
+    if (row.run_slot !== null) slots[row.user_id].add(row.run_slot);
+    return slots;
+  }, {});
+}
+
+/**
+ * Lease the oldest available job for a worker.
+ * Jobs from shops already at their tier's running-execution limit are skipped
+ * and stay queued. The claim takes a free run slot: the status guard makes it
+ * atomic when several workers race for the same job, and the unique slot when
+ * they race for the shop's last slot; losers move on.
+ */
+export async function claimNextJob(workerId: string): Promise<PipelineJob | null> {
+  const now = new Date().toISOString();
+
+  const { data: candidates, error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .select("*")
+    .eq("status", "queued")
+    .lte("available_at", now)
+    .order("created_at", { ascending: true })
+    .limit(25);
+
+  if (error) {
+    console.error('❌ Failed to fetch queued jobs:', error);
+    return null;
+  }
+
+  const queued = (candidates || []) as PipelineJob[];
+  if (queued.length === 0) return null;
+
+  let runningSlots: Record<string, Set<number>>;
+  try {
+    runningSlots = await getRunningJobSlots([...new Set(queued.map(job => job.user_id))]);
+  } catch {
+    return null;
+  }
+
+  for (const candidate of queued) {
+    const { maxRunningExecutions } = getTierConcurrencyLimit(candidate.subscription_tier);
+    const taken = runningSlots[candidate.user_id] || new Set<number>();
+
+    for (let slot = 0; slot < maxRunningExecutions; slot++) {
+      if (taken.has(slot)) continue;
+
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from("pipeline_jobs")
+        .update({
+          status: 'leased',
+          locked_by: workerId,
+          run_slot: slot,
+          attempts: candidate.attempts + 1,
+          lease_expires_at: leaseExpiry(),
+          heartbeat_at: now,
+          updated_at: now,
+        })
+        .eq("id", candidate.id)
+        .eq("status", "queued")
+        .select()
+        .maybeSingle();
+
+      if (claimed) {
+        console.log(`🔒 Worker ${workerId} leased job ${claimed.id} (attempt ${claimed.attempts}/${claimed.max_attempts}, slot ${slot})`);
+        return claimed as PipelineJob;
+      }
+
+      // Another worker took this slot first; try the shop's next one
+      if (claimError?.code === UNIQUE_VIOLATION) {
+        taken.add(slot);
+        continue;
+      }
+
+      break; // Job leased by another worker (or the claim failed)
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extend a job's lease. Returns false if the worker no longer holds it
+ * (e.g. the reaper re-queued it after a missed heartbeat).
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .update({
+      lease_expires_at: leaseExpiry(),
+      heartbeat_at: now,
+      updated_at: now,
+    })
+    .eq("id", jobId)
+    .eq("status", "leased")
+    .eq("locked_by", workerId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error(`❌ Heartbeat failed for job ${jobId}:`, error);
+    return false;
+  }
+
+  return !!data;
+}
+
+/**
+ * Release a leased job with a terminal status
+ */
+export async function finishJob(
+  jobId: string,
+  workerId: string,
+  status: 'completed' | 'failed',
+  lastError?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .update({
+      status,
+      last_error: lastError || null,
+      locked_by: null,
+      run_slot: null,
+      lease_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId);
+
+  if (error) {
+    console.error(`❌ Failed to mark job ${jobId} as ${status}:`, error);
+  }
+}
+
+// =============================================
+// REAPER SUPPORT
+// =============================================
+
+/**
+ * Find leased jobs whose worker stopped heartbeating
+ */
+export async function getExpiredJobs(): Promise<PipelineJob[]> {
+  const { data, error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .select("*")
+    .eq("status", "leased")
+    .lt("lease_expires_at", new Date().toISOString())
+    .order("lease_expires_at", { ascending: true })
+    .limit(50);
+
+  if (error) {
+    console.error('❌ Failed to fetch expired jobs:', error);
+    return [];
+  }
+
+  return (data || []) as PipelineJob[];
+}
+
+/**
+ * Put an expired job back on the queue so another worker resumes it.
+ * Guarded on the stale lease so a late heartbeat from the old worker wins.
+ */
+export async function requeueExpiredJob(job: PipelineJob, reason: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const { data } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .update({
+      status: 'queued',
+      locked_by: null,
+      run_slot: null,
+      lease_expires_at: null,
+      last_error: reason,
+      available_at: now,
+      updated_at: now,
+    })
+    .eq("id", job.id)
+    .eq("status", "leased")
+    .eq("lease_expires_at", job.lease_expires_at)
+    .select("id")
+    .maybeSingle();
+
+  return !!data;
+}
+
+/**
+ * Mark an expired job as permanently failed
+ */
+export async function failExpiredJob(job: PipelineJob, reason: string): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const { data } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .update({
+      status: 'failed',
+      locked_by: null,
+      run_slot: null,
+      lease_expires_at: null,
+      last_error: reason,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq("id", job.id)
+    .eq("status", "leased")
+    .eq("lease_expires_at", job.lease_expires_at)
+    .select("id")
+    .maybeSingle();
+
+  return !!data;
+}
+
+/**
+ * Cancel any pending or running job for an execution
+ */
+export async function cancelJobForExecution(executionId: string): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("pipeline_jobs")
+    .update({
+      status: 'cancelled',
+      locked_by: null,
+      run_slot: null,
+      lease_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq("execution_id", executionId)
+    .in("status", ["queued", "leased"]);
+
+  if (error) {
+    console.error(`❌ Failed to cancel job for execution ${executionId}:`, error);
+  }
+}
+
+// =============================================
+// WORKERS
+// =============================================
+
+/**
+ * Record that a worker is alive and how many jobs it runs at once
+ */
+export async function registerWorker(workerId: string, concurrency: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("pipeline_workers")
+    .upsert({ worker_id: workerId, concurrency, last_seen_at: new Date().toISOString() }, { onConflict: "worker_id" });
+
+  if (error) {
+    console.error(`❌ Failed to register worker ${workerId}:`, error);
+  }
+}
+
+export async function unregisterWorker(workerId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("pipeline_workers")
+    .delete()
+    .eq("worker_id", workerId);
+
+  if (error) {
+    console.error(`❌ Failed to unregister worker ${workerId}:`, error);
+  }
+}
+
+/**
+ * Jobs the whole fleet runs at once: the concurrency of every live worker.
+ * Falls back to one worker's concurrency while none has checked in.
+ */
+async function getWorkerCapacity(): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("pipeline_workers")
+    .select("concurrency")
+    .gte("last_seen_at", new Date(Date.now() - PIPELINE_QUEUE.workerTtlMs).toISOString());
+
+  if (error) {
+    console.error('❌ Failed to fetch live workers:', error);
+    throw new Error("Failed to fetch queue status");
+  }
+
+  const capacity = (data || []).reduce((sum: number, worker: { concurrency: number }) => sum + (worker.concurrency || 0), 0);
+  return capacity || PIPELINE_QUEUE.workerConcurrency;
+}
+
+// =============================================
+// QUEUE STATUS
+// =============================================
+
+export interface QueueSnapshot {
+  userRunning: number;
+  userQueued: number;
+  globalRunning: number;
+  globalQueued: number;
+  jobsAheadOfUser: number; // Queued jobs (any shop) created before the user's oldest queued job
+  oldestUserQueuedAt: string | null;
+  workerCapacity: number; // Jobs all live workers run at once
+}
+
+/**
+ * Count running and queued jobs for a user and the queue ahead of them
+ */
+export async function getQueueSnapshot(userId: string): Promise<QueueSnapshot> {
+  const [userJobs, globalRunning, globalQueued, workerCapacity] = await Promise.all([
+    supabaseAdmin
+      .from("pipeline_jobs")
+      .select("status, created_at")
+      .eq("user_id", userId)
+      .in("status", ["queued", "leased"])
+      .order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("pipeline_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "leased"),
+    supabaseAdmin
+      .from("pipeline_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "queued"),
+    getWorkerCapacity(),
+  ]);
+
+  if (userJobs.error || globalRunning.error || globalQueued.error) {
+    console.error('❌ Failed to fetch queue snapshot:', userJobs.error || globalRunning.error || globalQueued.error);
+    throw new Error("Failed to fetch queue status");
+  }
+
+  const jobs = userJobs.data || [];
+  const userQueuedJobs = jobs.filter(job => job.status === 'queued');
+  const oldestUserQueuedAt = userQueuedJobs[0]?.created_at || null;
+
+  let jobsAheadOfUser = 0;
+  if (oldestUserQueuedAt) {
+    const { count, error } = await supabaseAdmin
+      .from("pipeline_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "queued")
+      .lt("created_at", oldestUserQueuedAt);
+
+    if (error) {
+      console.error('❌ Failed to count jobs ahead in queue:', error);
+      throw new Error("Failed to fetch queue status");
+    }
+    jobsAheadOfUser = count || 0;
+  }
+
+  return {
+    userRunning: jobs.length - userQueuedJobs.length,
+    userQueued: userQueuedJobs.length,
+    globalRunning: globalRunning.count || 0,
+    globalQueued: globalQueued.count || 0,
+    jobsAheadOfUser,
+    oldestUserQueuedAt,
+    workerCapacity,
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Pipeline Quote Service
+ *
+ * Authoritative pre-flight quote for a pipeline run. Takes the same payload as
+ * /api/pipeline/execute and returns the credit breakdown (per pose and per
+ * pipeline step for the shop's tier), the balance left after the run, and
+ * every reason the run would be refused.
+ *
+ * Each quote carries a hash of the run and its price. The execute route
+ * recomputes the quote and refuses the run when the hashes differ, so a shop
+ * is never charged a different amount than it was shown.
+ */
+
+import { createHmac } from "crypto";
+import { supabaseAdmin } from "../storage/supabase.server";
+import { getEnabledSteps, type PipelineStep } from "./ai-providers.service";
+import { isModelLocked, type SubscriptionTier } from "./model-access.service";
+import { PipelineDatabaseService } from "./pipeline-database.service";
+import { quoteFeature, toPricingMode, type PriceQuote, type PricingMode } from "../pricing";
+import { validateOutfitLayers, type OutfitLayer } from "../outfit";
+import { canCustomizeWatermark, type WatermarkSettings } from "./watermark.service";
+import { getWatermarkProfile } from "./watermark-profile.service";
+import type { ExecutionInput, PoseInput } from "./pipeline-execution.service";
+
+// =============================================
+// TYPES
+// =============================================
+
+export const MAX_POSES_PER_EXECUTION = 10;
+
+export interface PipelineQuoteInput {
+  user_id: string;
+  subscription_tier: ExecutionInput['subscription_tier'];
+  base_model_id?: string;
+  clothing_image_url?: string;
+  outfit?: OutfitLayer[];
+  poses?: PoseInput[];
+  mode?: ExecutionInput['mode'];
+  watermark_profile_id?: string;
+  watermark?: WatermarkSettings; // A run's stored watermark snapshot (regenerations); used instead of a profile
+}
+
+export type QuoteBlockerCode =
+  | 'missing_model'
+  | 'model_not_found'
+  | 'model_inactive'
+  | 'model_locked'
+  | 'missing_clothing'
+  | 'invalid_outfit'
+  | 'no_poses'
+  | 'pose_limit'
+  | 'invalid_pose'
+  | 'pose_not_in_model'
+  | 'watermark_locked'
+  | 'watermark_not_found'
+  | 'insufficient_credits'
+  | 'daily_limit';
+
+export interface QuoteBlocker {
+  code: QuoteBlockerCode;
+  message: string;
+  status: number; // HTTP status the execute route answers with
+}
+
+export interface QuoteStepLine {
+  step: PipelineStep;
+  credits: number;
+  included: boolean; // Covered by the per-pose price
+}
+
+export interface QuotePoseLine {
+  pose_id: string;
+  pose_name?: string;
+  credits: number;
+  steps: QuoteStepLine[];
+}
+
+export interface PipelineQuote {
+  quote_hash: string;
+  tier: string;
+  mode: PricingMode;
+  poses: QuotePoseLine[];
+  credits_per_pose: number;
+  list_credits: number; // Before discounts
+  discount: PriceQuote['discount'];
+  total_credits: number;
+  available_credits: number;
+  remaining_credits_after_run: number;
+  daily_usage: number;
+  daily_limit: number;
+  will_queue: boolean;
+  estimated_start_at: string;
+  blocking_reasons: QuoteBlocker[];
+  can_run: boolean;
+  effective_from: string;
+  quoted_at: string;
+}
+
+// =============================================
+// HELPERS
+// =============================================
+
+/**
+ * Steps each pose goes through for a tier; studio modes replace try-on with their own step
+ * and a shop watermark adds the overlay step
+ */
+function getQuotedSteps(tier: string, mode?: string, watermark?: boolean): PipelineStep[] {
+  let steps = getEnabledSteps(tier);
+  if (mode === 'social_media' || mode === 'product_shots') {
+    const studioStep: PipelineStep = mode === 'social_media' ? 'post-ready' : 'shop-ready';
+    steps = steps.map(step => (step === 'tryon' ? studioStep : step));
+  }
+  if (watermark && !steps.includes('watermark')) {
+    steps = [...steps, 'watermark'];
+  }
+  return steps;
+}
+
+/**
+ * Hash of everything that determines what a run does and costs.
+ * Signed with the app secret so clients can't mint their own quotes.
+ */
+function computeQuoteHash(input: PipelineQuoteInput, price: PriceQuote): string {
+  const canonical = JSON.stringify({
+    user_id: input.user_id,
+    tier: price.tier,
+    mode: price.mode,
+    base_model_id: input.base_model_id || null,
+    clothing_image_url: input.clothing_image_url || null,
+    outfit: Array.isArray(input.outfit) ? input.outfit.map(layer => [layer?.slot, layer?.image_url]) : null,
+    poses: (input.poses || []).map(pose => [pose.pose_id, pose.image_url]),
+    watermark_profile_id: input.watermark_profile_id || null,
+    watermark: (hasWatermark(input) && input.watermark) || null,
+    credits_per_pose: price.unit_credits,
+    total_credits: price.total_credits,
+    effective_from: price.effective_from,
+  });
+
+  // A constant fallback key would let anyone sign quotes
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    throw new Error("Missing SHOPIFY_API_SECRET environment variable");
+  }
+
+  return createHmac("sha256", secret)
+    .update(canonical)
+    .digest("hex");
+}
+
+async function getModelBlockers(input: PipelineQuoteInput, poses: PoseInput[]): Promise<QuoteBlocker[]> {
+  if (!input.base_model_id) {
+    return [{ code: 'missing_model', message: 'base_model_id is required', status: 400 }];
+  }
+
+  const { data: baseModel, error } = await supabaseAdmin
+    .from("base_models")
+    .select("id, name, is_active, owner_user_id")
+    .eq("id", input.base_model_id)
+    .single();
+
+  // Another shop's brand model is treated as if it did not exist
+  if (error || !baseModel || (baseModel.owner_user_id && baseModel.owner_user_id !== input.user_id)) {
+    return [{ code: 'model_not_found', message: 'Base model not found', status: 404 }];
+  }
+
+  const blockers: QuoteBlocker[] = [];
+
+  if (!baseModel.is_active) {
+    blockers.push({ code: 'model_inactive', message: 'Base model is not active', status: 400 });
+  }
+
+  const isBrandModel = !!baseModel.owner_user_id;
+  if (isModelLocked(baseModel.name, input.subscription_tier as SubscriptionTier, isBrandModel)) {
+    blockers.push({
+      code: 'model_locked',
+      message: isBrandModel
+        ? `Brand models like ${baseModel.name} need a Professional or Enterprise plan`
+        : `${baseModel.name} is only available on paid plans`,
+      status: 403,
+    });
+  }
+
+  // Poses must belong to the base model (ONLY for Virtual Try-On)
+  if (!input.mode && poses.length > 0) {
+    const poseIds = poses.map(pose => pose.pose_id);
+    const { data: validPoses, error: posesError } = await supabaseAdmin
+      .from("model_poses")
+      .select("id")
+      .eq("base_model_id", input.base_model_id)
+      .in("id", poseIds);
+
+    if (posesError) {
+      throw new Error("Error validating poses");
+    }
+
+    if (!validPoses || validPoses.length !== poses.length) {
+      blockers.push({
+        code: 'pose_not_in_model',
+        message: 'One or more poses do not belong to the selected model',
+        status: 400,
+      });
+    }
+  }
+
+  return blockers;
+}
+
+/**
+ * Whether the run gets the watermark step. A stored snapshot is applied as is
+ * on paid tiers, like the execution does, whatever happened to its profile.
+ */
+function hasWatermark(input: PipelineQuoteInput): boolean {
+  return input.watermark ? canCustomizeWatermark(input.subscription_tier) : !!input.watermark_profile_id;
+}
+
+async function getWatermarkBlockers(input: PipelineQuoteInput): Promise<QuoteBlocker[]> {
+  if (input.watermark || !input.watermark_profile_id) return [];
+
+  if (!canCustomizeWatermark(input.subscription_tier)) {
+    return [{ code: 'watermark_locked', message: 'Custom watermarks are only available on paid plans', status: 403 }];
+  }
+
+  const profile = await getWatermarkProfile(input.user_id, input.watermark_profile_id);
+  if (!profile) {
+    return [{ code: 'watermark_not_found', message: 'Watermark profile not found', status: 404 }];
+  }
+
+  return [];
+}
+
+// =============================================
+// QUOTE
+// =============================================
+
+/**
+ * Build the authoritative quote for a run
+ */
+export async function buildPipelineQuote(input: PipelineQuoteInput): Promise<PipelineQuote> {
+  const blockers: QuoteBlocker[] = [];
+  const poses = Array.isArray(input.poses) ? input.poses : [];
+
+  // Virtual Try-On requires a clothing image or an outfit
+  const outfitError = input.outfit !== undefined ? validateOutfitLayers(input.outfit) : null;
+  if (outfitError) {
+    blockers.push({ code: 'invalid_outfit', message: outfitError, status: 400 });
+  } else if (!input.mode && !input.clothing_image_url && !input.outfit) {
+    blockers.push({ code: 'missing_clothing', message: 'clothing_image_url or outfit is required for Virtual Try-On', status: 400 });
+  }
+
+  if (poses.length === 0) {
+    blockers.push({ code: 'no_poses', message: 'At least one pose is required', status: 400 });
+  } else if (poses.length > MAX_POSES_PER_EXECUTION) {
+    blockers.push({
+      code: 'pose_limit',
+      message: `Maximum ${MAX_POSES_PER_EXECUTION} poses allowed per execution`,
+      status: 400,
+    });
+  }
+
+  const invalidPose = poses.find(pose => !pose?.pose_id || !pose?.image_url);
+  if (invalidPose) {
+    blockers.push({
+      code: 'invalid_pose',
+      message: invalidPose?.pose_id ? 'Each pose must have an image_url' : 'Each pose must have a pose_id',
+      status: 400,
+    });
+  }
+
+  const validPoses = invalidPose ? [] : poses;
+  blockers.push(...await getModelBlockers(input, validPoses));
+  blockers.push(...await getWatermarkBlockers(input));
+
+  // Price
+  const price = quoteFeature("generation", poses.length, { tier: input.subscription_tier, mode: input.mode });
+  const steps = getQuotedSteps(input.subscription_tier, input.mode, hasWatermark(input));
+  const poseLines: QuotePoseLine[] = poses.map(pose => ({
+    pose_id: pose?.pose_id,
+    pose_name: pose?.pose_name,
+    credits: price.unit_credits,
+    steps: steps.map((step, index) => ({
+      step,
+      credits: index === 0 ? price.unit_credits : 0,
+      included: index !== 0,
+    })),
+  }));
+
+  // Balance
+  const { data: userCredits, error: creditsError } = await supabaseAdmin
+    .from("user_credits")
+    .select("available_credits")
+    .eq("user_id", input.user_id)
+    .single();
+
+  if (creditsError || !userCredits) {
+    throw new Error("Unable to fetch user credits");
+  }
+
+  const availableCredits = userCredits.available_credits || 0;
+  if (availableCredits < price.total_credits) {
+    blockers.push({
+      code: 'insufficient_credits',
+      message: 'Insufficient credits',
+      status: 402,
+    });
+  }
+
+  // Daily limit per tier (running/queued limits are enforced by the queue worker)
+  const queueStatus = await PipelineDatabaseService.getQueueStatus(input.user_id, input.subscription_tier);
+  if (!queueStatus.canStartNew) {
+    blockers.push({
+      code: 'daily_limit',
+      message: `Daily generation limit reached (${queueStatus.dailyLimit} per day)`,
+      status: 429,
+    });
+  }
+
+  return {
+    quote_hash: computeQuoteHash(input, price),
+    tier: input.subscription_tier,
+    mode: toPricingMode(input.mode),
+    poses: poseLines,
+    credits_per_pose: price.unit_credits,
+    list_credits: price.list_unit_credits * price.quantity,
+    discount: price.discount,
+    total_credits: price.total_credits,
+    available_credits: availableCredits,
+    remaining_credits_after_run: availableCredits - price.total_credits,
+    daily_usage: queueStatus.dailyUsage,
+    daily_limit: queueStatus.dailyLimit,
+    will_queue: queueStatus.willQueue,
+    estimated_start_at: queueStatus.estimatedStartAt,
+    blocking_reasons: blockers,
+    can_run: blockers.length === 0,
+    effective_from: price.effective_from,
+    quoted_at: price.quoted_at,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Pipeline Worker Service
+ *
+ * Polls the pipeline job queue, leases jobs and runs them through
+ * runQueuedExecution while heartbeating the lease. A reaper loop re-queues
+ * jobs whose worker died (resuming the remaining poses) and, once a job has
+ * used all its attempts, fails the execution and refunds unfinished poses.
+ *
+ * A third loop starts pending catalog batch products as regular executions,
+ * a fourth retries privacy webhook requests that didn't finish, and a fifth
+ * sweeps expired and orphaned storage objects.
+ *
+ * Started once per server process from entry.server. Set
+ * PIPELINE_WORKER_ENABLED=false to run a web-only process. Any number of
+ * worker processes can run: each checks in to pipeline_workers (queue ETAs
+ * count the whole fleet), and shop limits are enforced in the database.
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { PIPELINE_QUEUE, CATALOG_BATCH, STORAGE_RETENTION } from "../../config/generation.constants";
+import {
+  claimNextJob,
+  heartbeatJob,
+  finishJob,
+  getExpiredJobs,
+  requeueExpiredJob,
+  failExpiredJob,
+  registerWorker,
+  unregisterWorker,
+  type PipelineJob,
+} from "./pipeline-queue.service";
+import { runQueuedExecution, failStalledExecution } from "./pipeline-execution.service";
+import { dispatchBatchItems } from "./batch-generation.service";
+import { processPendingPrivacyRequests } from "./privacy.service";
+import { runStorageSweep } from "./storage-lifecycle.service";
+
+const PRIVACY_RETRY_INTERVAL_MS = 60_000;
+
+// =============================================
+// WORKER STATE
+// =============================================
+
+interface PipelineWorkerState {
+  workerId: string;
+  activeJobs: Set<string>;
+  pollTimer: ReturnType<typeof setInterval>;
+  reaperTimer: ReturnType<typeof setInterval>;
+  batchTimer: ReturnType<typeof setInterval>;
+  privacyTimer: ReturnType<typeof setInterval>;
+  storageTimer: ReturnType<typeof setInterval>;
+  polling: boolean;
+  dispatchingBatches: boolean;
+  processingPrivacy: boolean;
+  sweepingStorage: boolean;
+}
+
+// Survives dev-server module reloads so we never run two loops in one process
+declare global {
+  var pipelineWorkerGlobal: PipelineWorkerState | undefined;
+}
+
+// =============================================
+// JOB PROCESSING
+// =============================================
+
+/**
+ * Run a leased job, keeping its lease alive until processing finishes
+ */
+async function processJob(state: PipelineWorkerState, job: PipelineJob): Promise<void> {
+  state.activeJobs.add(job.id);
+
+  // A lost lease (re-queued by the reaper, or the job was cancelled) stops the run
+  // before its next pose, so two workers never generate the same poses
+  let leaseLost = false;
+  const heartbeat = setInterval(async () => {
+    const stillOwned = await heartbeatJob(job.id, state.workerId);
+    if (!stillOwned && !leaseLost) {
+      leaseLost = true;
+      console.warn(`⚠️ Worker ${state.workerId} lost lease on job ${job.id} (execution ${job.execution_id}), stopping`);
+    }
+  }, PIPELINE_QUEUE.heartbeatMs);
+
+  try {
+    console.log(`⚙️  Processing job ${job.id} for execution ${job.execution_id}`);
+    await runQueuedExecution(job.execution_id, () => leaseLost);
+    if (leaseLost) {
+      // Whoever holds the job now finishes it; an unanswered heartbeat leaves it to the reaper
+      return;
+    }
+    await finishJob(job.id, state.workerId, 'completed');
+  } catch (error: any) {
+    // Per-pose failures are handled inside the execution; reaching here means
+    // the whole run crashed, so fail the execution and refund what is left
+    console.error(`❌ Job ${job.id} crashed:`, error);
+    if (leaseLost) return;
+    await failStalledExecution(job.execution_id, error.message || "Pipeline processing crashed");
+    await finishJob(job.id, state.workerId, 'failed', error.message);
+  } finally {
+    clearInterval(heartbeat);
+    state.activeJobs.delete(job.id);
+  }
+}
+
+/**
+ * Lease jobs until this worker is at its concurrency limit or the queue is empty
+ */
+async function pollQueue(state: PipelineWorkerState): Promise<void> {
+  if (state.polling) return;
+  state.polling = true;
+
+  try {
+    while (state.activeJobs.size < PIPELINE_QUEUE.workerConcurrency) {
+      const job = await claimNextJob(state.workerId);
+      if (!job) break;
+
+      processJob(state, job).catch((error) => {
+        console.error(`❌ Unhandled error processing job ${job.id}:`, error);
+      });
+    }
+  } catch (error) {
+    console.error('❌ Pipeline queue poll failed:', error);
+  } finally {
+    state.polling = false;
+  }
+}
+
+// =============================================
+// REAPER
+// =============================================
+
+/**
+ * Recover jobs whose worker stopped heartbeating.
+ * Jobs with attempts left are re-queued and resume their unfinished poses;
+ * exhausted jobs fail the execution and refund unfinished poses.
+ */
+export async function reapExpiredJobs(): Promise<void> {
+  const expiredJobs = await getExpiredJobs();
+  if (expiredJobs.length === 0) return;
+
+  console.log(`🧹 Reaper found ${expiredJobs.length} expired job(s)`);
+
+  for (const job of expiredJobs) {
+    const reason = `Worker ${job.locked_by || 'unknown'} stopped responding`;
+
+    try {
+      if (job.attempts < job.max_attempts) {
+        if (await requeueExpiredJob(job, reason)) {
+          console.log(`🔁 Re-queued job ${job.id} (attempt ${job.attempts}/${job.max_attempts} expired)`);
+        }
+      } else if (await failExpiredJob(job, reason)) {
+        console.log(`💀 Job ${job.id} exhausted ${job.max_attempts} attempts, failing execution`);
+        await failStalledExecution(job.execution_id, `Generation interrupted: ${reason}`);
+      }
+    } catch (error) {
+      console.error(`❌ Reaper failed for job ${job.id}:`, error);
+    }
+  }
+}
+
+// =============================================
+// CATALOG BATCHES
+// =============================================
+
+/**
+ * Start pending batch products, skipping the tick if the previous one is still running
+ */
+async function dispatchBatches(state: PipelineWorkerState): Promise<void> {
+  if (state.dispatchingBatches) return;
+  state.dispatchingBatches = true;
+
+  try {
+    await dispatchBatchItems();
+  } catch (error) {
+    console.error('❌ Batch dispatch failed:', error);
+  } finally {
+    state.dispatchingBatches = false;
+  }
+}
+
+// =============================================
+// PRIVACY REQUESTS
+// =============================================
+
+/**
+ * Retry unfinished privacy webhook requests, one tick at a time
+ */
+async function retryPrivacyRequests(state: PipelineWorkerState): Promise<void> {
+  if (state.processingPrivacy) return;
+  state.processingPrivacy = true;
+
+  try {
+    await processPendingPrivacyRequests();
+  } catch (error) {
+    console.error('❌ Privacy request retry failed:', error);
+  } finally {
+    state.processingPrivacy = false;
+  }
+}
+
+// =============================================
+// STORAGE SWEEP
+// =============================================
+
+/**
+ * Delete expired intermediates and orphaned objects, one batch per tick
+ */
+async function sweepStorage(state: PipelineWorkerState): Promise<void> {
+  if (state.sweepingStorage) return;
+  state.sweepingStorage = true;
+
+  try {
+    await runStorageSweep();
+  } catch (error) {
+    console.error('❌ Storage sweep failed:', error);
+  } finally {
+    state.sweepingStorage = false;
+  }
+}
+
+// =============================================
+// LIFECYCLE
+// =============================================
+
+/**
+ * Start the queue worker and reaper for this process (idempotent)
+ */
+export function startPipelineWorker(): void {
+  if (process.env.PIPELINE_WORKER_ENABLED === "false") return;
+  if (global.pipelineWorkerGlobal) return;
+
+  const state: PipelineWorkerState = {
+    workerId: `${hostname()}:${process.pid}:${randomUUID().substring(0, 8)}`,
+    activeJobs: new Set(),
+    polling: false,
+    dispatchingBatches: false,
+    processingPrivacy: false,
+    sweepingStorage: false,
+    pollTimer: setInterval(() => pollQueue(state), PIPELINE_QUEUE.pollIntervalMs),
+    reaperTimer: setInterval(() => {
+      registerWorker(state.workerId, PIPELINE_QUEUE.workerConcurrency);
+      reapExpiredJobs().catch((error) => console.error('❌ Reaper run failed:', error));
+    }, PIPELINE_QUEUE.reaperIntervalMs),
+    batchTimer: setInterval(() => dispatchBatches(state), CATALOG_BATCH.dispatchIntervalMs),
+    privacyTimer: setInterval(() => retryPrivacyRequests(state), PRIVACY_RETRY_INTERVAL_MS),
+    storageTimer: setInterval(() => sweepStorage(state), STORAGE_RETENTION.sweepIntervalMs),
+  };
+
+  // Don't keep the process alive just for the worker loops
+  state.pollTimer.unref?.();
+  state.reaperTimer.unref?.();
+  state.batchTimer.unref?.();
+  state.privacyTimer.unref?.();
+  state.storageTimer.unref?.();
+
+  global.pipelineWorkerGlobal = state;
+  registerWorker(state.workerId, PIPELINE_QUEUE.workerConcurrency);
+  console.log(`👷 Pipeline worker started: ${state.workerId} (concurrency ${PIPELINE_QUEUE.workerConcurrency})`);
+}
+
+/**
+ * Stop polling for new jobs. In-flight jobs keep running; if the process
+ * exits before they finish, their leases expire and the reaper resumes them.
+ */
+export function stopPipelineWorker(): void {
+  const state = global.pipelineWorkerGlobal;
+  if (!state) return;
+
+  clearInterval(state.pollTimer);
+  clearInterval(state.reaperTimer);
+  clearInterval(state.batchTimer);
+  clearInterval(state.privacyTimer);
+  clearInterval(state.storageTimer);
+  unregisterWorker(state.workerId);
+  global.pipelineWorkerGlobal = undefined;
+  console.log(`🛑 Pipeline worker stopped: ${state.workerId}`);
+}
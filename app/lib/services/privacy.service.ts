@@ -0,0 +1,648 @@
+/**
+ * Privacy Service
+ *
+ * Handles Shopify's mandatory privacy webhooks end to end:
+ * - customers/data_request: builds a zip of everything tied to the shop's
+ *   trayve_user_id (projects, generations, executions, credit history,
+ *   uploaded garments) and stores it in the private privacy-exports bucket
+ * - customers/redact: the app keeps no end-customer records, so the request
+ *   is logged as having nothing to erase
+ * - shop/redact: deletes every row owned by the shop and its storage objects
+ *   across STORAGE_BUCKETS
+ *
+ * Webhooks only record the request; processing runs right after and is
+ * retried by the pipeline worker if the process dies. Every step is written
+ * to privacy_audit_log.
+ *
+ * Tables:
+ * - privacy_requests (id, topic, shop_domain, trayve_user_id, webhook_id unique,
+ *   payload jsonb, status, attempts, export_path, summary jsonb, error,
+ *   created_at, started_at, completed_at)
+ * - privacy_audit_log (id, request_id, action, target, count, detail jsonb, created_at)
+ */
+
+import JSZip from "jszip";
+import db from "../../config/db.server";
+import { supabaseAdmin, uploadToStorage, downloadFromStorage } from "../storage/supabase.server";
+import {
+  STORAGE_BUCKETS,
+  deleteStorageObjects,
+  listStorageObjects,
+  parseStorageUrl,
+} from "./storage.service";
+import { trackStoredObject } from "./storage-lifecycle.service";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type PrivacyTopic = "customers/data_request" | "customers/redact" | "shop/redact";
+
+export type PrivacyRequestStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface PrivacyRequest {
+  id: string;
+  topic: PrivacyTopic;
+  shop_domain: string;
+  trayve_user_id: string | null;
+  webhook_id: string | null;
+  payload: Record<string, any>;
+  status: PrivacyRequestStatus;
+  attempts: number;
+  export_path: string | null;
+  summary: Record<string, any> | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface ShopDataTable {
+  table: string;
+  column: string;
+  owner: "user" | "shop" | "executions" | "batches" | "models";
+  secretColumns?: string[]; // Never exported
+}
+
+interface DataOwner {
+  userId: string;
+  shop: string;
+  executionIds: string[];
+  batchIds: string[];
+  modelIds: string[]; // The shop's brand models
+}
+
+// =============================================
+// CONFIGURATION
+// =============================================
+
+const MAX_ATTEMPTS = 5;
+const STALE_PROCESSING_MS = 15 * 60 * 1000; // A processing request older than this is retried
+const EXPORT_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+const IN_FILTER_CHUNK = 200;
+
+/**
+ * Every table holding shop data, in deletion order (children before parents)
+ */
+const SHOP_DATA_TABLES: ShopDataTable[] = [
+  { table: "storage_objects", column: "user_id", owner: "user" },
+  { table: "pipeline_events", column: "user_id", owner: "user" },
+  { table: "pipeline_jobs", column: "user_id", owner: "user" },
+  { table: "pipeline_result_cache", column: "source_execution_id", owner: "executions" },
+  { table: "prepared_garments", column: "user_id", owner: "user" },
+  { table: "garment_category_defaults", column: "user_id", owner: "user" },
+  { table: "outfits", column: "user_id", owner: "user" },
+  { table: "watermark_profiles", column: "user_id", owner: "user" },
+  { table: "generation_batch_items", column: "batch_id", owner: "batches" },
+  { table: "generation_batches", column: "user_id", owner: "user" },
+  { table: "generation_signals", column: "user_id", owner: "user" },
+  { table: "generation_feedback", column: "user_id", owner: "user" },
+  { table: "result_primary_images", column: "user_id", owner: "user" },
+  { table: "generation_results", column: "user_id", owner: "user" },
+  { table: "studio_generations", column: "user_id", owner: "user" },
+  { table: "user_generations", column: "user_id", owner: "user" },
+  { table: "pipeline_executions", column: "user_id", owner: "user" },
+  { table: "user_generation_projects", column: "user_id", owner: "user" },
+  { table: "model_consent_attestations", column: "user_id", owner: "user" },
+  { table: "model_poses", column: "base_model_id", owner: "models" },
+  { table: "base_models", column: "owner_user_id", owner: "user" },
+  { table: "credit_transactions", column: "user_id", owner: "user" },
+  { table: "credit_holds", column: "user_id", owner: "user" },
+  { table: "user_credits", column: "user_id", owner: "user" },
+  { table: "shopify_app_usage", column: "user_id", owner: "user" },
+  { table: "shopify_user_subscriptions", column: "trayve_user_id", owner: "user" },
+  { table: "shopify_subscription_status", column: "shop", owner: "shop" },
+  { table: "pending_charges", column: "shop", owner: "shop" },
+  { table: "shopify_product_mappings", column: "shop_domain", owner: "shop" },
+  { table: "shopify_stores", column: "shop_domain", owner: "shop", secretColumns: ["access_token"] },
+  { table: "shopify_users", column: "shop_domain", owner: "shop" },
+];
+
+// Shared catalog assets (base models, poses) live here - only objects under the shop's own folder are erased
+const SHARED_ASSET_BUCKETS: string[] = [STORAGE_BUCKETS.MODELS, STORAGE_BUCKETS.BRAND_ASSETS];
+
+// =============================================
+// AUDIT LOG
+// =============================================
+
+async function audit(
+  requestId: string,
+  action: string,
+  target: string,
+  count: number,
+  detail?: Record<string, any>
+): Promise<void> {
+  const { error } = await supabaseAdmin.from("privacy_audit_log").insert({
+    request_id: requestId,
+    action,
+    target,
+    count,
+    detail: detail || null,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    // The request can't be considered done without its audit trail
+    throw new Error(`Failed to write privacy audit log: ${error.message}`);
+  }
+}
+
+export async function getPrivacyAuditLog(requestId: string): Promise<any[]> {
+  const { data, error } = await supabaseAdmin
+    .from("privacy_audit_log")
+    .select("*")
+    .eq("request_id", requestId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching privacy audit log:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// =============================================
+// REQUESTS
+// =============================================
+
+/**
+ * Record a privacy webhook. Redelivered webhooks return the existing request.
+ */
+export async function recordPrivacyRequest(
+  topic: PrivacyTopic,
+  shop: string,
+  webhookId: string | null,
+  payload: Record<string, any>
+): Promise<PrivacyRequest> {
+  if (webhookId) {
+    const { data: existing } = await supabaseAdmin
+      .from("privacy_requests")
+      .select("*")
+      .eq("webhook_id", webhookId)
+      .maybeSingle();
+
+    if (existing) {
+      console.log(`ℹ️ Privacy webhook ${webhookId} already recorded as ${existing.id}`);
+      return existing as PrivacyRequest;
+    }
+  }
+
+  const { data: shopifyUser } = await supabaseAdmin
+    .from("shopify_users")
+    .select("trayve_user_id")
+    .eq("shop_domain", shop)
+    .maybeSingle();
+
+  const { data, error } = await supabaseAdmin
+    .from("privacy_requests")
+    .insert({
+      topic,
+      shop_domain: shop,
+      trayve_user_id: shopifyUser?.trayve_user_id || null,
+      webhook_id: webhookId,
+      payload,
+      status: "pending",
+      attempts: 0,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to record privacy request: ${error?.message}`);
+  }
+
+  await audit(data.id, "received", topic, 0, { shop, webhook_id: webhookId });
+  console.log(`🔐 Recorded ${topic} request ${data.id} for ${shop}`);
+  return data as PrivacyRequest;
+}
+
+export async function getPrivacyRequest(requestId: string): Promise<PrivacyRequest | null> {
+  const { data, error } = await supabaseAdmin
+    .from("privacy_requests")
+    .select("*")
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching privacy request ${requestId}:`, error);
+    return null;
+  }
+
+  return data as PrivacyRequest | null;
+}
+
+/**
+ * Claim a request for processing (pending, or processing but abandoned)
+ */
+async function claimPrivacyRequest(request: PrivacyRequest): Promise<PrivacyRequest | null> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+  if (request.status === "processing" && request.started_at && request.started_at > staleBefore) {
+    return null;
+  }
+
+  const { data } = await supabaseAdmin
+    .from("privacy_requests")
+    .update({
+      status: "processing",
+      attempts: request.attempts + 1,
+      started_at: new Date().toISOString(),
+    })
+    .eq("id", request.id)
+    .eq("status", request.status)
+    .eq("attempts", request.attempts)
+    .select()
+    .maybeSingle();
+
+  return (data as PrivacyRequest) || null;
+}
+
+/**
+ * Run a recorded request. Safe to call repeatedly - only one caller claims it.
+ */
+export async function processPrivacyRequest(requestId: string): Promise<void> {
+  const existing = await getPrivacyRequest(requestId);
+  if (!existing || existing.status === "completed" || existing.status === "failed") return;
+
+  const request = await claimPrivacyRequest(existing);
+  if (!request) return;
+
+  console.log('═══════════════════════════════════════════════════════');
+  console.log(`🔐 PRIVACY REQUEST ${request.id}: ${request.topic}`);
+  console.log(`   Shop: ${request.shop_domain} (attempt ${request.attempts}/${MAX_ATTEMPTS})`);
+  console.log('═══════════════════════════════════════════════════════');
+
+  try {
+    let summary: Record<string, any>;
+    let exportPath: string | null = null;
+
+    if (request.topic === "customers/data_request") {
+      const result = await exportShopData(request);
+      summary = result.summary;
+      exportPath = result.exportPath;
+    } else if (request.topic === "shop/redact") {
+      summary = await redactShopData(request);
+    } else {
+      // Generations, credits and subscriptions belong to the shop, not its customers
+      await audit(request.id, "no_customer_data", "customers/redact", 0, {
+        customer_id: request.payload?.customer?.id || null,
+      });
+      summary = { customer_records: 0 };
+    }
+
+    await supabaseAdmin
+      .from("privacy_requests")
+      .update({
+        status: "completed",
+        summary,
+        export_path: exportPath,
+        error: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", request.id);
+
+    await audit(request.id, "completed", request.topic, 0, summary);
+    console.log(`✅ Privacy request ${request.id} completed`);
+  } catch (error: any) {
+    const exhausted = request.attempts >= MAX_ATTEMPTS;
+    console.error(`❌ Privacy request ${request.id} failed (attempt ${request.attempts}/${MAX_ATTEMPTS}):`, error);
+
+    await supabaseAdmin
+      .from("privacy_requests")
+      .update({
+        status: exhausted ? "failed" : "pending",
+        error: error.message || "Privacy request failed",
+      })
+      .eq("id", request.id);
+
+    await audit(request.id, "error", request.topic, 0, { message: error.message, exhausted }).catch((auditError) =>
+      console.error("❌ Failed to audit privacy error:", auditError)
+    );
+  }
+}
+
+/**
+ * Retry requests that haven't finished (called by the pipeline worker)
+ */
+export async function processPendingPrivacyRequests(): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from("privacy_requests")
+    .select("id")
+    .or(`status.eq.pending,and(status.eq.processing,started_at.lt.${staleBefore})`)
+    .lt("attempts", MAX_ATTEMPTS)
+    .order("created_at", { ascending: true })
+    .limit(10);
+
+  if (error) {
+    console.error("❌ Failed to fetch pending privacy requests:", error);
+    return;
+  }
+
+  for (const request of data || []) {
+    await processPrivacyRequest(request.id);
+  }
+}
+
+// =============================================
+// DATA COLLECTION
+// =============================================
+
+async function resolveDataOwner(request: PrivacyRequest): Promise<DataOwner | null> {
+  let userId = request.trayve_user_id;
+
+  if (!userId) {
+    // Includes uninstalled (inactive) shops
+    const { data } = await supabaseAdmin
+      .from("shopify_users")
+      .select("trayve_user_id")
+      .eq("shop_domain", request.shop_domain)
+      .maybeSingle();
+    userId = data?.trayve_user_id || null;
+  }
+
+  if (!userId) return null;
+
+  const [{ data: executions }, { data: batches }, { data: models }] = await Promise.all([
+    supabaseAdmin.from("pipeline_executions").select("id").eq("user_id", userId),
+    supabaseAdmin.from("generation_batches").select("id").eq("user_id", userId),
+    supabaseAdmin.from("base_models").select("id").eq("owner_user_id", userId),
+  ]);
+
+  return {
+    userId,
+    shop: request.shop_domain,
+    executionIds: (executions || []).map((row: any) => row.id),
+    batchIds: (batches || []).map((row: any) => row.id),
+    modelIds: (models || []).map((row: any) => row.id),
+  };
+}
+
+function getOwnerValues(spec: ShopDataTable, owner: DataOwner): string[] {
+  switch (spec.owner) {
+    case "user":
+      return [owner.userId];
+    case "shop":
+      return [owner.shop];
+    case "executions":
+      return owner.executionIds;
+    case "batches":
+      return owner.batchIds;
+    case "models":
+      return owner.modelIds;
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function fetchTableRows(spec: ShopDataTable, owner: DataOwner): Promise<any[]> {
+  const rows: any[] = [];
+
+  for (const values of chunk(getOwnerValues(spec, owner), IN_FILTER_CHUNK)) {
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabaseAdmin
+        .from(spec.table)
+        .select("*")
+        .in(spec.column, values)
+        .range(from, from + 999);
+
+      if (error) {
+        throw new Error(`Failed to read ${spec.table}: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < 1000) break;
+    }
+  }
+
+  return rows;
+}
+
+async function collectShopData(owner: DataOwner): Promise<Record<string, any[]>> {
+  const data: Record<string, any[]> = {};
+  for (const spec of SHOP_DATA_TABLES) {
+    data[spec.table] = await fetchTableRows(spec, owner);
+  }
+  return data;
+}
+
+/**
+ * Storage objects referenced anywhere in the shop's rows
+ */
+function collectReferencedObjects(data: Record<string, any[]>): Array<{ bucket: string; path: string }> {
+  const found = new Map<string, { bucket: string; path: string }>();
+
+  const visit = (value: any) => {
+    if (typeof value === "string") {
+      const object = parseStorageUrl(value);
+      if (object) found.set(`${object.bucket}/${object.path}`, object);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  Object.values(data).forEach(visit);
+
+  // Final images are also tracked by path only
+  for (const row of [...(data.generation_results || []), ...(data.studio_generations || [])]) {
+    if (row.supabase_path) {
+      found.set(`${STORAGE_BUCKETS.SHOPIFY_GENERATIONS}/${row.supabase_path}`, {
+        bucket: STORAGE_BUCKETS.SHOPIFY_GENERATIONS,
+        path: row.supabase_path,
+      });
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+// =============================================
+// EXPORT (customers/data_request)
+// =============================================
+
+async function exportShopData(
+  request: PrivacyRequest
+): Promise<{ exportPath: string | null; summary: Record<string, any> }> {
+  const owner = await resolveDataOwner(request);
+  if (!owner) {
+    await audit(request.id, "export", "none", 0, { reason: "No data stored for this shop" });
+    return { exportPath: null, summary: { tables: {}, garments: 0 } };
+  }
+
+  const data = await collectShopData(owner);
+  const zip = new JSZip();
+  const tableCounts: Record<string, number> = {};
+
+  for (const spec of SHOP_DATA_TABLES) {
+    const rows = data[spec.table].map(row => {
+      if (!spec.secretColumns) return row;
+      const safeRow = { ...row };
+      spec.secretColumns.forEach(column => delete safeRow[column]);
+      return safeRow;
+    });
+
+    tableCounts[spec.table] = rows.length;
+    zip.file(`data/${spec.table}.json`, JSON.stringify(rows, null, 2));
+  }
+
+  // Uploaded garments are included as files; generated images are listed by URL in the data
+  const garments = collectReferencedObjects(data).filter(object => object.bucket === STORAGE_BUCKETS.USER_IMAGES);
+  let garmentCount = 0;
+
+  for (const garment of garments) {
+    const file = await downloadFromStorage(garment.bucket, garment.path);
+    if (file) {
+      zip.file(`garments/${garment.path}`, file);
+      garmentCount++;
+    }
+  }
+
+  zip.file("manifest.json", JSON.stringify({
+    request_id: request.id,
+    shop: request.shop_domain,
+    trayve_user_id: owner.userId,
+    generated_at: new Date().toISOString(),
+    tables: tableCounts,
+    garments: garmentCount,
+  }, null, 2));
+
+  const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  const exportPath = `${owner.userId}/${request.id}.zip`;
+  const upload = await uploadToStorage(STORAGE_BUCKETS.PRIVACY_EXPORTS, exportPath, archive, "application/zip");
+
+  if (!upload.success) {
+    throw new Error(`Failed to store data export: ${upload.error}`);
+  }
+
+  await trackStoredObject({
+    bucket: STORAGE_BUCKETS.PRIVACY_EXPORTS,
+    path: exportPath,
+    user_id: owner.userId,
+    kind: "export",
+    owner_table: "privacy_requests",
+    owner_id: request.id,
+    size_bytes: archive.length,
+  });
+
+  const summary = { tables: tableCounts, garments: garmentCount, bytes: archive.length };
+  await audit(request.id, "export", `${STORAGE_BUCKETS.PRIVACY_EXPORTS}/${exportPath}`, Object.values(tableCounts).reduce((sum, count) => sum + count, 0), summary);
+  console.log(`📦 Data export stored: ${exportPath} (${(archive.length / 1024).toFixed(1)} KB)`);
+
+  return { exportPath, summary };
+}
+
+/**
+ * Short-lived download link for a finished data export
+ */
+export async function getPrivacyExportUrl(requestId: string, shop: string): Promise<string | null> {
+  const request = await getPrivacyRequest(requestId);
+  if (!request || request.shop_domain !== shop || !request.export_path) return null;
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKETS.PRIVACY_EXPORTS)
+    .createSignedUrl(request.export_path, EXPORT_LINK_TTL_SECONDS);
+
+  if (error || !data) {
+    console.error(`Error signing export for privacy request ${requestId}:`, error);
+    return null;
+  }
+
+  await audit(request.id, "export_downloaded", request.export_path, 1);
+  return data.signedUrl;
+}
+
+// =============================================
+// REDACTION (shop/redact)
+// =============================================
+
+async function redactShopData(request: PrivacyRequest): Promise<Record<string, any>> {
+  const owner = await resolveDataOwner(request);
+  const summary: Record<string, any> = { rows: {}, objects: {} };
+
+  if (owner) {
+    const data = await collectShopData(owner);
+
+    // Storage first - the rows are what tell us which objects belong to the shop
+    const objectsByBucket = new Map<string, Set<string>>();
+    const addObject = (bucket: string, path: string) => {
+      if (!objectsByBucket.has(bucket)) objectsByBucket.set(bucket, new Set());
+      objectsByBucket.get(bucket)!.add(path);
+    };
+
+    for (const object of collectReferencedObjects(data)) {
+      if (SHARED_ASSET_BUCKETS.includes(object.bucket) && !object.path.startsWith(`${owner.userId}/`)) continue;
+      addObject(object.bucket, object.path);
+    }
+
+    // Everything the storage registry attributes to the shop (e.g. root-level watermark images)
+    for (const object of data.storage_objects || []) {
+      if (!object.deleted_at) addObject(object.bucket, object.path);
+    }
+
+    // Intermediate step images are stored under the execution ID
+    for (const executionId of owner.executionIds) {
+      for (const path of await listStorageObjects(STORAGE_BUCKETS.SHOPIFY_GENERATIONS, executionId)) {
+        addObject(STORAGE_BUCKETS.SHOPIFY_GENERATIONS, path);
+      }
+    }
+
+    // Anything filed under the shop's own folder, in every bucket (includes data exports)
+    for (const bucket of Object.values(STORAGE_BUCKETS)) {
+      for (const path of await listStorageObjects(bucket, owner.userId)) {
+        addObject(bucket, path);
+      }
+    }
+
+    for (const [bucket, paths] of objectsByBucket) {
+      const removed = await deleteStorageObjects(bucket, Array.from(paths));
+      summary.objects[bucket] = removed;
+      await audit(request.id, "delete_objects", bucket, removed, { requested: paths.size });
+      console.log(`🗑️  ${bucket}: removed ${removed}/${paths.size} object(s)`);
+    }
+
+    for (const spec of SHOP_DATA_TABLES) {
+      let deleted = 0;
+
+      for (const values of chunk(getOwnerValues(spec, owner), IN_FILTER_CHUNK)) {
+        const { count, error } = await supabaseAdmin
+          .from(spec.table)
+          .delete({ count: "exact" })
+          .in(spec.column, values);
+
+        if (error) {
+          throw new Error(`Failed to delete from ${spec.table}: ${error.message}`);
+        }
+        deleted += count || 0;
+      }
+
+      summary.rows[spec.table] = deleted;
+      await audit(request.id, "delete_rows", spec.table, deleted);
+      console.log(`🗑️  ${spec.table}: deleted ${deleted} row(s)`);
+    }
+  } else {
+    await audit(request.id, "delete_rows", "none", 0, { reason: "No data stored for this shop" });
+  }
+
+  // Offline/online Shopify sessions
+  const { count: sessions } = await db.session.deleteMany({ where: { shop: request.shop_domain } });
+  summary.sessions = sessions;
+  await audit(request.id, "delete_sessions", "session", sessions);
+
+  // Privacy requests are kept for the audit trail, without their identifying payloads
+  await supabaseAdmin
+    .from("privacy_requests")
+    .update({ payload: { shop_domain: request.shop_domain } })
+    .eq("shop_domain", request.shop_domain);
+
+  return summary;
+}
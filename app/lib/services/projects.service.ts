@@ -0,0 +1,274 @@
+/**
+ * Projects Service
+ *
+ * Paginated project listing for the Projects page. Each page is one query:
+ * the project rows embed their latest execution (mode and status), their
+ * result counts and their newest result for the cover image, so nothing is
+ * fetched per project. Search and filters run in the database; pages are
+ * keyset cursors over the sort column and the project ID, so rows created
+ * while paging don't shift later pages.
+ *
+ * A project's mode comes from its execution's config.mode: none is virtual
+ * try-on, product_shots is Shop Ready, social_media is Post Ready.
+ * Feedback filters keep projects with at least one matching result.
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { validateFeedbackFilter, hasFeedbackFilter, type FeedbackFilter } from "./feedback.service";
+import { PROJECT_LIST } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type ProjectMode = "virtual_tryon" | "shop_ready" | "post_ready";
+export type ProjectStatus = "processing" | "completed" | "failed";
+export type ProjectSort = "newest" | "oldest" | "updated" | "name";
+
+export const PROJECT_MODES: ProjectMode[] = ["virtual_tryon", "shop_ready", "post_ready"];
+export const PROJECT_STATUSES: ProjectStatus[] = ["processing", "completed", "failed"];
+export const PROJECT_SORTS: ProjectSort[] = ["newest", "oldest", "updated", "name"];
+
+export interface ProjectListFilters {
+  search?: string; // Matches the name or description
+  mode?: ProjectMode;
+  base_model_id?: string;
+  created_from?: string; // ISO date, inclusive
+  created_to?: string; // ISO date, inclusive
+  status?: ProjectStatus; // Status of the project's execution
+  feedback?: FeedbackFilter;
+  sort?: ProjectSort;
+  cursor?: string | null; // next_cursor of the previous page
+  limit?: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  clothing_item_name: string | null;
+  clothing_type: string | null;
+  clothing_image_url: string | null;
+  base_model_id: string | null;
+  mode: ProjectMode;
+  status: string;
+  result_count: number;
+  cover_image_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectPage {
+  projects: ProjectSummary[];
+  next_cursor: string | null; // null on the last page
+}
+
+// Studio modes stored on the execution config
+const STUDIO_MODES: Record<Exclude<ProjectMode, "virtual_tryon">, string> = {
+  shop_ready: "product_shots",
+  post_ready: "social_media",
+};
+
+const SORT_COLUMNS: Record<ProjectSort, { column: string; ascending: boolean }> = {
+  newest: { column: "created_at", ascending: false },
+  oldest: { column: "created_at", ascending: true },
+  updated: { column: "updated_at", ascending: false },
+  name: { column: "name", ascending: true }, // Set on every insert, so never null
+};
+
+// =============================================
+// CURSORS
+// =============================================
+
+interface ProjectCursor {
+  value: string;
+  id: string;
+}
+
+function encodeCursor(cursor: ProjectCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): ProjectCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return typeof parsed?.value === "string" && typeof parsed?.id === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quote a value inside a PostgREST or() filter, where commas, dots and
+ * parentheses are otherwise part of the syntax
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// =============================================
+// LISTING
+// =============================================
+
+/**
+ * Check list filters from a request
+ * @returns Error message, or null when the filters are valid
+ */
+export function validateProjectListFilters(filters: ProjectListFilters): string | null {
+  if (filters.mode && !PROJECT_MODES.includes(filters.mode)) {
+    return `mode must be one of ${PROJECT_MODES.join(", ")}`;
+  }
+  if (filters.status && !PROJECT_STATUSES.includes(filters.status)) {
+    return `status must be one of ${PROJECT_STATUSES.join(", ")}`;
+  }
+  if (filters.sort && !PROJECT_SORTS.includes(filters.sort)) {
+    return `sort must be one of ${PROJECT_SORTS.join(", ")}`;
+  }
+  if ((filters.search?.length || 0) > PROJECT_LIST.maxSearchLength) {
+    return `search must be ${PROJECT_LIST.maxSearchLength} characters or fewer`;
+  }
+  for (const [name, value] of [["created_from", filters.created_from], ["created_to", filters.created_to]]) {
+    if (value && Number.isNaN(Date.parse(value))) {
+      return `${name} must be a date`;
+    }
+  }
+  if (filters.feedback) {
+    const invalid = validateFeedbackFilter(filters.feedback);
+    if (invalid) return invalid;
+  }
+  if (filters.cursor && !decodeCursor(filters.cursor)) {
+    return "cursor is invalid";
+  }
+  return null;
+}
+
+function getCoverImage(project: any): string | null {
+  // Best available version of the newest result first: face swap, 4K, 2K, try-on
+  const vto = project.generation_results?.[0];
+  const vtoImage = vto && (vto.face_swap_image_url || vto.upscaled_image_url || vto.basic_upscale_url
+    || vto.tryon_url || vto.result_image_url);
+
+  return vtoImage || project.studio_generations?.[0]?.result_image_url || project.clothing_image_url || null;
+}
+
+function toProjectSummary(project: any): ProjectSummary {
+  const execution = project.pipeline_executions?.[0];
+  const studioMode = Object.entries(STUDIO_MODES).find(([, mode]) => mode === execution?.mode)?.[0];
+
+  return {
+    id: project.id,
+    user_id: project.user_id,
+    title: project.title || project.name || "Untitled Project",
+    description: project.description || null,
+    clothing_item_name: project.clothing_item_name || null,
+    clothing_type: project.clothing_type || null,
+    clothing_image_url: project.clothing_image_url || null,
+    base_model_id: project.base_model_id || null,
+    mode: (studioMode as ProjectMode) || "virtual_tryon",
+    status: execution?.status || project.status,
+    result_count: (project.vto_count?.[0]?.count || 0) + (project.studio_count?.[0]?.count || 0),
+    cover_image_url: getCoverImage(project),
+    created_at: project.created_at,
+    updated_at: project.updated_at,
+  };
+}
+
+/**
+ * One page of a shop's projects
+ */
+export async function listProjects(userId: string, filters: ProjectListFilters = {}): Promise<ProjectPage> {
+  const sort = SORT_COLUMNS[filters.sort || "newest"];
+  const limit = Math.min(Math.max(filters.limit || PROJECT_LIST.defaultPageSize, 1), PROJECT_LIST.maxPageSize);
+
+  // Mode and status filter on the execution, which then has to exist
+  const filterExecution = !!(filters.mode || filters.status);
+  const feedback = filters.feedback && hasFeedbackFilter(filters.feedback) ? filters.feedback : null;
+
+  let query = supabaseAdmin
+    .from("user_generation_projects")
+    .select(`
+      *,
+      pipeline_executions${filterExecution ? "!inner" : ""}(status, mode:config->>mode, started_at),
+      vto_count:generation_results(count),
+      studio_count:studio_generations(count),
+      generation_results(
+        result_image_url,
+        tryon_url:generation_metadata->>tryon_url,
+        basic_upscale_url:generation_metadata->>basic_upscale_url,
+        upscaled_image_url:generation_metadata->>upscaled_image_url,
+        face_swap_image_url:generation_metadata->>face_swap_image_url,
+        created_at
+      ),
+      studio_generations(result_image_url, created_at)
+      ${feedback ? ", generation_feedback!inner(id)" : ""}
+    `)
+    .eq("user_id", userId)
+    .order("started_at", { referencedTable: "pipeline_executions", ascending: false })
+    .limit(1, { referencedTable: "pipeline_executions" })
+    .order("created_at", { referencedTable: "generation_results", ascending: false })
+    .limit(1, { referencedTable: "generation_results" })
+    .order("created_at", { referencedTable: "studio_generations", ascending: false })
+    .limit(1, { referencedTable: "studio_generations" });
+
+  const search = filters.search?.trim();
+  if (search) {
+    // Match the text literally, not as LIKE wildcards
+    const pattern = quoteFilterValue(`%${search.replace(/[%_\\]/g, "\\$&")}%`);
+    query = query.or(`name.ilike.${pattern},description.ilike.${pattern}`);
+  }
+
+  if (filters.mode === "virtual_tryon") {
+    query = query.is("pipeline_executions.config->>mode", null);
+  } else if (filters.mode) {
+    query = query.eq("pipeline_executions.config->>mode", STUDIO_MODES[filters.mode]);
+  }
+
+  if (filters.status) {
+    query = query.eq("pipeline_executions.status", filters.status);
+  }
+  if (filters.base_model_id) {
+    query = query.eq("base_model_id", filters.base_model_id);
+  }
+  if (feedback) {
+    query = query.limit(1, { referencedTable: "generation_feedback" });
+    if (feedback.favorite) query = query.eq("generation_feedback.favorite", true);
+    if (feedback.min_rating) query = query.gte("generation_feedback.rating", feedback.min_rating);
+    if (feedback.rejected) query = query.neq("generation_feedback.rejection_reasons", "{}");
+    if (feedback.rejection_reason) query = query.contains("generation_feedback.rejection_reasons", [feedback.rejection_reason]);
+  }
+  if (filters.created_from) {
+    query = query.gte("created_at", new Date(filters.created_from).toISOString());
+  }
+  if (filters.created_to) {
+    query = query.lte("created_at", new Date(filters.created_to).toISOString());
+  }
+
+  const cursor = filters.cursor ? decodeCursor(filters.cursor) : null;
+  if (cursor) {
+    const op = sort.ascending ? "gt" : "lt";
+    const value = quoteFilterValue(cursor.value);
+    query = query.or(`${sort.column}.${op}.${value},and(${sort.column}.eq.${value},id.${op}.${quoteFilterValue(cursor.id)})`);
+  }
+
+  // One extra row tells whether there is another page
+  const { data, error } = await query
+    .order(sort.column, { ascending: sort.ascending })
+    .order("id", { ascending: sort.ascending })
+    .limit(limit + 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch projects: ${error.message}`);
+  }
+
+  const rows = (data || []) as any[];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    projects: page.map(toProjectSummary),
+    next_cursor: rows.length > limit && last
+      ? encodeCursor({ value: String(last[sort.column]), id: last.id })
+      : null,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Prompt Template Service
+ *
+ * Versioned generation prompts. Each key (tryon, tryon-outfit, post-ready,
+ * shop-ready) has numbered versions, one of which is active; publishing a
+ * version never edits an older one, so every generation's recorded
+ * template ID + version points at the exact text it was made with.
+ * Keys without a published version use the built-in templates (version 0).
+ *
+ * Table: prompt_templates (id, key, version, body, notes, is_active,
+ * created_by, created_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import {
+  findUnknownVariables,
+  getBuiltinPromptTemplate,
+  type PromptTemplate,
+  type PromptTemplateKey,
+} from "../prompt-templates";
+import { listPromptTemplateRuns } from "./generation.service";
+import { PROMPT_TEMPLATES } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface PromptTemplateVersion extends PromptTemplate {
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreatePromptTemplateInput {
+  key: PromptTemplateKey;
+  body: string;
+  notes?: string;
+  activate?: boolean;
+  created_by?: string;
+}
+
+export interface PromptTemplateUsage {
+  id: string;
+  version: number;
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+// Active versions, re-read at most every PROMPT_TEMPLATES.cacheMs
+const activeCache = new Map<PromptTemplateKey, { template: PromptTemplate; loadedAt: number }>();
+
+// =============================================
+// ACTIVE TEMPLATES
+// =============================================
+
+/**
+ * The version new generations use. Falls back to the built-in template when
+ * none is published or the table can't be read, so prompts never block a run.
+ */
+export async function getActivePromptTemplate(key: PromptTemplateKey): Promise<PromptTemplate> {
+  const cached = activeCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < PROMPT_TEMPLATES.cacheMs) {
+    return cached.template;
+  }
+
+  let template = getBuiltinPromptTemplate(key);
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .select("id, key, version, body")
+    .eq("key", key)
+    .eq("is_active", true)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️  Could not load the ${key} prompt template, using the built-in one:`, error.message);
+  } else if (data) {
+    template = data as PromptTemplate;
+  }
+
+  activeCache.set(key, { template, loadedAt: Date.now() });
+  return template;
+}
+
+/**
+ * A specific version by ID (experiments pin variants to a version), or null when it doesn't exist
+ */
+export async function getPromptTemplateById(id: string): Promise<PromptTemplate | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .select("id, key, version, body")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️  Could not load prompt template ${id}:`, error.message);
+    return null;
+  }
+
+  return (data as PromptTemplate) || null;
+}
+
+// =============================================
+// MANAGEMENT
+// =============================================
+
+export async function listPromptTemplateVersions(key?: PromptTemplateKey): Promise<PromptTemplateVersion[]> {
+  let query = supabaseAdmin
+    .from("prompt_templates")
+    .select("*")
+    .order("key", { ascending: true })
+    .order("version", { ascending: false });
+
+  if (key) {
+    query = query.eq("key", key);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch prompt templates: ${error.message}`);
+  }
+
+  return (data || []) as PromptTemplateVersion[];
+}
+
+/**
+ * Publish a new version of a template, optionally making it the active one
+ * @returns The version, or an error message when the body is invalid
+ */
+export async function createPromptTemplateVersion(
+  input: CreatePromptTemplateInput
+): Promise<{ template: PromptTemplateVersion | null; error?: string }> {
+  const body = input.body?.trim() || "";
+  if (!body) {
+    return { template: null, error: "body is required" };
+  }
+  if (body.length > PROMPT_TEMPLATES.maxBodyLength) {
+    return { template: null, error: `body must be ${PROMPT_TEMPLATES.maxBodyLength} characters or fewer` };
+  }
+  if ((input.notes?.length || 0) > PROMPT_TEMPLATES.maxNotesLength) {
+    return { template: null, error: `notes must be ${PROMPT_TEMPLATES.maxNotesLength} characters or fewer` };
+  }
+
+  const unknown = findUnknownVariables(body);
+  if (unknown.length > 0) {
+    return { template: null, error: `Unknown variables: ${unknown.map(name => `{{${name}}}`).join(", ")}` };
+  }
+
+  const { data: latest } = await supabaseAdmin
+    .from("prompt_templates")
+    .select("version")
+    .eq("key", input.key)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .insert({
+      key: input.key,
+      version: (latest?.version || 0) + 1,
+      body,
+      notes: input.notes?.trim() || null,
+      is_active: false,
+      created_by: input.created_by || null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save prompt template: ${error?.message}`);
+  }
+
+  console.log(`📝 Published ${input.key} prompt template v${data.version}`);
+
+  if (input.activate) {
+    await activatePromptTemplateVersion(input.key, data.version);
+    return { template: { ...(data as PromptTemplateVersion), is_active: true } };
+  }
+
+  return { template: data as PromptTemplateVersion };
+}
+
+/**
+ * Make a version the one new generations use. Version 0 switches back to the built-in template.
+ * @returns false when the version doesn't exist
+ */
+export async function activatePromptTemplateVersion(key: PromptTemplateKey, version: number): Promise<boolean> {
+  if (version !== 0) {
+    const { data: target } = await supabaseAdmin
+      .from("prompt_templates")
+      .select("id")
+      .eq("key", key)
+      .eq("version", version)
+      .maybeSingle();
+
+    if (!target) return false;
+  }
+
+  const { error: clearError } = await supabaseAdmin
+    .from("prompt_templates")
+    .update({ is_active: false })
+    .eq("key", key)
+    .eq("is_active", true);
+
+  if (clearError) {
+    throw new Error(`Failed to deactivate prompt template: ${clearError.message}`);
+  }
+
+  if (version !== 0) {
+    const { error } = await supabaseAdmin
+      .from("prompt_templates")
+      .update({ is_active: true })
+      .eq("key", key)
+      .eq("version", version);
+
+    if (error) {
+      throw new Error(`Failed to activate prompt template: ${error.message}`);
+    }
+  }
+
+  activeCache.delete(key);
+  console.log(`✅ ${key} prompt template v${version} is now active`);
+  return true;
+}
+
+// =============================================
+// USAGE
+// =============================================
+
+/**
+ * Generations per template version over the last `days`, with how many
+ * completed or failed - for comparing versions against each other
+ */
+export async function getPromptTemplateUsage(key: PromptTemplateKey, days: number = 30): Promise<PromptTemplateUsage[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const usage = new Map<string, PromptTemplateUsage>();
+  for (const run of await listPromptTemplateRuns(key, since)) {
+    const ref = run.prompt_template;
+    if (!ref?.id) continue;
+
+    const entry = usage.get(ref.id) || { id: ref.id, version: ref.version, total: 0, completed: 0, failed: 0 };
+    entry.total++;
+    if (run.status === "completed") entry.completed++;
+    if (run.status === "failed") entry.failed++;
+    usage.set(ref.id, entry);
+  }
+
+  return [...usage.values()].sort((a, b) => b.version - a.version);
+}
@@ -0,0 +1,217 @@
+/**
+ * Rate Limit Service
+ * Throttles for generation, shared by every worker process through the database:
+ * - Token bucket per image provider (protects Vertex/Replicate quotas)
+ * - Per-shop slots for poses generating at the same time
+ *
+ * Tables:
+ * - provider_rate_buckets (provider_id primary key, tokens numeric, revision int, refilled_at)
+ * - pose_slots (user_id, slot int, holder, expires_at, created_at; primary key (user_id, slot))
+ */
+
+import { randomUUID } from "crypto";
+import { supabaseAdmin } from "../storage/supabase.server";
+import { PROVIDER_RATE_LIMITS, POSE_SLOTS } from "../../config/generation.constants";
+
+const UNIQUE_VIOLATION = "23505";
+
+// =============================================
+// PROVIDER TOKEN BUCKETS
+// =============================================
+
+interface TokenBucketRow {
+  tokens: number;
+  revision: number;
+  refilled_at: string;
+}
+
+async function getBucketRow(providerId: string): Promise<TokenBucketRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("provider_rate_buckets")
+    .select("tokens, revision, refilled_at")
+    .eq("provider_id", providerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch rate limit bucket for ${providerId}: ${error.message}`);
+  }
+
+  return data as TokenBucketRow | null;
+}
+
+/**
+ * Take one token if the bucket has one. The revision guard makes the take
+ * atomic across processes; a lost race re-reads the bucket.
+ * @returns Milliseconds to wait before trying again, or 0 once a token was taken
+ */
+async function tryTakeToken(providerId: string, limit: { capacity: number; refillPerMinute: number }): Promise<number> {
+  const refillPerMs = limit.refillPerMinute / 60_000;
+  const now = new Date();
+  const row = await getBucketRow(providerId);
+
+  if (!row) {
+    const { error } = await supabaseAdmin
+      .from("provider_rate_buckets")
+      .insert({ provider_id: providerId, tokens: limit.capacity - 1, revision: 0, refilled_at: now.toISOString() });
+
+    if (error && error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Failed to create rate limit bucket for ${providerId}: ${error.message}`);
+    }
+    return error ? 1 : 0;
+  }
+
+  const elapsedMs = Math.max(0, now.getTime() - new Date(row.refilled_at).getTime());
+  const tokens = Math.min(limit.capacity, Number(row.tokens) + elapsedMs * refillPerMs);
+  if (tokens < 1) {
+    return Math.ceil((1 - tokens) / refillPerMs);
+  }
+
+  const { data: taken } = await supabaseAdmin
+    .from("provider_rate_buckets")
+    .update({ tokens: tokens - 1, revision: row.revision + 1, refilled_at: now.toISOString() })
+    .eq("provider_id", providerId)
+    .eq("revision", row.revision)
+    .select("provider_id")
+    .maybeSingle();
+
+  return taken ? 0 : 1;
+}
+
+/**
+ * Wait until the provider's bucket has a token, then take it.
+ * Providers without a configured limit are not throttled.
+ */
+export async function acquireProviderToken(providerId: string): Promise<void> {
+  const limit = PROVIDER_RATE_LIMITS[providerId];
+  if (!limit) return;
+
+  let waitedMs = 0;
+
+  for (;;) {
+    const waitMs = await tryTakeToken(providerId, limit);
+    if (waitMs === 0) break;
+
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    waitedMs += waitMs;
+  }
+
+  if (waitedMs > 0) {
+    console.log(`🚦 Waited ${waitedMs}ms for ${providerId} rate limit token`);
+  }
+}
+
+// =============================================
+// PER-SHOP POSE SLOTS
+// =============================================
+
+interface PoseSlot {
+  user_id: string;
+  slot: number;
+  holder: string;
+}
+
+function slotLeaseExpiry(): string {
+  return new Date(Date.now() + POSE_SLOTS.leaseMs).toISOString();
+}
+
+/**
+ * Claim a free slot below the shop's limit. Slots are numbered 0..limit-1 and
+ * unique per shop, so two processes can never claim the same one.
+ */
+async function tryClaimPoseSlot(userId: string, limit: number, holder: string): Promise<PoseSlot | null> {
+  // Slots held by a worker that died free up when their lease expires
+  await supabaseAdmin
+    .from("pose_slots")
+    .delete()
+    .eq("user_id", userId)
+    .lt("expires_at", new Date().toISOString());
+
+  for (let slot = 0; slot < limit; slot++) {
+    const { error } = await supabaseAdmin
+      .from("pose_slots")
+      .insert({
+        user_id: userId,
+        slot,
+        holder,
+        expires_at: slotLeaseExpiry(),
+        created_at: new Date().toISOString(),
+      });
+
+    if (!error) return { user_id: userId, slot, holder };
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Failed to claim pose slot: ${error.message}`);
+    }
+  }
+
+  return null;
+}
+
+async function acquirePoseSlot(userId: string, limit: number): Promise<PoseSlot> {
+  const holder = randomUUID();
+
+  for (;;) {
+    const slot = await tryClaimPoseSlot(userId, limit, holder);
+    if (slot) return slot;
+
+    // Wait for a running pose to free its slot
+    await new Promise(resolve => setTimeout(resolve, POSE_SLOTS.pollIntervalMs));
+  }
+}
+
+async function releasePoseSlot(slot: PoseSlot): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("pose_slots")
+    .delete()
+    .eq("user_id", slot.user_id)
+    .eq("slot", slot.slot)
+    .eq("holder", slot.holder);
+
+  if (error) {
+    console.error(`❌ Failed to release pose slot ${slot.slot} for ${slot.user_id}:`, error);
+  }
+}
+
+/**
+ * Run a pose generation once the shop is below its in-flight pose limit
+ * (across every worker process). The slot's lease is extended while it runs.
+ */
+export async function withPoseSlot<T>(
+  userId: string,
+  limit: number,
+  fn: () => Promise<T>
+): Promise<T> {
+  const slot = await acquirePoseSlot(userId, Math.max(1, limit));
+
+  const heartbeat = setInterval(async () => {
+    await supabaseAdmin
+      .from("pose_slots")
+      .update({ expires_at: slotLeaseExpiry() })
+      .eq("user_id", slot.user_id)
+      .eq("slot", slot.slot)
+      .eq("holder", slot.holder);
+  }, POSE_SLOTS.heartbeatMs);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    await releasePoseSlot(slot);
+  }
+}
+
+/**
+ * Poses currently generating for a shop, across every worker process
+ */
+export async function getInFlightPoseCount(userId: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from("pose_slots")
+    .select("slot", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .gte("expires_at", new Date().toISOString());
+
+  if (error) {
+    throw new Error(`Failed to count in-flight poses: ${error.message}`);
+  }
+
+  return count || 0;
+}
@@ -0,0 +1,252 @@
+/**
+ * Regeneration Service
+ *
+ * Re-runs one pose of a result inside the result's project. The run is rebuilt
+ * from the execution that produced the result (pose, garment or outfit, mode,
+ * prompts, watermark snapshot) and can fix the seed, put another generation
+ * provider first or - for Shop Ready and Post Ready - change the pose's prompts.
+ * The new image becomes the next version of the result; earlier versions are
+ * kept (see generation.service).
+ *
+ * A regeneration is an ordinary one-pose execution: it is quoted, held,
+ * captured and refunded at the catalog's per-pose price like any other run,
+ * and never served from the result cache.
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { getProvidersFor, type ProviderCapability } from "../providers";
+import {
+  getGeneration,
+  getVersionRootId,
+  listGenerationVersions,
+  type Generation,
+  type GenerationKind,
+} from "./generation.service";
+import {
+  startPipelineExecution,
+  type ExecutionInput,
+  type ExecutionResult,
+  type PoseInput,
+} from "./pipeline-execution.service";
+import type { PipelineQuoteInput } from "./pipeline-quote.service";
+import { recordGenerationSignal } from "./experiment.service";
+import { REGENERATION } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type PromptOverrides = NonNullable<PoseInput["prompt_overrides"]>;
+
+export interface RegenerationOptions {
+  seed?: number;
+  provider?: string; // Generation provider tried first
+  prompt_overrides?: PromptOverrides; // Studio results only; merged over the pose's own overrides
+}
+
+/**
+ * A regeneration ready to quote and start
+ */
+export interface RegenerationPlan {
+  source: Generation;
+  version: number; // Version the new result becomes
+  execution: ExecutionInput;
+  quote_input: PipelineQuoteInput;
+}
+
+const PROMPT_OVERRIDE_KEYS: (keyof PromptOverrides)[] = ["theme", "background", "angle"];
+
+// =============================================
+// VALIDATION
+// =============================================
+
+function getGenerationCapability(kind: GenerationKind): ProviderCapability {
+  return kind === "studio" ? "studio" : "tryon";
+}
+
+/**
+ * Configured providers a result of this kind can be regenerated with, in priority order
+ */
+export function getRegenerationProviders(kind: GenerationKind): string[] {
+  return getProvidersFor(getGenerationCapability(kind)).map(provider => provider.id);
+}
+
+/**
+ * Check regeneration options from a request
+ * @returns Error message, or null when the options are valid
+ */
+export function validateRegenerationOptions(options: RegenerationOptions, kind: GenerationKind): string | null {
+  if (options.seed !== undefined
+    && (!Number.isInteger(options.seed) || options.seed < 0 || options.seed > REGENERATION.maxSeed)) {
+    return `seed must be a whole number from 0 to ${REGENERATION.maxSeed}`;
+  }
+
+  if (options.provider !== undefined) {
+    const providers = getRegenerationProviders(kind);
+    if (typeof options.provider !== "string" || !providers.includes(options.provider)) {
+      return `provider must be one of ${providers.join(", ")}`;
+    }
+  }
+
+  if (options.prompt_overrides !== undefined) {
+    if (kind !== "studio") {
+      return "prompt_overrides are only available for Shop Ready and Post Ready results";
+    }
+    if (!options.prompt_overrides || typeof options.prompt_overrides !== "object" || Array.isArray(options.prompt_overrides)) {
+      return "prompt_overrides must be an object";
+    }
+    for (const [key, value] of Object.entries(options.prompt_overrides)) {
+      if (!PROMPT_OVERRIDE_KEYS.includes(key as keyof PromptOverrides)) {
+        return `prompt_overrides can only set ${PROMPT_OVERRIDE_KEYS.join(", ")}`;
+      }
+      if (typeof value !== "string" || value.length > REGENERATION.maxPromptOverrideLength) {
+        return `prompt_overrides.${key} must be text of ${REGENERATION.maxPromptOverrideLength} characters or fewer`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// =============================================
+// REGENERATION
+// =============================================
+
+/**
+ * Rebuild the run that produced a result, with the shop's changes
+ * @param subscriptionTier - The shop's current tier, which sets the steps and price
+ * @returns The plan, or an error message and the HTTP status to answer with
+ */
+export async function planRegeneration(
+  userId: string,
+  subscriptionTier: ExecutionInput["subscription_tier"],
+  resultId: string,
+  options: RegenerationOptions
+): Promise<{ plan: RegenerationPlan | null; error?: string; status?: number }> {
+  const source = await getGeneration(resultId, userId);
+  if (!source) {
+    return { plan: null, error: "Result not found", status: 404 };
+  }
+
+  const invalid = validateRegenerationOptions(options, source.kind);
+  if (invalid) {
+    return { plan: null, error: invalid, status: 400 };
+  }
+
+  if (!source.execution_id) {
+    return { plan: null, error: "This result was not produced by a pipeline run and can't be regenerated", status: 400 };
+  }
+
+  // Two regenerations started together both pass this; storage keeps version numbers unique
+  const versions = await listGenerationVersions(source);
+  if (versions.some(version => version.status === "processing")) {
+    return { plan: null, error: "A version of this result is still generating", status: 409 };
+  }
+
+  const { data: execution, error } = await supabaseAdmin
+    .from("pipeline_executions")
+    .select("config, input, metadata")
+    .eq("id", source.execution_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch execution ${source.execution_id}: ${error.message}`);
+  }
+
+  const config = (execution?.config || {}) as any;
+  const input = (execution?.input || {}) as { poses?: PoseInput[]; clothing_image_url?: string; outfit?: ExecutionInput["outfit"] };
+
+  // Studio results are stored under the pose name when the pose had one
+  const pose = (input.poses || []).find(candidate =>
+    candidate.pose_id === source.pose_id || (candidate.pose_name || candidate.pose_id) === source.pose_id
+  );
+  if (!execution || !pose) {
+    return { plan: null, error: "The run that produced this result can't be found", status: 404 };
+  }
+
+  const promptOverrides = options.prompt_overrides
+    ? { ...pose.prompt_overrides, ...options.prompt_overrides }
+    : pose.prompt_overrides;
+  const poseInput: PoseInput = {
+    pose_id: pose.pose_id,
+    image_url: pose.image_url,
+    pose_name: pose.pose_name,
+    ...(promptOverrides && { prompt_overrides: promptOverrides }),
+  };
+  const version = Math.max(...versions.map(existing => existing.version)) + 1;
+
+  const executionInput: ExecutionInput = {
+    user_id: userId,
+    subscription_tier: subscriptionTier,
+    base_model_id: config.base_model_id,
+    clothing_image_url: input.clothing_image_url || undefined,
+    poses: [poseInput],
+    project_id: source.project_id,
+    project_name: (execution.metadata as any)?.project_name,
+    mode: config.mode,
+    prompts: config.prompts,
+    preprocess_garment: !!config.preprocess_garment,
+    garment_category: config.garment_category,
+    outfit: input.outfit,
+    outfit_id: config.outfit_id,
+    // The original run's watermark snapshot, so every version looks alike
+    watermark: config.watermark,
+    watermark_profile_id: config.watermark_profile_id,
+    regeneration: {
+      source_result_id: source.id,
+      version_of: getVersionRootId(source),
+      version,
+      ...(options.seed !== undefined && { seed: options.seed }),
+      ...(options.provider && { provider: options.provider }),
+    },
+  };
+
+  return {
+    plan: {
+      source,
+      version,
+      execution: executionInput,
+      quote_input: {
+        user_id: userId,
+        subscription_tier: subscriptionTier,
+        base_model_id: config.base_model_id,
+        clothing_image_url: executionInput.clothing_image_url,
+        outfit: input.outfit,
+        poses: [poseInput],
+        mode: config.mode,
+        // Quoted from the snapshot the run applies, so a deleted profile doesn't block it
+        watermark: config.watermark,
+      },
+    },
+  };
+}
+
+/**
+ * Start a planned regeneration at the quoted per-pose price
+ * @returns The execution, or an error message and the HTTP status to answer with
+ * when another regeneration took the planned version first
+ */
+export async function startRegeneration(
+  plan: RegenerationPlan,
+  creditsPerPose: number
+): Promise<{ result: ExecutionResult | null; error?: string; status?: number }> {
+  const result = await startPipelineExecution({
+    ...plan.execution,
+    credits_per_pose: creditsPerPose,
+  });
+
+  if (result.status === "failed") {
+    return { result: null, error: result.error, status: 409 };
+  }
+
+  await recordGenerationSignal({
+    user_id: plan.execution.user_id,
+    signal: "regenerate",
+    result_id: plan.source.id,
+    execution_id: plan.source.execution_id,
+  });
+
+  console.log(`🔁 Regenerating result ${plan.source.id} as version ${plan.version} (execution ${result.execution_id})`);
+  return { result };
+}
@@ -0,0 +1,304 @@
+/**
+ * Result Version Service
+ *
+ * Everything a result has produced, across its regenerations: each version's
+ * stored step images (try-on or studio image, watermark, 4K upscale) and its
+ * background-removed copy, with when they were made and which provider made
+ * them.
+ *
+ * The shop can make any of those images the result's primary image. The
+ * choice covers every version of the result (it is keyed by the first
+ * version) and is what Shopify publishing and exports use. Without a choice
+ * the latest finished version's best image is used, as before.
+ *
+ * Table: result_primary_images (id, user_id, version_of unique, kind, result_id,
+ * step, image_url, created_at, updated_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import {
+  getGeneration,
+  getVersionRootId,
+  listGenerationVersions,
+  type Generation,
+  type GenerationKind,
+  type GenerationStatus,
+} from "./generation.service";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type ResultImageStep = "tryon" | "shop-ready" | "post-ready" | "watermark" | "enhanced-upscale" | "removed-bg";
+
+/**
+ * One stored image of one version
+ */
+export interface ResultImage {
+  id: string; // `${result_id}:${step}`
+  result_id: string;
+  version: number;
+  step: ResultImageStep;
+  label: string;
+  image_url: string;
+  provider: string | null;
+  created_at: string;
+}
+
+export interface ResultVersion {
+  result_id: string;
+  version: number;
+  status: GenerationStatus;
+  error: string | null;
+  provider: string | null; // Provider that generated the image
+  seed: number | null; // Seed the provider reported, when it reports one
+  created_at: string;
+  images: ResultImage[]; // In pipeline order
+}
+
+export interface ResultVersionHistory {
+  result_id: string; // First version's ID, shared by every version
+  kind: GenerationKind;
+  versions: ResultVersion[]; // Oldest first
+  primary_image_id: string | null; // The shop's choice, or the default image
+  primary_chosen: boolean; // false while the default image is used
+}
+
+/**
+ * A result's chosen primary image, keyed by its first version
+ */
+export interface PrimaryImage {
+  version_of: string;
+  result_id: string;
+  step: ResultImageStep;
+  image_url: string;
+  updated_at: string;
+}
+
+const IMAGE_STEP_LABELS: Record<ResultImageStep, string> = {
+  tryon: "Try-on",
+  "shop-ready": "Shop Ready",
+  "post-ready": "Post Ready",
+  watermark: "Watermarked",
+  "enhanced-upscale": "4K upscale",
+  "removed-bg": "Background removed",
+};
+
+// Steps that generate the image (the others refine it)
+const GENERATION_STEPS: ResultImageStep[] = ["tryon", "shop-ready", "post-ready"];
+
+const PRIMARY_QUERY_CHUNK = 200;
+
+// =============================================
+// HISTORY
+// =============================================
+
+function getImageId(resultId: string, step: ResultImageStep): string {
+  return `${resultId}:${step}`;
+}
+
+/**
+ * Stored images of one version, in pipeline order
+ */
+function getVersionImages(generation: Generation): ResultImage[] {
+  const fallbackTime = generation.metadata.completed_at || generation.updated_at;
+  const steps: any[] = generation.metadata.step_results || [];
+
+  const images: ResultImage[] = steps
+    .filter(step => step.status === "completed" && step.imageUrl && step.stepType in IMAGE_STEP_LABELS)
+    .map(step => ({
+      id: getImageId(generation.id, step.stepType),
+      result_id: generation.id,
+      version: generation.version,
+      step: step.stepType,
+      label: IMAGE_STEP_LABELS[step.stepType as ResultImageStep],
+      image_url: step.imageUrl,
+      provider: step.provider || null,
+      created_at: step.completedAt || fallbackTime,
+    }));
+
+  if (generation.kind === "tryon" && generation.removed_bg_url) {
+    images.push({
+      id: getImageId(generation.id, "removed-bg"),
+      result_id: generation.id,
+      version: generation.version,
+      step: "removed-bg",
+      label: IMAGE_STEP_LABELS["removed-bg"],
+      image_url: generation.removed_bg_url,
+      provider: null,
+      created_at: generation.removed_bg_at || generation.updated_at,
+    });
+  }
+
+  return images;
+}
+
+function toResultVersion(generation: Generation): ResultVersion {
+  const steps: any[] = generation.metadata.step_results || [];
+  const generationStep = steps.find(step => GENERATION_STEPS.includes(step.stepType) && step.status === "completed");
+
+  return {
+    result_id: generation.id,
+    version: generation.version,
+    status: generation.status,
+    error: generation.error,
+    provider: generationStep?.provider || null,
+    seed: generationStep?.seed ?? null,
+    created_at: generation.created_at,
+    images: getVersionImages(generation),
+  };
+}
+
+/**
+ * Image used when the shop hasn't chosen one: the 4K upscale when there is one
+ */
+export function getDefaultImageUrl(generation: Generation): string {
+  return generation.metadata.upscaled_image_url || generation.result_image_url || generation.metadata.tryon_url || "";
+}
+
+/**
+ * The default image as a history entry: the last refinement of the latest finished version
+ */
+function getDefaultImage(versions: ResultVersion[]): ResultImage | null {
+  const latest = [...versions].reverse().find(version => version.status === "completed" && version.images.length > 0);
+  return latest?.images.filter(image => image.step !== "removed-bg").pop() || null;
+}
+
+async function getPrimaryImage(versionOf: string): Promise<PrimaryImage | null> {
+  const { data, error } = await supabaseAdmin
+    .from("result_primary_images")
+    .select("version_of, result_id, step, image_url, updated_at")
+    .eq("version_of", versionOf)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch primary image: ${error.message}`);
+  }
+
+  return (data as PrimaryImage) || null;
+}
+
+function toHistory(versions: Generation[], primary: PrimaryImage | null): ResultVersionHistory {
+  const history = versions.map(toResultVersion);
+  const chosenId = primary ? getImageId(primary.result_id, primary.step) : null;
+  const chosen = history.some(version => version.images.some(image => image.id === chosenId));
+
+  return {
+    result_id: getVersionRootId(versions[0]),
+    kind: versions[0].kind,
+    versions: history,
+    primary_image_id: chosen ? chosenId : getDefaultImage(history)?.id || null,
+    primary_chosen: chosen,
+  };
+}
+
+/**
+ * Every version of a shop's result with its stored images
+ * @param resultId - Any version of the result
+ * @returns The history, or null when the result doesn't exist or belongs to another shop
+ */
+export async function getResultVersionHistory(userId: string, resultId: string): Promise<ResultVersionHistory | null> {
+  const generation = await getGeneration(resultId, userId);
+  if (!generation) return null;
+
+  const versions = await listGenerationVersions(generation);
+  return toHistory(versions, await getPrimaryImage(getVersionRootId(generation)));
+}
+
+// =============================================
+// PRIMARY IMAGE
+// =============================================
+
+/**
+ * Make one of a result's stored images its primary image, or go back to the default
+ * @param imageId - An image ID from the result's history, or null for the default image
+ * @returns The updated history, or an error message and the HTTP status to answer with
+ */
+export async function setPrimaryImage(
+  userId: string,
+  resultId: string,
+  imageId: string | null
+): Promise<{ history: ResultVersionHistory | null; error?: string; status?: number }> {
+  const generation = await getGeneration(resultId, userId);
+  if (!generation) {
+    return { history: null, error: "Result not found", status: 404 };
+  }
+
+  const versionOf = getVersionRootId(generation);
+  const versions = await listGenerationVersions(generation);
+
+  if (imageId === null) {
+    const { error } = await supabaseAdmin
+      .from("result_primary_images")
+      .delete()
+      .eq("version_of", versionOf);
+
+    if (error) {
+      throw new Error(`Failed to reset primary image: ${error.message}`);
+    }
+
+    console.log(`🖼️  Result ${versionOf} uses its default image again`);
+    return { history: toHistory(versions, null) };
+  }
+
+  const image = versions.flatMap(getVersionImages).find(candidate => candidate.id === imageId);
+  if (!image) {
+    return { history: null, error: "image_id is not one of this result's images", status: 400 };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("result_primary_images")
+    .upsert({
+      user_id: userId,
+      version_of: versionOf,
+      kind: generation.kind,
+      result_id: image.result_id,
+      step: image.step,
+      image_url: image.image_url,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "version_of" })
+    .select("version_of, result_id, step, image_url, updated_at")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save primary image: ${error?.message}`);
+  }
+
+  console.log(`🖼️  Result ${versionOf} primary image: version ${image.version} ${image.step}`);
+  return { history: toHistory(versions, data as PrimaryImage) };
+}
+
+/**
+ * Chosen primary images of the given results (any version), keyed by first version ID.
+ * Results without a choice are missing.
+ */
+export async function getPrimaryImages(generations: Generation[]): Promise<Map<string, PrimaryImage>> {
+  const versionOfIds = [...new Set(generations.map(getVersionRootId))];
+  const primaries = new Map<string, PrimaryImage>();
+
+  // Chunked so the ID filter stays within URL limits
+  for (let i = 0; i < versionOfIds.length; i += PRIMARY_QUERY_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from("result_primary_images")
+      .select("version_of, result_id, step, image_url, updated_at")
+      .in("version_of", versionOfIds.slice(i, i + PRIMARY_QUERY_CHUNK));
+
+    if (error) {
+      throw new Error(`Failed to fetch primary images: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      primaries.set(row.version_of, row as PrimaryImage);
+    }
+  }
+
+  return primaries;
+}
+
+/**
+ * Image to publish or export for a result: the shop's choice, else the default image
+ */
+export async function getPrimaryImageUrl(generation: Generation): Promise<string> {
+  const primary = await getPrimaryImage(getVersionRootId(generation));
+  return primary?.image_url || getDefaultImageUrl(generation);
+}
@@ -0,0 +1,621 @@
+/**
+ * Storage Lifecycle Service
+ *
+ * Registry of every object the app stores, tied to the row that owns it, plus
+ * the sweep that keeps the buckets clean:
+ * - intermediate step images expire after the tier's retention window; the
+ *   step images a result keeps showing (upscale, watermark, last step) are
+ *   handed to the result as final images when it completes
+ * - objects whose owning rows are gone (deleted projects, failed runs) are
+ *   garbage-collected once nothing references them
+ * - legacy objects stored before the registry are swept by execution ID
+ *
+ * The registry also powers per-shop storage usage reporting.
+ *
+ * Table: storage_objects (id, bucket, path, unique (bucket, path), user_id,
+ * kind, owner_table, owner_id, size_bytes, tier, created_at, expires_at,
+ * last_checked_at, deleted_at, delete_reason)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { GARMENT_PREP, RESULT_CACHE, STORAGE_RETENTION } from "../../config/generation.constants";
+import {
+  STORAGE_BUCKETS,
+  deleteStorageObjects,
+  getPublicUrl,
+  listStorageObjects,
+  parseStorageUrl,
+} from "./storage.service";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type StoredObjectKind =
+  | "upload" // Garments and other files uploaded by the shop
+  | "intermediate" // Pipeline step output (try-on before watermark/upscale, studio step)
+  | "final" // Final pose image and the step images its result shows (upscale, watermark)
+  | "edit" // Edits of a result (background removal)
+  | "garment" // Cleaned garments reused across runs
+  | "model" // Photos of a shop's brand model and its poses
+  | "watermark" // Logos of a shop's watermark profiles
+  | "export"; // Privacy data exports
+
+export type StoredObjectOwnerTable =
+  | "shopify_users"
+  | "pipeline_executions"
+  | "generation_results"
+  | "studio_generations"
+  | "prepared_garments"
+  | "base_models"
+  | "watermark_profiles"
+  | "privacy_requests";
+
+export interface TrackedObjectInput {
+  bucket: string;
+  path: string;
+  user_id: string | null;
+  kind: StoredObjectKind;
+  owner_table: StoredObjectOwnerTable;
+  owner_id: string;
+  size_bytes?: number;
+  tier?: string; // Sets the retention window of intermediates
+}
+
+export interface StoredObjectRecord {
+  id: string;
+  bucket: string;
+  path: string;
+  user_id: string | null;
+  kind: StoredObjectKind;
+  owner_table: StoredObjectOwnerTable;
+  owner_id: string;
+  size_bytes: number | null;
+  tier: string | null;
+  created_at: string;
+  expires_at: string | null;
+  last_checked_at: string | null;
+  deleted_at: string | null;
+}
+
+export interface StorageUsage {
+  total_bytes: number;
+  object_count: number;
+  by_kind: Record<string, { bytes: number; count: number }>;
+  by_bucket: Record<string, { bytes: number; count: number }>;
+}
+
+export interface StorageSweepResult {
+  expired: number;
+  orphaned: number;
+  untracked: number;
+}
+
+// Steps that generate the image; a later step refines it, so only their output can expire
+const GENERATION_STEP_TYPES = ["tryon", "shop-ready", "post-ready"];
+
+const INTERMEDIATE_RECHECK_MS = 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const FINAL_IMAGE_PATTERN = /^generation_([0-9a-f-]{36})_pose_/i;
+
+// =============================================
+// TRACKING
+// =============================================
+
+function getIntermediateExpiry(tier?: string): string {
+  const days = STORAGE_RETENTION.intermediateDays[tier || "free"] ?? STORAGE_RETENTION.intermediateDays.free;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Register a stored object against its owning row.
+ * Never throws - a missing registry entry is picked up by the untracked sweep.
+ */
+export async function trackStoredObject(input: TrackedObjectInput): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from("storage_objects")
+      .upsert(
+        {
+          bucket: input.bucket,
+          path: input.path,
+          user_id: input.user_id,
+          kind: input.kind,
+          owner_table: input.owner_table,
+          owner_id: input.owner_id,
+          size_bytes: input.size_bytes ?? null,
+          tier: input.tier || null,
+          created_at: new Date().toISOString(),
+          expires_at: input.kind === "intermediate" ? getIntermediateExpiry(input.tier) : null,
+          deleted_at: null,
+        },
+        { onConflict: "bucket,path" }
+      );
+
+    if (error) {
+      console.error(`⚠️ Failed to track ${input.bucket}/${input.path}:`, error);
+    }
+  } catch (error) {
+    console.error(`⚠️ Failed to track ${input.bucket}/${input.path}:`, error);
+  }
+}
+
+/**
+ * Hand the step images a completed result references over to it as final
+ * images, so they live as long as the result instead of the tier's
+ * intermediate window. A generation step that a later step refined (the
+ * pre-upscale try-on) stays an intermediate.
+ */
+export async function keepResultStepImages(
+  ownerTable: StoredObjectOwnerTable,
+  ownerId: string,
+  steps: Array<{ stepType: string; status: string; imageUrl?: string }>
+): Promise<void> {
+  const completed = steps.filter(step => step.status === "completed" && step.imageUrl);
+  const kept = completed.filter((step, index) =>
+    index === completed.length - 1 || !GENERATION_STEP_TYPES.includes(step.stepType)
+  );
+
+  for (const step of kept) {
+    const object = parseStorageUrl(step.imageUrl);
+    if (!object) continue;
+
+    const { error } = await supabaseAdmin
+      .from("storage_objects")
+      .update({ kind: "final", owner_table: ownerTable, owner_id: ownerId, expires_at: null })
+      .eq("bucket", object.bucket)
+      .eq("path", object.path)
+      .is("deleted_at", null);
+
+    if (error) {
+      console.error(`⚠️ Failed to keep ${step.stepType} image of ${ownerId}:`, error);
+    }
+  }
+}
+
+/**
+ * Mark objects owned by deleted rows for collection on the next sweep.
+ * Objects still referenced elsewhere (e.g. a cached result reused by another
+ * project) survive the sweep.
+ */
+export async function releaseStoredObjects(ownerTable: StoredObjectOwnerTable, ownerIds: string[]): Promise<void> {
+  if (ownerIds.length === 0) return;
+
+  for (let i = 0; i < ownerIds.length; i += 200) {
+    const { error } = await supabaseAdmin
+      .from("storage_objects")
+      .update({ expires_at: new Date().toISOString() })
+      .eq("owner_table", ownerTable)
+      .in("owner_id", ownerIds.slice(i, i + 200))
+      .is("deleted_at", null);
+
+    if (error) {
+      console.error(`⚠️ Failed to release objects owned by ${ownerTable}:`, error);
+    }
+  }
+}
+
+// =============================================
+// REFERENCE CHECKS
+// =============================================
+
+async function rowExists(table: string, column: string, value: string): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from(table)
+    .select("id", { count: "exact", head: true })
+    .eq(column, value);
+
+  // Treat lookup errors as referenced - never delete on a failed check
+  return !!error || (count || 0) > 0;
+}
+
+async function rowContains(table: string, column: string, value: Record<string, unknown> | unknown[]): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from(table)
+    .select("id", { count: "exact", head: true })
+    .contains(column, value);
+
+  return !!error || (count || 0) > 0;
+}
+
+/**
+ * Whether a result's step output, the result cache or a chosen primary image points at a step image
+ */
+async function isStepImageReferenced(url: string): Promise<boolean> {
+  return (
+    await rowExists("result_primary_images", "image_url", url) ||
+    await rowContains("generation_results", "generation_metadata", { step_results: [{ imageUrl: url }] }) ||
+    await rowContains("studio_generations", "metadata", { step_results: [{ imageUrl: url }] }) ||
+    await rowContains("pipeline_result_cache", "step_results", [{ imageUrl: url }])
+  );
+}
+
+/**
+ * Whether any row still points at an object
+ */
+async function isReferenced(object: StoredObjectRecord): Promise<boolean> {
+  switch (object.kind) {
+    case "final": {
+      // Cached results are reused by other projects, step images through their step output
+      const url = getPublicUrl(object.path, object.bucket);
+      return (
+        await rowExists("generation_results", "supabase_path", object.path) ||
+        await rowExists("studio_generations", "supabase_path", object.path) ||
+        await rowExists("pipeline_result_cache", "storage_path", object.path) ||
+        await isStepImageReferenced(url)
+      );
+    }
+    case "upload": {
+      const url = getPublicUrl(object.path, object.bucket);
+      // Garments, outfit layers, or studio input images stored with the execution's poses
+      return (
+        await rowExists("pipeline_executions", "clothing_image_url", url) ||
+        await rowExists("user_generation_projects", "clothing_image_url", url) ||
+        await rowContains("pipeline_executions", "input", { poses: [{ image_url: url }] }) ||
+        await rowContains("pipeline_executions", "input", { outfit: [{ image_url: url }] }) ||
+        await rowContains("outfits", "layers", [{ image_url: url }])
+      );
+    }
+    case "watermark":
+      // Runs keep a copy of the profile's settings, so a replaced logo stays while they reference it
+      return (
+        await rowExists("watermark_profiles", "image_path", object.path) ||
+        await rowContains("pipeline_executions", "config", { watermark: { image_url: getPublicUrl(object.path, object.bucket) } })
+      );
+    case "edit":
+      // Re-running an edit replaces the URL on the result
+      return rowExists("generation_results", "removed_bg_url", getPublicUrl(object.path, object.bucket));
+    default:
+      return rowExists(object.owner_table, "id", object.owner_id);
+  }
+}
+
+// =============================================
+// DELETION
+// =============================================
+
+async function deleteTrackedObjects(objects: StoredObjectRecord[], reason: string): Promise<number> {
+  if (objects.length === 0) return 0;
+
+  const byBucket = new Map<string, StoredObjectRecord[]>();
+  for (const object of objects) {
+    if (!byBucket.has(object.bucket)) byBucket.set(object.bucket, []);
+    byBucket.get(object.bucket)!.push(object);
+  }
+
+  let deleted = 0;
+  for (const [bucket, bucketObjects] of byBucket) {
+    try {
+      await deleteStorageObjects(bucket, bucketObjects.map(object => object.path));
+    } catch (error) {
+      console.error(`❌ Failed to delete ${bucketObjects.length} object(s) from ${bucket}:`, error);
+      continue;
+    }
+
+    await supabaseAdmin
+      .from("storage_objects")
+      .update({ deleted_at: new Date().toISOString(), delete_reason: reason })
+      .in("id", bucketObjects.map(object => object.id));
+
+    deleted += bucketObjects.length;
+  }
+
+  return deleted;
+}
+
+// =============================================
+// SWEEP
+// =============================================
+
+/**
+ * What to do with an intermediate past its retention window:
+ * - keep: a shop picked it as a primary image, or a result shows it as its
+ *   upscale (results stored before step images were handed to them)
+ * - postpone: the result cache still copies it into new results; checked
+ *   again until the cache entry is pruned
+ * - delete: nothing needs it
+ */
+async function getIntermediateRetention(object: StoredObjectRecord): Promise<"keep" | "postpone" | "delete"> {
+  const url = getPublicUrl(object.path, object.bucket);
+
+  if (
+    await rowExists("result_primary_images", "image_url", url) ||
+    await rowExists("generation_results", "generation_metadata->>upscaled_image_url", url) ||
+    await rowExists("studio_generations", "metadata->>upscaled_image_url", url)
+  ) {
+    return "keep";
+  }
+
+  if (await rowContains("pipeline_result_cache", "step_results", [{ imageUrl: url }])) {
+    return "postpone";
+  }
+
+  return "delete";
+}
+
+/**
+ * Delete intermediates past their retention window, and released objects
+ * nothing references any more
+ */
+async function expireObjects(): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("storage_objects")
+    .select("*")
+    .is("deleted_at", null)
+    .lt("expires_at", new Date().toISOString())
+    .order("expires_at", { ascending: true })
+    .limit(STORAGE_RETENTION.sweepBatchSize);
+
+  if (error || !data) {
+    console.error("❌ Failed to fetch expired objects:", error);
+    return 0;
+  }
+
+  const expired: StoredObjectRecord[] = [];
+  const stillReferenced: string[] = [];
+  const promoted: string[] = [];
+  const postponed: string[] = [];
+
+  for (const object of data as StoredObjectRecord[]) {
+    if (object.kind === "intermediate") {
+      const retention = await getIntermediateRetention(object);
+      if (retention === "keep") promoted.push(object.id);
+      else if (retention === "postpone") postponed.push(object.id);
+      else expired.push(object);
+    } else if (!(await isReferenced(object))) {
+      expired.push(object);
+    } else {
+      stillReferenced.push(object.id);
+    }
+  }
+
+  if (stillReferenced.length > 0) {
+    // Left to the orphan check, which re-tests references on every pass
+    await supabaseAdmin.from("storage_objects").update({ expires_at: null }).in("id", stillReferenced);
+  }
+
+  if (promoted.length > 0) {
+    // Kept like a result's own step images, for as long as something points at them
+    await supabaseAdmin.from("storage_objects").update({ kind: "final", expires_at: null }).in("id", promoted);
+  }
+
+  if (postponed.length > 0) {
+    await supabaseAdmin
+      .from("storage_objects")
+      .update({ expires_at: new Date(Date.now() + INTERMEDIATE_RECHECK_MS).toISOString() })
+      .in("id", postponed);
+  }
+
+  return deleteTrackedObjects(expired, "expired");
+}
+
+/**
+ * Re-check the least recently checked objects and delete the unreferenced ones
+ */
+async function collectOrphans(): Promise<number> {
+  const graceCutoff = new Date(Date.now() - STORAGE_RETENTION.orphanGraceHours * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from("storage_objects")
+    .select("*")
+    .is("deleted_at", null)
+    .lt("created_at", graceCutoff)
+    .order("last_checked_at", { ascending: true, nullsFirst: true })
+    .limit(STORAGE_RETENTION.sweepBatchSize);
+
+  if (error || !data) {
+    console.error("❌ Failed to fetch objects for orphan check:", error);
+    return 0;
+  }
+
+  const orphans: StoredObjectRecord[] = [];
+  const referenced: string[] = [];
+
+  for (const object of data as StoredObjectRecord[]) {
+    if (await isReferenced(object)) {
+      referenced.push(object.id);
+    } else {
+      orphans.push(object);
+    }
+  }
+
+  if (referenced.length > 0) {
+    await supabaseAdmin
+      .from("storage_objects")
+      .update({ last_checked_at: new Date().toISOString() })
+      .in("id", referenced);
+  }
+
+  return deleteTrackedObjects(orphans, "orphaned");
+}
+
+/**
+ * Paths of a bucket that are in the registry (the expiry and orphan checks handle those)
+ */
+async function getRegisteredPaths(bucket: string, paths: string[]): Promise<Set<string>> {
+  const registered = new Set<string>();
+
+  for (let i = 0; i < paths.length; i += 200) {
+    const { data, error } = await supabaseAdmin
+      .from("storage_objects")
+      .select("path")
+      .eq("bucket", bucket)
+      .in("path", paths.slice(i, i + 200));
+
+    if (error) {
+      throw new Error(`Failed to look up registered objects: ${error.message}`);
+    }
+    (data || []).forEach((row: any) => registered.add(row.path));
+  }
+
+  return registered;
+}
+
+/**
+ * Objects stored before the registry existed: step images live under
+ * <execution_id>/ and final images are named generation_<execution_id>_pose_*.
+ * Unregistered objects whose execution row is gone are deleted once no
+ * result, cached result or primary image points at them (cache hits reuse
+ * another run's images).
+ */
+async function sweepUntrackedGenerations(): Promise<number> {
+  const bucket = STORAGE_BUCKETS.SHOPIFY_GENERATIONS;
+  const { data: entries, error } = await supabaseAdmin.storage
+    .from(bucket)
+    .list("", { limit: 1000, sortBy: { column: "name", order: "asc" } });
+
+  if (error || !entries) {
+    console.error("❌ Failed to list generations bucket:", error);
+    return 0;
+  }
+
+  const executionPaths = new Map<string, string[]>();
+  for (const entry of entries) {
+    const executionId = !entry.id && UUID_PATTERN.test(entry.name)
+      ? entry.name
+      : entry.name.match(FINAL_IMAGE_PATTERN)?.[1];
+    if (!executionId) continue;
+
+    if (!executionPaths.has(executionId)) executionPaths.set(executionId, []);
+    executionPaths.get(executionId)!.push(entry.name);
+  }
+
+  const executionIds = Array.from(executionPaths.keys());
+  const existing = new Set<string>();
+
+  for (let i = 0; i < executionIds.length; i += 200) {
+    const { data, error: lookupError } = await supabaseAdmin
+      .from("pipeline_executions")
+      .select("id")
+      .in("id", executionIds.slice(i, i + 200));
+
+    if (lookupError) {
+      console.error("❌ Failed to look up executions for untracked sweep:", lookupError);
+      return 0;
+    }
+    (data || []).forEach((row: any) => existing.add(row.id));
+  }
+
+  const candidates: string[] = [];
+  for (const [executionId, names] of executionPaths) {
+    if (existing.has(executionId)) continue;
+
+    for (const name of names) {
+      if (name === executionId) {
+        candidates.push(...await listStorageObjects(bucket, executionId));
+      } else {
+        candidates.push(name);
+      }
+    }
+  }
+
+  if (candidates.length === 0) return 0;
+
+  let registered: Set<string>;
+  try {
+    registered = await getRegisteredPaths(bucket, candidates);
+  } catch (lookupError) {
+    console.error("❌ Failed to look up registered objects for untracked sweep:", lookupError);
+    return 0;
+  }
+
+  const paths: string[] = [];
+  const unregistered = candidates.filter(candidate => !registered.has(candidate));
+  for (const path of unregistered.slice(0, STORAGE_RETENTION.sweepBatchSize)) {
+    // Checked like a final image: its path, its URL in step output, the cache or a primary image
+    const object = { bucket, path, kind: "final" } as StoredObjectRecord;
+    if (!(await isReferenced(object))) {
+      paths.push(path);
+    }
+  }
+
+  if (paths.length === 0) return 0;
+
+  return deleteStorageObjects(bucket, paths);
+}
+
+/**
+ * Drop cache entries past their age limit so their images can be collected
+ */
+async function pruneResultCache(): Promise<void> {
+  const cutoff = new Date(Date.now() - RESULT_CACHE.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await supabaseAdmin.from("pipeline_result_cache").delete().lt("created_at", cutoff);
+
+  if (error) {
+    console.error("❌ Failed to prune result cache:", error);
+  }
+}
+
+/**
+ * Drop cleaned garments no run has used for a while so their images can be collected
+ */
+async function pruneIdleGarments(): Promise<void> {
+  const cutoff = new Date(Date.now() - GARMENT_PREP.maxIdleDays * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await supabaseAdmin.from("prepared_garments").delete().lt("last_used_at", cutoff);
+
+  if (error) {
+    console.error("❌ Failed to prune prepared garments:", error);
+  }
+}
+
+/**
+ * One pass of the storage lifecycle (called by the pipeline worker)
+ */
+export async function runStorageSweep(): Promise<StorageSweepResult> {
+  await pruneResultCache();
+  await pruneIdleGarments();
+
+  const result: StorageSweepResult = {
+    expired: await expireObjects(),
+    orphaned: await collectOrphans(),
+    untracked: await sweepUntrackedGenerations(),
+  };
+
+  if (result.expired + result.orphaned + result.untracked > 0) {
+    console.log(`🧹 Storage sweep: ${result.expired} expired, ${result.orphaned} orphaned, ${result.untracked} untracked object(s) deleted`);
+  }
+
+  return result;
+}
+
+// =============================================
+// USAGE
+// =============================================
+
+/**
+ * Bytes and object counts a shop currently has stored
+ */
+export async function getStorageUsage(userId: string): Promise<StorageUsage> {
+  const usage: StorageUsage = { total_bytes: 0, object_count: 0, by_kind: {}, by_bucket: {} };
+
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supabaseAdmin
+      .from("storage_objects")
+      .select("bucket, kind, size_bytes")
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .range(from, from + 999);
+
+    if (error) {
+      throw new Error(`Failed to fetch storage usage: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const bytes = row.size_bytes || 0;
+      usage.total_bytes += bytes;
+      usage.object_count++;
+
+      usage.by_kind[row.kind] = usage.by_kind[row.kind] || { bytes: 0, count: 0 };
+      usage.by_kind[row.kind].bytes += bytes;
+      usage.by_kind[row.kind].count++;
+
+      usage.by_bucket[row.bucket] = usage.by_bucket[row.bucket] || { bytes: 0, count: 0 };
+      usage.by_bucket[row.bucket].bytes += bytes;
+      usage.by_bucket[row.bucket].count++;
+    }
+
+    if (!data || data.length < 1000) break;
+  }
+
+  return usage;
+}
@@ -14,6 +14,7 @@ export const STORAGE_BUCKETS = {
   USER_IMAGES: 'user-images',
   BRAND_ASSETS: 'brand-assets',
   SHOPIFY_GENERATIONS: 'shopify-generations', // New bucket with 50MB limit for Shopify app
+  PRIVACY_EXPORTS: 'privacy-exports', // Private - GDPR data exports, served via signed URLs
 } as const;
 
 // =============================================
@@ -212,6 +213,89 @@ export async function deleteFromUserImagesBucket(filePath: string): Promise<void
   }
 }
 
+/**
+ * Delete many files from a bucket (in chunks the storage API accepts)
+ * @param bucket - Storage bucket name
+ * @param filePaths - Paths to delete
+ * @returns Number of files removed
+ */
+export async function deleteStorageObjects(bucket: string, filePaths: string[]): Promise<number> {
+  let removed = 0;
+
+  for (let i = 0; i < filePaths.length; i += 100) {
+    const { data, error } = await supabaseAdmin.storage
+      .from(bucket)
+      .remove(filePaths.slice(i, i + 100));
+
+    if (error) {
+      console.error(`Delete error from ${bucket} bucket:`, error);
+      throw new Error(`Failed to delete from ${bucket} bucket: ${error.message}`);
+    }
+
+    removed += data?.length || 0;
+  }
+
+  return removed;
+}
+
+// =============================================
+// LOOKUP OPERATIONS
+// =============================================
+
+/**
+ * Resolve a public storage URL to its bucket and path
+ * @param url - Public URL of a file in one of STORAGE_BUCKETS
+ * @returns Bucket and path, or null for URLs outside our storage
+ */
+export function parseStorageUrl(url: string | null | undefined): { bucket: string; path: string } | null {
+  if (!url) return null;
+
+  const match = url.match(/\/storage\/v1\/object\/(?:public|sign)\/([^/]+)\/([^?]+)/);
+  if (!match) return null;
+
+  const bucket = match[1];
+  if (!(Object.values(STORAGE_BUCKETS) as string[]).includes(bucket)) return null;
+
+  return { bucket, path: decodeURIComponent(match[2]) };
+}
+
+/**
+ * List every file under a folder, including nested folders
+ * @param bucket - Storage bucket name
+ * @param prefix - Folder path (no trailing slash)
+ * @returns Full paths of the files
+ */
+export async function listStorageObjects(bucket: string, prefix: string): Promise<string[]> {
+  const paths: string[] = [];
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabaseAdmin.storage
+      .from(bucket)
+      .list(prefix, { limit: 1000, offset });
+
+    if (error) {
+      console.error(`List error in ${bucket} bucket:`, error);
+      throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`);
+    }
+
+    for (const item of data || []) {
+      const itemPath = prefix ? `${prefix}/${item.name}` : item.name;
+      // Folders have no id
+      if (item.id) {
+        paths.push(itemPath);
+      } else {
+        paths.push(...await listStorageObjects(bucket, itemPath));
+      }
+    }
+
+    if (!data || data.length < 1000) break;
+    offset += data.length;
+  }
+
+  return paths;
+}
+
 // =============================================
 // UTILITY FUNCTIONS
 // =============================================
@@ -1,9 +1,10 @@
 import Replicate from "replicate";
-import { consumeUserCredits, addUserCredits } from "../credits/credits.server";
+import { randomUUID } from "crypto";
+import { reserveCredits, captureCredits, releaseCredits } from "../credits/credit-ledger.server";
+import { getFeatureCost } from "../pricing";
 
 // Configuration
 const UPSCALE_MODEL = "philz1337x/crystal-upscaler";
-const COST = 1000;
 const TIMEOUT_MS = 240000; // 4 minutes
 const CHECK_INTERVAL_MS = 2000;
 
@@ -32,7 +33,7 @@ function validateImageUrl(url: string) {
 
 /**
  * Upscale user image using Replicate Crystal Upscaler.
- * Handles credit deduction, timeout polling, and refund on failure.
+ * Holds credits up front, captures them on success and releases them on failure.
  */
 export async function upscaleImage(
   imageUrl: string, 
@@ -48,17 +49,20 @@ export async function upscaleImage(
   validateImageUrl(imageUrl);
   const validScale = validateScaleFactor(scaleFactor);
   
-  // 2. Check & Deduct Credits
-  // We use consumeUserCredits which handles the DB update.
+  // 2. Hold Credits (priced by the pricing catalog)
+  const cost = getFeatureCost("upscale");
   // We'll throw 402 if it fails due to insufficient funds (handled by caller or here).
-  const creditResult = await consumeUserCredits(
-    userId, 
-    COST, 
-    `4K Upscale (x${validScale})`, 
-    "upscale"
-  );
-
-  if (!creditResult.success) {
+  const operationKey = `upscale:${randomUUID()}`;
+  const description = `4K Upscale (x${validScale})`;
+  const creditResult = await reserveCredits({
+    user_id: userId,
+    amount: cost,
+    idempotency_key: operationKey,
+    description,
+    feature_type: "upscale",
+  });
+
+  if (!creditResult.success || !creditResult.hold) {
     // If error is insufficient credits, we should let the caller handle the 402 response,
     // or throw a specific error. The prompt asks to "Return a 402 Payment Required error".
     // Since this is a service function, we throw an error that the route handler can catch.
@@ -68,8 +72,10 @@ export async function upscaleImage(
        err.status = 402;
        throw err;
     }
-    throw new Error(creditResult.error || "Failed to deduct credits");
+    throw new Error(creditResult.error || "Failed to reserve credits");
   }
+
+  const holdId = creditResult.hold.id;
   
   try {
     const replicate = new Replicate({ auth: replicateToken });
@@ -124,20 +130,14 @@ export async function upscaleImage(
         throw new Error("Replicate completed but returned no output URL");
     }
 
+    await captureCredits(holdId, cost, `${operationKey}:capture`, description);
+
     return { image_url: outputUrl }; 
 
   } catch (error) {
-    console.error("Upscale failed, refunding credits:", error);
-    // 5. Refund Credits on Failure
-    // We use addUserCredits to refund.
-    // Note: addUserCredits (as read from code) uses 'purchase' or 'bonus'.
-    // Typical refund usually just adds back. We can mark it as 'adjustment' or similar if supported,
-    // but the generic add function works.
-    await addUserCredits(
-        userId, 
-        COST, 
-        "Refund: Upscale failed"
-    ); 
+    console.error("Upscale failed, releasing credits:", error);
+    // 5. Release the hold on Failure
+    await releaseCredits(holdId, null, `${operationKey}:release`, "Refund: Upscale failed");
     throw error;
   }
 }
@@ -6,6 +6,7 @@ export interface VertexGenerationInput {
   referenceImageUrls: string[];
   prompt: string;
   aspectRatio?: string;
+  seed?: number;
 }
 
 export interface VertexGenerationResult {
@@ -144,7 +145,7 @@ export function isVertexAIConfigured(): boolean {
 }
 
 export async function generateImageVertex(input: VertexGenerationInput): Promise<VertexGenerationResult> {
-  const { referenceImageUrls, prompt, aspectRatio = "1:1" } = input;
+  const { referenceImageUrls, prompt, aspectRatio = "1:1", seed } = input;
   const vertexAI = getVertexAIClient();
 
   // 1. Prepare Reference Images (Fetch & Convert to Base64)
@@ -185,6 +186,7 @@ export async function generateImageVertex(input: VertexGenerationInput): Promise
     contents: [{ role: "user", parts }],
     config: {
       responseModalities: [Modality.TEXT, Modality.IMAGE as any],
+      ...(seed !== undefined && { seed }),
       safetySettings: [
         { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
         { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
@@ -0,0 +1,329 @@
+/**
+ * Watermark Profile Service
+ *
+ * A shop's saved watermarks (logo or text, position, opacity, scale,
+ * tiling). Paid shops pick a profile per run to overlay their own branding;
+ * one profile can be marked as the default the studio preselects.
+ * Logos are stored in the brand-assets bucket under `${userId}/watermarks/`.
+ *
+ * Table: watermark_profiles (id, user_id, name, kind, image_url, image_path,
+ * text, position, opacity, scale, tiled, is_default, created_at, updated_at)
+ */
+
+import { supabaseAdmin } from "../storage/supabase.server";
+import { STORAGE_BUCKETS, generateUniqueFileName, getBrandAssetsPublicUrl } from "./storage.service";
+import { releaseStoredObjects, trackStoredObject } from "./storage-lifecycle.service";
+import { validateWatermarkSettings, type WatermarkSettings } from "./watermark.service";
+import { WATERMARK } from "../../config/generation.constants";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface WatermarkProfile extends WatermarkSettings {
+  id: string;
+  user_id: string;
+  name: string;
+  image_path: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatermarkProfileInput extends Partial<WatermarkSettings> {
+  name?: string;
+  is_default?: boolean;
+}
+
+export interface WatermarkLogo {
+  buffer: Buffer;
+  contentType: string;
+}
+
+const LOGO_CONTENT_TYPES = ["image/png", "image/webp"];
+
+// =============================================
+// HELPERS
+// =============================================
+
+/**
+ * The settings of a profile, as used by the pipeline
+ */
+export function toWatermarkSettings(profile: WatermarkProfile): WatermarkSettings {
+  return {
+    kind: profile.kind,
+    image_url: profile.kind === "image" ? profile.image_url : null,
+    text: profile.kind === "text" ? profile.text : null,
+    position: profile.position,
+    opacity: Number(profile.opacity),
+    scale: Number(profile.scale),
+    tiled: !!profile.tiled,
+  };
+}
+
+/**
+ * Check an uploaded logo
+ * @returns Error message, or null when the logo is acceptable
+ */
+export function validateWatermarkLogo(logo: WatermarkLogo): string | null {
+  if (!LOGO_CONTENT_TYPES.includes(logo.contentType)) {
+    return "Logos must be PNG or WebP (transparent backgrounds work best)";
+  }
+  if (logo.buffer.length > WATERMARK.maxLogoMb * 1024 * 1024) {
+    return `Logos must be ${WATERMARK.maxLogoMb}MB or smaller`;
+  }
+  return null;
+}
+
+/**
+ * Read watermark settings from a form (create, update and preview share the fields)
+ */
+export async function readWatermarkForm(formData: FormData): Promise<{ input: WatermarkProfileInput; logo: WatermarkLogo | null }> {
+  const input: WatermarkProfileInput = {};
+  const field = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === "string" ? value : null;
+  };
+
+  if (field("name") !== null) input.name = field("name")!;
+  if (field("kind") !== null) input.kind = field("kind") as WatermarkSettings["kind"];
+  if (field("text") !== null) input.text = field("text");
+  if (field("position") !== null) input.position = field("position") as WatermarkSettings["position"];
+  if (field("opacity") !== null) input.opacity = Number(field("opacity"));
+  if (field("scale") !== null) input.scale = Number(field("scale"));
+  if (field("tiled") !== null) input.tiled = field("tiled") === "true";
+  if (field("is_default") !== null) input.is_default = field("is_default") === "true";
+
+  const file = formData.get("logo");
+  const logo = file && typeof file !== "string" && file.size > 0
+    ? { buffer: Buffer.from(await file.arrayBuffer()), contentType: file.type }
+    : null;
+
+  return { input, logo };
+}
+
+async function uploadLogo(userId: string, profileId: string, logo: WatermarkLogo): Promise<{ url: string; path: string }> {
+  const extension = logo.contentType === "image/webp" ? "webp" : "png";
+  const filePath = generateUniqueFileName(extension, `${userId}/watermarks`);
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKETS.BRAND_ASSETS)
+    .upload(filePath, logo.buffer, { contentType: logo.contentType, upsert: false });
+
+  if (error || !data) {
+    throw new Error(`Failed to upload watermark logo: ${error?.message}`);
+  }
+
+  await trackStoredObject({
+    bucket: STORAGE_BUCKETS.BRAND_ASSETS,
+    path: data.path,
+    user_id: userId,
+    kind: "watermark",
+    owner_table: "watermark_profiles",
+    owner_id: profileId,
+    size_bytes: logo.buffer.length,
+  });
+
+  return { url: getBrandAssetsPublicUrl(data.path), path: data.path };
+}
+
+async function clearDefault(userId: string, exceptId: string): Promise<void> {
+  await supabaseAdmin
+    .from("watermark_profiles")
+    .update({ is_default: false })
+    .eq("user_id", userId)
+    .eq("is_default", true)
+    .neq("id", exceptId);
+}
+
+// =============================================
+// OPERATIONS
+// =============================================
+
+export async function listWatermarkProfiles(userId: string): Promise<WatermarkProfile[]> {
+  const { data, error } = await supabaseAdmin
+    .from("watermark_profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch watermark profiles: ${error.message}`);
+  }
+
+  return (data || []) as WatermarkProfile[];
+}
+
+/**
+ * A shop's profile, or null when it doesn't exist or belongs to another shop
+ */
+export async function getWatermarkProfile(userId: string, profileId: string): Promise<WatermarkProfile | null> {
+  const { data, error } = await supabaseAdmin
+    .from("watermark_profiles")
+    .select("*")
+    .eq("id", profileId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch watermark profile: ${error.message}`);
+  }
+
+  return (data as WatermarkProfile) || null;
+}
+
+/**
+ * Settings after applying a form's changes on top of a base (an existing
+ * profile when updating or previewing one)
+ */
+export function mergeWatermarkSettings(
+  base: WatermarkSettings | null,
+  input: WatermarkProfileInput,
+  logoUrl?: string | null
+): Partial<WatermarkSettings> {
+  return {
+    ...(base || { tiled: false }),
+    ...(logoUrl && { image_url: logoUrl }),
+    ...(input.kind !== undefined && { kind: input.kind }),
+    ...(input.text !== undefined && { text: input.text?.trim() || null }),
+    ...(input.position !== undefined && { position: input.position }),
+    ...(input.opacity !== undefined && { opacity: input.opacity }),
+    ...(input.scale !== undefined && { scale: input.scale }),
+    ...(input.tiled !== undefined && { tiled: input.tiled }),
+  };
+}
+
+/**
+ * Save a new profile. The shop's first profile becomes its default.
+ * @returns The profile, or an error message when the input is invalid
+ */
+export async function createWatermarkProfile(
+  userId: string,
+  input: WatermarkProfileInput,
+  logo: WatermarkLogo | null
+): Promise<{ profile: WatermarkProfile | null; error?: string }> {
+  const { count } = await supabaseAdmin
+    .from("watermark_profiles")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if ((count || 0) >= WATERMARK.maxProfiles) {
+    return { profile: null, error: `You can save up to ${WATERMARK.maxProfiles} watermark profiles` };
+  }
+
+  const invalidLogo = logo ? validateWatermarkLogo(logo) : null;
+  // Checked with a stand-in logo URL first so nothing is uploaded for an invalid profile
+  const invalid = invalidLogo || validateWatermarkSettings(mergeWatermarkSettings(null, input, logo ? "pending" : null));
+  if (invalid) {
+    return { profile: null, error: invalid };
+  }
+
+  const profileId = crypto.randomUUID();
+  const uploaded = logo ? await uploadLogo(userId, profileId, logo) : null;
+  const settings = mergeWatermarkSettings(null, input, uploaded?.url);
+  const isDefault = input.is_default === true || (count || 0) === 0;
+
+  const { data, error } = await supabaseAdmin
+    .from("watermark_profiles")
+    .insert({
+      id: profileId,
+      user_id: userId,
+      name: input.name?.trim() || "My watermark",
+      ...settings,
+      image_url: settings.kind === "image" ? settings.image_url : null,
+      image_path: settings.kind === "image" ? uploaded?.path || null : null,
+      is_default: isDefault,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    await releaseStoredObjects("watermark_profiles", [profileId]);
+    throw new Error(`Failed to save watermark profile: ${error?.message}`);
+  }
+
+  if (isDefault) {
+    await clearDefault(userId, profileId);
+  }
+
+  console.log(`💧 Saved ${settings.kind} watermark profile ${profileId} for user ${userId}`);
+  return { profile: data as WatermarkProfile };
+}
+
+/**
+ * Update a profile. A new logo replaces the old one.
+ * @returns The profile (null when it doesn't exist or belongs to another shop),
+ * or an error message when the input is invalid
+ */
+export async function updateWatermarkProfile(
+  userId: string,
+  profileId: string,
+  input: WatermarkProfileInput,
+  logo: WatermarkLogo | null
+): Promise<{ profile: WatermarkProfile | null; error?: string }> {
+  const existing = await getWatermarkProfile(userId, profileId);
+  if (!existing) return { profile: null };
+
+  const base = { ...toWatermarkSettings(existing), image_url: existing.image_url };
+  const invalidLogo = logo ? validateWatermarkLogo(logo) : null;
+  const invalid = invalidLogo || validateWatermarkSettings(mergeWatermarkSettings(base, input, logo ? "pending" : null));
+  if (invalid) {
+    return { profile: null, error: invalid };
+  }
+
+  const uploaded = logo ? await uploadLogo(userId, profileId, logo) : null;
+  const settings = mergeWatermarkSettings(base, input, uploaded?.url);
+
+  const { data, error } = await supabaseAdmin
+    .from("watermark_profiles")
+    .update({
+      ...settings,
+      ...(input.name !== undefined && { name: input.name.trim() || existing.name }),
+      ...(input.is_default === true && { is_default: true }),
+      image_path: uploaded?.path || existing.image_path,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", profileId)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update watermark profile: ${error?.message}`);
+  }
+
+  if (input.is_default === true) {
+    await clearDefault(userId, profileId);
+  }
+
+  // A replaced logo is collected once no profile or run uses it
+  if (uploaded && existing.image_path) {
+    await releaseStoredObjects("watermark_profiles", [profileId]);
+  }
+
+  return { profile: data as WatermarkProfile };
+}
+
+/**
+ * Delete a profile. Its logo is collected by the storage sweep.
+ * @returns false when the profile doesn't exist or belongs to another shop
+ */
+export async function deleteWatermarkProfile(userId: string, profileId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("watermark_profiles")
+    .delete()
+    .eq("id", profileId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete watermark profile: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) return false;
+
+  await releaseStoredObjects("watermark_profiles", [profileId]);
+  console.log(`🗑️  Deleted watermark profile ${profileId}`);
+  return true;
+}
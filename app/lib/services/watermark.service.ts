@@ -2,92 +2,251 @@ import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs';
 import { downloadImageAsBuffer, uploadToShopifyGenerationsBucket } from './storage.service';
+import { WATERMARK } from '../../config/generation.constants';
 
 /**
  * Service to handle image watermarking.
- * 
+ *
  * Requirement:
  * - Enforce watermark for "free" tier users.
  * - Overlay a logo/text on the generated image.
+ *
+ * Paid tiers can instead opt in to their own watermark profile
+ * (see watermark-profile.service) as an optional pipeline step.
  */
 
-export async function applyWatermark(imageUrl: string, userId: string): Promise<string> {
+// =============================================
+// TYPES
+// =============================================
+
+export const WATERMARK_POSITIONS = [
+    'northwest', 'north', 'northeast',
+    'west', 'center', 'east',
+    'southwest', 'south', 'southeast',
+] as const;
+
+export type WatermarkPosition = typeof WATERMARK_POSITIONS[number];
+
+export interface WatermarkSettings {
+    kind: 'image' | 'text';
+    image_url?: string | null; // Logo for image marks; null on the Trayve mark uses the bundled file
+    text?: string | null;
+    position: WatermarkPosition;
+    opacity: number; // 0-1
+    scale: number; // Width of the mark relative to the image width
+    tiled: boolean; // Repeat the mark across the whole image (position is ignored)
+}
+
+/**
+ * The mark every free-tier image carries
+ */
+export const TRAYVE_WATERMARK: WatermarkSettings = {
+    kind: 'image',
+    image_url: null,
+    text: 'Trayve App',
+    position: 'southeast',
+    opacity: 0.5,
+    scale: 0.3,
+    tiled: false,
+};
+
+// =============================================
+// TIER RULES
+// =============================================
+
+/**
+ * Whether a tier may use its own watermark profiles
+ */
+export function canCustomizeWatermark(tier: string): boolean {
+    return tier !== 'free';
+}
+
+/**
+ * The watermark a run actually gets: free tier is locked to the Trayve mark
+ */
+export function resolveWatermark(tier: string, settings?: WatermarkSettings | null): WatermarkSettings {
+    if (!canCustomizeWatermark(tier) || !settings) return TRAYVE_WATERMARK;
+    return settings;
+}
+
+/**
+ * Check watermark settings from a request
+ * @returns Error message, or null when the settings are valid
+ */
+export function validateWatermarkSettings(settings: Partial<WatermarkSettings>): string | null {
+    if (settings.kind !== 'image' && settings.kind !== 'text') {
+        return 'kind must be image or text';
+    }
+    if (settings.kind === 'image' && !settings.image_url) {
+        return 'A logo is required for image watermarks';
+    }
+    if (settings.kind === 'text') {
+        const text = settings.text?.trim() || '';
+        if (!text) return 'Text is required for text watermarks';
+        if (text.length > WATERMARK.maxTextLength) return `Text must be ${WATERMARK.maxTextLength} characters or fewer`;
+    }
+    if (!WATERMARK_POSITIONS.includes(settings.position as WatermarkPosition)) {
+        return `position must be one of ${WATERMARK_POSITIONS.join(', ')}`;
+    }
+    if (typeof settings.opacity !== 'number' || settings.opacity < WATERMARK.opacity.min || settings.opacity > WATERMARK.opacity.max) {
+        return `opacity must be between ${WATERMARK.opacity.min} and ${WATERMARK.opacity.max}`;
+    }
+    if (typeof settings.scale !== 'number' || settings.scale < WATERMARK.scale.min || settings.scale > WATERMARK.scale.max) {
+        return `scale must be between ${WATERMARK.scale.min} and ${WATERMARK.scale.max}`;
+    }
+    if (typeof settings.tiled !== 'boolean') {
+        return 'tiled must be true or false';
+    }
+    return null;
+}
+
+// =============================================
+// RENDERING
+// =============================================
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function renderTextMark(text: string, width: number): Buffer {
+    // Rough glyph width of a bold sans-serif face, so the text fills the mark width
+    const fontSize = Math.max(12, Math.floor(width / Math.max(text.length * 0.62, 1)));
+    const height = Math.ceil(fontSize * 1.4);
+    return Buffer.from(`
+        <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+          <text x="50%" y="${Math.round(fontSize * 1.05)}" text-anchor="middle"
+            font-family="Arial, sans-serif" font-weight="bold" font-size="${fontSize}px"
+            fill="#ffffff" stroke="rgba(0,0,0,0.35)" stroke-width="${Math.max(1, Math.round(fontSize / 30))}">${escapeXml(text)}</text>
+        </svg>
+    `);
+}
+
+/**
+ * The mark sized for an image, with the profile's opacity applied
+ */
+async function renderMark(settings: WatermarkSettings, imgWidth: number, imgHeight: number, logo?: Buffer): Promise<Buffer> {
+    const markWidth = Math.max(16, Math.round(imgWidth * settings.scale));
+    const maxHeight = Math.max(16, Math.round(imgHeight * 0.5));
+
+    let source: Buffer;
+    if (settings.kind === 'image' && logo) {
+        source = logo;
+    } else if (settings.kind === 'image' && settings.image_url) {
+        source = await downloadImageAsBuffer(settings.image_url);
+    } else {
+        // The Trayve mark uses public/watermark.png when it is bundled, its text otherwise
+        const bundledPath = path.resolve(process.cwd(), 'public', 'watermark.png');
+        source = settings.kind === 'image' && fs.existsSync(bundledPath)
+            ? fs.readFileSync(bundledPath)
+            : renderTextMark(settings.text || TRAYVE_WATERMARK.text!, markWidth);
+    }
+
+    const sized = await sharp(source)
+        .resize({ width: markWidth, height: maxHeight, fit: 'inside' })
+        .ensureAlpha()
+        .png()
+        .toBuffer();
+
+    // Scale the mark's alpha channel by the opacity
+    return sharp(sized)
+        .composite([{
+            input: Buffer.from([255, 255, 255, Math.round(255 * settings.opacity)]),
+            raw: { width: 1, height: 1, channels: 4 },
+            tile: true,
+            blend: 'dest-in',
+        }])
+        .png()
+        .toBuffer();
+}
+
+function getMarkOffset(
+    position: WatermarkPosition,
+    image: { width: number; height: number },
+    mark: { width: number; height: number }
+): { left: number; top: number } {
+    const margin = Math.round(Math.min(image.width, image.height) * WATERMARK.marginPercent / 100);
+    const column = position.endsWith('west') ? 0 : position.endsWith('east') ? 2 : 1;
+    const row = position.startsWith('north') ? 0 : position.startsWith('south') ? 2 : 1;
+
+    const left = [margin, Math.round((image.width - mark.width) / 2), image.width - mark.width - margin][column];
+    const top = [margin, Math.round((image.height - mark.height) / 2), image.height - mark.height - margin][row];
+
+    return { left: Math.max(0, left), top: Math.max(0, top) };
+}
+
+/**
+ * Composite a watermark onto an image
+ * @param logo - Logo to use instead of downloading settings.image_url (previews of unsaved logos)
+ * @returns PNG buffer of the watermarked image
+ */
+export async function renderWatermark(imageBuffer: Buffer, settings: WatermarkSettings, logo?: Buffer): Promise<Buffer> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const imgWidth = metadata.width || 1024;
+    const imgHeight = metadata.height || 1024;
+
+    let mark = await renderMark(settings, imgWidth, imgHeight, logo);
+    const markMeta = await sharp(mark).metadata();
+    const markSize = { width: markMeta.width || 1, height: markMeta.height || 1 };
+
+    if (settings.tiled) {
+        // Pad the mark so the tiles don't touch
+        const gapX = Math.round(markSize.width * WATERMARK.tileGapPercent / 100);
+        const gapY = Math.round(markSize.height * WATERMARK.tileGapPercent / 100);
+        mark = await sharp(mark)
+            .extend({ right: gapX, bottom: gapY, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+            .png()
+            .toBuffer();
+
+        return sharp(imageBuffer)
+            .composite([{ input: mark, tile: true, gravity: 'northwest' }])
+            .png()
+            .toBuffer();
+    }
+
+    const { left, top } = getMarkOffset(settings.position, { width: imgWidth, height: imgHeight }, markSize);
+    return sharp(imageBuffer)
+        .composite([{ input: mark, left, top }])
+        .png()
+        .toBuffer();
+}
+
+/**
+ * Blank canvas for previews when the shop hasn't picked an image
+ */
+export async function createPreviewCanvas(): Promise<Buffer> {
+    return sharp({
+        create: {
+            width: WATERMARK.previewSize.width,
+            height: WATERMARK.previewSize.height,
+            channels: 3,
+            background: { r: 148, g: 148, b: 156 },
+        },
+    })
+        .png()
+        .toBuffer();
+}
+
+// =============================================
+// PIPELINE STEP
+// =============================================
+
+export async function applyWatermark(
+    imageUrl: string,
+    userId: string,
+    settings: WatermarkSettings = TRAYVE_WATERMARK
+): Promise<string> {
     try {
-        console.log(`💧 Applying watermark for user ${userId} on image: ${imageUrl}`);
+        console.log(`💧 Applying ${settings === TRAYVE_WATERMARK ? 'Trayve' : 'shop'} watermark for user ${userId} on image: ${imageUrl}`);
 
-        // 1. Download the original image
         const imageBuffer = await downloadImageAsBuffer(imageUrl);
+        const watermarkedBuffer = await renderWatermark(imageBuffer, settings);
 
-        // 2. Load or Create Watermark
-        // Ideally, we load a transparent PNG from assets. 
-        // For now, checks if 'public/watermark.png' exists, else generates text.
-        const watermarkPath = path.resolve(process.cwd(), 'public', 'watermark.png');
-        
-        let watermarkedBuffer: Buffer;
-
-        if (fs.existsSync(watermarkPath)) {
-            // Use image watermark
-             watermarkedBuffer = await sharp(imageBuffer)
-                .composite([{
-                    input: watermarkPath,
-                    gravity: 'southeast', // Bottom right
-                    // Blend mode can be adjusted if needed
-                }])
-                .toBuffer();
-        } else {
-            // Use text watermark via SVG if no file found
-            const width = 500; // approximation
-            const height = 100;
-            const svgImage = `
-            <svg width="${width}" height="${height}">
-              <style>
-              .title { fill: rgba(255, 255, 255, 0.5); font-size: 40px; font-weight: bold; font-family: sans-serif; }
-              </style>
-              <text x="50%" y="50%" text-anchor="middle" class="title">TRAYVE APP</text>
-            </svg>
-            `;
-            
-            // We need to know image dimensions to place it properly or just resize the main image to ensure consistency?
-            // simpler: verify metadata
-            const metadata = await sharp(imageBuffer).metadata();
-            const imgWidth = metadata.width || 1024;
-            const imgHeight = metadata.height || 1024;
-
-            // Scale text based on image size
-            const fontSize = Math.floor(imgWidth * 0.05); // 5% of width
-            const textSvg = `
-             <svg width="${imgWidth}" height="${imgHeight}">
-               <style>
-                 .watermark { 
-                    fill: rgba(255, 255, 255, 0.4); 
-                    font-size: ${fontSize}px; 
-                    font-weight: bold; 
-                    font-family: Arial, sans-serif;
-                    text-anchor: end;
-                 }
-               </style>
-               <text x="${imgWidth - 20}" y="${imgHeight - 20}" class="watermark">Trayve App</text>
-             </svg>
-            `;
-
-            watermarkedBuffer = await sharp(imageBuffer)
-                .composite([{
-                    input: Buffer.from(textSvg),
-                    top: 0,
-                    left: 0,
-                }])
-                .toBuffer();
-        }
-
-        // 3. Upload the watermarked image (Overwriting logic or new file?)
-        // Requirement: "Overwrite the final output"
-        // We will generate a new filename but treat it as the replacement in the pipeline.
-        
-        // Convert buffer to base64 for upload service if needed, or pass buffer.
-        // Our storage service 'uploadToShopifyGenerationsBucket' likely takes a buffer or file.
-        // Let's check storage.service implementation in memory or read it.
-        // Assuming uploadToShopifyGenerationsBucket takes (buffer, filename, mimeType).
-        
+        // Uploaded as a new file that replaces the image in the pipeline
         const filename = `watermarked_${Date.now()}_${userId}.png`;
         const uploadResult = await uploadToShopifyGenerationsBucket(
             watermarkedBuffer,
@@ -102,6 +261,6 @@ export async function applyWatermark(imageUrl: string, userId: string): Promise<
         console.warn("⚠️ Failed to apply watermark:", error);
         // Fallback: return original if watermark fails, but log critical warning as it violates "Strict Enforced"
         console.error("CRITICAL: Watermark enforcement failed.");
-        return imageUrl; 
+        return imageUrl;
     }
 }
@@ -1,3 +1,4 @@
 // Re-export Shopify-related functions
 export * from "./shopify-session.server";
 export * from "./pending-charges.server";
+export * from "./product-media.server";
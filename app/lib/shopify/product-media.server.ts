@@ -0,0 +1,550 @@
+/**
+ * Shopify Product Media Publishing
+ * Pushes generated images onto Shopify products via the Admin GraphQL API
+ * and records the resulting media IDs on the generation record
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+import { getGeneration, mergeGenerationMetadata, type Generation } from "../services/generation.service";
+import { getPrimaryImageUrl } from "../services/result-version.service";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface ShopifyProductSummary {
+  id: string;
+  title: string;
+  handle: string;
+  status: string;
+  featured_image_url?: string;
+  variants: Array<{ id: string; title: string }>;
+}
+
+/**
+ * Media reference stored on a generation record, keyed by product GID
+ * so the same result can be pushed to several products
+ */
+export interface ShopifyMediaRecord {
+  product_id: string;
+  media_id: string;
+  variant_id?: string;
+  position: number;
+  alt: string;
+  pushed_at: string;
+}
+
+export interface PushMediaItem {
+  result_id: string;
+  alt?: string;
+}
+
+export interface PushMediaInput {
+  user_id: string;
+  product_id: string;
+  variant_id?: string;
+  items: PushMediaItem[];
+}
+
+export interface PushMediaResult {
+  result_id: string;
+  media_id?: string;
+  action: "created" | "updated" | "failed";
+  error?: string;
+}
+
+// Only the GraphQL client is needed (the app runs with the removeRest future flag)
+type AdminGraphqlContext = Pick<AdminApiContext, "graphql">;
+
+// =============================================
+// GRAPHQL HELPERS
+// =============================================
+
+/**
+ * Run an Admin GraphQL operation and surface top-level errors as exceptions
+ */
+async function runAdminGraphql(
+  admin: AdminGraphqlContext,
+  query: string,
+  variables: Record<string, any>
+): Promise<any> {
+  const response = await admin.graphql(query, { variables });
+  const result: any = await response.json();
+
+  if (Array.isArray(result.errors) && result.errors.length > 0) {
+    console.error("❌ GraphQL errors:", result.errors);
+    throw new Error(result.errors[0].message);
+  }
+
+  return result.data;
+}
+
+/**
+ * Throw the first userError returned by a mutation payload, if any
+ */
+function assertNoUserErrors(payload: any, operation: string): void {
+  const userErrors = payload?.userErrors || payload?.mediaUserErrors || [];
+  if (userErrors.length > 0) {
+    console.error(`❌ ${operation} user errors:`, userErrors);
+    throw new Error(userErrors[0].message);
+  }
+}
+
+// =============================================
+// PRODUCT LOOKUP
+// =============================================
+
+/**
+ * Search the shop's products for the "Push to product" picker
+ * @param admin - Admin API context from authenticate.admin
+ * @param search - Optional Shopify search query (matches title by default)
+ */
+export async function searchShopifyProducts(
+  admin: AdminGraphqlContext,
+  search?: string,
+  limit: number = 20
+): Promise<ShopifyProductSummary[]> {
+  const data = await runAdminGraphql(
+    admin,
+    `#graphql
+    query SearchProducts($first: Int!, $query: String) {
+      products(first: $first, query: $query, sortKey: UPDATED_AT, reverse: true) {
+        nodes {
+          id
+          title
+          handle
+          status
+          featuredMedia {
+            preview {
+              image {
+                url
+              }
+            }
+          }
+          variants(first: 50) {
+            nodes {
+              id
+              title
+            }
+          }
+        }
+      }
+    }`,
+    {
+      first: Math.min(Math.max(limit, 1), 50),
+      query: search ? `title:*${search.replace(/["\\]/g, "")}*` : null,
+    }
+  );
+
+  return (data?.products?.nodes || []).map(toProductSummary);
+}
+
+export interface ShopifyCollectionSummary {
+  id: string;
+  title: string;
+  handle: string;
+  products_count: number;
+}
+
+/**
+ * List the shop's collections for the batch generation picker
+ */
+export async function searchShopifyCollections(
+  admin: AdminGraphqlContext,
+  search?: string,
+  limit: number = 50
+): Promise<ShopifyCollectionSummary[]> {
+  const data = await runAdminGraphql(
+    admin,
+    `#graphql
+    query SearchCollections($first: Int!, $query: String) {
+      collections(first: $first, query: $query, sortKey: TITLE) {
+        nodes {
+          id
+          title
+          handle
+          productsCount {
+            count
+          }
+        }
+      }
+    }`,
+    {
+      first: Math.min(Math.max(limit, 1), 100),
+      query: search ? `title:*${search.replace(/["\\]/g, "")}*` : null,
+    }
+  );
+
+  return (data?.collections?.nodes || []).map((collection: any) => ({
+    id: collection.id,
+    title: collection.title,
+    handle: collection.handle,
+    products_count: collection.productsCount?.count || 0,
+  }));
+}
+
+function toProductSummary(product: any): ShopifyProductSummary {
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    status: product.status,
+    featured_image_url: product.featuredMedia?.preview?.image?.url,
+    variants: (product.variants?.nodes || []).map((variant: any) => ({
+      id: variant.id,
+      title: variant.title,
+    })),
+  };
+}
+
+const PRODUCT_SUMMARY_FIELDS = `
+  id
+  title
+  handle
+  status
+  featuredMedia {
+    preview {
+      image {
+        url
+      }
+    }
+  }
+  variants(first: 50) {
+    nodes {
+      id
+      title
+    }
+  }
+`;
+
+/**
+ * Fetch every product in a collection (paginated), up to maxProducts
+ */
+export async function getCollectionProducts(
+  admin: AdminGraphqlContext,
+  collectionId: string,
+  maxProducts: number = 250
+): Promise<ShopifyProductSummary[]> {
+  const products: ShopifyProductSummary[] = [];
+  let cursor: string | null = null;
+
+  while (products.length < maxProducts) {
+    const data = await runAdminGraphql(
+      admin,
+      `#graphql
+      query CollectionProducts($id: ID!, $first: Int!, $after: String) {
+        collection(id: $id) {
+          products(first: $first, after: $after) {
+            nodes {
+              ${PRODUCT_SUMMARY_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }`,
+      {
+        id: collectionId,
+        first: Math.min(50, maxProducts - products.length),
+        after: cursor,
+      }
+    );
+
+    if (!data?.collection) {
+      throw new Error("Collection not found");
+    }
+
+    const page = data.collection.products;
+    products.push(...(page?.nodes || []).map(toProductSummary));
+
+    if (!page?.pageInfo?.hasNextPage) break;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return products;
+}
+
+/**
+ * Fetch products by GID (unknown or deleted IDs are skipped)
+ */
+export async function getProductsByIds(
+  admin: AdminGraphqlContext,
+  productIds: string[]
+): Promise<ShopifyProductSummary[]> {
+  const products: ShopifyProductSummary[] = [];
+
+  for (let i = 0; i < productIds.length; i += 50) {
+    const data = await runAdminGraphql(
+      admin,
+      `#graphql
+      query ProductsByIds($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Product {
+            ${PRODUCT_SUMMARY_FIELDS}
+          }
+        }
+      }`,
+      { ids: productIds.slice(i, i + 50) }
+    );
+
+    products.push(
+      ...(data?.nodes || [])
+        .filter((node: any) => node?.id)
+        .map(toProductSummary)
+    );
+  }
+
+  return products;
+}
+
+// =============================================
+// GENERATION RECORDS
+// =============================================
+
+/**
+ * Persist the Shopify media reference back onto the generation record
+ */
+async function saveMediaRecord(
+  generation: Generation,
+  record: ShopifyMediaRecord
+): Promise<void> {
+  try {
+    await mergeGenerationMetadata(generation, {
+      shopify_media: {
+        ...(generation.metadata.shopify_media || {}),
+        [record.product_id]: record,
+      },
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to record Shopify media on ${generation.id}:`, error);
+    throw new Error(`Failed to record Shopify media: ${error.message}`);
+  }
+}
+
+// =============================================
+// PUSH OPERATIONS
+// =============================================
+
+/**
+ * Create a new image media on the product
+ */
+async function createProductMedia(
+  admin: AdminGraphqlContext,
+  productId: string,
+  imageUrl: string,
+  alt: string
+): Promise<string> {
+  const data = await runAdminGraphql(
+    admin,
+    `#graphql
+    mutation CreateProductMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+      productCreateMedia(productId: $productId, media: $media) {
+        media {
+          id
+          status
+        }
+        mediaUserErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      productId,
+      media: [{ originalSource: imageUrl, alt, mediaContentType: "IMAGE" }],
+    }
+  );
+
+  assertNoUserErrors(data?.productCreateMedia, "productCreateMedia");
+
+  const mediaId = data?.productCreateMedia?.media?.[0]?.id;
+  if (!mediaId) {
+    throw new Error("Shopify did not return a media ID");
+  }
+
+  return mediaId;
+}
+
+/**
+ * Replace the image and alt text of media that was pushed previously.
+ * Returns false if the media no longer exists (e.g. deleted in the admin).
+ */
+async function updateProductMedia(
+  admin: AdminGraphqlContext,
+  mediaId: string,
+  imageUrl: string,
+  alt: string
+): Promise<boolean> {
+  const data = await runAdminGraphql(
+    admin,
+    `#graphql
+    mutation UpdateProductMedia($files: [FileUpdateInput!]!) {
+      fileUpdate(files: $files) {
+        files {
+          id
+        }
+        userErrors {
+          field
+          message
+          code
+        }
+      }
+    }`,
+    {
+      files: [{ id: mediaId, originalSource: imageUrl, alt }],
+    }
+  );
+
+  const userErrors = data?.fileUpdate?.userErrors || [];
+  if (userErrors.some((e: any) => e.code === "FILE_DOES_NOT_EXIST" || e.code === "INVALID")) {
+    console.warn(`⚠️ Media ${mediaId} no longer exists, will recreate`);
+    return false;
+  }
+
+  assertNoUserErrors(data?.fileUpdate, "fileUpdate");
+  return true;
+}
+
+/**
+ * Move pushed media to the requested positions (in item order)
+ */
+async function reorderProductMedia(
+  admin: AdminGraphqlContext,
+  productId: string,
+  mediaIds: string[]
+): Promise<void> {
+  if (mediaIds.length === 0) return;
+
+  const data = await runAdminGraphql(
+    admin,
+    `#graphql
+    mutation ReorderProductMedia($id: ID!, $moves: [MoveInput!]!) {
+      productReorderMedia(id: $id, moves: $moves) {
+        mediaUserErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      id: productId,
+      moves: mediaIds.map((id, index) => ({ id, newPosition: String(index) })),
+    }
+  );
+
+  assertNoUserErrors(data?.productReorderMedia, "productReorderMedia");
+}
+
+/**
+ * Attach the lead image to a specific variant
+ */
+async function attachMediaToVariant(
+  admin: AdminGraphqlContext,
+  productId: string,
+  variantId: string,
+  mediaId: string
+): Promise<void> {
+  const data = await runAdminGraphql(
+    admin,
+    `#graphql
+    mutation AttachVariantMedia($productId: ID!, $variantMedia: [ProductVariantAppendMediaInput!]!) {
+      productVariantAppendMedia(productId: $productId, variantMedia: $variantMedia) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      productId,
+      variantMedia: [{ variantId, mediaIds: [mediaId] }],
+    }
+  );
+
+  assertNoUserErrors(data?.productVariantAppendMedia, "productVariantAppendMedia");
+}
+
+/**
+ * Push generated results to a Shopify product as media.
+ * Items are placed at the front of the product gallery in the given order.
+ * Results that were already pushed to this product are updated in place.
+ */
+export async function pushGenerationsToProduct(
+  admin: AdminGraphqlContext,
+  input: PushMediaInput
+): Promise<PushMediaResult[]> {
+  const { user_id, product_id, variant_id, items } = input;
+
+  console.log(`🛍️ Pushing ${items.length} image(s) to product ${product_id}`);
+
+  const results: PushMediaResult[] = [];
+  const orderedMediaIds: string[] = [];
+
+  for (const [index, item] of items.entries()) {
+    try {
+      const generation = await getGeneration(item.result_id, user_id);
+      if (!generation) {
+        throw new Error("Result not found");
+      }
+
+      const imageUrl = await getPrimaryImageUrl(generation);
+      if (!imageUrl) {
+        throw new Error("Result has no completed image yet");
+      }
+
+      const alt = (item.alt || generation.pose_name || "").trim().substring(0, 512);
+      const existing: ShopifyMediaRecord | undefined = generation.metadata.shopify_media?.[product_id];
+
+      let mediaId: string | null = null;
+      let action: PushMediaResult["action"] = "created";
+
+      if (existing?.media_id) {
+        const updated = await updateProductMedia(admin, existing.media_id, imageUrl, alt);
+        if (updated) {
+          mediaId = existing.media_id;
+          action = "updated";
+        }
+      }
+
+      if (!mediaId) {
+        mediaId = await createProductMedia(admin, product_id, imageUrl, alt);
+      }
+
+      await saveMediaRecord(generation, {
+        product_id,
+        media_id: mediaId,
+        variant_id: index === 0 ? variant_id : undefined,
+        position: index,
+        alt,
+        pushed_at: new Date().toISOString(),
+      });
+
+      orderedMediaIds.push(mediaId);
+      results.push({ result_id: item.result_id, media_id: mediaId, action });
+      console.log(`   ✅ ${action} ${mediaId} for result ${item.result_id}`);
+    } catch (error: any) {
+      console.error(`   ❌ Failed to push result ${item.result_id}:`, error);
+      results.push({
+        result_id: item.result_id,
+        action: "failed",
+        error: error.message || "Failed to push image",
+      });
+    }
+  }
+
+  try {
+    await reorderProductMedia(admin, product_id, orderedMediaIds);
+
+    if (variant_id && orderedMediaIds.length > 0) {
+      await attachMediaToVariant(admin, product_id, variant_id, orderedMediaIds[0]);
+    }
+  } catch (error) {
+    // Media is already on the product; ordering/variant linking is best effort
+    console.warn("⚠️ Failed to reorder or attach variant media:", error);
+  }
+
+  console.log(`✅ Push complete: ${results.filter(r => r.action !== "failed").length}/${items.length} succeeded`);
+  return results;
+}
@@ -0,0 +1,84 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { publishBatchItem } from "~/lib/services/batch-generation.service";
+
+/**
+ * POST /api/batches/:batchId/publish
+ * Pushes generated images for finished batch products to their Shopify products
+ *
+ * Request Body:
+ * {
+ *   item_ids: string[];   // Batch item IDs to publish
+ * }
+ *
+ * Each item is published independently; the response lists per-item outcomes.
+ */
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session, admin } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { batchId } = params;
+    if (!batchId) {
+      return json({ success: false, error: 'Batch ID is required' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { item_ids } = body;
+
+    if (!Array.isArray(item_ids) || item_ids.length === 0) {
+      return json({ success: false, error: 'At least one item is required' }, { status: 400 });
+    }
+
+    if (item_ids.length > 50) {
+      return json({ success: false, error: 'Maximum 50 products per publish' }, { status: 400 });
+    }
+
+    console.log(`🛍️  Publishing ${item_ids.length} product(s) from batch ${batchId}`);
+
+    const outcomes = [];
+    for (const itemId of item_ids) {
+      try {
+        const { results } = await publishBatchItem(admin, user.trayve_user_id, batchId, itemId);
+        const failed = results.filter(result => result.action === 'failed').length;
+        outcomes.push({
+          item_id: itemId,
+          success: failed < results.length,
+          pushed: results.length - failed,
+          failed,
+          ...(failed === results.length && { error: results[0]?.error || 'Failed to push images' }),
+        });
+      } catch (error: any) {
+        outcomes.push({ item_id: itemId, success: false, error: error.message || 'Failed to publish' });
+      }
+    }
+
+    const published = outcomes.filter(outcome => outcome.success).length;
+
+    return json({
+      success: published > 0,
+      published,
+      failed: outcomes.length - published,
+      results: outcomes,
+      ...(published === 0 && { error: outcomes[0]?.error || 'Failed to publish' }),
+    }, { status: published === 0 ? 502 : 200 });
+  } catch (error: any) {
+    console.error('❌ Error publishing batch items:', error);
+    return json({
+      success: false,
+      error: error.message || 'Internal server error'
+    }, { status: 500 });
+  }
+}
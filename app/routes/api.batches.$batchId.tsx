@@ -0,0 +1,83 @@
+/**
+ * Catalog Batch Detail API
+ * GET  /api/batches/:batchId                  - Batch, per-product status and aggregate progress
+ * POST /api/batches/:batchId  { action: "cancel" }  - Cancel products that haven't started (refunded)
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { cancelGenerationBatch, getGenerationBatch } from "~/lib/services/batch-generation.service";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = params;
+    if (!batchId) {
+      return json({ success: false, error: 'Batch ID is required' }, { status: 400 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const detail = await getGenerationBatch(batchId, user.trayve_user_id);
+    if (!detail) {
+      return json({ success: false, error: 'Batch not found' }, { status: 404 });
+    }
+
+    return json({ success: true, ...detail });
+  } catch (error: any) {
+    console.error('❌ Error fetching batch:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch batch'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { batchId } = params;
+    if (!batchId) {
+      return json({ success: false, error: 'Batch ID is required' }, { status: 400 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (body.action !== 'cancel') {
+      return json({ success: false, error: 'Unknown action' }, { status: 400 });
+    }
+
+    const result = await cancelGenerationBatch(batchId, user.trayve_user_id);
+    if (!result.success) {
+      return json(result, { status: result.error === 'Batch not found' ? 404 : 400 });
+    }
+
+    return json(result);
+  } catch (error: any) {
+    console.error('❌ Error cancelling batch:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to cancel batch'
+    }, { status: 500 });
+  }
+}
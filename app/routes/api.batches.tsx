@@ -0,0 +1,230 @@
+/**
+ * Catalog Batches API
+ * GET  /api/batches            - List the shop's batches
+ * POST /api/batches            - Create a batch
+ *
+ * Request Body (POST):
+ * {
+ *   name?: string;
+ *   base_model_id: string;
+ *   poses: Array<{ pose_id: string; image_url: string; pose_name?: string }>;
+ *   collection_id?: string;      // Collection GID - every product in it
+ *   product_ids?: string[];      // Product GIDs or numeric IDs
+ *   csv?: string;                // Product IDs separated by commas or new lines
+ * }
+ *
+ * Exactly one of collection_id or product_ids/csv is used. Each product's
+ * featured image is the garment; products without one are returned in `skipped`.
+ * Credits for the whole batch are reserved upfront.
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getCollectionProducts, getProductsByIds } from "~/lib/shopify";
+import { createGenerationBatch, listGenerationBatches } from "~/lib/services/batch-generation.service";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { canUseBrandModels, type SubscriptionTier } from "~/lib/services/model-access.service";
+import { PipelineDatabaseService } from "~/lib/services/pipeline-database.service";
+import { supabaseAdmin } from "~/lib/storage/supabase.server";
+import { CATALOG_BATCH } from "~/config/generation.constants";
+import { quoteFeature } from "~/lib/pricing";
+
+const PRODUCT_GID_PREFIX = "gid://shopify/Product/";
+
+/**
+ * Normalize product IDs from a list or CSV text to GIDs.
+ * Header cells and anything that isn't a product ID are ignored.
+ */
+function parseProductIds(productIds: unknown, csv: unknown): string[] {
+  const tokens: string[] = [];
+  if (Array.isArray(productIds)) tokens.push(...productIds.map(String));
+  if (typeof csv === "string") tokens.push(...csv.split(/[\s,;]+/));
+
+  const ids = new Set<string>();
+  for (const raw of tokens) {
+    const token = raw.trim().replace(/^"|"$/g, "");
+    if (/^\d+$/.test(token)) ids.add(`${PRODUCT_GID_PREFIX}${token}`);
+    else if (token.startsWith(PRODUCT_GID_PREFIX)) ids.add(token);
+  }
+  return [...ids];
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 100);
+
+    const batches = await listGenerationBatches(user.trayve_user_id, limit);
+
+    return json({ success: true, batches });
+  } catch (error: any) {
+    console.error('❌ Error listing batches:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch batches'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session, admin } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const userId = user.trayve_user_id;
+    const subscription = await getActiveSubscription(userId);
+    const subscriptionTier = subscription?.plan_tier || "free";
+
+    const body = await request.json();
+    const { name, base_model_id, poses, collection_id, product_ids, csv } = body;
+
+    if (!base_model_id) {
+      return json({ success: false, error: 'base_model_id is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(poses) || poses.length === 0) {
+      return json({ success: false, error: 'At least one pose is required' }, { status: 400 });
+    }
+
+    if (poses.length > 10) {
+      return json({ success: false, error: 'Maximum 10 poses allowed per product' }, { status: 400 });
+    }
+
+    if (poses.some((pose: any) => !pose?.pose_id || !pose?.image_url)) {
+      return json({ success: false, error: 'Each pose must have a pose_id and image_url' }, { status: 400 });
+    }
+
+    // Verify base model and that the poses belong to it
+    const { data: baseModel } = await supabaseAdmin
+      .from("base_models")
+      .select("id, is_active, owner_user_id")
+      .eq("id", base_model_id)
+      .single();
+
+    if (!baseModel || !baseModel.is_active || (baseModel.owner_user_id && baseModel.owner_user_id !== userId)) {
+      return json({ success: false, error: 'Base model not found' }, { status: 404 });
+    }
+
+    if (baseModel.owner_user_id && !canUseBrandModels(subscriptionTier as SubscriptionTier)) {
+      return json({ success: false, error: 'Brand models need a Professional or Enterprise plan' }, { status: 403 });
+    }
+
+    const { data: validPoses, error: posesError } = await supabaseAdmin
+      .from("model_poses")
+      .select("id")
+      .eq("base_model_id", base_model_id)
+      .in("id", poses.map((pose: any) => pose.pose_id));
+
+    if (posesError) {
+      return json({ success: false, error: 'Error validating poses' }, { status: 500 });
+    }
+
+    if (!validPoses || validPoses.length !== poses.length) {
+      return json({ success: false, error: 'One or more poses do not belong to the selected model' }, { status: 400 });
+    }
+
+    // Resolve products from the collection or ID list
+    let products;
+    let source: 'collection' | 'products';
+    if (collection_id) {
+      if (typeof collection_id !== 'string' || !collection_id.startsWith('gid://shopify/Collection/')) {
+        return json({ success: false, error: 'collection_id must be a Collection GID' }, { status: 400 });
+      }
+      source = 'collection';
+      products = await getCollectionProducts(admin, collection_id, CATALOG_BATCH.maxProducts + 1);
+    } else {
+      const ids = parseProductIds(product_ids, csv);
+      if (ids.length === 0) {
+        return json({ success: false, error: 'Provide a collection_id or at least one product ID' }, { status: 400 });
+      }
+      if (ids.length > CATALOG_BATCH.maxProducts) {
+        return json({ success: false, error: `Maximum ${CATALOG_BATCH.maxProducts} products allowed per batch` }, { status: 400 });
+      }
+      source = 'products';
+      products = await getProductsByIds(admin, ids);
+    }
+
+    if (products.length > CATALOG_BATCH.maxProducts) {
+      return json({ success: false, error: `Maximum ${CATALOG_BATCH.maxProducts} products allowed per batch` }, { status: 400 });
+    }
+
+    const eligibleCount = products.filter(product => product.featured_image_url).length;
+    if (eligibleCount === 0) {
+      return json({ success: false, error: 'None of the selected products have a featured image' }, { status: 400 });
+    }
+
+    // Every product runs as its own execution, so it counts against the daily limit
+    const queueStatus = await PipelineDatabaseService.getQueueStatus(userId, subscriptionTier);
+    const remainingToday = Math.max(0, queueStatus.dailyLimit - queueStatus.dailyUsage);
+    if (eligibleCount > remainingToday) {
+      return json({
+        success: false,
+        error: `Your plan allows ${remainingToday} more generation${remainingToday === 1 ? '' : 's'} today; this batch needs ${eligibleCount}`,
+        daily_limit: queueStatus.dailyLimit,
+        daily_usage: queueStatus.dailyUsage,
+      }, { status: 429 });
+    }
+
+    const requiredCredits = quoteFeature("generation", poses.length * eligibleCount, { tier: subscriptionTier }).total_credits;
+    const { data: userCredits } = await supabaseAdmin
+      .from("user_credits")
+      .select("available_credits")
+      .eq("user_id", userId)
+      .single();
+
+    const availableCredits = userCredits?.available_credits || 0;
+    if (availableCredits < requiredCredits) {
+      return json({
+        success: false,
+        error: 'Insufficient credits',
+        required_credits: requiredCredits,
+        available_credits: availableCredits,
+      }, { status: 402 });
+    }
+
+    const { batch, skipped } = await createGenerationBatch({
+      user_id: userId,
+      subscription_tier: subscriptionTier as any,
+      name,
+      source,
+      source_ref: collection_id || undefined,
+      base_model_id,
+      poses: poses.map((pose: any) => ({
+        pose_id: pose.pose_id,
+        image_url: pose.image_url,
+        pose_name: pose.pose_name,
+      })),
+      products,
+    });
+
+    return json({ success: true, batch, skipped });
+  } catch (error: any) {
+    console.error('❌ Error creating batch:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to create batch'
+    }, { status: 500 });
+  }
+}
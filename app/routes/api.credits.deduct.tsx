@@ -6,7 +6,7 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../config/shopify.server";
 import { getShopifyUserByShop } from "../lib/auth";
-import { consumeUserCredits, CREDIT_COSTS } from "../lib/credits";
+import { consumeUserCredits } from "../lib/credits";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
@@ -0,0 +1,46 @@
+/**
+ * API Route: Get credit transaction history
+ * GET /api/credits/transactions?limit=50
+ *
+ * Returns holds, captures, releases/refunds, usage and purchases (newest first)
+ * along with the credits currently on hold.
+ */
+
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { getCreditTransactions, getHeldCredits } from "../lib/credits";
+
+const MAX_LIMIT = 100;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const { session } = await authenticate.admin(request);
+    const shopifyUser = await getShopifyUserByShop(session.shop);
+
+    if (!shopifyUser) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const requestedLimit = Number.parseInt(url.searchParams.get("limit") || "20", 10);
+    const limit = Math.min(Math.max(Number.isNaN(requestedLimit) ? 20 : requestedLimit, 1), MAX_LIMIT);
+
+    const [transactions, heldCredits] = await Promise.all([
+      getCreditTransactions(shopifyUser.trayve_user_id, limit),
+      getHeldCredits(shopifyUser.trayve_user_id),
+    ]);
+
+    return json({
+      success: true,
+      transactions,
+      held_credits: heldCredits,
+    });
+  } catch (error: any) {
+    console.error("Error fetching credit transactions:", error);
+    return json(
+      { success: false, error: error.message || "Failed to fetch credit transactions" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Experiments API
+ * GET  /api/experiments?period=30d
+ * POST /api/experiments
+ *
+ * A/B experiments on prompt templates, providers, aspect ratio and upscaling.
+ * Experiments span every shop, so only platform admin shops
+ * (PLATFORM_ADMIN_SHOPS) can use it.
+ *
+ * GET returns every experiment with its per-variant results over the period:
+ * executions, success rate, processing time and merchant signals
+ * (downloads, favorites, pushes to Shopify, regenerations).
+ *
+ * POST body:
+ * { intent: "create"; name; description?; scope: "tryon" | "studio" | "all"; variants: ExperimentVariant[] }
+ * { intent: "status"; experiment_id; status: "draft" | "running" | "stopped" }
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { isPlatformAdminShop } from "~/lib/auth";
+import {
+  EXPERIMENT_STATUSES,
+  createExperiment,
+  listExperiments,
+  setExperimentStatus,
+  type ExperimentStatus,
+} from "~/lib/services/experiment.service";
+import { PipelineDatabaseService } from "~/lib/services/pipeline-database.service";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!isPlatformAdminShop(session.shop)) {
+      return json({ success: false, error: "Not allowed to manage experiments" }, { status: 403 });
+    }
+
+    const period = new URL(request.url).searchParams.get("period") || "30d";
+    const experiments = await listExperiments();
+
+    const withResults = await Promise.all(experiments.map(async experiment => {
+      const analytics = await PipelineDatabaseService.getExecutionAnalytics(null, period, { experimentId: experiment.id });
+      return { ...experiment, results: analytics.experimentVariants };
+    }));
+
+    return json({ success: true, period, experiments: withResults });
+  } catch (error: any) {
+    console.error("❌ Error fetching experiments:", error);
+    return json({ success: false, error: error.message || "Failed to fetch experiments" }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!isPlatformAdminShop(session.shop)) {
+      return json({ success: false, error: "Not allowed to manage experiments" }, { status: 403 });
+    }
+
+    const body = await request.json();
+
+    if (body.intent === "create") {
+      const result = await createExperiment({
+        name: typeof body.name === "string" ? body.name : "",
+        description: typeof body.description === "string" ? body.description : undefined,
+        scope: body.scope,
+        variants: body.variants,
+        created_by: session.shop,
+      });
+
+      if (result.error) {
+        return json({ success: false, error: result.error }, { status: 400 });
+      }
+
+      return json({ success: true, experiment: result.experiment });
+    }
+
+    if (body.intent === "status") {
+      if (typeof body.experiment_id !== "string" || !body.experiment_id) {
+        return json({ success: false, error: "experiment_id is required" }, { status: 400 });
+      }
+      if (!EXPERIMENT_STATUSES.includes(body.status)) {
+        return json({ success: false, error: `status must be one of ${EXPERIMENT_STATUSES.join(", ")}` }, { status: 400 });
+      }
+
+      const experiment = await setExperimentStatus(body.experiment_id, body.status as ExperimentStatus);
+      if (!experiment) {
+        return json({ success: false, error: "Experiment not found" }, { status: 404 });
+      }
+
+      return json({ success: true, experiment });
+    }
+
+    return json({ success: false, error: "intent must be create or status" }, { status: 400 });
+  } catch (error: any) {
+    console.error("❌ Error updating experiments:", error);
+    return json({ success: false, error: error.message || "Failed to update experiments" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Garment Defaults API
+ * GET  /api/garments/defaults - Saved per-category defaults for the shop
+ * POST /api/garments/defaults - Save the defaults for one category
+ *
+ * Request Body (POST):
+ * {
+ *   category: 'top' | 'bottom' | 'full' | 'dress';
+ *   pose_types?: Array<'front' | 'side' | 'three-quarter' | 'back' | 'dynamic' | 'seated'>;
+ *   angle_ids?: string[];
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   defaults?: { [category]: { pose_types, angle_ids, updated_at } };  // GET
+ *   category_defaults?: { pose_types, angle_ids, updated_at };         // POST
+ *   error?: string;
+ * }
+ */
+
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { getGarmentDefaults, saveGarmentDefaults } from "../lib/services/garment-defaults.service";
+import { isGarmentCategory, type PoseType } from "../lib/garment-fit";
+
+const POSE_TYPES: PoseType[] = ["front", "side", "three-quarter", "back", "dynamic", "seated"];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const { session } = await authenticate.admin(request);
+    const user = await getShopifyUserByShop(session.shop);
+
+    if (!user) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const defaults = await getGarmentDefaults(user.trayve_user_id);
+    return json({ success: true, defaults });
+  } catch (error: any) {
+    console.error("Error fetching garment defaults:", error);
+    return json(
+      { success: false, error: error.message || "Failed to fetch garment defaults" },
+      { status: 500 }
+    );
+  }
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    const user = await getShopifyUserByShop(session.shop);
+
+    if (!user) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const { category, pose_types, angle_ids } = await request.json();
+
+    if (!isGarmentCategory(category)) {
+      return json(
+        { success: false, error: "category must be one of top, bottom, full or dress" },
+        { status: 400 }
+      );
+    }
+
+    if (pose_types !== undefined && (!Array.isArray(pose_types) || pose_types.some((type: unknown) => !POSE_TYPES.includes(type as PoseType)))) {
+      return json(
+        { success: false, error: `pose_types must only contain ${POSE_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (angle_ids !== undefined && (!Array.isArray(angle_ids) || angle_ids.some((id: unknown) => typeof id !== "string"))) {
+      return json({ success: false, error: "angle_ids must be an array of angle IDs" }, { status: 400 });
+    }
+
+    const categoryDefaults = await saveGarmentDefaults(user.trayve_user_id, category, {
+      pose_types: pose_types ? Array.from(new Set(pose_types as PoseType[])) : undefined,
+      angle_ids,
+    });
+
+    return json({ success: true, category_defaults: categoryDefaults });
+  } catch (error: any) {
+    console.error("Error saving garment defaults:", error);
+    return json(
+      { success: false, error: error.message || "Failed to save garment defaults" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,84 @@
+/**
+ * Garment Prepare API
+ * POST /api/garments/prepare
+ *
+ * Runs garment pre-processing ahead of a try-on so the studio can recommend
+ * poses for the detected category. The cleaned garment is stored and reused
+ * when the run's pre-processing step sees the same photo.
+ *
+ * Request Body:
+ * {
+ *   clothing_image_url: string;  // Uploaded via /api/storage/upload
+ *   garment_category?: 'top' | 'bottom' | 'full' | 'dress';
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   garment?: {
+ *     id: string;
+ *     image_url: string;
+ *     category: 'top' | 'bottom' | 'full' | 'dress' | null;
+ *     category_source: 'shop' | 'silhouette' | null;
+ *     background_removed: boolean;
+ *     reused: boolean;
+ *   };
+ *   error?: string;
+ * }
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { prepareGarment } from "../lib/services/garment-preprocessing.service";
+import { parseStorageUrl } from "../lib/services/storage.service";
+import { isGarmentCategory } from "../lib/garment-fit";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    const user = await getShopifyUserByShop(session.shop);
+
+    if (!user) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const { clothing_image_url, garment_category } = await request.json();
+
+    // Only garments in our own storage - never fetch arbitrary URLs
+    if (!clothing_image_url || !parseStorageUrl(clothing_image_url)) {
+      return json({ success: false, error: "clothing_image_url must be an uploaded image" }, { status: 400 });
+    }
+
+    if (garment_category !== undefined && !isGarmentCategory(garment_category)) {
+      return json(
+        { success: false, error: "garment_category must be one of top, bottom, full or dress" },
+        { status: 400 }
+      );
+    }
+
+    const garment = await prepareGarment(clothing_image_url, user.trayve_user_id, garment_category);
+
+    return json({
+      success: true,
+      garment: {
+        id: garment.id,
+        image_url: garment.imageUrl,
+        category: garment.category,
+        category_source: garment.categorySource,
+        background_removed: garment.backgroundRemoved,
+        reused: garment.reused,
+      },
+    });
+  } catch (error: any) {
+    console.error("❌ Error preparing garment:", error);
+    return json(
+      { success: false, error: error.message || "Failed to prepare garment" },
+      { status: 500 }
+    );
+  }
+};
@@ -1,7 +1,8 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { authenticate } from "~/config/shopify.server";
-import { supabaseAdmin } from "~/lib/storage/supabase.server";
 import { getShopifyUserByShop } from "~/lib/auth";
+import { getResultFeedback } from "~/lib/services/feedback.service";
+import { listModelGenerations } from "~/lib/services/generation.service";
 
 export async function loader({ request, params }: LoaderFunctionArgs) {
   try {
@@ -14,49 +15,31 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     const { modelId } = params;
     if (!modelId) return json({ success: false, error: "Model ID required" }, { status: 400 });
 
-    // 1. Get all projects usage for this user
-    const { data: projects, error: projectError } = await supabaseAdmin
-      .from('user_generation_projects')
-      .select('id')
-      .eq('user_id', user.trayve_user_id);
-
-    if (projectError || !projects) {
-      return json({ success: false, error: "Failed to fetch projects" }, { status: 500 });
-    }
-
-    const projectIds = projects.map(p => p.id);
-
-    if (projectIds.length === 0) {
-      return json({ success: true, results: [] });
-    }
-
-    // 2. Fetch results filtered by base_model_id via model_poses relation
-    const { data: results, error: resultsError } = await supabaseAdmin
-      .from('generation_results')
-      .select(`
-        id,
-        project_id,
-        pose_id,
-        result_image_url,
-        created_at,
-        model_poses!inner (
-          base_model_id,
-          name
-        )
-      `)
-      .in('project_id', projectIds)
-      .eq('model_poses.base_model_id', modelId)
-      .order('created_at', { ascending: false });
-
-    if (resultsError) {
-      console.error("Error fetching model results:", resultsError);
-      return json({ success: false, error: resultsError.message }, { status: 500 });
-    }
-
-    return json({ success: true, results });
+    // The shop's finished results made with this model (latest version of each), newest first
+    const results = await listModelGenerations(user.trayve_user_id, modelId, {
+      completedOnly: true,
+      latestVersions: true,
+    });
+
+    // The shop's favorite, rating and rejection reasons on each result
+    const feedback = await getResultFeedback(results.map(result => result.id));
+
+    return json({
+      success: true,
+      results: results.map(result => ({
+        id: result.id,
+        kind: result.kind,
+        project_id: result.project_id,
+        pose_id: result.pose_id,
+        pose_name: result.pose_name,
+        base_model_id: result.base_model_id,
+        result_image_url: result.result_image_url,
+        created_at: result.created_at,
+        feedback: feedback.get(result.id) || null,
+      })),
+    });
   } catch (error) {
     console.error("Server error:", error);
     return json({ success: false, error: "Internal server error" }, { status: 500 });
   }
 }
-
@@ -3,20 +3,25 @@
  * Fetches base models with filtering (mirrors main Trayve app)
  * GET /api/models/base-models?gender=female&body_type=slim
  * POST /api/models/base-models (with JSON body filters)
+ * The shop's own brand models are included alongside the catalog
  */
 
 import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
 import { getBaseModels, type ModelFilters } from "~/lib/services/models.service";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   try {
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
+    const shopifyUser = await getShopifyUserByShop(session.shop);
 
     const url = new URL(request.url);
     
     // Parse query parameters for filters
-    const filters: ModelFilters = {};
+    const filters: ModelFilters = {
+      visible_to: shopifyUser?.trayve_user_id,
+    };
     
     const gender = url.searchParams.get("gender");
     if (gender) filters.gender = gender as any;
@@ -50,7 +55,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
 export async function action({ request }: ActionFunctionArgs) {
   try {
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
 
     if (request.method !== "POST") {
       return json({ error: "Method not allowed" }, { status: 405 });
@@ -65,6 +70,9 @@ export async function action({ request }: ActionFunctionArgs) {
       promoted_only: body.promoted_only,
     };
 
+    const shopifyUser = await getShopifyUserByShop(session.shop);
+    filters.visible_to = shopifyUser?.trayve_user_id;
+
     // Fetch models
     const models = await getBaseModels(filters);
 
@@ -0,0 +1,99 @@
+/**
+ * Brand Model Detail API
+ * POST   /api/models/brand/:modelId  - Add poses to a brand model
+ * DELETE /api/models/brand/:modelId  - Archive a brand model
+ *
+ * Request Body (POST, FormData):
+ * {
+ *   images: File[];
+ *   pose_types: string[];  // One per image
+ *   consent: 'true';
+ *   consent_name: string;
+ * }
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { canUseBrandModels, enrichModelWithAccess, type SubscriptionTier } from "~/lib/services/model-access.service";
+import { getBaseModelById } from "~/lib/services/models.service";
+import {
+  addBrandModelPoses,
+  archiveBrandModel,
+  readBrandModelImages,
+  readConsentAttestation,
+  validateBrandModelImages,
+} from "~/lib/services/brand-models.service";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { modelId } = params;
+    if (!modelId) {
+      return json({ success: false, error: 'Model ID is required' }, { status: 400 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const userId = user.trayve_user_id;
+
+    // Archiving stays available after a downgrade
+    if (request.method === 'DELETE') {
+      const archived = await archiveBrandModel(userId, modelId);
+      if (!archived) {
+        return json({ success: false, error: 'Brand model not found' }, { status: 404 });
+      }
+      return json({ success: true });
+    }
+
+    const subscription = await getActiveSubscription(userId);
+    const tier = (subscription?.plan_tier || "free") as SubscriptionTier;
+
+    if (!canUseBrandModels(tier)) {
+      return json({ success: false, error: 'Brand models need a Professional or Enterprise plan' }, { status: 403 });
+    }
+
+    const model = await getBaseModelById(modelId, userId);
+    if (!model || model.owner_user_id !== userId || !model.is_active) {
+      return json({ success: false, error: 'Brand model not found' }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+
+    const attestation = readConsentAttestation(request, formData, session.shop);
+    if (!attestation) {
+      return json({ success: false, error: 'Confirm that you have the model\'s consent to continue' }, { status: 400 });
+    }
+
+    const { images, error: imagesError } = await readBrandModelImages(formData);
+    const invalid = imagesError || validateBrandModelImages(images, model.poses?.length || 0);
+    if (invalid) {
+      return json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    const updated = await addBrandModelPoses(userId, modelId, images, attestation);
+    if (!updated) {
+      return json({ success: false, error: 'Brand model not found' }, { status: 404 });
+    }
+
+    return json({ success: true, model: enrichModelWithAccess(updated, tier) });
+  } catch (error: any) {
+    console.error('❌ Error updating brand model:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to update brand model'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Brand Models API
+ * GET  /api/models/brand  - The shop's private brand models
+ * POST /api/models/brand  - Create a brand model from the shop's own photos
+ *
+ * Request Body (POST, FormData):
+ * {
+ *   name: string;
+ *   gender: 'male' | 'female' | 'unisex';
+ *   body_type: 'slim' | 'athletic' | 'curvy' | 'plus-size';
+ *   description?: string;
+ *   images: File[];        // First photo becomes the cover
+ *   pose_types: string[];  // One per image: front | side | three-quarter | back | dynamic | seated
+ *   consent: 'true';       // Shop confirms BRAND_MODEL_CONSENT.statement
+ *   consent_name: string;  // Name of the person confirming
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   models?: BaseModel[];  // GET
+ *   model?: BaseModel;     // POST
+ *   limit?: number;
+ *   error?: string;
+ * }
+ *
+ * Requires a Professional or Enterprise plan.
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { canUseBrandModels, enrichModelsWithAccess, enrichModelWithAccess, type SubscriptionTier } from "~/lib/services/model-access.service";
+import {
+  countBrandModels,
+  createBrandModel,
+  getBrandModelLimit,
+  listBrandModels,
+  readBrandModelImages,
+  readConsentAttestation,
+  validateBrandModelImages,
+} from "~/lib/services/brand-models.service";
+
+const GENDERS = ['male', 'female', 'unisex'];
+const BODY_TYPES = ['slim', 'athletic', 'curvy', 'plus-size'];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    const tier = (subscription?.plan_tier || "free") as SubscriptionTier;
+
+    const models = await listBrandModels(user.trayve_user_id);
+
+    return json({
+      success: true,
+      models: enrichModelsWithAccess(models, tier),
+      limit: getBrandModelLimit(tier),
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching brand models:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch brand models'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const userId = user.trayve_user_id;
+    const subscription = await getActiveSubscription(userId);
+    const tier = (subscription?.plan_tier || "free") as SubscriptionTier;
+
+    if (!canUseBrandModels(tier)) {
+      return json({ success: false, error: 'Brand models need a Professional or Enterprise plan' }, { status: 403 });
+    }
+
+    const limit = getBrandModelLimit(tier);
+    if (await countBrandModels(userId) >= limit) {
+      return json({ success: false, error: `Your plan includes up to ${limit} brand models. Archive one to add another.` }, { status: 400 });
+    }
+
+    const formData = await request.formData();
+    const name = String(formData.get('name') || '').trim();
+    const gender = String(formData.get('gender') || '');
+    const bodyType = String(formData.get('body_type') || '');
+    const description = String(formData.get('description') || '').trim() || undefined;
+
+    if (!name) {
+      return json({ success: false, error: 'Model name is required' }, { status: 400 });
+    }
+
+    if (!GENDERS.includes(gender)) {
+      return json({ success: false, error: 'gender must be male, female or unisex' }, { status: 400 });
+    }
+
+    if (!BODY_TYPES.includes(bodyType)) {
+      return json({ success: false, error: 'body_type must be slim, athletic, curvy or plus-size' }, { status: 400 });
+    }
+
+    const attestation = readConsentAttestation(request, formData, session.shop);
+    if (!attestation) {
+      return json({ success: false, error: 'Confirm that you have the model\'s consent to continue' }, { status: 400 });
+    }
+
+    const { images, error: imagesError } = await readBrandModelImages(formData);
+    const invalid = imagesError || validateBrandModelImages(images);
+    if (invalid) {
+      return json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    const model = await createBrandModel(userId, {
+      name,
+      gender: gender as 'male' | 'female' | 'unisex',
+      body_type: bodyType as 'slim' | 'athletic' | 'curvy' | 'plus-size',
+      description,
+      images,
+      attestation,
+    });
+
+    return json({ success: true, model: enrichModelWithAccess(model, tier) });
+  } catch (error: any) {
+    console.error('❌ Error creating brand model:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to create brand model'
+    }, { status: 500 });
+  }
+}
@@ -3,10 +3,12 @@
  * GET/POST /api/models - Fetch base models and poses
  * 
  * Uses organized service layer for better maintainability
+ * The shop's own brand models are included alongside the catalog
  */
 
 import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
 import {
   getBaseModels,
   getBaseModelById,
@@ -30,7 +32,9 @@ import {
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   try {
     // Authenticate the request (optional - comment out if public API needed)
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
+    const shopifyUser = await getShopifyUserByShop(session.shop);
+    const viewerUserId = shopifyUser?.trayve_user_id;
 
     const url = new URL(request.url);
     const type = url.searchParams.get("type") || "base-models";
@@ -52,7 +56,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         );
       }
 
-      const poses = await getModelPoses(baseModelId);
+      const poses = await getModelPoses(baseModelId, viewerUserId);
 
       console.log(`✅ Fetched ${poses.length} poses for model ${baseModelId}`);
 
@@ -65,7 +69,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     // Fetch specific model by ID
     if (modelId) {
-      const model = await getBaseModelById(modelId);
+      const model = await getBaseModelById(modelId, viewerUserId);
 
       if (!model) {
         return json(
@@ -90,6 +94,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     const filters: ModelFilters = {
       is_active: true,
       promoted_only: true, // Fixed - no dynamic filters accepted
+      visible_to: viewerUserId,
     };
 
     const models = await getBaseModels(filters);
@@ -137,7 +142,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 export const action = async ({ request }: ActionFunctionArgs) => {
   try {
     // Authenticate the request (optional - comment out if public API needed)
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
+    const shopifyUser = await getShopifyUserByShop(session.shop);
 
     const body = await request.json();
     const { filters = {} } = body;
@@ -147,6 +153,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     // Enhanced filters with promoted_only default
     const enhancedFilters: ModelFilters = {
       promoted_only: filters.promoted_only !== false, // Default to true unless explicitly set to false
+      visible_to: shopifyUser?.trayve_user_id,
     };
 
     // Pass through additional filters if provided
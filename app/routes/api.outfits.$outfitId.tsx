@@ -0,0 +1,79 @@
+/**
+ * Outfit Detail API
+ * GET    /api/outfits/:outfitId  - A saved outfit and its layers
+ * DELETE /api/outfits/:outfitId  - Remove an outfit from the shop's library
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { deleteOutfit, getOutfit } from "~/lib/services/outfit.service";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { outfitId } = params;
+    if (!outfitId) {
+      return json({ success: false, error: 'Outfit ID is required' }, { status: 400 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const outfit = await getOutfit(user.trayve_user_id, outfitId);
+    if (!outfit) {
+      return json({ success: false, error: 'Outfit not found' }, { status: 404 });
+    }
+
+    return json({ success: true, outfit });
+  } catch (error: any) {
+    console.error('❌ Error fetching outfit:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch outfit'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'DELETE') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { outfitId } = params;
+    if (!outfitId) {
+      return json({ success: false, error: 'Outfit ID is required' }, { status: 400 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const deleted = await deleteOutfit(user.trayve_user_id, outfitId);
+    if (!deleted) {
+      return json({ success: false, error: 'Outfit not found' }, { status: 404 });
+    }
+
+    console.log(`🗑️  Deleted outfit ${outfitId}`);
+    return json({ success: true });
+  } catch (error: any) {
+    console.error('❌ Error deleting outfit:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to delete outfit'
+    }, { status: 500 });
+  }
+}
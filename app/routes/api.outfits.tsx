@@ -0,0 +1,102 @@
+/**
+ * Outfits API
+ * GET  /api/outfits?project_id=...  - The shop's saved outfits, optionally for one project
+ * POST /api/outfits                 - Save an outfit
+ *
+ * Request Body (POST):
+ * {
+ *   layers: Array<{ slot: 'top' | 'bottom' | 'outerwear' | 'dress' | 'full'; image_url: string }>;
+ *   name?: string;
+ *   project_id?: string;
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   outfits?: Outfit[];  // GET
+ *   outfit?: Outfit;     // POST
+ *   error?: string;
+ * }
+ *
+ * Saved outfits are passed to /api/pipeline/quote and /api/pipeline/execute as `outfit_id`.
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { createOutfit, listOutfits } from "~/lib/services/outfit.service";
+import { validateOutfitLayers } from "~/lib/outfit";
+import { supabaseAdmin } from "~/lib/storage/supabase.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const projectId = new URL(request.url).searchParams.get('project_id') || undefined;
+    const outfits = await listOutfits(user.trayve_user_id, { projectId });
+
+    return json({ success: true, outfits });
+  } catch (error: any) {
+    console.error('❌ Error fetching outfits:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch outfits'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { layers, name, project_id } = await request.json();
+
+    const invalid = validateOutfitLayers(layers);
+    if (invalid) {
+      return json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    if (project_id) {
+      const { data: project } = await supabaseAdmin
+        .from('user_generation_projects')
+        .select('id')
+        .eq('id', project_id)
+        .eq('user_id', user.trayve_user_id)
+        .maybeSingle();
+
+      if (!project) {
+        return json({ success: false, error: 'Project not found' }, { status: 404 });
+      }
+    }
+
+    const outfit = await createOutfit(user.trayve_user_id, { layers, name, project_id });
+
+    return json({ success: true, outfit });
+  } catch (error: any) {
+    console.error('❌ Error saving outfit:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to save outfit'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Pipeline Progress Event Stream (Server-Sent Events)
+ * GET /api/pipeline/events/:projectId
+ *
+ * Streams per-pose step events (try-on done, watermark applied, 4K ready,
+ * failures) for every execution in a project as they are recorded.
+ *
+ * Resume: send the last received event ID in the `Last-Event-ID` header
+ * (or `?lastEventId=`) and only newer events are replayed.
+ *
+ * Events:
+ *   event: step.completed | step.failed | pose.completed | pose.failed |
+ *          execution.completed | execution.failed | execution.cancelled
+ *   id:    event ID (monotonic per stream)
+ *   data:  JSON pipeline event
+ *
+ * The stream sends `event: done` and closes once no execution in the project
+ * is processing, or after PIPELINE_EVENT_STREAM.maxDurationMs.
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { supabaseAdmin } from "~/lib/storage/supabase.server";
+import { getProjectEventsSince, type PipelineEvent } from "~/lib/services/pipeline-events.service";
+import { PipelineDatabaseService } from "~/lib/services/pipeline-database.service";
+import { PIPELINE_EVENT_STREAM } from "~/config/generation.constants";
+
+function formatEvent(event: PipelineEvent): string {
+  return `id: ${event.id}\nevent: ${event.event_type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  if (!session) {
+    return json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await getShopifyUserByShop(session.shop);
+  if (!user) {
+    return json({ success: false, error: "User not found" }, { status: 404 });
+  }
+
+  const { projectId } = params;
+  if (!projectId) {
+    return json({ success: false, error: "Project ID required" }, { status: 400 });
+  }
+
+  // Verify project ownership
+  const { data: project } = await supabaseAdmin
+    .from("user_generation_projects")
+    .select("id, user_id")
+    .eq("id", projectId)
+    .single();
+
+  if (!project) {
+    return json({ success: false, error: "Project not found" }, { status: 404 });
+  }
+
+  if (project.user_id !== user.trayve_user_id) {
+    return json({ success: false, error: "Unauthorized" }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const resumeFrom = request.headers.get("Last-Event-ID") || url.searchParams.get("lastEventId") || "0";
+  let lastEventId = Number.parseInt(resumeFrom, 10) || 0;
+
+  const userId = user.trayve_user_id;
+  const encoder = new TextEncoder();
+
+  console.log(`📡 SSE stream opened for project ${projectId} (resume after ${lastEventId})`);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const startedAt = Date.now();
+      let lastWriteAt = Date.now();
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      request.signal.addEventListener("abort", close);
+
+      send(`retry: ${PIPELINE_EVENT_STREAM.reconnectDelayMs}\n\n`);
+
+      try {
+        while (!closed) {
+          const events = await getProjectEventsSince(projectId, userId, lastEventId);
+          for (const event of events) {
+            send(formatEvent(event));
+            lastEventId = event.id;
+          }
+
+          // Only check for completion once the backlog is drained
+          if (events.length === 0) {
+            const active = await PipelineDatabaseService.getProjectActiveExecutions(projectId);
+            if (active.length === 0) {
+              send(`event: done\ndata: {}\n\n`);
+              break;
+            }
+          }
+
+          if (Date.now() - startedAt > PIPELINE_EVENT_STREAM.maxDurationMs) {
+            break;
+          }
+
+          if (Date.now() - lastWriteAt > PIPELINE_EVENT_STREAM.keepAliveMs) {
+            send(`: keep-alive\n\n`);
+          }
+
+          await new Promise(resolve => setTimeout(resolve, PIPELINE_EVENT_STREAM.pollIntervalMs));
+        }
+      } catch (error) {
+        console.error(`❌ SSE stream error for project ${projectId}:`, error);
+        send(`event: error\ndata: ${JSON.stringify({ error: "Stream interrupted" })}\n\n`);
+      } finally {
+        request.signal.removeEventListener("abort", close);
+        close();
+        console.log(`📡 SSE stream closed for project ${projectId} (last event ${lastEventId})`);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
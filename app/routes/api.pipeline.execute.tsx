@@ -5,6 +5,10 @@
  * Initiates AI image generation pipeline with validation and tier checks.
  * Returns execution_id for polling status.
  * 
+ * Runs are only started against a quote from /api/pipeline/quote. The quote is
+ * recomputed here and the run is refused with 409 when its hash differs
+ * (catalog price, discount, tier or poses changed since the shop confirmed).
+ * 
  * Request Body:
  * {
  *   base_model_id: string;
@@ -12,6 +16,14 @@
  *   poses: Array<{ pose_id: string; image_url: string; pose_name?: string }>;
  *   project_name?: string;
  *   project_description?: string;
+ *   quote_hash: string;           // From POST /api/pipeline/quote
+ *   force_regenerate?: boolean;   // Skip the result cache and generate every pose again
+ *   preprocess_garment?: boolean; // Crop, remove background and normalize the clothing photo first
+ *   garment_category?: 'top' | 'bottom' | 'full' | 'dress'; // Overrides the detected category
+ *   outfit?: Array<{ slot: 'top' | 'bottom' | 'outerwear' | 'dress' | 'full'; image_url: string }>;
+ *                                 // Multi-garment try-on instead of clothing_image_url, saved as an outfit
+ *   outfit_id?: string;           // Reuse a saved outfit (from /api/outfits)
+ *   watermark_profile_id?: string; // Overlay one of the shop's watermarks (from /api/watermarks, paid plans)
  * }
  * 
  * Response:
@@ -21,7 +33,11 @@
  *   project_id?: string;
  *   status?: string;
  *   total_poses?: number;
+ *   queued?: boolean;             // Waiting for a free slot before processing starts
+ *   estimated_start_at?: string;
  *   error?: string;
+ *   blocking_reasons?: Array<{ code: string; message: string; status: number }>;
+ *   quote?: PipelineQuote;        // Fresh quote when blocked or on hash mismatch
  * }
  */
 
@@ -32,6 +48,10 @@ import {
   type PoseInput,
 } from "../lib/services/pipeline-execution.service";
 import { getActiveSubscription } from "../lib/services/subscription.service";
+import { buildPipelineQuote } from "../lib/services/pipeline-quote.service";
+import { getOutfit, recordOutfitUse } from "../lib/services/outfit.service";
+import { getWatermarkProfile, toWatermarkSettings } from "../lib/services/watermark-profile.service";
+import { isGarmentCategory } from "../lib/garment-fit";
 import { supabaseAdmin } from "../lib/storage/supabase.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -82,7 +102,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       project_name,
       project_description,
       mode,
-      prompts
+      prompts,
+      quote_hash,
+      force_regenerate,
+      preprocess_garment,
+      garment_category,
+      outfit,
+      outfit_id,
+      watermark_profile_id
     } = body;
 
     console.log("➡️ Request Body Mode:", mode);
@@ -90,134 +117,73 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     console.log("➡️ Request Body Poses Count:", poses?.length);
     console.log("➡️ Request Body Clothing URL:", clothing_image_url);
 
-    // Validate required fields 
-    if (!base_model_id) {
-      console.error("❌ Validation Failed: Missing base_model_id");
+    if (garment_category !== undefined && !isGarmentCategory(garment_category)) {
       return json(
-        { success: false, error: "base_model_id is required" },
+        { success: false, error: "garment_category must be one of top, bottom, full or dress" },
         { status: 400 }
       );
     }
 
-    // Validate required fields based on mode
-    // Virtual Try-On requires clothing image
-    if (!mode && !clothing_image_url) {
-      console.error("❌ Validation Failed: Missing clothing_image_url for VTO mode");
-      return json(
-        { success: false, error: "clothing_image_url is required for Virtual Try-On" },
-        { status: 400 }
-      );
+    const savedOutfit = outfit_id ? await getOutfit(userId, outfit_id) : null;
+    if (outfit_id && !savedOutfit) {
+      return json({ success: false, error: "Outfit not found" }, { status: 404 });
     }
+    const outfitLayers = savedOutfit?.layers ?? outfit;
 
-    if (!poses || !Array.isArray(poses) || poses.length === 0) {
-      return json(
-        { success: false, error: "At least one pose is required" },
-        { status: 400 }
-      );
-    }
-
-    if (poses.length > 10) {
-      return json(
-        { success: false, error: "Maximum 10 poses allowed per execution" },
-        { status: 400 }
-      );
-    }
-
-    // Validate each pose
-    for (const pose of poses) {
-      if (!pose.pose_id) {
-        return json(
-          { success: false, error: "Each pose must have a pose_id" },
-          { status: 400 }
-        );
-      }
-
-      if (!pose.image_url) {
-        console.error(`❌ Validation Failed: Pose ${pose.pose_id} missing image_url`);
-        return json(
-          { success: false, error: "Each pose must have an image_url" },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Verify base model exists
-    const { data: baseModel, error: modelError } = await supabaseAdmin
-      .from("base_models")
-      .select("id, name, is_active")
-      .eq("id", base_model_id)
-      .single();
+    // Re-quote server-side: same validations, same price the shop was shown
+    const quote = await buildPipelineQuote({
+      user_id: userId,
+      subscription_tier: subscriptionTier as any,
+      base_model_id,
+      clothing_image_url,
+      outfit: outfitLayers,
+      poses,
+      mode,
+      watermark_profile_id,
+    });
 
-    if (modelError || !baseModel) {
-      console.error("❌ Base model not found:", base_model_id);
+    if (!quote.can_run) {
+      const blocker = quote.blocking_reasons[0];
+      console.error(`❌ Validation Failed: ${blocker.code} - ${blocker.message}`);
       return json(
-        { success: false, error: "Base model not found" },
-        { status: 404 }
+        {
+          success: false,
+          error: blocker.message,
+          blocking_reasons: quote.blocking_reasons,
+          quote,
+          required_credits: quote.total_credits,
+          available_credits: quote.available_credits,
+          poses_count: quote.poses.length,
+          credits_per_pose: quote.credits_per_pose,
+          daily_usage: quote.daily_usage,
+          daily_limit: quote.daily_limit,
+        },
+        { status: blocker.status }
       );
     }
 
-    if (!baseModel.is_active) {
+    // The run must match the quote the shop confirmed
+    if (!quote_hash) {
       return json(
-        { success: false, error: "Base model is not active" },
+        { success: false, error: "quote_hash is required. Request a quote from /api/pipeline/quote first." },
         { status: 400 }
       );
     }
 
-    // Check user credits
-    const { data: userCredits, error: creditsError } = await supabaseAdmin
-      .from("user_credits")
-      .select("available_credits, total_credits, used_credits")
-      .eq("user_id", userId)
-      .single();
-
-    if (creditsError || !userCredits) {
-      console.error("❌ Error fetching credits:", creditsError);
-      return json(
-        { success: false, error: "Unable to fetch user credits" },
-        { status: 500 }
-      );
-    }
-
-    const requiredCredits = 1000 * poses.length; // 1000 credits per pose
-    const availableCredits = userCredits.available_credits || 0;
-
-    if (availableCredits < requiredCredits) {
+    if (quote_hash !== quote.quote_hash) {
+      console.warn(`⚠️ Quote mismatch for user ${userId} - price or run changed since it was quoted`);
       return json(
         {
           success: false,
-          error: "Insufficient credits",
-          required_credits: requiredCredits,
-          available_credits: availableCredits,
-          poses_count: poses.length,
+          error: "The price or contents of this run changed since it was quoted. Review the new quote and try again.",
+          quote,
         },
-        { status: 402 } // 402 Payment Required
+        { status: 409 }
       );
     }
 
-    // Validate poses belong to the base model (ONLY for Virtual Try-On)
-    if (!mode) {
-      const poseIds = poses.map((p) => p.pose_id);
-      const { data: validPoses, error: posesError } = await supabaseAdmin
-        .from("model_poses")
-        .select("id")
-        .eq("base_model_id", base_model_id)
-        .in("id", poseIds);
-
-      if (posesError) {
-        console.error("❌ Error validating poses:", posesError);
-        return json(
-          { success: false, error: "Error validating poses" },
-          { status: 500 }
-        );
-      }
-
-      if (!validPoses || validPoses.length !== poses.length) {
-        return json(
-          { success: false, error: "One or more poses do not belong to the selected model" },
-          { status: 400 }
-        );
-      }
-    }
+    // The run keeps a snapshot of the watermark, so later profile edits don't change it
+    const watermarkProfile = watermark_profile_id ? await getWatermarkProfile(userId, watermark_profile_id) : null;
 
     // Start pipeline execution
     const result = await startPipelineExecution({
@@ -229,9 +195,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       project_name,
       project_description,
       mode,
-      prompts
+      prompts,
+      credits_per_pose: quote.credits_per_pose,
+      force_regenerate: force_regenerate === true,
+      preprocess_garment: preprocess_garment === true,
+      garment_category,
+      outfit: outfitLayers,
+      outfit_id: savedOutfit?.id,
+      ...(watermarkProfile && {
+        watermark_profile_id: watermarkProfile.id,
+        watermark: toWatermarkSettings(watermarkProfile),
+      }),
     });
 
+    if (savedOutfit) {
+      await recordOutfitUse(savedOutfit);
+    }
+
     console.log(`✅ Pipeline execution started: ${result.execution_id}`);
 
     return json({
@@ -240,6 +220,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       project_id: result.project_id,
       status: result.status,
       total_poses: result.total_poses,
+      credits_reserved: quote.total_credits,
+      queued: quote.will_queue,
+      estimated_start_at: quote.estimated_start_at,
       message: `Processing ${result.total_poses} pose(s). Use /api/pipeline/status/${result.execution_id} to track progress.`,
     });
   } catch (error: any) {
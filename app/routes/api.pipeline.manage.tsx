@@ -2,6 +2,7 @@
  * Pipeline Management & Analytics API
  * Handles analytics, queue status, usage stats, and health checks
  * GET /api/pipeline/manage?action=analytics&period=7d
+ * GET /api/pipeline/manage?action=analytics&scope=all  (every shop - platform admins only)
  * GET /api/pipeline/manage?action=queue
  * GET /api/pipeline/manage?action=usage&period=30d
  * GET /api/pipeline/manage?action=health
@@ -9,8 +10,9 @@
 
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { authenticate } from "~/config/shopify.server";
-import { getShopifyUserByShop } from "~/lib/auth";
+import { getShopifyUserByShop, isPlatformAdminShop } from "~/lib/auth";
 import { PipelineDatabaseService } from "~/lib/services/pipeline-database.service";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   try {
@@ -40,7 +42,12 @@ export async function loader({ request }: LoaderFunctionArgs) {
         if (!userId) {
           return json({ error: "User not found" }, { status: 404 });
         }
-        const analytics = await PipelineDatabaseService.getExecutionAnalytics(userId, period);
+        // Result quality across every shop is for the platform team
+        const allShops = url.searchParams.get("scope") === "all";
+        if (allShops && !isPlatformAdminShop(shop)) {
+          return json({ error: "Not allowed to view analytics for every shop" }, { status: 403 });
+        }
+        const analytics = await PipelineDatabaseService.getExecutionAnalytics(allShops ? null : userId, period);
         return json({
           action: "analytics",
           period,
@@ -53,7 +60,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
         if (!userId) {
           return json({ error: "User not found" }, { status: 404 });
         }
-        const queueStatus = await PipelineDatabaseService.getQueueStatus(userId);
+        const subscription = await getActiveSubscription(userId);
+        const queueStatus = await PipelineDatabaseService.getQueueStatus(userId, subscription?.plan_tier || "free");
         return json({
           action: "queue",
           data: queueStatus,
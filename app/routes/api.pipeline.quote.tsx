@@ -0,0 +1,89 @@
+/**
+ * Pipeline Quote API
+ * POST /api/pipeline/quote
+ *
+ * Pre-flight quote for a pipeline run. Accepts the same body as
+ * /api/pipeline/execute and returns exactly what the run would cost without
+ * starting it. Pass the returned quote_hash to /api/pipeline/execute.
+ * Runs with an `outfit_id` are quoted against the saved outfit's layers.
+ * A `watermark_profile_id` adds the shop's watermark step (paid plans).
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   quote?: {
+ *     quote_hash: string;
+ *     tier: string;
+ *     mode: string;
+ *     poses: Array<{ pose_id, pose_name, credits, steps: Array<{ step, credits, included }> }>;
+ *     credits_per_pose: number;
+ *     list_credits: number;
+ *     discount: { description, percent_off, credits } | null;
+ *     total_credits: number;
+ *     available_credits: number;
+ *     remaining_credits_after_run: number;
+ *     daily_usage: number;
+ *     daily_limit: number;
+ *     will_queue: boolean;
+ *     estimated_start_at: string;
+ *     blocking_reasons: Array<{ code, message, status }>;
+ *     can_run: boolean;
+ *     effective_from: string;
+ *     quoted_at: string;
+ *   };
+ *   error?: string;
+ * }
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { getActiveSubscription } from "../lib/services/subscription.service";
+import { buildPipelineQuote } from "../lib/services/pipeline-quote.service";
+import { getOutfit } from "../lib/services/outfit.service";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    const user = await getShopifyUserByShop(session.shop);
+
+    if (!user) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    const subscriptionTier = subscription?.plan_tier || "free";
+
+    const { base_model_id, clothing_image_url, outfit, outfit_id, poses, mode, watermark_profile_id } = await request.json();
+
+    const savedOutfit = outfit_id ? await getOutfit(user.trayve_user_id, outfit_id) : null;
+    if (outfit_id && !savedOutfit) {
+      return json({ success: false, error: "Outfit not found" }, { status: 404 });
+    }
+
+    const quote = await buildPipelineQuote({
+      user_id: user.trayve_user_id,
+      subscription_tier: subscriptionTier as any,
+      base_model_id,
+      clothing_image_url,
+      outfit: savedOutfit?.layers ?? outfit,
+      poses,
+      mode,
+      watermark_profile_id,
+    });
+
+    console.log(`🧾 Pipeline quote for user ${user.trayve_user_id}: ${quote.total_credits} credits, ${quote.blocking_reasons.length} blocker(s)`);
+
+    return json({ success: true, quote });
+  } catch (error: any) {
+    console.error("❌ Error in pipeline quote:", error);
+    return json(
+      { success: false, error: error.message || "Failed to quote pipeline run" },
+      { status: 500 }
+    );
+  }
+};
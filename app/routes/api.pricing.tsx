@@ -0,0 +1,75 @@
+/**
+ * Pricing API
+ * GET /api/pricing
+ *
+ * Returns the credit price list for the shop's subscription tier and the
+ * subscription plan prices. Pass a feature and quantity to get an exact quote:
+ *
+ * GET /api/pricing?feature=generation&mode=product_shots&quantity=3
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   tier: string;
+ *   prices: Array<{ feature, mode, credits, description, effective_from }>;
+ *   plans: Record<string, { name, displayName, price, images, credits, tier }>;
+ *   quote?: { feature, tier, mode, quantity, list_unit_credits, unit_credits, total_credits, discount, effective_from, quoted_at };
+ *   error?: string;
+ * }
+ */
+
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { getActiveSubscription } from "../lib/services/subscription.service";
+import {
+  getPriceList,
+  isPricedFeature,
+  quoteFeature,
+  SUBSCRIPTION_PLANS,
+} from "../lib/pricing";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const { session } = await authenticate.admin(request);
+    const user = await getShopifyUserByShop(session.shop);
+
+    if (!user) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    const tier = subscription?.plan_tier || "free";
+
+    const url = new URL(request.url);
+    const feature = url.searchParams.get("feature");
+    let quote = undefined;
+
+    if (feature) {
+      if (!isPricedFeature(feature)) {
+        return json({ success: false, error: `Unknown feature: ${feature}` }, { status: 400 });
+      }
+
+      const quantity = Number.parseInt(url.searchParams.get("quantity") || "1", 10);
+      if (Number.isNaN(quantity) || quantity < 1) {
+        return json({ success: false, error: "Quantity must be a positive number" }, { status: 400 });
+      }
+
+      quote = quoteFeature(feature, quantity, { tier, mode: url.searchParams.get("mode") });
+    }
+
+    return json({
+      success: true,
+      tier,
+      prices: getPriceList(tier),
+      plans: SUBSCRIPTION_PLANS,
+      ...(quote && { quote }),
+    });
+  } catch (error: any) {
+    console.error("Error fetching pricing:", error);
+    return json(
+      { success: false, error: error.message || "Failed to fetch pricing" },
+      { status: 500 }
+    );
+  }
+};
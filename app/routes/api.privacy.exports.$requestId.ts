@@ -0,0 +1,48 @@
+/**
+ * API Route: Download a privacy data export
+ * GET /api/privacy/exports/:requestId
+ *
+ * Redirects to a short-lived signed link for the zip built for a
+ * customers/data_request webhook. Only the shop the request belongs to can
+ * download it, and each download is written to the privacy audit log.
+ */
+
+import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getPrivacyExportUrl, getPrivacyRequest } from "../lib/services/privacy.service";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  try {
+    const { session } = await authenticate.admin(request);
+    const requestId = params.requestId;
+
+    if (!requestId) {
+      return json({ success: false, error: "Request ID is required" }, { status: 400 });
+    }
+
+    const privacyRequest = await getPrivacyRequest(requestId);
+    if (!privacyRequest || privacyRequest.shop_domain !== session.shop) {
+      return json({ success: false, error: "Export not found" }, { status: 404 });
+    }
+
+    if (privacyRequest.status !== "completed") {
+      return json(
+        { success: false, error: "Export is still being prepared", status: privacyRequest.status },
+        { status: 409 }
+      );
+    }
+
+    const url = await getPrivacyExportUrl(requestId, session.shop);
+    if (!url) {
+      return json({ success: false, error: "Export not available" }, { status: 404 });
+    }
+
+    return redirect(url);
+  } catch (error: any) {
+    console.error("Error downloading privacy export:", error);
+    return json(
+      { success: false, error: error.message || "Failed to download export" },
+      { status: 500 }
+    );
+  }
+};
@@ -2,10 +2,20 @@ import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "~/config/shopify.server";
 import { supabaseAdmin } from "~/lib/storage/supabase.server";
 import { getShopifyUserByShop } from "~/lib/auth";
+import { releaseStoredObjects } from "~/lib/services/storage-lifecycle.service";
+import {
+  GENERATION_KINDS,
+  deleteProjectGenerations,
+  getGenerationTable,
+  listProjectGenerations,
+} from "~/lib/services/generation.service";
 
 /**
  * DELETE /api/projects/:projectId/delete
  * Deletes a project and all associated generation results
+ * Stored images are released to the storage sweep, which deletes the ones
+ * nothing else references (e.g. cached results reused by other projects)
+ * Outfits saved with the project are kept in the shop's library
  */
 export async function action({ request, params }: ActionFunctionArgs) {
   if (request.method !== 'DELETE') {
@@ -59,13 +69,23 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
     console.log('✅ Project ownership verified');
 
-    // Delete generation_results first (child records)
-    const { error: resultsDeleteError } = await supabaseAdmin
-      .from('generation_results')
-      .delete()
-      .eq('project_id', projectId);
+    // Release stored images before the rows that own them are gone
+    const [{ data: executions }, generations] = await Promise.all([
+      supabaseAdmin.from('pipeline_executions').select('id').eq('project_id', projectId),
+      listProjectGenerations(projectId),
+    ]);
+
+    await releaseStoredObjects('pipeline_executions', (executions || []).map((row: any) => row.id));
+    for (const kind of GENERATION_KINDS) {
+      await releaseStoredObjects(getGenerationTable(kind), generations.filter(g => g.kind === kind).map(g => g.id));
+    }
+
+    console.log('✅ Released stored images for cleanup');
 
-    if (resultsDeleteError) {
+    // Delete try-on and studio results first (try-on rows are children of user_generations)
+    try {
+      await deleteProjectGenerations(projectId);
+    } catch (resultsDeleteError) {
       console.log('❌ Error deleting generation results:', resultsDeleteError);
       return json({ success: false, error: 'Failed to delete generation results' }, { status: 500 });
     }
@@ -83,6 +103,17 @@ export async function action({ request, params }: ActionFunctionArgs) {
       // Continue anyway, may not exist
     }
 
+    // Keep the project's outfits in the shop's library
+    const { error: outfitsDetachError } = await supabaseAdmin
+      .from('outfits')
+      .update({ project_id: null })
+      .eq('project_id', projectId);
+
+    if (outfitsDetachError) {
+      console.log('❌ Error detaching outfits:', outfitsDetachError);
+      // Continue anyway, may not exist
+    }
+
     // Delete pipeline_executions
     const { error: executionsDeleteError } = await supabaseAdmin
       .from('pipeline_executions')
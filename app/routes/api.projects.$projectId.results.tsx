@@ -2,10 +2,28 @@ import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { authenticate } from "~/config/shopify.server";
 import { supabaseAdmin } from "~/lib/storage/supabase.server";
 import { getShopifyUserByShop } from "~/lib/auth";
+import { getRefundsByReference } from "~/lib/credits";
+import {
+  GENERATION_KINDS,
+  getGenerationReferenceType,
+  getVersionRootId,
+  latestVersions,
+  listProjectGenerations,
+} from "~/lib/services/generation.service";
+import {
+  getFeedbackFilter,
+  getResultFeedback,
+  matchesFeedbackFilter,
+  validateFeedbackFilter,
+} from "~/lib/services/feedback.service";
+import { getPrimaryImages } from "~/lib/services/result-version.service";
 
 /**
- * GET /api/projects/:projectId/results
- * Fetches all generation results for a project
+ * GET /api/projects/:projectId/results?favorite=&min_rating=&rejected=&rejection_reason=
+ * Fetches all generation results for a project, with the shop's feedback on each.
+ * Regenerated results show their latest version, with the earlier versions listed.
+ * Results with a chosen primary image (see result-version.service) include its URL.
+ * The optional feedback filters keep only matching results.
  */
 export async function loader({ request, params }: LoaderFunctionArgs) {
   console.log('═══════════════════════════════════════════════════════');
@@ -36,6 +54,12 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 
     console.log(`📁 Project ID: ${projectId}`);
 
+    const feedbackFilter = getFeedbackFilter(new URL(request.url).searchParams);
+    const invalidFilter = validateFeedbackFilter(feedbackFilter);
+    if (invalidFilter) {
+      return json({ success: false, error: invalidFilter }, { status: 400 });
+    }
+
     // Verify project ownership
     const { data: project, error: projectError } = await supabaseAdmin
       .from('user_generation_projects')
@@ -55,83 +79,29 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 
     console.log('✅ Project ownership verified');
 
-    // Determine project mode by checking pipeline executions
-    const { data: executions } = await supabaseAdmin
-      .from('pipeline_executions')
-      .select('config')
-      .eq('project_id', projectId)
-      .order('started_at', { ascending: false })
-      .limit(1);
-
-    const config = executions?.[0]?.config as any;
-    const rawMode = config?.mode;
-    let isStudioMode = rawMode === 'product_shots' || rawMode === 'social_media';
-
-    // Fetch all generation results based on mode
-    let results: any[] = [];
-    let resultsError = null;
-
-    if (isStudioMode) {
-      // Fetch from studio_generations
-      const { data: studioData, error: studioError } = await supabaseAdmin
-        .from('studio_generations')
-        .select('*')
-        .eq('project_id', projectId)
-        .order('created_at', { ascending: true });
-
-      if (studioError) {
-        resultsError = studioError;
-      } else {
-        // Normalize Studio Data to match structure needed for formatting
-        results = (studioData || []).map(item => ({
-          id: item.id,
-          pose_id: 0, // Placeholder
-          pose_name: item.pose_identifier,
-          result_image_url: item.result_image_url,
-          created_at: item.created_at || item.updated_at,
-          generation_metadata: item.metadata,
-          removed_bg_url: null, // Studio currently doesn't have separate BG removal column
-          generation_tier: 'free' // Default or fetch if needed
-        }));
-      }
-    } else {
-      // Fetch from generation_results (VTO)
-      const { data: vtoData, error: vtoError } = await supabaseAdmin
-        .from('generation_results')
-        .select(`
-        id,
-        pose_id,
-        pose_name,
-        result_image_url,
-        supabase_path,
-        generation_tier,
-        generation_metadata,
-        removed_bg_url,
-        created_at,
-        poses:pose_id (
-          id,
-          name,
-          supabase_path
-        )
-      `)
-        .eq('project_id', projectId)
-        .order('created_at', { ascending: true });
-
-      results = vtoData || [];
-      resultsError = vtoError;
-    }
-
-    if (resultsError) {
-      console.log('❌ Error fetching results:', resultsError);
-      return json({ success: false, error: 'Failed to fetch results' }, { status: 500 });
-    }
-
-    console.log(`✅ Found ${results?.length || 0} generation results`);
+    // Try-on and studio results of the project, oldest first
+    const allVersions = await listProjectGenerations(projectId);
+    const generations = latestVersions(allVersions);
+    const feedback = await getResultFeedback(generations.map(result => result.id));
+    const results = generations.filter(result => matchesFeedbackFilter(feedback.get(result.id), feedbackFilter));
+    const primaryImages = await getPrimaryImages(results);
+
+    console.log(`✅ Found ${results.length} generation results`);
+
+    // Credits refunded for poses that failed, linked to their result rows
+    const refundsByKind = await Promise.all(GENERATION_KINDS.map(kind =>
+      getRefundsByReference(
+        user_id,
+        getGenerationReferenceType(kind),
+        results.filter(result => result.kind === kind).map(result => result.id)
+      )
+    ));
+    const refunds: Record<string, { amount: number }> = Object.assign({}, ...refundsByKind);
 
     // Transform results to match expected format
-    const formattedResults = results.map((result: any) => {
-      const metadata = result.generation_metadata || {};
-      const tier = result.generation_tier || 'free';
+    const formattedResults = results.map((result) => {
+      const metadata = result.metadata;
+      const tier = (result.kind === 'tryon' && result.tier) || 'free';
 
       // Define which features are available for each tier
       const tierFeatures = {
@@ -154,14 +124,42 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 
         // Background removal
         generation_record: {
-          removed_bg_url: result.removed_bg_url || ''
+          removed_bg_url: (result.kind === 'tryon' && result.removed_bg_url) || ''
         },
+
+        // Image the shop picked for exports and publishing (null: the default image)
+        primary_image_url: primaryImages.get(getVersionRootId(result))?.image_url || null,
+
+        // Shopify product media this result was pushed to (keyed by product GID)
+        shopify_media: metadata.shopify_media || {},
+
+        // Generation outcome and per-pose refund (failed poses only)
+        generation_status: result.status,
+        error_message: result.error || undefined,
+        credits_refunded: refunds[result.id]?.amount || 0,
+
+        // Favorite, rating and rejection reasons (null until the shop gives feedback)
+        feedback: feedback.get(result.id) || null,
+
+        // Regenerations: this is the latest version, earlier ones newest first
+        kind: result.kind,
+        version: result.version,
+        previous_versions: allVersions
+          .filter(version => getVersionRootId(version) === getVersionRootId(result) && version.id !== result.id)
+          .reverse()
+          .map(version => ({
+            id: version.id,
+            version: version.version,
+            image_url: version.metadata.tryon_url || version.result_image_url || '',
+            generation_status: version.status,
+            created_at: version.created_at
+          })),
         created_at: result.created_at
       };
 
       return {
-        pose_id: result.pose_id,
-        pose_name: result.pose_name || result.poses?.name || 'Unknown Pose',
+        pose_id: result.kind === 'tryon' ? result.pose_id : 0, // Studio poses have no pose row
+        pose_name: result.pose_name || 'Unknown Pose',
         images: [formattedImage]
       };
     });
@@ -174,10 +172,13 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     });
     console.log('═══════════════════════════════════════════════════════');
 
+    const totalRefunded = Object.values(refunds).reduce((sum, refund) => sum + refund.amount, 0);
+
     return json({
       success: true,
       results: formattedResults,
-      total: formattedResults.length
+      total: formattedResults.length,
+      credits_refunded: totalRefunded
     });
 
   } catch (error: any) {
@@ -0,0 +1,87 @@
+/**
+ * Projects API
+ * GET /api/projects?search=&mode=&base_model_id=&from=&to=&status=&favorite=&min_rating=&rejected=&rejection_reason=&sort=&cursor=&limit=
+ *
+ * One page of the shop's projects, searched, filtered and sorted in the database.
+ *
+ * Query:
+ *   search         - Name or description contains
+ *   mode           - virtual_tryon | shop_ready | post_ready
+ *   base_model_id  - Projects generated with this model
+ *   from, to       - Created between these dates (inclusive)
+ *   status         - processing | completed | failed
+ *   favorite       - true: projects with a favorited result
+ *   min_rating     - Projects with a result rated at least this (1-5)
+ *   rejected       - true: projects with a rejected result
+ *   rejection_reason - Projects with a result rejected for this reason
+ *   sort           - newest (default) | oldest | updated | name
+ *   cursor         - next_cursor from the previous page
+ *   limit          - Page size (default 24, max 60)
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   projects?: ProjectSummary[];
+ *   next_cursor?: string | null;  // null on the last page
+ *   error?: string;
+ * }
+ */
+
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getFeedbackFilter } from "~/lib/services/feedback.service";
+import {
+  listProjects,
+  validateProjectListFilters,
+  type ProjectListFilters,
+  type ProjectMode,
+  type ProjectSort,
+  type ProjectStatus,
+} from "~/lib/services/projects.service";
+
+function getProjectListFilters(url: URL): ProjectListFilters {
+  const params = url.searchParams;
+  return {
+    search: params.get('search') || undefined,
+    mode: (params.get('mode') || undefined) as ProjectMode | undefined,
+    base_model_id: params.get('base_model_id') || undefined,
+    created_from: params.get('from') || undefined,
+    created_to: params.get('to') || undefined,
+    status: (params.get('status') || undefined) as ProjectStatus | undefined,
+    feedback: getFeedbackFilter(params),
+    sort: (params.get('sort') || undefined) as ProjectSort | undefined,
+    cursor: params.get('cursor'),
+    limit: Number(params.get('limit')) || undefined,
+  };
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const filters = getProjectListFilters(new URL(request.url));
+    const invalid = validateProjectListFilters(filters);
+    if (invalid) {
+      return json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    const page = await listProjects(user.trayve_user_id, filters);
+
+    return json({ success: true, ...page });
+  } catch (error: any) {
+    console.error('❌ Error fetching projects:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch projects'
+    }, { status: 500 });
+  }
+}
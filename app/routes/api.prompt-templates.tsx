@@ -0,0 +1,117 @@
+/**
+ * Prompt Templates API
+ * GET  /api/prompt-templates?key=tryon&days=30
+ * POST /api/prompt-templates
+ *
+ * Manage the versioned generation prompts. Templates are global, so only
+ * platform admin shops (PLATFORM_ADMIN_SHOPS) can use it.
+ *
+ * GET returns every version of a key (all keys without `key`), the active
+ * one, the built-in template and, with `key`, how many generations each
+ * version produced and how many completed or failed.
+ *
+ * POST body:
+ * { intent: "create"; key; body: string; notes?: string; activate?: boolean }
+ * { intent: "activate"; key; version: number } // 0 = built-in template
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { isPlatformAdminShop } from "~/lib/auth";
+import {
+  BUILTIN_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_KEYS,
+  PROMPT_TEMPLATE_VARIABLES,
+  isPromptTemplateKey,
+} from "~/lib/prompt-templates";
+import {
+  activatePromptTemplateVersion,
+  createPromptTemplateVersion,
+  getActivePromptTemplate,
+  getPromptTemplateUsage,
+  listPromptTemplateVersions,
+} from "~/lib/services/prompt-template.service";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!isPlatformAdminShop(session.shop)) {
+      return json({ success: false, error: "Not allowed to manage prompt templates" }, { status: 403 });
+    }
+
+    const url = new URL(request.url);
+    const key = url.searchParams.get("key");
+    if (key !== null && !isPromptTemplateKey(key)) {
+      return json({ success: false, error: `key must be one of ${PROMPT_TEMPLATE_KEYS.join(", ")}` }, { status: 400 });
+    }
+
+    const days = Math.min(Math.max(Number(url.searchParams.get("days")) || 30, 1), 365);
+    const versions = await listPromptTemplateVersions(key || undefined);
+
+    return json({
+      success: true,
+      versions,
+      variables: PROMPT_TEMPLATE_VARIABLES,
+      builtin: key ? BUILTIN_PROMPT_TEMPLATES[key] : BUILTIN_PROMPT_TEMPLATES,
+      ...(key && {
+        active: await getActivePromptTemplate(key),
+        usage: await getPromptTemplateUsage(key, days),
+      }),
+    });
+  } catch (error: any) {
+    console.error("❌ Error fetching prompt templates:", error);
+    return json({ success: false, error: error.message || "Failed to fetch prompt templates" }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ success: false, error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!isPlatformAdminShop(session.shop)) {
+      return json({ success: false, error: "Not allowed to manage prompt templates" }, { status: 403 });
+    }
+
+    const { intent, key, body, notes, activate, version } = await request.json();
+    if (!isPromptTemplateKey(key)) {
+      return json({ success: false, error: `key must be one of ${PROMPT_TEMPLATE_KEYS.join(", ")}` }, { status: 400 });
+    }
+
+    if (intent === "create") {
+      const result = await createPromptTemplateVersion({
+        key,
+        body: typeof body === "string" ? body : "",
+        notes: typeof notes === "string" ? notes : undefined,
+        activate: activate === true,
+        created_by: session.shop,
+      });
+
+      if (result.error) {
+        return json({ success: false, error: result.error }, { status: 400 });
+      }
+
+      return json({ success: true, template: result.template });
+    }
+
+    if (intent === "activate") {
+      if (!Number.isInteger(version) || version < 0) {
+        return json({ success: false, error: "version must be a whole number" }, { status: 400 });
+      }
+
+      const activated = await activatePromptTemplateVersion(key, version);
+      if (!activated) {
+        return json({ success: false, error: "Template version not found" }, { status: 404 });
+      }
+
+      return json({ success: true, active: await getActivePromptTemplate(key) });
+    }
+
+    return json({ success: false, error: "intent must be create or activate" }, { status: 400 });
+  } catch (error: any) {
+    console.error("❌ Error updating prompt templates:", error);
+    return json({ success: false, error: error.message || "Failed to update prompt templates" }, { status: 500 });
+  }
+}
@@ -2,14 +2,21 @@ import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "~/config/shopify.server";
 import { supabaseAdmin } from "~/lib/storage/supabase.server";
 import { getShopifyUserByShop } from "~/lib/auth";
-import { uploadToShopifyGenerationsBucket, downloadImageAsBuffer } from "~/lib/services/storage.service";
-import Replicate from "replicate";
+import { uploadToShopifyGenerationsBucket, downloadImageAsBuffer, STORAGE_BUCKETS } from "~/lib/services/storage.service";
+import { trackStoredObject } from "~/lib/services/storage-lifecycle.service";
+import { runWithFallback } from "~/lib/providers";
+import { reserveCredits, captureCredits, releaseCredits } from "~/lib/credits";
+import { getFeatureCost } from "~/lib/pricing";
+import { getGeneration, getGenerationTable, updateGeneration } from "~/lib/services/generation.service";
+import { randomUUID } from "crypto";
 
 /**
  * POST /api/remove-background
  * Removes background from an image
  * 
- * Cost: 500 credits
+ * Cost: `background_removal` price from the pricing catalog
+ * (held before processing, captured on success, released on failure)
+ * Send an Idempotency-Key header to make retries safe.
  * 
  * Image Selection by Tier:
  * - Free/Creator: Uses 2K image (basic_upscale_url or result_image_url)
@@ -75,43 +82,13 @@ export async function action({ request }: ActionFunctionArgs) {
       }, { status: 403 });
     }
 
-    // Check credits balance (total_credits - used_credits)
-    const { data: creditsData, error: creditsError } = await supabaseAdmin
-      .from('user_credits')
-      .select('total_credits, used_credits, total_consumed')
-      .eq('user_id', user_id)
-      .single();
-
-    if (creditsError || !creditsData) {
-      console.log('❌ Error fetching credits:', creditsError);
-      return json({ success: false, error: 'Credits not found' }, { status: 404 });
-    }
-
-    const currentBalance = (creditsData.total_credits || 0) - (creditsData.used_credits || 0);
-
-    if (currentBalance < 500) {
-      console.log('❌ Insufficient credits:', currentBalance);
-      return json({ 
-        success: false, 
-        error: 'Insufficient credits',
-        required: 500,
-        available: currentBalance
-      }, { status: 400 });
-    }
-
-    console.log(`💳 Current balance: ${currentBalance} credits`);
-
     console.log('🔄 Processing background removal...');
 
-    // Fetch generation result record with all image URLs
-    const { data: imageRecord, error: imageError } = await supabaseAdmin
-      .from('generation_results')
-      .select('id, result_image_url, basic_upscale_url, upscaled_image_url, face_swap_image_url, generation_metadata, removed_bg_url, project_id')
-      .eq('id', imageId)
-      .single();
+    // Fetch the shop's generation with all image URLs (background removal is stored on try-on results)
+    const imageRecord = await getGeneration(imageId, user_id);
 
-    if (imageError || !imageRecord) {
-      console.log('❌ Image not found:', imageError);
+    if (!imageRecord || imageRecord.kind !== 'tryon') {
+      console.log('❌ Image not found:', imageId);
       return json({ success: false, error: 'Image not found' }, { status: 404 });
     }
 
@@ -126,7 +103,7 @@ export async function action({ request }: ActionFunctionArgs) {
     }
 
     // Pipeline completion check for Professional/Enterprise
-    const metadata = imageRecord.generation_metadata || {};
+    const metadata = imageRecord.metadata;
     if (isProfessionalOrEnterprise && metadata.face_swap_status !== 'completed') {
       console.log('❌ Face swap not completed for Professional/Enterprise tier');
       console.log(`📊 Current face_swap_status: ${metadata.face_swap_status || 'undefined'}`);
@@ -139,56 +116,75 @@ export async function action({ request }: ActionFunctionArgs) {
     
     if (isProfessionalOrEnterprise) {
       // Professional/Enterprise: Use 4K image (face_swap > upscaled_image > basic_upscale > original)
-      sourceUrl = imageRecord.face_swap_image_url || 
-                  imageRecord.upscaled_image_url || 
-                  imageRecord.basic_upscale_url || 
+      sourceUrl = metadata.face_swap_image_url || 
+                  metadata.upscaled_image_url || 
+                  metadata.basic_upscale_url || 
                   imageRecord.result_image_url;
       console.log('📸 Using 4K image for Professional/Enterprise tier');
     } else {
       // Free/Creator: Use 2K image (basic_upscale > original)
-      sourceUrl = imageRecord.basic_upscale_url || 
+      sourceUrl = metadata.basic_upscale_url || 
                   imageRecord.result_image_url;
       console.log('📸 Using 2K image for Free/Creator tier');
     }
 
     console.log(`📍 Source URL: ${sourceUrl}`);
+
+    // Hold credits for the duration of the operation
+    const backgroundRemovalCost = getFeatureCost('background_removal', { tier: userTier });
+    const operationKey = `remove-bg:${imageId}:${request.headers.get('Idempotency-Key') || randomUUID()}`;
+    const reservation = await reserveCredits({
+      user_id,
+      amount: backgroundRemovalCost,
+      idempotency_key: operationKey,
+      description: 'Background removal',
+      feature_type: 'background_removal',
+      reference_id: imageId,
+    });
+
+    if (!reservation.success || !reservation.hold) {
+      console.log('❌ Credit hold failed:', reservation.error);
+      return json({ 
+        success: false, 
+        error: reservation.error || 'Failed to reserve credits',
+        required: backgroundRemovalCost,
+        available: reservation.remainingBalance
+      }, { status: reservation.error === 'Insufficient credits' ? 400 : 500 });
+    }
+
+    if (reservation.duplicate) {
+      return json({ success: false, error: 'This request was already processed' }, { status: 409 });
+    }
+
+    const holdId = reservation.hold.id;
+    const releaseHold = (reason: string) =>
+      releaseCredits(holdId, null, `${operationKey}:release`, `Refund: ${reason}`);
+
+    console.log(`💳 Held ${backgroundRemovalCost} credits (balance after hold: ${reservation.remainingBalance})`);
     
-    // Call Replicate Background Removal API (BiRefNet)
-    console.log('🔄 Calling BiRefNet background removal API...');
+    // Call background removal through the provider registry (BiRefNet on Replicate by default)
+    console.log('🔄 Calling background removal provider...');
     
     let removedBgUrl: string;
     
     try {
       const startTime = Date.now();
       
-      const replicate = new Replicate({
-        auth: process.env.REPLICATE_API_TOKEN,
+      const result = await runWithFallback('background-removal', provider => {
+        if (!provider.removeBackground) throw new Error(`${provider.id} does not support background removal`);
+        return provider.removeBackground({ imageUrl: sourceUrl });
       });
 
-      const output = await replicate.run(
-        "men1scus/birefnet:f74986db0355b58403ed20963af156525e2891ea3c2d499bfbfb2a28cd87c5d7",
-        {
-          input: {
-            image: sourceUrl
-          }
-        }
-      );
-
       const totalTime = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log(`✅ Background removal completed in ${totalTime}s`);
+      console.log(`✅ Background removal completed in ${totalTime}s via ${result.provider}`);
       
-      // Extract image URL from result - Replicate returns output as string
-      removedBgUrl = typeof output === 'string' ? output : String(output);
+      removedBgUrl = result.image_url;
       
-      if (!removedBgUrl) {
-        console.error('❌ No image URL in Replicate response');
-        throw new Error('No background-removed image generated by Replicate BiRefNet');
-      }
-
-      console.log('✅ Background removal complete:', removedBgUrl);
+      console.log('✅ Background removal complete:', removedBgUrl.substring(0, 100));
       
     } catch (error: any) {
       console.error('❌ Background removal API failed:', error);
+      await releaseHold('background removal failed');
       return json({ 
         success: false, 
         error: 'Background removal failed: ' + error.message 
@@ -201,7 +197,7 @@ export async function action({ request }: ActionFunctionArgs) {
     let permanentBgRemovedUrl: string;
     
     try {
-      // Download the image from Replicate
+      // Download the image from the provider
       const imageBuffer = await downloadImageAsBuffer(removedBgUrl);
       
       // Generate filename with proper path
@@ -221,51 +217,52 @@ export async function action({ request }: ActionFunctionArgs) {
       
       permanentBgRemovedUrl = uploadResult.url;
       console.log('✅ Uploaded to Supabase:', permanentBgRemovedUrl);
+
+      await trackStoredObject({
+        bucket: STORAGE_BUCKETS.SHOPIFY_GENERATIONS,
+        path: uploadResult.path,
+        user_id,
+        kind: 'edit',
+        owner_table: getGenerationTable(imageRecord.kind),
+        owner_id: imageId,
+        size_bytes: imageBuffer.length,
+      });
       
     } catch (error: any) {
       console.error('❌ Supabase upload failed:', error);
+      await releaseHold('background removal upload failed');
       return json({ 
         success: false, 
         error: 'Failed to upload image: ' + error.message 
       }, { status: 500 });
     }
 
-    // Update generation_results with removed background URL and timestamp
-    const { error: updateError } = await supabaseAdmin
-      .from('generation_results')
-      .update({ 
-        removed_bg_url: permanentBgRemovedUrl,
-        removed_bg_at: new Date().toISOString()
-      })
-      .eq('id', imageId);
+    // Save the removed background URL (and when it was made) on the generation
+    const updated = await updateGeneration(imageRecord, { removed_bg_url: permanentBgRemovedUrl })
+      .catch(updateError => {
+        console.log('❌ Error updating image record:', updateError);
+        return false;
+      });
 
-    if (updateError) {
-      console.log('❌ Error updating image record:', updateError);
+    if (!updated) {
+      await releaseHold('background removal could not be saved');
       return json({ success: false, error: 'Failed to update image' }, { status: 500 });
     }
 
-    // Deduct credits using direct UPDATE (non-fatal if fails)
-    const { error: creditError } = await supabaseAdmin
-      .from('user_credits')
-      .update({
-        used_credits: creditsData.used_credits + 500,
-        total_consumed: (creditsData.total_consumed || 0) + 500
-      })
-      .eq('user_id', user_id);
-
-    if (creditError) {
-      // Log error but don't rollback - image already processed
-      console.log('⚠️ Error deducting credits (non-fatal):', creditError);
+    // Capture the held credits (non-fatal if fails - image already processed)
+    const capture = await captureCredits(holdId, backgroundRemovalCost, `${operationKey}:capture`, 'Background removal');
+    if (!capture.success) {
+      console.log('⚠️ Error capturing credits (non-fatal):', capture.error);
     } else {
-      console.log('💳 Credits deducted: 500');
+      console.log(`💳 Credits captured: ${backgroundRemovalCost}`);
     }
-    console.log(`💰 New balance: ${currentBalance - 500}`);
+    console.log(`💰 New balance: ${reservation.remainingBalance}`);
     console.log('═══════════════════════════════════════════════════════');
 
     return json({
       success: true,
       removed_bg_url: permanentBgRemovedUrl,
-      remaining_credits: currentBalance - 500
+      remaining_credits: reservation.remainingBalance
     });
 
   } catch (error: any) {
@@ -0,0 +1,69 @@
+/**
+ * Result Feedback API
+ * POST /api/results/:resultId/feedback
+ *
+ * Favorite, rate or reject one of the shop's results. Fields left out keep
+ * their current value.
+ *
+ * Request Body:
+ * {
+ *   favorite?: boolean;
+ *   rating?: number | null;  // 1-5, null clears it
+ *   rejection_reasons?: ('bad_hands' | 'garment_distortion' | 'face_changed' | 'wrong_color')[];
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   feedback?: ResultFeedback;
+ *   error?: string;
+ * }
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { saveResultFeedback, validateFeedbackUpdate } from "~/lib/services/feedback.service";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { resultId } = params;
+    if (!resultId) {
+      return json({ success: false, error: 'Result ID required' }, { status: 400 });
+    }
+
+    const { favorite, rating, rejection_reasons } = await request.json();
+    const update = { favorite, rating, rejection_reasons };
+    const invalid = validateFeedbackUpdate(update);
+    if (invalid) {
+      return json({ success: false, error: invalid }, { status: 400 });
+    }
+
+    const feedback = await saveResultFeedback(user.trayve_user_id, resultId, update);
+    if (!feedback) {
+      return json({ success: false, error: 'Result not found' }, { status: 404 });
+    }
+
+    return json({ success: true, feedback });
+  } catch (error: any) {
+    console.error('❌ Error saving result feedback:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to save feedback'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Result Regenerate API
+ * POST /api/results/:resultId/regenerate
+ *
+ * Generate one result's pose again inside its project. The new image becomes
+ * the result's next version; earlier versions are kept. A regeneration costs
+ * the normal per-pose price and, like /api/pipeline/execute, only runs against
+ * a quote the shop confirmed: ask with intent "quote", then send intent "run"
+ * with the same options and the quote's hash.
+ *
+ * Request Body:
+ * {
+ *   intent: 'quote' | 'run';
+ *   seed?: number;               // 0-4294967295; providers without seed support ignore it
+ *   provider?: string;           // One of the providers returned with the quote
+ *   prompt_overrides?: { theme?: string; background?: string; angle?: string }; // Shop Ready / Post Ready only
+ *   quote_hash?: string;         // Required for intent "run"
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   quote?: PipelineQuote;
+ *   providers?: string[];        // Providers the result can be regenerated with
+ *   version?: number;            // Version the new result becomes
+ *   execution_id?: string;       // intent "run"
+ *   result_id?: string;          // intent "run": the new version's result
+ *   error?: string;
+ *   blocking_reasons?: Array<{ code: string; message: string; status: number }>;
+ * }
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { buildPipelineQuote } from "~/lib/services/pipeline-quote.service";
+import {
+  getRegenerationProviders,
+  planRegeneration,
+  startRegeneration,
+} from "~/lib/services/regeneration.service";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { resultId } = params;
+    if (!resultId) {
+      return json({ success: false, error: 'Result ID required' }, { status: 400 });
+    }
+
+    const { intent, seed, provider, prompt_overrides, quote_hash } = await request.json();
+    if (intent !== 'quote' && intent !== 'run') {
+      return json({ success: false, error: 'intent must be quote or run' }, { status: 400 });
+    }
+
+    const userId = user.trayve_user_id;
+    const subscription = await getActiveSubscription(userId);
+    const subscriptionTier = (subscription?.plan_tier || 'free') as any;
+
+    const { plan, error, status } = await planRegeneration(userId, subscriptionTier, resultId, {
+      seed,
+      provider,
+      prompt_overrides
+    });
+    if (!plan) {
+      return json({ success: false, error }, { status: status || 400 });
+    }
+
+    const quote = await buildPipelineQuote(plan.quote_input);
+    const providers = getRegenerationProviders(plan.source.kind);
+
+    if (intent === 'quote') {
+      return json({ success: true, quote, providers, version: plan.version });
+    }
+
+    if (!quote.can_run) {
+      const blocker = quote.blocking_reasons[0];
+      console.error(`❌ Regeneration blocked: ${blocker.code} - ${blocker.message}`);
+      return json({
+        success: false,
+        error: blocker.message,
+        blocking_reasons: quote.blocking_reasons,
+        quote
+      }, { status: blocker.status });
+    }
+
+    if (!quote_hash) {
+      return json({ success: false, error: 'quote_hash is required. Request a quote first.' }, { status: 400 });
+    }
+
+    if (quote_hash !== quote.quote_hash) {
+      return json({
+        success: false,
+        error: 'The price of this regeneration changed since it was quoted. Review the new quote and try again.',
+        quote
+      }, { status: 409 });
+    }
+
+    const { result, error: startError, status: startStatus } = await startRegeneration(plan, quote.credits_per_pose);
+    if (!result) {
+      return json({ success: false, error: startError }, { status: startStatus || 409 });
+    }
+
+    return json({
+      success: true,
+      execution_id: result.execution_id,
+      result_id: result.generation_results[0]?.result_id,
+      version: plan.version,
+      credits_reserved: quote.total_credits
+    });
+  } catch (error: any) {
+    console.error('❌ Error regenerating result:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to regenerate result'
+    }, { status: 500 });
+  }
+}
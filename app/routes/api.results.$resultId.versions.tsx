@@ -0,0 +1,101 @@
+/**
+ * Result Versions API
+ * GET  /api/results/:resultId/versions
+ * POST /api/results/:resultId/versions
+ *
+ * Every version of one of the shop's results with each stored image (try-on
+ * or studio image, watermark, 4K upscale, background removed), and the image
+ * used for exports and Shopify publishing. Any version's ID works.
+ *
+ * POST picks the primary image from the history.
+ *
+ * Request Body (POST):
+ * {
+ *   image_id: string | null;  // An image ID from the history; null goes back to the default image
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   history?: ResultVersionHistory;
+ *   error?: string;
+ * }
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getResultVersionHistory, setPrimaryImage } from "~/lib/services/result-version.service";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { resultId } = params;
+    if (!resultId) {
+      return json({ success: false, error: 'Result ID required' }, { status: 400 });
+    }
+
+    const history = await getResultVersionHistory(user.trayve_user_id, resultId);
+    if (!history) {
+      return json({ success: false, error: 'Result not found' }, { status: 404 });
+    }
+
+    return json({ success: true, history });
+  } catch (error: any) {
+    console.error('❌ Error fetching result versions:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch versions'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { resultId } = params;
+    if (!resultId) {
+      return json({ success: false, error: 'Result ID required' }, { status: 400 });
+    }
+
+    const { image_id } = await request.json();
+    if (image_id !== null && typeof image_id !== 'string') {
+      return json({ success: false, error: 'image_id must be an image ID or null' }, { status: 400 });
+    }
+
+    const { history, error, status } = await setPrimaryImage(user.trayve_user_id, resultId, image_id);
+    if (!history) {
+      return json({ success: false, error }, { status: status || 400 });
+    }
+
+    return json({ success: true, history });
+  } catch (error: any) {
+    console.error('❌ Error saving primary image:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to save primary image'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { searchShopifyCollections } from "~/lib/shopify";
+
+/**
+ * GET /api/shopify/collections?query=summer
+ * Lists the shop's collections for the catalog batch picker
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session, admin } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const query = url.searchParams.get("query")?.trim() || undefined;
+    const limit = parseInt(url.searchParams.get("limit") || "50");
+
+    const collections = await searchShopifyCollections(admin, query, limit);
+
+    return json({ success: true, collections });
+  } catch (error: any) {
+    console.error('❌ Error fetching Shopify collections:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch collections'
+    }, { status: 500 });
+  }
+}
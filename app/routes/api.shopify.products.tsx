@@ -0,0 +1,30 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { searchShopifyProducts } from "~/lib/shopify";
+
+/**
+ * GET /api/shopify/products?query=shirt
+ * Lists the shop's products (with variants) for the "Push to product" picker
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session, admin } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const query = url.searchParams.get("query")?.trim() || undefined;
+    const limit = parseInt(url.searchParams.get("limit") || "20");
+
+    const products = await searchShopifyProducts(admin, query, limit);
+
+    return json({ success: true, products });
+  } catch (error: any) {
+    console.error('❌ Error fetching Shopify products:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch products'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { pushGenerationsToProduct, type PushMediaItem } from "~/lib/shopify";
+import { recordGenerationSignal } from "~/lib/services/experiment.service";
+
+/**
+ * POST /api/shopify/push-media
+ * Attaches generated images to a Shopify product as media
+ *
+ * Request Body:
+ * {
+ *   product_id: string;          // Product GID
+ *   variant_id?: string;         // Variant GID, receives the first image
+ *   items: Array<{ result_id: string; alt?: string }>;  // In gallery order
+ * }
+ *
+ * Re-pushing a result to the same product updates the existing media
+ * instead of creating a duplicate.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  console.log('═══════════════════════════════════════════════════════');
+  console.log('🛍️  PUSH TO PRODUCT REQUEST');
+  console.log('═══════════════════════════════════════════════════════');
+
+  try {
+    const { session, admin } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { product_id, variant_id, items } = body;
+
+    if (!product_id || typeof product_id !== 'string' || !product_id.startsWith('gid://shopify/Product/')) {
+      return json({ success: false, error: 'A valid product_id is required' }, { status: 400 });
+    }
+
+    if (variant_id && (typeof variant_id !== 'string' || !variant_id.startsWith('gid://shopify/ProductVariant/'))) {
+      return json({ success: false, error: 'variant_id must be a ProductVariant GID' }, { status: 400 });
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return json({ success: false, error: 'At least one image is required' }, { status: 400 });
+    }
+
+    if (items.length > 20) {
+      return json({ success: false, error: 'Maximum 20 images per push' }, { status: 400 });
+    }
+
+    if (items.some((item: any) => !item?.result_id)) {
+      return json({ success: false, error: 'Each item must have a result_id' }, { status: 400 });
+    }
+
+    console.log(`👤 User ID: ${user.trayve_user_id}`);
+    console.log(`📦 Product: ${product_id}${variant_id ? ` (variant ${variant_id})` : ''}`);
+
+    const results = await pushGenerationsToProduct(admin, {
+      user_id: user.trayve_user_id,
+      product_id,
+      variant_id,
+      items: items as PushMediaItem[],
+    });
+
+    const failed = results.filter(r => r.action === 'failed').length;
+
+    await Promise.all(results
+      .filter(r => r.action !== 'failed')
+      .map(r => recordGenerationSignal({ user_id: user.trayve_user_id, signal: 'push', result_id: r.result_id })));
+    console.log('═══════════════════════════════════════════════════════');
+
+    return json({
+      success: failed < results.length,
+      results,
+      pushed: results.length - failed,
+      failed,
+      ...(failed === results.length && { error: results[0]?.error || 'Failed to push images' }),
+    }, { status: failed === results.length ? 502 : 200 });
+  } catch (error: any) {
+    console.error('❌ Error pushing media to Shopify:', error);
+    return json({
+      success: false,
+      error: error.message || 'Internal server error'
+    }, { status: 500 });
+  }
+}
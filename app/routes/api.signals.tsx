@@ -0,0 +1,71 @@
+/**
+ * Generation Signals API
+ * POST /api/signals
+ *
+ * Records what the shop did with generated images, for comparing
+ * experiment variants. Pushes, favorites and regenerations are recorded
+ * by the server; only downloads happen in the browser and come through here.
+ *
+ * Request Body:
+ * {
+ *   signal: 'download';
+ *   result_ids: string[];
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   recorded?: number;  // Results the signal was recorded for
+ *   error?: string;
+ * }
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { recordGenerationSignal } from "~/lib/services/experiment.service";
+
+const MAX_RESULTS_PER_REQUEST = 100;
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const { signal, result_ids } = await request.json();
+    if (signal !== 'download') {
+      return json({ success: false, error: 'signal must be download' }, { status: 400 });
+    }
+    if (!Array.isArray(result_ids) || result_ids.length === 0 || result_ids.some(id => typeof id !== 'string')) {
+      return json({ success: false, error: 'result_ids must be a non-empty array of IDs' }, { status: 400 });
+    }
+    if (result_ids.length > MAX_RESULTS_PER_REQUEST) {
+      return json({ success: false, error: `At most ${MAX_RESULTS_PER_REQUEST} results per request` }, { status: 400 });
+    }
+
+    const recorded = await Promise.all(
+      [...new Set<string>(result_ids)].map(resultId =>
+        recordGenerationSignal({ user_id: user.trayve_user_id, signal, result_id: resultId })
+      )
+    );
+
+    return json({ success: true, recorded: recorded.filter(Boolean).length });
+  } catch (error: any) {
+    console.error('❌ Error recording generation signal:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to record signal'
+    }, { status: 500 });
+  }
+}
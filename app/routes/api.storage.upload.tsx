@@ -23,6 +23,9 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../config/shopify.server";
 import { uploadToStorage } from "../lib/storage/supabase.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { STORAGE_BUCKETS } from "../lib/services/storage.service";
+import { trackStoredObject } from "../lib/services/storage-lifecycle.service";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
@@ -84,6 +87,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     console.log("✅ File uploaded successfully:", result.url);
 
+    // Garment uploads are collected once no run or project references them
+    if (bucket === STORAGE_BUCKETS.USER_IMAGES && result.path) {
+      const user = await getShopifyUserByShop(session.shop);
+      if (user) {
+        await trackStoredObject({
+          bucket,
+          path: result.path,
+          user_id: user.trayve_user_id,
+          kind: "upload",
+          owner_table: "shopify_users",
+          owner_id: user.trayve_user_id,
+          size_bytes: buffer.length,
+        });
+      }
+    }
+
     return json({
       success: true,
       url: result.url,
@@ -0,0 +1,52 @@
+/**
+ * API Route: Get the shop's storage usage
+ * GET /api/storage/usage
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   usage?: {
+ *     total_bytes: number;
+ *     object_count: number;
+ *     by_kind: Record<string, { bytes, count }>;   // upload, intermediate, final, edit, export
+ *     by_bucket: Record<string, { bytes, count }>;
+ *   };
+ *   intermediate_retention_days?: number;
+ *   error?: string;
+ * }
+ */
+
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { getActiveSubscription } from "../lib/services/subscription.service";
+import { getStorageUsage } from "../lib/services/storage-lifecycle.service";
+import { STORAGE_RETENTION } from "../config/generation.constants";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const { session } = await authenticate.admin(request);
+    const user = await getShopifyUserByShop(session.shop);
+
+    if (!user) {
+      return json({ success: false, error: "User not found" }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    const tier = subscription?.plan_tier || "free";
+
+    const usage = await getStorageUsage(user.trayve_user_id);
+
+    return json({
+      success: true,
+      usage,
+      intermediate_retention_days: STORAGE_RETENTION.intermediateDays[tier] ?? STORAGE_RETENTION.intermediateDays.free,
+    });
+  } catch (error: any) {
+    console.error("Error fetching storage usage:", error);
+    return json(
+      { success: false, error: error.message || "Failed to fetch storage usage" },
+      { status: 500 }
+    );
+  }
+};
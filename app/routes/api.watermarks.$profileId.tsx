@@ -0,0 +1,70 @@
+/**
+ * Watermark Profile Detail API
+ * POST   /api/watermarks/:profileId  - Update a profile (same fields as POST /api/watermarks, all optional)
+ * DELETE /api/watermarks/:profileId  - Delete a profile
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { canCustomizeWatermark } from "~/lib/services/watermark.service";
+import {
+  deleteWatermarkProfile,
+  readWatermarkForm,
+  updateWatermarkProfile,
+} from "~/lib/services/watermark-profile.service";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { profileId } = params;
+    if (!profileId) {
+      return json({ success: false, error: 'Profile ID is required' }, { status: 400 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    // Deleting stays available after a downgrade
+    if (request.method === 'DELETE') {
+      const deleted = await deleteWatermarkProfile(user.trayve_user_id, profileId);
+      if (!deleted) {
+        return json({ success: false, error: 'Watermark profile not found' }, { status: 404 });
+      }
+      return json({ success: true });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    if (!canCustomizeWatermark(subscription?.plan_tier || "free")) {
+      return json({ success: false, error: 'Custom watermarks are available on paid plans' }, { status: 403 });
+    }
+
+    const { input, logo } = await readWatermarkForm(await request.formData());
+    const { profile, error } = await updateWatermarkProfile(user.trayve_user_id, profileId, input, logo);
+    if (error) {
+      return json({ success: false, error }, { status: 400 });
+    }
+    if (!profile) {
+      return json({ success: false, error: 'Watermark profile not found' }, { status: 404 });
+    }
+
+    return json({ success: true, profile });
+  } catch (error: any) {
+    console.error('❌ Error updating watermark profile:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to update watermark profile'
+    }, { status: 500 });
+  }
+}
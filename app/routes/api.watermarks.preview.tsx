@@ -0,0 +1,111 @@
+/**
+ * Watermark Preview API
+ * POST /api/watermarks/preview
+ *
+ * Renders a watermark onto an image without saving anything, so shops can
+ * try settings before creating or updating a profile. Free plans always
+ * preview the Trayve mark.
+ *
+ * Request Body (FormData):
+ * {
+ *   profile_id?: string;  // Start from a saved profile
+ *   image_url?: string;   // One of the shop's stored images; a blank canvas otherwise
+ *   ...fields of POST /api/watermarks (all optional, override the profile)
+ * }
+ *
+ * Response: image/png
+ */
+
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { downloadImageAsBuffer, parseStorageUrl } from "~/lib/services/storage.service";
+import {
+  canCustomizeWatermark,
+  createPreviewCanvas,
+  renderWatermark,
+  TRAYVE_WATERMARK,
+  validateWatermarkSettings,
+  type WatermarkSettings,
+} from "~/lib/services/watermark.service";
+import {
+  getWatermarkProfile,
+  mergeWatermarkSettings,
+  readWatermarkForm,
+  toWatermarkSettings,
+  validateWatermarkLogo,
+} from "~/lib/services/watermark-profile.service";
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    const tier = subscription?.plan_tier || "free";
+
+    const formData = await request.formData();
+    const profileId = formData.get('profile_id');
+    const imageUrl = formData.get('image_url');
+
+    // Only images in our own storage can be previewed
+    if (typeof imageUrl === 'string' && imageUrl && !parseStorageUrl(imageUrl)) {
+      return json({ success: false, error: 'image_url must be an image stored by the app' }, { status: 400 });
+    }
+
+    let settings: WatermarkSettings = TRAYVE_WATERMARK;
+    let logo: Buffer | undefined;
+
+    if (canCustomizeWatermark(tier)) {
+      let base: WatermarkSettings | null = null;
+      if (typeof profileId === 'string' && profileId) {
+        const profile = await getWatermarkProfile(user.trayve_user_id, profileId);
+        if (!profile) {
+          return json({ success: false, error: 'Watermark profile not found' }, { status: 404 });
+        }
+        base = { ...toWatermarkSettings(profile), image_url: profile.image_url };
+      }
+
+      const form = await readWatermarkForm(formData);
+      const invalidLogo = form.logo ? validateWatermarkLogo(form.logo) : null;
+      const merged = mergeWatermarkSettings(base, form.input, form.logo ? 'preview' : null);
+      const invalid = invalidLogo || validateWatermarkSettings(merged);
+      if (invalid) {
+        return json({ success: false, error: invalid }, { status: 400 });
+      }
+
+      settings = merged as WatermarkSettings;
+      logo = form.logo?.buffer;
+    }
+
+    const image = typeof imageUrl === 'string' && imageUrl
+      ? await downloadImageAsBuffer(imageUrl)
+      : await createPreviewCanvas();
+    const preview = await renderWatermark(image, settings, logo);
+
+    return new Response(new Uint8Array(preview), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('❌ Error rendering watermark preview:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to render watermark preview'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Watermark Profiles API
+ * GET  /api/watermarks  - The shop's watermark profiles
+ * POST /api/watermarks  - Save a profile (paid plans)
+ *
+ * Request Body (POST, FormData):
+ * {
+ *   name?: string;
+ *   kind: 'image' | 'text';
+ *   logo?: File;           // PNG or WebP, required for image watermarks
+ *   text?: string;         // Required for text watermarks
+ *   position: 'northwest' | 'north' | 'northeast' | 'west' | 'center' | 'east' | 'southwest' | 'south' | 'southeast';
+ *   opacity: number;       // 0.05 - 1
+ *   scale: number;         // Mark width relative to the image width, 0.05 - 0.6
+ *   tiled?: 'true' | 'false';
+ *   is_default?: 'true' | 'false';
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean;
+ *   profiles?: WatermarkProfile[];  // GET
+ *   locked?: boolean;               // GET - free plans always get the Trayve mark
+ *   profile?: WatermarkProfile;     // POST
+ *   error?: string;
+ * }
+ *
+ * Profiles are applied to a run by passing `watermark_profile_id` to
+ * /api/pipeline/quote and /api/pipeline/execute.
+ */
+
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "~/config/shopify.server";
+import { getShopifyUserByShop } from "~/lib/auth";
+import { getActiveSubscription } from "~/lib/services/subscription.service";
+import { canCustomizeWatermark, TRAYVE_WATERMARK } from "~/lib/services/watermark.service";
+import {
+  createWatermarkProfile,
+  listWatermarkProfiles,
+  readWatermarkForm,
+} from "~/lib/services/watermark-profile.service";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    const tier = subscription?.plan_tier || "free";
+    const profiles = await listWatermarkProfiles(user.trayve_user_id);
+
+    return json({
+      success: true,
+      profiles,
+      locked: !canCustomizeWatermark(tier),
+      trayve_watermark: TRAYVE_WATERMARK,
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching watermark profiles:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to fetch watermark profiles'
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+    if (!session) {
+      return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getShopifyUserByShop(session.shop);
+    if (!user) {
+      return json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const subscription = await getActiveSubscription(user.trayve_user_id);
+    if (!canCustomizeWatermark(subscription?.plan_tier || "free")) {
+      return json({ success: false, error: 'Custom watermarks are available on paid plans' }, { status: 403 });
+    }
+
+    const { input, logo } = await readWatermarkForm(await request.formData());
+    const { profile, error } = await createWatermarkProfile(user.trayve_user_id, input, logo);
+    if (error || !profile) {
+      return json({ success: false, error: error || 'Failed to save watermark profile' }, { status: 400 });
+    }
+
+    return json({ success: true, profile });
+  } catch (error: any) {
+    console.error('❌ Error saving watermark profile:', error);
+    return json({
+      success: false,
+      error: error.message || 'Failed to save watermark profile'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,299 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useNavigate, useSearchParams } from "@remix-run/react";
+import { Page } from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, CheckCircle, ExternalLink, Upload } from "lucide-react";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import {
+  getGenerationBatch,
+  type BatchCredits,
+  type BatchItemDetail,
+  type BatchProgress,
+  type GenerationBatch,
+} from "../lib/services/batch-generation.service";
+
+const REFRESH_INTERVAL_MS = 5000;
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const user = await getShopifyUserByShop(session.shop);
+
+  if (!user || !params.batchId) {
+    throw new Response("Batch not found", { status: 404 });
+  }
+
+  const detail = await getGenerationBatch(params.batchId, user.trayve_user_id);
+  if (!detail) {
+    throw new Response("Batch not found", { status: 404 });
+  }
+
+  return json(detail);
+};
+
+interface BatchDetail {
+  batch: GenerationBatch;
+  items: BatchItemDetail[];
+  progress: BatchProgress;
+  credits: BatchCredits;
+}
+
+const itemStatusStyles: Record<string, { background: string; color: string; label: string }> = {
+  pending: { background: "#F3F4F6", color: "#4B5563", label: "Waiting" },
+  dispatching: { background: "#DBEAFE", color: "#1E40AF", label: "Starting" },
+  processing: { background: "#DBEAFE", color: "#1E40AF", label: "Generating" },
+  completed: { background: "#D1FAE5", color: "#065F46", label: "Ready" },
+  failed: { background: "#FEE2E2", color: "#991B1B", label: "Failed" },
+  cancelled: { background: "#F3F4F6", color: "#6B7280", label: "Cancelled" },
+};
+
+export default function CatalogBatchReview() {
+  const initial = useLoaderData<typeof loader>() as unknown as BatchDetail;
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [detail, setDetail] = useState<BatchDetail>(initial);
+  const [publishing, setPublishing] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(() => {
+    const skipped = Number(searchParams.get("skipped") || 0);
+    return skipped > 0
+      ? { tone: "error", text: `${skipped} product${skipped === 1 ? " was" : "s were"} skipped because they have no featured image.` }
+      : null;
+  });
+
+  const { batch, items, progress, credits } = detail;
+  const isActive = progress.pending + progress.processing > 0;
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/batches/${batch.id}`);
+      const result = await response.json();
+      if (result.success) {
+        setDetail({ batch: result.batch, items: result.items, progress: result.progress, credits: result.credits });
+      }
+    } catch (error) {
+      console.error("Failed to refresh batch:", error);
+    }
+  }, [batch.id]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isActive, refresh]);
+
+  const publishItems = async (itemIds: string[]) => {
+    if (itemIds.length === 0) return;
+    setPublishing(prev => new Set([...prev, ...itemIds]));
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/batches/${batch.id}/publish`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ item_ids: itemIds }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({
+          tone: result.failed > 0 ? "error" : "success",
+          text: `Published ${result.published} product${result.published === 1 ? "" : "s"} to Shopify${result.failed > 0 ? `, ${result.failed} failed` : ""}.`,
+        });
+      } else {
+        setMessage({ tone: "error", text: result.error || "Failed to publish" });
+      }
+      await refresh();
+    } catch (error: any) {
+      setMessage({ tone: "error", text: error.message || "Failed to publish" });
+    } finally {
+      setPublishing(prev => {
+        const next = new Set(prev);
+        itemIds.forEach(id => next.delete(id));
+        return next;
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      const response = await fetch(`/api/batches/${batch.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel" }),
+      });
+      const result = await response.json();
+      setMessage(result.success
+        ? { tone: "success", text: `Batch cancelled. ${result.cancelled_items} product(s) that hadn't started were refunded.` }
+        : { tone: "error", text: result.error || "Failed to cancel batch" });
+      await refresh();
+    } catch (error: any) {
+      setMessage({ tone: "error", text: error.message || "Failed to cancel batch" });
+    }
+  };
+
+  const publishable = items.filter(item => item.status === "completed" && item.result_count > 0 && !item.published_at);
+
+  const buttonStyle = (primary: boolean, disabled = false) => ({
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "8px 16px",
+    borderRadius: "8px",
+    fontSize: "14px",
+    fontWeight: 500,
+    border: primary ? "none" : "1px solid #D1D5DB",
+    color: primary ? "white" : "#374151",
+    backgroundColor: primary ? (disabled ? "#C4B5FD" : "#702dff") : "white",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  return (
+    <Page fullWidth>
+      <TitleBar title={batch.name} />
+
+      <div style={{ maxWidth: "1200px", margin: "0 auto", padding: "24px" }}>
+        <button onClick={() => navigate("/app/batches")} style={{ ...buttonStyle(false), marginBottom: "16px" }}>
+          <ArrowLeft size={16} /> All batches
+        </button>
+
+        {/* Header & aggregate progress */}
+        <div style={{ backgroundColor: "white", border: "1px solid #E5E7EB", borderRadius: "12px", padding: "24px", marginBottom: "24px" }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "16px" }}>
+            <div>
+              <h1 style={{ fontSize: "22px", fontWeight: 700, color: "#111827" }}>{batch.name}</h1>
+              <p style={{ fontSize: "14px", color: "#6B7280", marginTop: "4px" }}>
+                {batch.total_items} products × {batch.poses.length} poses · {credits.reserved.toLocaleString()} credits reserved
+                {` · ${credits.captured.toLocaleString()} used`}
+                {credits.released > 0 && ` · ${credits.released.toLocaleString()} refunded`}
+                {credits.held > 0 && ` · ${credits.held.toLocaleString()} on hold`}
+              </p>
+            </div>
+            <div style={{ display: "flex", gap: "8px" }}>
+              {batch.status === "processing" && progress.pending > 0 && (
+                <button onClick={handleCancel} style={buttonStyle(false)}>Cancel remaining</button>
+              )}
+              <button
+                onClick={() => publishItems(publishable.map(item => item.id))}
+                disabled={publishable.length === 0 || publishing.size > 0}
+                style={buttonStyle(true, publishable.length === 0 || publishing.size > 0)}
+              >
+                <Upload size={16} /> Publish all ready ({publishable.length})
+              </button>
+            </div>
+          </div>
+
+          <div style={{ marginTop: "20px" }}>
+            <div style={{ height: "8px", backgroundColor: "#F3F4F6", borderRadius: "9999px", overflow: "hidden" }}>
+              <div style={{ width: `${progress.percent}%`, height: "100%", backgroundColor: "#702dff", transition: "width 0.3s ease" }} />
+            </div>
+            <div style={{ display: "flex", gap: "16px", marginTop: "8px", fontSize: "13px", color: "#4B5563" }}>
+              <span>{progress.percent}%</span>
+              <span>{progress.completed} ready</span>
+              <span>{progress.processing} generating</span>
+              <span>{progress.pending} waiting</span>
+              {progress.failed > 0 && <span style={{ color: "#B91C1C" }}>{progress.failed} failed</span>}
+              {progress.cancelled > 0 && <span>{progress.cancelled} cancelled</span>}
+              <span>{progress.published} published</span>
+            </div>
+          </div>
+        </div>
+
+        {message && (
+          <div style={{
+            backgroundColor: message.tone === "success" ? "#D1FAE5" : "#FEF3C7",
+            borderLeft: `4px solid ${message.tone === "success" ? "#10B981" : "#F59E0B"}`,
+            padding: "12px 16px",
+            borderRadius: "8px",
+            marginBottom: "16px",
+            fontSize: "14px",
+            color: message.tone === "success" ? "#065F46" : "#78350F",
+          }}>
+            {message.text}
+          </div>
+        )}
+
+        {/* Per-product review */}
+        <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+          {items.map((item) => {
+            const status = itemStatusStyles[item.status] || itemStatusStyles.pending;
+            const canPublish = item.status === "completed" && item.result_count > 0;
+
+            return (
+              <div
+                key={item.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "16px",
+                  backgroundColor: "white",
+                  border: "1px solid #E5E7EB",
+                  borderRadius: "12px",
+                  padding: "12px 16px",
+                }}
+              >
+                <img
+                  src={item.clothing_image_url}
+                  alt={item.product_title}
+                  style={{ width: "56px", height: "56px", objectFit: "cover", borderRadius: "8px", backgroundColor: "#F9FAFB" }}
+                />
+                <div style={{ width: "56px", height: "56px", borderRadius: "8px", backgroundColor: "#F9FAFB", overflow: "hidden" }}>
+                  {item.preview_image_url && (
+                    <img src={item.preview_image_url} alt={`${item.product_title} generated`} style={{ width: "100%", height: "100%", objectFit: "cover" }} />
+                  )}
+                </div>
+
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600, color: "#111827", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    {item.product_title}
+                  </div>
+                  <div style={{ fontSize: "13px", color: "#6B7280" }}>
+                    {item.status === "processing" && `${item.execution_progress}% · `}
+                    {item.result_count > 0 && `${item.result_count} image${item.result_count === 1 ? "" : "s"} · `}
+                    {item.error || (item.published_at ? `Published ${item.published_media_count} image(s)` : "Not published")}
+                  </div>
+                </div>
+
+                <span style={{
+                  backgroundColor: status.background,
+                  color: status.color,
+                  padding: "4px 10px",
+                  borderRadius: "9999px",
+                  fontSize: "12px",
+                  fontWeight: 600,
+                }}>
+                  {status.label}
+                </span>
+
+                {item.project_id && (
+                  <button onClick={() => navigate(`/app/generation-results/${item.project_id}`)} style={buttonStyle(false)}>
+                    <ExternalLink size={16} /> Review
+                  </button>
+                )}
+
+                {item.published_at ? (
+                  <button
+                    onClick={() => publishItems([item.id])}
+                    disabled={publishing.has(item.id)}
+                    style={buttonStyle(false, publishing.has(item.id))}
+                    title="Push the latest images again"
+                  >
+                    <CheckCircle size={16} color="#10B981" /> {publishing.has(item.id) ? "Publishing…" : "Republish"}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => publishItems([item.id])}
+                    disabled={!canPublish || publishing.has(item.id)}
+                    style={buttonStyle(true, !canPublish || publishing.has(item.id))}
+                  >
+                    <Upload size={16} /> {publishing.has(item.id) ? "Publishing…" : "Publish"}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Page>
+  );
+}
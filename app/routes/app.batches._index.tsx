@@ -0,0 +1,358 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useNavigate } from "@remix-run/react";
+import { Page } from "@shopify/polaris";
+import { TitleBar } from "@shopify/app-bridge-react";
+import { useEffect, useMemo, useState } from "react";
+import { Layers, Package } from "lucide-react";
+import { authenticate } from "../config/shopify.server";
+import { getShopifyUserByShop } from "../lib/auth";
+import { getUserCreditBalance } from "../lib/credits";
+import { type SubscriptionTier } from "../lib/services/model-access.service";
+import { getActiveSubscription } from "../lib/services/subscription.service";
+import { listGenerationBatches, type GenerationBatch } from "../lib/services/batch-generation.service";
+import { getFeatureCost } from "../lib/pricing";
+import { CATALOG_BATCH } from "../config/generation.constants";
+import { ModelSelectStep } from "../components/studio/ModelSelectStep";
+import { PoseSelectStep } from "../components/studio/PoseSelectStep";
+
+interface CollectionOption {
+  id: string;
+  title: string;
+  products_count: number;
+}
+
+const MAX_POSES = 4;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const user = await getShopifyUserByShop(session.shop);
+
+  let batches: GenerationBatch[] = [];
+  let subscriptionTier: SubscriptionTier = "free";
+  let availableCredits = 0;
+
+  if (user) {
+    const [batchList, subscription, balance] = await Promise.all([
+      listGenerationBatches(user.trayve_user_id, 20).catch((error) => {
+        console.error('❌ Error loading batches:', error);
+        return [] as GenerationBatch[];
+      }),
+      getActiveSubscription(user.trayve_user_id),
+      getUserCreditBalance(user.trayve_user_id),
+    ]);
+    batches = batchList;
+    subscriptionTier = (subscription?.plan_tier as SubscriptionTier) || "free";
+    availableCredits = balance?.available_credits || 0;
+  }
+
+  const creditsPerPose = getFeatureCost("generation", { tier: subscriptionTier });
+
+  return json({ batches, subscriptionTier, availableCredits, creditsPerPose });
+};
+
+const statusColors: Record<string, { background: string; color: string }> = {
+  processing: { background: "#DBEAFE", color: "#1E40AF" },
+  completed: { background: "#D1FAE5", color: "#065F46" },
+  cancelled: { background: "#F3F4F6", color: "#4B5563" },
+  failed: { background: "#FEE2E2", color: "#991B1B" },
+};
+
+export default function CatalogBatches() {
+  const { batches, subscriptionTier, availableCredits, creditsPerPose } = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+
+  const [source, setSource] = useState<"collection" | "products">("collection");
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [collectionId, setCollectionId] = useState("");
+  const [productIdsText, setProductIdsText] = useState("");
+  const [batchName, setBatchName] = useState("");
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [selectedPoses, setSelectedPoses] = useState<string[]>([]);
+  const [selectedPoseObjects, setSelectedPoseObjects] = useState<any[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/shopify/collections")
+      .then(response => response.json())
+      .then((result) => {
+        if (result.success) setCollections(result.collections);
+      })
+      .catch(err => console.error("Failed to load collections:", err));
+  }, []);
+
+  const productCount = useMemo(() => {
+    if (source === "collection") {
+      return collections.find(c => c.id === collectionId)?.products_count || 0;
+    }
+    return new Set(productIdsText.split(/[\s,;]+/).filter(token => /^\d+$|^gid:\/\/shopify\/Product\/\d+$/.test(token))).size;
+  }, [source, collections, collectionId, productIdsText]);
+
+  const estimatedCredits = productCount * selectedPoses.length * creditsPerPose;
+
+  const handleModelSelect = (modelId: string) => {
+    setSelectedModel(modelId);
+    setSelectedPoses([]);
+  };
+
+  const handlePoseSelect = (poseId: string) => {
+    setSelectedPoses(prev => {
+      if (prev.includes(poseId)) return prev.filter(id => id !== poseId);
+      if (prev.length < MAX_POSES) return [...prev, poseId];
+      return prev;
+    });
+  };
+
+  const canCreate = productCount > 0 && selectedModel && selectedPoses.length > 0 && !isCreating;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    if (estimatedCredits > availableCredits) {
+      setError(`Insufficient credits. This batch needs up to ${estimatedCredits.toLocaleString()} credits but you have ${availableCredits.toLocaleString()}.`);
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const poses = selectedPoseObjects
+        .filter(pose => selectedPoses.includes(pose.id))
+        .map(pose => ({
+          pose_id: pose.id,
+          image_url: pose.image_url,
+          pose_name: pose.pose_name || pose.name,
+        }));
+
+      const response = await fetch("/api/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: batchName || undefined,
+          base_model_id: selectedModel,
+          poses,
+          ...(source === "collection" ? { collection_id: collectionId } : { csv: productIdsText }),
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || "Failed to create batch");
+        setIsCreating(false);
+        return;
+      }
+
+      if (result.skipped?.length > 0) {
+        console.log(`ℹ️ ${result.skipped.length} product(s) skipped:`, result.skipped);
+      }
+
+      navigate(`/app/batches/${result.batch.id}${result.skipped?.length ? `?skipped=${result.skipped.length}` : ""}`);
+    } catch (err: any) {
+      console.error("Batch creation error:", err);
+      setError(err.message || "Failed to create batch");
+      setIsCreating(false);
+    }
+  };
+
+  const sectionStyle = {
+    backgroundColor: "white",
+    border: "1px solid #E5E7EB",
+    borderRadius: "12px",
+    padding: "24px",
+    marginBottom: "24px",
+  };
+
+  const headingStyle = { fontSize: "18px", fontWeight: 600, color: "#111827", marginBottom: "16px" };
+
+  return (
+    <Page fullWidth>
+      <TitleBar title="Catalog Batches" />
+
+      <div style={{ maxWidth: "1200px", margin: "0 auto", padding: "24px" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: "12px", marginBottom: "24px" }}>
+          <Layers size={28} color="#702dff" />
+          <div>
+            <h1 style={{ fontSize: "24px", fontWeight: 700, color: "#111827" }}>Catalog Batches</h1>
+            <p style={{ fontSize: "14px", color: "#6B7280" }}>
+              Generate on-model images for a whole collection at once. Each product's featured image is used as the garment.
+            </p>
+          </div>
+        </div>
+
+        {/* Existing batches */}
+        {batches.length > 0 && (
+          <div style={sectionStyle}>
+            <h2 style={headingStyle}>Recent batches</h2>
+            <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+              {batches.map((batch) => (
+                <button
+                  key={batch.id}
+                  onClick={() => navigate(`/app/batches/${batch.id}`)}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    padding: "12px 16px",
+                    border: "1px solid #E5E7EB",
+                    borderRadius: "8px",
+                    backgroundColor: "white",
+                    cursor: "pointer",
+                    textAlign: "left",
+                  }}
+                >
+                  <div>
+                    <div style={{ fontWeight: 600, color: "#111827" }}>{batch.name}</div>
+                    <div style={{ fontSize: "13px", color: "#6B7280" }}>
+                      {batch.total_items} product{batch.total_items === 1 ? "" : "s"} × {batch.poses.length} pose{batch.poses.length === 1 ? "" : "s"}
+                      {" · "}{new Date(batch.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <span style={{
+                    ...(statusColors[batch.status] || statusColors.processing),
+                    padding: "4px 10px",
+                    borderRadius: "9999px",
+                    fontSize: "12px",
+                    fontWeight: 600,
+                    textTransform: "capitalize",
+                  }}>
+                    {batch.status}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 1. Products */}
+        <div style={sectionStyle}>
+          <h2 style={headingStyle}>1. Choose products</h2>
+          <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+            {(["collection", "products"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setSource(option)}
+                style={{
+                  padding: "8px 16px",
+                  borderRadius: "8px",
+                  fontSize: "14px",
+                  fontWeight: 500,
+                  border: "1px solid",
+                  borderColor: source === option ? "#702dff" : "#E5E7EB",
+                  color: source === option ? "#702dff" : "#374151",
+                  backgroundColor: source === option ? "rgba(112, 45, 255, 0.1)" : "white",
+                  cursor: "pointer",
+                }}
+              >
+                {option === "collection" ? "From a collection" : "Product IDs / CSV"}
+              </button>
+            ))}
+          </div>
+
+          {source === "collection" ? (
+            <select
+              value={collectionId}
+              onChange={(e) => setCollectionId(e.target.value)}
+              style={{ width: "100%", padding: "10px 12px", borderRadius: "8px", border: "1px solid #D1D5DB", fontSize: "14px" }}
+            >
+              <option value="">Select a collection…</option>
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.id}>
+                  {collection.title} ({collection.products_count} products)
+                </option>
+              ))}
+            </select>
+          ) : (
+            <textarea
+              value={productIdsText}
+              onChange={(e) => setProductIdsText(e.target.value)}
+              placeholder="Paste product IDs separated by commas or new lines, or the product ID column of a CSV export"
+              rows={5}
+              style={{ width: "100%", padding: "10px 12px", borderRadius: "8px", border: "1px solid #D1D5DB", fontSize: "14px", fontFamily: "monospace" }}
+            />
+          )}
+
+          {productCount > CATALOG_BATCH.maxProducts && (
+            <p style={{ marginTop: "8px", fontSize: "13px", color: "#B91C1C" }}>
+              Batches are limited to {CATALOG_BATCH.maxProducts} products.
+            </p>
+          )}
+
+          <input
+            value={batchName}
+            onChange={(e) => setBatchName(e.target.value)}
+            placeholder="Batch name (optional)"
+            style={{ width: "100%", marginTop: "16px", padding: "10px 12px", borderRadius: "8px", border: "1px solid #D1D5DB", fontSize: "14px" }}
+          />
+        </div>
+
+        {/* 2. Model */}
+        <div style={sectionStyle}>
+          <h2 style={headingStyle}>2. Choose a model</h2>
+          <ModelSelectStep
+            selectedModel={selectedModel}
+            onModelSelect={handleModelSelect}
+            subscriptionTier={subscriptionTier}
+          />
+        </div>
+
+        {/* 3. Poses */}
+        {selectedModel && (
+          <div style={sectionStyle}>
+            <h2 style={headingStyle}>3. Select poses (up to {MAX_POSES})</h2>
+            <PoseSelectStep
+              selectedModel={selectedModel}
+              selectedPoses={selectedPoses}
+              onPoseSelect={handlePoseSelect}
+              onPoseObjectsChange={setSelectedPoseObjects}
+            />
+          </div>
+        )}
+
+        {/* Summary */}
+        <div style={{ ...sectionStyle, display: "flex", alignItems: "center", justifyContent: "space-between", gap: "16px" }}>
+          <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+            <Package size={24} color="#6B7280" />
+            <div style={{ fontSize: "14px", color: "#374151" }}>
+              <strong>{productCount}</strong> product{productCount === 1 ? "" : "s"} × <strong>{selectedPoses.length}</strong> pose{selectedPoses.length === 1 ? "" : "s"}
+              {" = "}<strong>{estimatedCredits.toLocaleString()}</strong> credits
+              <div style={{ fontSize: "12px", color: "#6B7280" }}>
+                Credits are reserved when the batch starts. Products without a featured image are skipped and failed images are refunded.
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate || productCount > CATALOG_BATCH.maxProducts}
+            style={{
+              padding: "12px 24px",
+              borderRadius: "8px",
+              fontSize: "14px",
+              fontWeight: 600,
+              color: "white",
+              backgroundColor: canCreate && productCount <= CATALOG_BATCH.maxProducts ? "#702dff" : "#C4B5FD",
+              border: "none",
+              cursor: canCreate ? "pointer" : "not-allowed",
+              whiteSpace: "nowrap",
+            }}
+          >
+            {isCreating ? "Starting…" : "Start batch"}
+          </button>
+        </div>
+
+        {error && (
+          <div style={{
+            backgroundColor: "#FEE2E2",
+            borderLeft: "4px solid #EF4444",
+            padding: "16px",
+            borderRadius: "8px",
+            color: "#991B1B",
+            fontSize: "14px",
+          }}>
+            {error}
+          </div>
+        )}
+      </div>
+    </Page>
+  );
+}
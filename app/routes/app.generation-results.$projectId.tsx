@@ -1,13 +1,19 @@
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from '@remix-run/react';
 import { 
   BackButton,
   ResultCard,
   LoadingSkeleton,
   ImageModal,
-  EditProjectNameModal
+  EditProjectNameModal,
+  PushToProductModal,
+  RegenerateModal,
+  FEEDBACK_FILTER_OPTIONS
 } from '~/components/results';
 import { useToast } from '~/hooks/use-toast';
+import { usePipelineEvents, type PipelineStreamEvent } from '~/hooks/use-pipeline-events';
+import { reportDownloads, saveResultFeedback, type RegenerationStarted } from '~/lib/pipeline-client';
+import type { FeedbackUpdate, ResultFeedback } from '~/lib/services/feedback.service';
 import JSZip from 'jszip';
 
 // ================================================================================
@@ -26,6 +32,23 @@ interface GenerationImage {
   generation_record?: {
     removed_bg_url?: string;
   };
+  shopify_media?: Record<string, { media_id: string }>;
+  generation_status?: string;
+  error_message?: string;
+  credits_refunded?: number;
+  feedback?: ResultFeedback | null;
+  kind?: 'tryon' | 'studio';
+  version?: number;
+  previous_versions?: GenerationVersion[];
+  primary_image_url?: string | null; // Picked in the version history; downloads use only this image
+  created_at: string;
+}
+
+interface GenerationVersion {
+  id: string;
+  version: number;
+  image_url: string;
+  generation_status: string;
   created_at: string;
 }
 
@@ -63,6 +86,7 @@ export default function GenerationResultsRevamped() {
   // ============================================================================
 
   const [results, setResults] = useState<GenerationResult[]>([]);
+  const [creditsRefunded, setCreditsRefunded] = useState(0);
   const [project, setProject] = useState<ProjectData | null>(null);
   const [userSubscription, setUserSubscription] = useState<UserSubscription | null>(null);
   const [selectedImageModal, setSelectedImageModal] = useState<{ image: GenerationImage; index: number } | null>(null);
@@ -72,6 +96,9 @@ export default function GenerationResultsRevamped() {
   const [isLoading, setIsLoading] = useState(true);
   const [isPolling, setIsPolling] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isPushModalOpen, setIsPushModalOpen] = useState(false);
+  const [feedbackFilter, setFeedbackFilter] = useState(''); // Query string from FEEDBACK_FILTER_OPTIONS
+  const [regeneratingImage, setRegeneratingImage] = useState<GenerationImage | null>(null);
 
   // ============================================================================
   // COMPUTED VALUES
@@ -83,22 +110,36 @@ export default function GenerationResultsRevamped() {
 
   const selectedCount = selectedImages.size;
 
+  const failedCount = useMemo(() => {
+    return allImages.filter(img => img.generation_status === 'failed' && !img.image_url).length;
+  }, [allImages]);
+
+  // Images eligible for "Push to Product": the selection, or every finished image
+  const pushableImages = useMemo(() => {
+    const source = selectionMode && selectedCount > 0
+      ? allImages.filter(img => selectedImages.has(img.id))
+      : allImages;
+    return source.filter(img => !!img.image_url);
+  }, [allImages, selectedImages, selectedCount, selectionMode]);
+
   // ============================================================================
   // DATA FETCHING
   // ============================================================================
 
   const fetchResults = useCallback(async () => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/results?_=${Date.now()}`);
+      const filter = feedbackFilter ? `${feedbackFilter}&` : '';
+      const response = await fetch(`/api/projects/${projectId}/results?${filter}_=${Date.now()}`);
       const data = await response.json();
 
       if (data.success) {
         setResults(data.results || []);
+        setCreditsRefunded(data.credits_refunded || 0);
       }
     } catch (error) {
       console.error('Failed to fetch results:', error);
     }
-  }, [projectId]);
+  }, [projectId, feedbackFilter]);
 
   const fetchProject = useCallback(async () => {
     try {
@@ -148,20 +189,60 @@ export default function GenerationResultsRevamped() {
     init();
   }, [projectId]);
 
-  // Polling for processing status
+  // Refetch when the feedback filter changes (the initial load above covers the first render)
+  const appliedFilterRef = useRef(feedbackFilter);
   useEffect(() => {
-    const generating = searchParams.get('generating') === 'true';
-    
-    if (generating || isPolling) {
+    if (appliedFilterRef.current === feedbackFilter) return;
+    appliedFilterRef.current = feedbackFilter;
+    fetchResults();
+  }, [feedbackFilter, fetchResults]);
+
+  // Live progress over SSE: each step event refreshes the results (debounced for bursts)
+  const isGenerating = searchParams.get('generating') === 'true' || isPolling;
+  const refreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handlePipelineEvent = useCallback((event: PipelineStreamEvent) => {
+    if (event.event_type === 'pose.failed') {
+      toast({
+        title: "Generation failed",
+        description: event.payload?.credits_refunded
+          ? `One of the poses could not be generated. ${event.payload.credits_refunded.toLocaleString()} credits were refunded.`
+          : "One of the poses could not be generated. Its credits will be refunded.",
+        variant: "destructive",
+      });
+    }
+
+    if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current);
+    refreshTimeoutRef.current = setTimeout(fetchResults, 300);
+  }, [fetchResults, toast]);
+
+  const streamStatus = usePipelineEvents(projectId, isGenerating, handlePipelineEvent);
+
+  useEffect(() => {
+    if (streamStatus === 'done') fetchResults();
+  }, [streamStatus, fetchResults]);
+
+  useEffect(() => {
+    return () => {
+      if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current);
+    };
+  }, []);
+
+  // Polling fallback when the event stream is unavailable
+  useEffect(() => {
+    if (isGenerating && streamStatus === 'fallback') {
       const interval = setInterval(fetchResults, 5000); // Poll every 5 seconds
       return () => clearInterval(interval);
     }
-  }, [searchParams, isPolling, fetchResults]);
+  }, [isGenerating, streamStatus, fetchResults]);
 
   // Auto-stop polling when all images are complete
   useEffect(() => {
     if (allImages.length > 0) {
       const allComplete = allImages.every(img => {
+        // Failed poses won't produce an image
+        if (img.generation_status === 'failed') return true;
+
         const tier = userSubscription?.tier || 'free';
         const isProfessional = tier === 'professional' || tier === 'enterprise';
 
@@ -276,7 +357,12 @@ export default function GenerationResultsRevamped() {
     // For old pipeline: basic_upscale_url was the standard result
     const standardUrl = image.image_url || image.basic_upscale_url;
     
-    if (standardUrl) {
+    if (image.primary_image_url) {
+      imagesToDownload.push({
+        url: image.primary_image_url,
+        filename: `${project?.name || 'image'}_${index + 1}_Primary.png`
+      });
+    } else if (standardUrl) {
       imagesToDownload.push({
         url: standardUrl,
         filename: `${project?.name || 'image'}_${index + 1}_Standard.png`
@@ -284,7 +370,7 @@ export default function GenerationResultsRevamped() {
     }
 
     // Add 4K for Professional/Enterprise
-    if (isProfessional) {
+    if (isProfessional && !image.primary_image_url) {
       const enhancedUrl = image.upscaled_image_url || image.face_swap_image_url;
       if (enhancedUrl) {
         imagesToDownload.push({
@@ -295,13 +381,17 @@ export default function GenerationResultsRevamped() {
     }
 
     // Add BG removed if exists
-    if (hasBgRemoved) {
+    if (hasBgRemoved && !image.primary_image_url) {
       imagesToDownload.push({
         url: image.generation_record!.removed_bg_url!,
         filename: `${project?.name || 'image'}_${index + 1}_BG_Removed.png`
       });
     }
 
+    if (imagesToDownload.length > 0) {
+      reportDownloads([image.id]);
+    }
+
     // Download as ZIP if multiple files, otherwise direct download
     if (imagesToDownload.length > 1) {
       await downloadAsZip(imagesToDownload, `${project?.name || 'image'}_${index + 1}.zip`);
@@ -337,6 +427,15 @@ export default function GenerationResultsRevamped() {
     const files: { url: string; filename: string }[] = [];
 
     imagesToDownload.forEach((image, index) => {
+      // Primary image picked in the version history
+      if (image.primary_image_url) {
+        files.push({
+          url: image.primary_image_url,
+          filename: `${index + 1}_Primary.png`
+        });
+        return;
+      }
+
       // 2K version
       if (image.basic_upscale_url) {
         files.push({
@@ -370,6 +469,7 @@ export default function GenerationResultsRevamped() {
       : `${project?.name || 'images'}_All.zip`;
 
     await downloadAsZip(files, zipName);
+    reportDownloads(imagesToDownload.map(image => image.id));
 
     // Exit selection mode after download
     if (selectionMode) {
@@ -378,6 +478,29 @@ export default function GenerationResultsRevamped() {
     }
   }, [allImages, selectedImages, selectedCount, selectionMode, userSubscription, project, downloadAsZip]);
 
+  // ============================================================================
+  // SHOPIFY PUSH HANDLER
+  // ============================================================================
+
+  const handlePushComplete = useCallback(async (pushResults: { action: string }[]) => {
+    const created = pushResults.filter(r => r.action === 'created').length;
+    const updated = pushResults.filter(r => r.action === 'updated').length;
+    const failed = pushResults.filter(r => r.action === 'failed').length;
+
+    toast({
+      title: failed > 0 ? "Pushed with errors" : "Pushed to Shopify",
+      description: `${created} added, ${updated} updated${failed > 0 ? `, ${failed} failed` : ''}.`,
+      variant: failed > 0 ? "destructive" : "default",
+    });
+
+    if (selectionMode) {
+      setSelectionMode(false);
+      setSelectedImages(new Set());
+    }
+
+    await fetchResults();
+  }, [toast, selectionMode, fetchResults]);
+
   // ============================================================================
   // BACKGROUND REMOVAL HANDLER
   // ============================================================================
@@ -405,6 +528,57 @@ export default function GenerationResultsRevamped() {
     }
   }, [fetchResults]);
 
+  // ============================================================================
+  // FEEDBACK HANDLER
+  // ============================================================================
+
+  const setImageFeedback = useCallback((imageId: string, feedback: ResultFeedback | null) => {
+    setResults(prev => prev.map(result => ({
+      ...result,
+      images: result.images.map(img => img.id === imageId ? { ...img, feedback } : img)
+    })));
+  }, []);
+
+  const handleFeedbackChange = useCallback(async (image: GenerationImage, update: FeedbackUpdate) => {
+    const previous = image.feedback || null;
+
+    // Show the change right away, then keep what the server saved
+    setImageFeedback(image.id, {
+      result_id: image.id,
+      favorite: false,
+      rating: null,
+      rejection_reasons: [],
+      updated_at: new Date().toISOString(),
+      ...previous,
+      ...update
+    });
+
+    const saved = await saveResultFeedback(image.id, update);
+    setImageFeedback(image.id, saved || previous);
+
+    if (!saved) {
+      toast({
+        title: "Feedback not saved",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [setImageFeedback, toast]);
+
+  // ============================================================================
+  // REGENERATE HANDLER
+  // ============================================================================
+
+  const handleRegenerateStarted = useCallback(async (started: RegenerationStarted) => {
+    toast({
+      title: "Regenerating",
+      description: `Version ${started.version} is being generated. The previous version is kept.`,
+    });
+
+    // The new version replaces the card as a processing result, which restarts live updates
+    await fetchResults();
+  }, [fetchResults, toast]);
+
   // ============================================================================
   // UPGRADE HANDLER FOR FREE USERS
   // ============================================================================
@@ -567,6 +741,16 @@ export default function GenerationResultsRevamped() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/>
                       </svg>
                     </button>
+                    <button 
+                      onClick={() => setIsPushModalOpen(true)}
+                      disabled={pushableImages.length === 0}
+                      className="p-2 hover:bg-muted rounded-md transition-colors disabled:opacity-50"
+                      aria-label="Push to Product"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z"/>
+                      </svg>
+                    </button>
                     <button 
                       onClick={toggleSelectionMode}
                       className={`p-2 hover:bg-muted rounded-md transition-colors ${selectionMode ? 'bg-primary text-primary-foreground' : ''}`}
@@ -605,6 +789,17 @@ export default function GenerationResultsRevamped() {
                 </svg>
                 {selectionMode && selectedCount > 0 ? `Download Selected (${selectedCount})` : 'Download All'}
               </button>
+
+              <button 
+                onClick={() => setIsPushModalOpen(true)}
+                disabled={pushableImages.length === 0}
+                className="px-4 py-2.5 bg-background border border-border rounded-md font-medium text-sm hover:bg-muted transition-colors whitespace-nowrap flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z"/>
+                </svg>
+                {selectionMode && selectedCount > 0 ? `Push Selected (${pushableImages.length})` : 'Push to Product'}
+              </button>
               
               <button 
                 onClick={toggleSelectionMode}
@@ -626,6 +821,37 @@ export default function GenerationResultsRevamped() {
 
       {/* Images Grid Section */}
       <div className="max-w-6xl mx-auto px-4 py-8">
+        {/* Failed poses & refunds */}
+        {failedCount > 0 && (
+          <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            {failedCount} pose{failedCount === 1 ? '' : 's'} could not be generated.{' '}
+            {creditsRefunded > 0
+              ? `${creditsRefunded.toLocaleString()} credits were refunded to your balance.`
+              : 'Their credits will be refunded to your balance.'}
+          </div>
+        )}
+
+        {/* Feedback filter */}
+        <div className="mb-4 flex justify-end">
+          <select
+            value={feedbackFilter}
+            onChange={(e) => setFeedbackFilter(e.target.value)}
+            aria-label="Filter by feedback"
+            className="px-3 py-2 bg-background border border-border rounded-md text-sm"
+          >
+            <option value="">All results</option>
+            {FEEDBACK_FILTER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {feedbackFilter && allImages.length === 0 && !isLoading && (
+          <div className="rounded-md border border-border px-4 py-8 text-center text-sm text-muted-foreground">
+            No results match this filter.
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {allImages.length > 0 ? (
             allImages.map((image, index) => (
@@ -637,6 +863,8 @@ export default function GenerationResultsRevamped() {
                 onDownload={() => handleDownloadImage(image, index)}
                 onRemoveBackground={() => handleRemoveBackground(image)}
                 onUpgradeClick={handleUpgradeClick}
+                onFeedbackChange={(update) => handleFeedbackChange(image, update)}
+                onRegenerate={() => setRegeneratingImage(image)}
                 isRemovingBg={removingBgForImage === image.id}
                 selectionMode={selectionMode}
                 isSelected={selectedImages.has(image.id)}
@@ -644,7 +872,7 @@ export default function GenerationResultsRevamped() {
                 clothingImageUrl={project?.clothing_image_url}
               />
             ))
-          ) : (
+          ) : feedbackFilter && !isLoading ? null : (
             // Show loading skeletons if no images yet
             Array.from({ length: 6 }).map((_, i) => (
               <LoadingSkeleton key={i} progress={isPolling ? 50 : undefined} />
@@ -665,9 +893,19 @@ export default function GenerationResultsRevamped() {
           hasPrevious={selectedImageModal.index > 0}
           projectName={project?.name || 'image'}
           imageIndex={selectedImageModal.index}
+          onPrimaryChange={fetchResults}
         />
       )}
 
+      {/* Regenerate Modal */}
+      <RegenerateModal
+        isOpen={!!regeneratingImage}
+        resultId={regeneratingImage?.id || null}
+        isStudio={regeneratingImage?.kind === 'studio'}
+        onClose={() => setRegeneratingImage(null)}
+        onStarted={handleRegenerateStarted}
+      />
+
       {/* Edit Project Name Modal */}
       <EditProjectNameModal
         isOpen={isEditModalOpen}
@@ -675,6 +913,15 @@ export default function GenerationResultsRevamped() {
         onClose={() => setIsEditModalOpen(false)}
         onSave={handleProjectNameChange}
       />
+
+      {/* Push to Shopify Product Modal */}
+      <PushToProductModal
+        isOpen={isPushModalOpen}
+        images={pushableImages}
+        defaultAltText={project?.name || ''}
+        onClose={() => setIsPushModalOpen(false)}
+        onPushed={handlePushComplete}
+      />
     </div>
   );
 }
@@ -8,7 +8,7 @@ import { getUserCreditBalance } from "../lib/credits";
 import { type SubscriptionTier } from "../lib/services/model-access.service";
 import { getActiveSubscription, getSubscriptionHistory } from "../lib/services/subscription.service";
 import { getPostReadyBackgrounds, getThemes } from "../lib/services/resources.service"; // Import Services
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useToast } from "../hooks/use-toast";
 import { CreditsDisplay } from "../components/CreditsDisplay";
 import { UserProfile } from "../components/UserProfile";
@@ -18,9 +18,12 @@ import { ThemeSelectStep } from "../components/studio/ThemeSelectStep"; // To cr
 import { BackgroundSelectStep } from "../components/studio/BackgroundSelectStep";
 import { PoseSelectStep } from "../components/studio/PoseSelectStep";
 import { PostReadyConfirmStep } from "../components/studio/PostReadyConfirmStep";
+import { QueueStatusNotice } from "../components/studio/QueueStatusNotice";
 import { GalleryResultCard } from "../components/results/GalleryResultCard";
 import { Upload, Users, Wand2, Sparkles, ArrowRight, ArrowLeft } from "lucide-react";
 import { TestingPanel } from "../components/TestingPanel";
+import { saveResultFeedback, startQuotedPipelineRun, type PipelineRunRequest } from "../lib/pipeline-client";
+import type { FeedbackUpdate } from "../lib/services/feedback.service";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -211,6 +214,21 @@ export default function PostReady() {
     setPreviewUrl(null);
   };
 
+  // Favorite, rate or reject a gallery result (shown right away, reverted if not saved)
+  const handleResultFeedback = async (result: any, update: FeedbackUpdate) => {
+    const setFeedback = (feedback: any) => setModelResults(prev =>
+      prev.map(r => r.id === result.id ? { ...r, feedback } : r)
+    );
+
+    setFeedback({ favorite: false, rating: null, rejection_reasons: [], ...result.feedback, ...update });
+    const saved = await saveResultFeedback(result.id, update);
+    setFeedback(saved || result.feedback || null);
+
+    if (!saved) {
+      toast({ title: "Feedback not saved", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
   const handleModelSelect = async (model: BaseModel) => {
     setSelectedModel(model);
 
@@ -249,24 +267,12 @@ export default function PostReady() {
     setSelectedBackground(backgroundId);
   };
 
-  const handleGenerate = async () => {
-    const COST = 1000;
-    const totalCost = COST * imageCount;
-
-    // Check if user has enough credits
-    if (credits.available < totalCost) {
-      setGenerationError(`Insufficient credits. You need ${totalCost} credits but only have ${credits.available}.`);
-      return;
-    }
-
+  // The run the confirm step quotes and Generate starts
+  const pipelineRun = useMemo<PipelineRunRequest | null>(() => {
     if (!selectedModel || !selectedTheme || !selectedBackground) {
-      setGenerationError("Please maintain selection of model, theme, and background.");
-      return;
+      return null;
     }
 
-    setIsGenerating(true);
-    setGenerationError(null);
-
     // 1. Get Resources Data
     const backgroundObj = resources.backgrounds.find(b => b.id === selectedBackground);
     const themeObj = resources.themes.find(t => t.id === selectedTheme);
@@ -276,7 +282,8 @@ export default function PostReady() {
     const themePrompt = (themeObj as any)?.prompt || (themeObj as any)?.description || "Social Media Style";
 
     // 2. Construct Poses (Duplicates for multiple variations)
-    // We treat each desired image count as a "pose" to trigger multiple generations in the pipeline
+    // We treat each desired image count as a "pose" to trigger multiple generations in the pipeline.
+    // The IDs are part of the quote, so they only change with the selection.
     const poses = Array.from({ length: imageCount }).map((_, index) => ({
       // CRITICAL: Database requires valid UUID for pose_identifier
       pose_id: crypto.randomUUID(),
@@ -285,33 +292,33 @@ export default function PostReady() {
       pose_name: `Variation ${index + 1}`
     }));
 
+    return {
+      base_model_id: selectedModel.id,
+      // CRITICAL: Pass the specific image URL we are viewing (e.g. VTO result)
+      clothing_image_url: selectedResultImage || selectedModel.image_url,
+      project_name: `Post Ready - ${selectedModel.name || 'Model'}`,
+      mode: 'social_media',
+      prompts: {
+        theme: themePrompt,
+        background: backgroundPrompt
+      },
+      poses: poses
+    };
+  }, [selectedModel, selectedTheme, selectedBackground, selectedResultImage, imageCount, resources]);
+
+  const handleGenerate = async (quoteHash: string) => {
+    if (!pipelineRun) {
+      setGenerationError("Please maintain selection of model, theme, and background.");
+      return;
+    }
+
+    setIsGenerating(true);
+    setGenerationError(null);
+
     try {
       console.log("🚀 Starting generation...");
 
-      const response = await fetch("/api/pipeline/execute", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          base_model_id: selectedModel.id,
-          // CRITICAL: Pass the specific image URL we are viewing (e.g. VTO result)
-          clothing_image_url: selectedResultImage || selectedModel.image_url,
-          project_name: `Post Ready - ${selectedModel.name || 'Model'}`,
-          mode: 'social_media',
-          prompts: {
-            theme: themePrompt,
-            background: backgroundPrompt
-          },
-          poses: poses
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || "Generation failed to start");
-      }
+      const data = await startQuotedPipelineRun(pipelineRun, quoteHash);
 
       const executionId = data.execution_id;
       const projectId = data.project_id;
@@ -724,10 +731,12 @@ export default function PostReady() {
                           image_url: result.result_image_url || result.image_url,
                           upscaled_image_url: result.upscaled_image_url,
                           upscale_status: result.upscale_status,
+                          feedback: result.feedback,
                         }}
                         userTier={user?.subscriptionTier as any || 'free'}
                         onImageClick={() => handleResultSelect(result.result_image_url || result.image_url)}
                         onSelect={() => handleResultSelect(result.result_image_url || result.image_url)}
+                        onFeedbackChange={(update) => handleResultFeedback(result, update)}
                       />
                     ))}
                   </div>
@@ -755,18 +764,22 @@ export default function PostReady() {
 
             {/* Step 4: Generate */}
             {currentStep === 4 && (
-              <PostReadyConfirmStep
-                previewUrl={previewUrl}
-                selectedModelImage={selectedResultImage || selectedModel?.image_url}
-                selectedThemeImage={resources.themes.find(t => t.id === selectedTheme)?.preview_url}
-                selectedBackgroundImage={resources.backgrounds.find(b => b.id === selectedBackground)?.thumbnail_url || resources.backgrounds.find(b => b.id === selectedBackground)?.url}
-                onGenerate={handleGenerate}
-                isGenerating={isGenerating}
-                aspectRatio={aspectRatio}
-                onAspectRatioChange={setAspectRatio}
-                imageCount={imageCount}
-                onImageCountChange={setImageCount}
-              />
+              <>
+                <QueueStatusNotice />
+                <PostReadyConfirmStep
+                  previewUrl={previewUrl}
+                  selectedModelImage={selectedResultImage || selectedModel?.image_url}
+                  selectedThemeImage={resources.themes.find(t => t.id === selectedTheme)?.preview_url}
+                  selectedBackgroundImage={resources.backgrounds.find(b => b.id === selectedBackground)?.thumbnail_url || resources.backgrounds.find(b => b.id === selectedBackground)?.url}
+                  run={pipelineRun}
+                  onGenerate={handleGenerate}
+                  isGenerating={isGenerating}
+                  aspectRatio={aspectRatio}
+                  onAspectRatioChange={setAspectRatio}
+                  imageCount={imageCount}
+                  onImageCountChange={setImageCount}
+                />
+              </>
             )}
           </div>
         </div>
@@ -11,36 +11,9 @@ import { UserProfile } from "../components/UserProfile";
 import { CreditsDisplay } from "../components/CreditsDisplay";
 import { useEffect, useState } from "react";
 import { AlertDialog } from "../components/ui/alert-dialog";
+import { SUBSCRIPTION_PLANS, type SubscriptionPlanKey } from "../lib/pricing";
 
-// Define subscription plans with pricing details
-const SUBSCRIPTION_PLANS = {
-  creator: {
-    name: "Creator Plan",
-    displayName: "Creator",
-    price: 29.0,
-    images: 30,
-    credits: 30000,
-    tier: "creator" as const,
-  },
-  professional: {
-    name: "Professional Plan",
-    displayName: "Professional",
-    price: 89.0,
-    images: 95,
-    credits: 95000,
-    tier: "professional" as const,
-  },
-  enterprise: {
-    name: "Enterprise Plan",
-    displayName: "Enterprise",
-    price: 199.0,
-    images: 220,
-    credits: 220000,
-    tier: "enterprise" as const,
-  },
-};
-
-type PlanKey = keyof typeof SUBSCRIPTION_PLANS;
+type PlanKey = SubscriptionPlanKey;
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
@@ -109,6 +82,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     } : null,
     hasCancelledPlanWithCredits,
     cancelledPlanName,
+    plans: SUBSCRIPTION_PLANS,
   });
 };
 
@@ -239,7 +213,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function Pricing() {
-  const { user, currentPlan, credits, hasCancelledPlanWithCredits, cancelledPlanName } = useLoaderData<typeof loader>();
+  const { user, currentPlan, credits, hasCancelledPlanWithCredits, cancelledPlanName, plans } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigate = useNavigate();
   const submit = useSubmit();
@@ -583,12 +557,12 @@ export default function Pricing() {
 
             {/* Creator Plan */}
             <PricingCard
-              name="Creator"
-              price="$29"
+              name={plans.creator.displayName}
+              price={`$${plans.creator.price}`}
               period="month"
               features={[
-                "30 images/month",
-                "30,000 credits/month",
+                `${plans.creator.images} images/month`,
+                `${plans.creator.credits.toLocaleString()} credits/month`,
                 "+ 2,000 bonus credits (one-time)",
                 "4K resolution",
                 "All 16 AI models",
@@ -605,12 +579,12 @@ export default function Pricing() {
 
             {/* Professional Plan */}
             <PricingCard
-              name="Professional"
-              price="$89"
+              name={plans.professional.displayName}
+              price={`$${plans.professional.price}`}
               period="month"
               features={[
-                "95 images/month",
-                "95,000 credits/month",
+                `${plans.professional.images} images/month`,
+                `${plans.professional.credits.toLocaleString()} credits/month`,
                 "+ 2,000 bonus credits (one-time)",
                 "4K resolution",
                 "All 16 AI models",
@@ -627,12 +601,12 @@ export default function Pricing() {
 
             {/* Enterprise Plan */}
             <PricingCard
-              name="Enterprise"
-              price="$199"
+              name={plans.enterprise.displayName}
+              price={`$${plans.enterprise.price}`}
               period="month"
               features={[
-                "220 images/month",
-                "220,000 credits/month",
+                `${plans.enterprise.images} images/month`,
+                `${plans.enterprise.credits.toLocaleString()} credits/month`,
                 "+ 2,000 bonus credits (one-time)",
                 "4K resolution",
                 "All 16 AI models",
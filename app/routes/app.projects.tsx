@@ -2,53 +2,26 @@ import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useNavigate } from "@remix-run/react";
 import { Page } from "@shopify/polaris";
 import { TitleBar } from "@shopify/app-bridge-react";
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { authenticate } from "../config/shopify.server";
 import { getShopifyUserByShop } from "../lib/auth";
 import { getUserCreditBalance } from "../lib/credits";
 import { UserProfile } from "../components/UserProfile";
 import { CreditsDisplay } from "../components/CreditsDisplay";
 import { Search, Trash2, X } from "lucide-react";
-import { supabaseAdmin } from "~/lib/storage/supabase.server";
+import {
+  listProjects,
+  type ProjectMode,
+  type ProjectPage,
+  type ProjectSort,
+  type ProjectStatus,
+  type ProjectSummary,
+} from "~/lib/services/projects.service";
 import { ConfirmationDialog } from "../components/ui/confirmation-dialog";
+import { FEEDBACK_FILTER_OPTIONS } from "../components/results";
 import { AlertDialog } from "../components/ui/alert-dialog";
 import { TestingPanel } from "../components/TestingPanel";
 
-interface GenerationResult {
-  id: string;
-  pose_id: number;
-  pose_name: string;
-  result_image_url: string;
-  sample_index: number;
-  created_at: string;
-  image_url?: string;
-  basic_upscale_url?: string;
-  basic_upscale_status?: string;
-  upscaled_image_url?: string;
-  upscale_status?: string;
-  face_swap_image_url?: string;
-  face_swap_status?: string;
-  generation_record?: {
-    removed_bg_url?: string;
-  };
-}
-
-interface Project {
-  id: string;
-  user_id: string;
-  title: string;
-  description?: string;
-  clothing_item_name?: string;
-  clothing_type: string;
-  clothing_image_url?: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-  result_count: number;
-  generation_results: GenerationResult[];
-  mode?: 'virtual_tryon' | 'shop_ready' | 'post_ready';
-}
-
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
@@ -59,149 +32,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   console.log('📁 FETCHING USER PROJECTS');
   console.log('═══════════════════════════════════════════════════════');
 
-  // Fetch projects from Supabase
-  let projects: Project[] = [];
+  // First page of the default tab; later pages and other filters come from /api/projects
+  let projectPage: ProjectPage = { projects: [], next_cursor: null };
   if (user) {
     try {
       console.log(`👤 User ID: ${user.trayve_user_id}`);
-
-      // Query user_generation_projects - fetch projects first
-      const { data: projectsData, error: projectsError } = await supabaseAdmin
-        .from('user_generation_projects')
-        .select('*')
-        .eq('user_id', user.trayve_user_id)
-        .order('created_at', { ascending: false });
-
-      if (projectsError) {
-        console.error('❌ Error fetching projects:', projectsError);
-        throw projectsError;
-      }
-
-      // For each project, fetch generation_results separately
-      const projectsWithResults = await Promise.all(
-        (projectsData || []).map(async (project: any) => {
-          // 1. Determine Mode from Pipeline Execution
-          const { data: executions } = await supabaseAdmin
-            .from('pipeline_executions')
-            .select('config')
-            .eq('project_id', project.id)
-            .order('started_at', { ascending: false })
-            .limit(1);
-
-          const config = executions?.[0]?.config as any;
-          const rawMode = config?.mode;
-
-          let mode = 'virtual_tryon';
-          if (rawMode === 'product_shots') mode = 'shop_ready';
-          else if (rawMode === 'social_media') mode = 'post_ready';
-
-          // 2. Fetch Results based on Mode
-          let results: any[] = [];
-
-          if (mode === 'virtual_tryon') {
-            const { data: vtoResults, error: vtoError } = await supabaseAdmin
-              .from('generation_results')
-              .select('id, pose_id, pose_name, result_image_url, generation_metadata, created_at, removed_bg_url')
-              .eq('project_id', project.id)
-              .order('created_at', { ascending: false });
-
-            if (vtoError) console.error(`❌ VTO Fetch Error ${project.id}:`, vtoError);
-            results = vtoResults || [];
-          } else {
-            // Fetch Studio Generations
-            const { data: studioResults, error: studioError } = await supabaseAdmin
-              .from('studio_generations')
-              .select('*')
-              .eq('project_id', project.id)
-              .order('created_at', { ascending: false });
-
-            if (studioError) console.error(`❌ Studio Fetch Error ${project.id}:`, studioError);
-
-            // Normalize Studio Results
-            results = (studioResults || []).map(r => ({
-              id: r.id,
-              pose_id: 0,
-              pose_name: r.pose_identifier,
-              result_image_url: r.result_image_url,
-              created_at: r.created_at || r.updated_at,
-              generation_metadata: r.metadata,
-              removed_bg_url: null
-            }));
-          }
-
-          return {
-            ...project,
-            mode,
-            generation_results: results || []
-          };
-        })
-      );
-
-      const { data, error } = { data: projectsWithResults, error: null };
-
-      if (error) {
-        console.error('❌ Error fetching projects:', error);
-      } else {
-        console.log(`✅ Found ${data?.length || 0} projects`);
-
-        // Transform data to match expected format
-        projects = (data || []).map((project: any) => {
-          const results = (project.generation_results || []).map((result: any) => {
-            const metadata = result.generation_metadata || {};
-
-            return {
-              id: result.id,
-              pose_id: result.pose_id,
-              pose_name: result.pose_name || '',
-              result_image_url: result.result_image_url || '',
-              sample_index: 0,
-              created_at: result.created_at,
-              // Use try-on URL if available, otherwise result_image_url
-              image_url: metadata.tryon_url || result.result_image_url || '',
-              // 2K upscale (Free/Creator only)
-              basic_upscale_url: metadata.basic_upscale_url || '',
-              basic_upscale_status: metadata.basic_upscale_status || 'pending',
-              // 4K upscale (Professional/Enterprise only)
-              upscaled_image_url: metadata.upscaled_image_url || '',
-              upscale_status: metadata.upscale_status || 'pending',
-              // Face swap (Professional/Enterprise only)
-              face_swap_image_url: metadata.face_swap_image_url || '',
-              face_swap_status: metadata.face_swap_status || 'pending',
-              // Background removal (from dedicated column, not metadata)
-              generation_record: {
-                removed_bg_url: result.removed_bg_url || ''
-              }
-            };
-          });
-
-          return {
-            id: project.id,
-            user_id: project.user_id,
-            title: project.title || 'Untitled Project',
-            description: project.description,
-            clothing_item_name: project.clothing_item_name,
-            clothing_type: project.clothing_type,
-            clothing_image_url: project.clothing_image_url,
-            status: project.status,
-            created_at: project.created_at,
-            updated_at: project.updated_at,
-            result_count: results.length,
-            generation_results: results,
-            mode: project.mode
-          };
-        });
-
-        console.log(`📊 Projects summary:`);
-        projects.forEach((project, idx) => {
-          console.log(`  ${idx + 1}. ${project.title} - ${project.result_count} results`);
-          // Debug: Show BG removal status
-          project.generation_results.forEach((result, resultIdx) => {
-            if (result.generation_record?.removed_bg_url) {
-              console.log(`    ✂️ Result ${resultIdx + 1} has BG removed: ${result.generation_record.removed_bg_url.substring(0, 50)}...`);
-            }
-          });
-        });
-      }
+      projectPage = await listProjects(user.trayve_user_id, { mode: 'virtual_tryon' });
+      console.log(`✅ Found ${projectPage.projects.length} projects${projectPage.next_cursor ? ' (more available)' : ''}`);
     } catch (error) {
       console.error("❌ Error fetching projects:", error);
     }
@@ -224,16 +61,30 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         total: balance.total_credits,
       }
       : { available: 0, total: 0 },
-    projects,
+    projects: projectPage.projects,
+    nextCursor: projectPage.next_cursor,
     testingMode: process.env.TESTING_MODE === "true",
   });
 };
 
+const selectStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  border: "1px solid #E1E3E5",
+  borderRadius: "8px",
+  fontSize: "14px",
+  backgroundColor: "white",
+  color: "#202223",
+  outline: "none",
+  cursor: "pointer",
+};
+
 export default function Projects() {
-  const { user, projects: initialProjects, credits, testingMode } = useLoaderData<typeof loader>();
+  const { user, projects: initialProjects, nextCursor: initialCursor, credits, testingMode } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
 
-  const [projects, setProjects] = useState<Project[]>(initialProjects);
+  const [projects, setProjects] = useState<ProjectSummary[]>(initialProjects);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -241,7 +92,12 @@ export default function Projects() {
   const [alertDialogOpen, setAlertDialogOpen] = useState(false);
   const [alertMessage, setAlertMessage] = useState({ title: "", description: "" });
   const [isDeleting, setIsDeleting] = useState(false);
-  const [activeTab, setActiveTab] = useState<'virtual_tryon' | 'shop_ready' | 'post_ready'>('virtual_tryon');
+  const [activeTab, setActiveTab] = useState<ProjectMode>('virtual_tryon');
+  const [sort, setSort] = useState<ProjectSort>('newest');
+  const [statusFilter, setStatusFilter] = useState<ProjectStatus | ''>('');
+  const [feedbackFilter, setFeedbackFilter] = useState(''); // Query string from FEEDBACK_FILTER_OPTIONS
+  const isInitialPage = useRef(true);
+  const requestId = useRef(0);
 
   // Debounce search term
   useEffect(() => {
@@ -251,56 +107,48 @@ export default function Projects() {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
-  // Filter projects
-  const filteredProjects = useMemo(() => {
-    // 1. Filter by Tab
-    let filtered = projects.filter(p => (p.mode || 'virtual_tryon') === activeTab);
-
-    // 2. Filter by Search
-    if (debouncedSearchTerm.trim()) {
-      filtered = filtered.filter((project) => {
-        const projectTitle = project.title || "Untitled Project";
-        const matchesSearch =
-          projectTitle.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-          (project.clothing_item_name &&
-            project.clothing_item_name
-              .toLowerCase()
-              .includes(debouncedSearchTerm.toLowerCase()));
-
-        return matchesSearch;
-      });
-    }
+  // Fetch a page for the current tab, search, status, feedback and sort
+  const fetchProjects = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams(feedbackFilter);
+    params.set('mode', activeTab);
+    params.set('sort', sort);
+    if (debouncedSearchTerm.trim()) params.set('search', debouncedSearchTerm.trim());
+    if (statusFilter) params.set('status', statusFilter);
+    if (cursor) params.set('cursor', cursor);
+
+    // Responses for filters that have since changed are dropped
+    const currentRequest = ++requestId.current;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects?${params}`);
+      const data = await response.json();
+      if (currentRequest !== requestId.current) return;
 
-    return filtered;
-  }, [projects, debouncedSearchTerm, activeTab]);
-
-  // Get project cover image
-  const getProjectCoverImage = useCallback((project: Project) => {
-    if (
-      project.generation_results &&
-      Array.isArray(project.generation_results) &&
-      project.generation_results.length > 0
-    ) {
-      const latestResult = project.generation_results[0];
-
-      // Priority for cover image:
-      // 1. Face swap (highest quality if available)
-      // 2. 4K upscale (Professional/Enterprise)
-      // 3. 2K upscale (Free/Creator)
-      // 4. Try-on base image
-      // 5. Fallback to result_image_url
-      if (latestResult.face_swap_image_url) return latestResult.face_swap_image_url;
-      if (latestResult.upscaled_image_url) return latestResult.upscaled_image_url;
-      if (latestResult.basic_upscale_url) return latestResult.basic_upscale_url;
-      if (latestResult.image_url) return latestResult.image_url;
-      if (latestResult.result_image_url) return latestResult.result_image_url;
-    }
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load projects');
+      }
 
-    // Fallback to clothing image
-    if (project.clothing_image_url) return project.clothing_image_url;
+      setProjects(current => cursor ? [...current, ...data.projects] : data.projects);
+      setNextCursor(data.next_cursor);
+    } catch (error) {
+      console.error("Error loading projects:", error);
+      if (currentRequest === requestId.current) {
+        setAlertMessage({ title: "Loading Failed", description: "Failed to load projects. Please try again." });
+        setAlertDialogOpen(true);
+      }
+    } finally {
+      if (currentRequest === requestId.current) setIsLoading(false);
+    }
+  }, [activeTab, sort, debouncedSearchTerm, statusFilter, feedbackFilter]);
 
-    return null;
-  }, []);
+  // Reload from the first page when the filters change (the loader already fetched the defaults)
+  useEffect(() => {
+    if (isInitialPage.current) {
+      isInitialPage.current = false;
+      return;
+    }
+    fetchProjects();
+  }, [fetchProjects]);
 
   // Handle project click
   const handleProjectClick = useCallback(
@@ -328,7 +176,7 @@ export default function Projects() {
       });
 
       if (response.ok) {
-        setProjects(projects.filter((p) => p.id !== projectToDelete));
+        setProjects(current => current.filter((p) => p.id !== projectToDelete));
         setDeleteDialogOpen(false);
         setProjectToDelete(null);
       } else {
@@ -540,10 +388,11 @@ export default function Projects() {
           </div>
 
           {/* Search Bar */}
-          <div style={{ marginBottom: "32px" }}>
+          <div style={{ marginBottom: "32px", display: "flex", gap: "12px", alignItems: "center", flexWrap: "wrap" }}>
             <div
               style={{
                 position: "relative",
+                flex: "1 1 280px",
                 maxWidth: "400px",
               }}
             >
@@ -594,10 +443,43 @@ export default function Projects() {
                 </button>
               )}
             </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ProjectStatus | '')}
+              aria-label="Filter by status"
+              style={selectStyle}
+            >
+              <option value="">All statuses</option>
+              <option value="processing">Processing</option>
+              <option value="completed">Completed</option>
+              <option value="failed">Failed</option>
+            </select>
+            <select
+              value={feedbackFilter}
+              onChange={(e) => setFeedbackFilter(e.target.value)}
+              aria-label="Filter by feedback"
+              style={selectStyle}
+            >
+              <option value="">Any feedback</option>
+              {FEEDBACK_FILTER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as ProjectSort)}
+              aria-label="Sort projects"
+              style={selectStyle}
+            >
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+              <option value="updated">Recently updated</option>
+              <option value="name">Name (A-Z)</option>
+            </select>
           </div>
 
           {/* Projects Grid */}
-          {filteredProjects.length === 0 ? (
+          {projects.length === 0 ? (
             <div
               style={{
                 backgroundColor: "white",
@@ -615,7 +497,7 @@ export default function Projects() {
                   marginBottom: "8px",
                 }}
               >
-                {searchTerm ? "No matching projects" : "No projects yet"}
+                {isLoading ? "Loading projects..." : searchTerm || statusFilter || feedbackFilter ? "No matching projects" : "No projects yet"}
               </h3>
               <p
                 style={{
@@ -626,7 +508,7 @@ export default function Projects() {
                   margin: "0 auto 24px",
                 }}
               >
-                {searchTerm
+                {searchTerm || statusFilter || feedbackFilter
                   ? "Try adjusting your search terms to find what you're looking for."
                   : "Start creating stunning AI-generated fashion content with your first project."}
               </p>
@@ -661,9 +543,9 @@ export default function Projects() {
                 gap: "24px",
               }}
             >
-              {filteredProjects.map((project) => {
-                const coverImage = getProjectCoverImage(project);
-                const projectTitle = project.title || "Untitled Project";
+              {projects.map((project) => {
+                const coverImage = project.cover_image_url;
+                const projectTitle = project.title;
                 const createdDate = new Date(project.created_at).toLocaleDateString("en-US", {
                   month: "short",
                   day: "numeric",
@@ -841,6 +723,29 @@ export default function Projects() {
               })}
             </div>
           )}
+
+          {/* Load More */}
+          {nextCursor && projects.length > 0 && (
+            <div style={{ display: "flex", justifyContent: "center", marginTop: "32px" }}>
+              <button
+                onClick={() => fetchProjects(nextCursor)}
+                disabled={isLoading}
+                style={{
+                  backgroundColor: "white",
+                  color: "#702dff",
+                  border: "1px solid #702dff",
+                  borderRadius: "8px",
+                  padding: "10px 24px",
+                  fontSize: "14px",
+                  fontWeight: "600",
+                  cursor: isLoading ? "not-allowed" : "pointer",
+                  opacity: isLoading ? 0.6 : 1,
+                }}
+              >
+                {isLoading ? "Loading..." : "Load more"}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
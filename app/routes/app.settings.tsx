@@ -4,7 +4,7 @@ import { authenticate } from "../config/shopify.server";
 import { getShopifyStore } from "../lib/shopify";
 import { getShopifyUserByShop } from "../lib/auth";
 import { getActiveSubscription } from "../lib/services/subscription.service";
-import { getUserCreditBalance } from "../lib/credits";
+import { getUserCreditBalance, getCreditTransactions, getHeldCredits } from "../lib/credits";
 import { ArrowLeft } from "lucide-react";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -14,10 +14,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   
   let activeSubscription = null;
   let creditBalance = null;
+  let creditTransactions: Awaited<ReturnType<typeof getCreditTransactions>> = [];
+  let heldCredits = 0;
   
   if (user) {
     activeSubscription = await getActiveSubscription(user.trayve_user_id);
     creditBalance = await getUserCreditBalance(user.trayve_user_id);
+    creditTransactions = await getCreditTransactions(user.trayve_user_id, 25);
+    heldCredits = await getHeldCredits(user.trayve_user_id);
   }
   
   return json({
@@ -26,11 +30,25 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     user,
     activeSubscription,
     creditBalance,
+    creditTransactions,
+    heldCredits,
   });
 };
 
+// Label and colour for each ledger entry type in the credit history
+const transactionTypeStyles: Record<string, { label: string; color: string; background: string }> = {
+  hold: { label: 'On hold', color: '#92400e', background: '#fef3c7' },
+  capture: { label: 'Charged', color: '#1e40af', background: '#dbeafe' },
+  release: { label: 'Released', color: '#065f46', background: '#d1fae5' },
+  refund: { label: 'Refund', color: '#065f46', background: '#d1fae5' },
+  usage: { label: 'Usage', color: '#1e40af', background: '#dbeafe' },
+  purchase: { label: 'Purchase', color: '#5b21b6', background: '#ede9fe' },
+  bonus: { label: 'Bonus', color: '#5b21b6', background: '#ede9fe' },
+  adjustment: { label: 'Adjustment', color: '#374151', background: '#f3f4f6' },
+};
+
 export default function SettingsPage() {
-  const { shop, store, user, activeSubscription, creditBalance } = useLoaderData<typeof loader>();
+  const { shop, store, user, activeSubscription, creditBalance, creditTransactions, heldCredits } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
 
   return (
@@ -136,6 +154,11 @@ export default function SettingsPage() {
               <p style={{ fontSize: '0.875rem', color: '#666', marginTop: '0.25rem' }}>
                 Total allocated: {creditBalance.total_credits}
               </p>
+              {heldCredits > 0 && (
+                <p style={{ fontSize: '0.875rem', color: '#92400e', marginTop: '0.25rem' }}>
+                  On hold for running jobs: {heldCredits}
+                </p>
+              )}
             </div>
           )}
 
@@ -165,6 +188,80 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      {/* Credit History */}
+      <section style={{ marginBottom: '3rem' }}>
+        <h2 style={{ fontSize: '1.5rem', fontWeight: '600', marginBottom: '1rem' }}>
+          Credit History
+        </h2>
+        <div
+          style={{
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+            backgroundColor: 'white',
+            overflow: 'hidden',
+          }}
+        >
+          {creditTransactions.length === 0 ? (
+            <p style={{ padding: '1.5rem', color: '#666' }}>No credit activity yet</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left', color: '#666' }}>
+                  <th style={{ padding: '0.75rem 1rem', fontWeight: '500' }}>Date</th>
+                  <th style={{ padding: '0.75rem 1rem', fontWeight: '500' }}>Type</th>
+                  <th style={{ padding: '0.75rem 1rem', fontWeight: '500' }}>Description</th>
+                  <th style={{ padding: '0.75rem 1rem', fontWeight: '500', textAlign: 'right' }}>Credits</th>
+                  <th style={{ padding: '0.75rem 1rem', fontWeight: '500', textAlign: 'right' }}>Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {creditTransactions.map((transaction) => {
+                  const typeStyle = transactionTypeStyles[transaction.transaction_type] || transactionTypeStyles.adjustment;
+                  // Captures settle credits that were already taken out by the hold
+                  const affectsBalance = transaction.transaction_type !== 'capture';
+
+                  return (
+                    <tr key={transaction.id} style={{ borderTop: '1px solid #e5e7eb' }}>
+                      <td style={{ padding: '0.75rem 1rem', color: '#666', whiteSpace: 'nowrap' }}>
+                        {new Date(transaction.created_at).toLocaleString()}
+                      </td>
+                      <td style={{ padding: '0.75rem 1rem' }}>
+                        <span
+                          style={{
+                            backgroundColor: typeStyle.background,
+                            color: typeStyle.color,
+                            padding: '0.125rem 0.5rem',
+                            borderRadius: '9999px',
+                            fontSize: '0.75rem',
+                            fontWeight: '600',
+                          }}
+                        >
+                          {typeStyle.label}
+                        </span>
+                      </td>
+                      <td style={{ padding: '0.75rem 1rem' }}>{transaction.description}</td>
+                      <td
+                        style={{
+                          padding: '0.75rem 1rem',
+                          textAlign: 'right',
+                          fontWeight: '500',
+                          color: !affectsBalance ? '#666' : transaction.amount < 0 ? '#b91c1c' : '#047857',
+                        }}
+                      >
+                        {transaction.amount > 0 ? '+' : ''}{transaction.amount}
+                      </td>
+                      <td style={{ padding: '0.75rem 1rem', textAlign: 'right', color: '#666' }}>
+                        {transaction.balance_after ?? '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </section>
+
       {/* API Integration */}
       <section>
         <h2 style={{ fontSize: '1.5rem', fontWeight: '600', marginBottom: '1rem' }}>
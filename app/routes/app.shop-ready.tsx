@@ -8,7 +8,9 @@ import { getUserCreditBalance } from "../lib/credits";
 import { type SubscriptionTier } from "../lib/services/model-access.service";
 import { getActiveSubscription, getSubscriptionHistory } from "../lib/services/subscription.service";
 import { getShopReadyBackgrounds, getAngles } from "../lib/services/resources.service"; // Import service
-import { useState, useEffect } from "react";
+import { getGarmentDefaults } from "../lib/services/garment-defaults.service";
+import type { GarmentCategory } from "../lib/garment-fit";
+import { useState, useEffect, useMemo } from "react";
 import { useToast } from "../hooks/use-toast";
 import { CreditsDisplay } from "../components/CreditsDisplay";
 import { UserProfile } from "../components/UserProfile";
@@ -18,9 +20,12 @@ import { AnglesSelectStep } from "../components/studio/AnglesSelectStep"; // Imp
 import { BackgroundSelectStep } from "../components/studio/BackgroundSelectStep"; // Import component (to be created)
 import { PoseSelectStep } from "../components/studio/PoseSelectStep";
 import { ShopReadyConfirmStep } from "../components/studio/ShopReadyConfirmStep";
+import { QueueStatusNotice } from "../components/studio/QueueStatusNotice";
 import { GalleryResultCard } from "../components/results/GalleryResultCard";
 import { Upload, Users, Wand2, Sparkles, ArrowRight, ArrowLeft } from "lucide-react";
 import { TestingPanel } from "../components/TestingPanel";
+import { saveResultFeedback, startQuotedPipelineRun, type PipelineRunRequest } from "../lib/pipeline-client";
+import type { FeedbackUpdate } from "../lib/services/feedback.service";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -98,12 +103,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     resources: {
       backgrounds,
       angles
-    }
+    },
+    garmentDefaults: user ? await getGarmentDefaults(user.trayve_user_id).catch(() => ({})) : {},
   });
 };
 
 export default function ShopReady() {
-  const { credits, user, testingMode, resources } = useLoaderData<typeof loader>();
+  const { credits, user, testingMode, resources, garmentDefaults: savedGarmentDefaults } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
   const fetcher = useFetcher();
   const { toast } = useToast();
@@ -114,6 +120,8 @@ export default function ShopReady() {
   const [selectedModel, setSelectedModel] = useState<BaseModel | null>(null);
   const [selectedResultImage, setSelectedResultImage] = useState<string | null>(null);
   const [selectedAngles, setSelectedAngles] = useState<string[]>([]);
+  const [garmentCategory, setGarmentCategory] = useState<GarmentCategory | null>(null);
+  const [garmentDefaults, setGarmentDefaults] = useState<Partial<Record<GarmentCategory, { angle_ids: string[] }>>>(savedGarmentDefaults);
   const [selectedBackground, setSelectedBackground] = useState<string | null>(null);
   const [showSuccessBanner, setShowSuccessBanner] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -211,6 +219,21 @@ export default function ShopReady() {
     setPreviewUrl(null);
   };
 
+  // Favorite, rate or reject a gallery result (shown right away, reverted if not saved)
+  const handleResultFeedback = async (result: any, update: FeedbackUpdate) => {
+    const setFeedback = (feedback: any) => setModelResults(prev =>
+      prev.map(r => r.id === result.id ? { ...r, feedback } : r)
+    );
+
+    setFeedback({ favorite: false, rating: null, rejection_reasons: [], ...result.feedback, ...update });
+    const saved = await saveResultFeedback(result.id, update);
+    setFeedback(saved || result.feedback || null);
+
+    if (!saved) {
+      toast({ title: "Feedback not saved", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
   const handleModelSelect = async (model: BaseModel) => {
     setSelectedModel(model);
 
@@ -259,28 +282,37 @@ export default function ShopReady() {
     });
   };
 
-  const handleBackgroundSelect = (backgroundId: string) => {
-    setSelectedBackground(backgroundId);
-  };
+  const handleSaveGarmentDefaults = async (angleIds: string[]) => {
+    if (!garmentCategory) return;
 
-  const handleGenerate = async () => {
-    const CREDITS_PER_IMAGE = 1000;
-    const totalCredits = selectedAngles.length * CREDITS_PER_IMAGE;
+    const response = await fetch("/api/garments/defaults", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ category: garmentCategory, angle_ids: angleIds }),
+    });
+    const result = await response.json();
 
-    // Check if user has enough credits
-    if (credits.available < totalCredits) {
-      setGenerationError(`Insufficient credits. You need ${totalCredits} credits but only have ${credits.available}.`);
-      return;
+    if (result.success) {
+      setGarmentDefaults(prev => ({ ...prev, [garmentCategory]: result.category_defaults }));
+      toast({
+        title: "Defaults saved",
+        description: "These angles will be preselected for this garment type",
+      });
+    } else {
+      console.error("❌ Failed to save garment defaults:", result.error);
     }
+  };
+
+  const handleBackgroundSelect = (backgroundId: string) => {
+    setSelectedBackground(backgroundId);
+  };
 
+  // The run the confirm step quotes and Generate starts
+  const pipelineRun = useMemo<PipelineRunRequest | null>(() => {
     if (!selectedModel || selectedAngles.length === 0 || !selectedBackground) {
-      setGenerationError("Please maintain selection of model, angles, and background.");
-      return;
+      return null;
     }
 
-    setIsGenerating(true);
-    setGenerationError(null);
-
     // 1. Get Resources Data
     const backgroundObj = resources.backgrounds.find(b => b.id === selectedBackground);
     // Assuming background object has a 'prompt' or 'description' field. 
@@ -305,33 +337,33 @@ export default function ShopReady() {
       };
     });
 
-    try {
-      console.log("🚀 Starting generation...");
+    return {
+      base_model_id: selectedModel.id,
+      // CRITICAL: Pass the specific image URL we are viewing (e.g. VTO result)
+      // This overrides the default model image in the backend
+      clothing_image_url: selectedResultImage || selectedModel.image_url,
+      project_name: `Shop Ready - ${selectedModel.name || 'Model'}`,
+      mode: 'product_shots',
+      prompts: {
+        background: backgroundPrompt
+      },
+      poses: poses
+    };
+  }, [selectedModel, selectedAngles, selectedBackground, selectedResultImage, resources]);
+
+  const handleGenerate = async (quoteHash: string) => {
+    if (!pipelineRun) {
+      setGenerationError("Please maintain selection of model, angles, and background.");
+      return;
+    }
 
-      const response = await fetch("/api/pipeline/execute", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          base_model_id: selectedModel.id,
-          // CRITICAL: Pass the specific image URL we are viewing (e.g. VTO result)
-          // This overrides the default model image in the backend
-          clothing_image_url: selectedResultImage || selectedModel.image_url,
-          project_name: `Shop Ready - ${selectedModel.name || 'Model'}`,
-          mode: 'product_shots',
-          prompts: {
-            background: backgroundPrompt
-          },
-          poses: poses
-        }),
-      });
+    setIsGenerating(true);
+    setGenerationError(null);
 
-      const data = await response.json();
+    try {
+      console.log("🚀 Starting generation...");
 
-      if (!data.success) {
-        throw new Error(data.error || "Generation failed to start");
-      }
+      const data = await startQuotedPipelineRun(pipelineRun, quoteHash);
 
       const executionId = data.execution_id;
       const projectId = data.project_id;
@@ -745,10 +777,12 @@ export default function ShopReady() {
                           image_url: result.result_image_url || result.image_url,
                           upscaled_image_url: result.upscaled_image_url,
                           upscale_status: result.upscale_status,
+                          feedback: result.feedback,
                         }}
                         userTier={user?.subscriptionTier as any || 'free'}
                         onImageClick={() => handleResultSelect(result.result_image_url || result.image_url)}
                         onSelect={() => handleResultSelect(result.result_image_url || result.image_url)}
+                        onFeedbackChange={(update) => handleResultFeedback(result, update)}
                       />
                     ))}
                   </div>
@@ -762,6 +796,10 @@ export default function ShopReady() {
                 angles={resources?.angles}
                 selectedAngles={selectedAngles}
                 onAngleToggle={handleAngleToggle}
+                garmentCategory={garmentCategory}
+                onGarmentCategoryChange={setGarmentCategory}
+                defaultAngleIds={garmentCategory ? garmentDefaults[garmentCategory]?.angle_ids : undefined}
+                onSaveDefaults={handleSaveGarmentDefaults}
               />
             )}
 
@@ -776,18 +814,22 @@ export default function ShopReady() {
 
             {/* Step 4: Generate */}
             {currentStep === 4 && (
-              <ShopReadyConfirmStep
-                previewUrl={previewUrl}
-                selectedModelImage={selectedResultImage || selectedModel?.image_url}
-                selectedBackgroundImage={resources.backgrounds.find(b => b.id === selectedBackground)?.thumbnail_url || resources.backgrounds.find(b => b.id === selectedBackground)?.url}
-                onGenerate={handleGenerate}
-                isGenerating={isGenerating}
-                aspectRatio={aspectRatio}
-                onAspectRatioChange={setAspectRatio}
-
-                generationCount={selectedAngles.length}
-                selectedAnglesData={resources.angles.filter(a => selectedAngles.includes(a.id))}
-              />
+              <>
+                <QueueStatusNotice />
+                <ShopReadyConfirmStep
+                  previewUrl={previewUrl}
+                  selectedModelImage={selectedResultImage || selectedModel?.image_url}
+                  selectedBackgroundImage={resources.backgrounds.find(b => b.id === selectedBackground)?.thumbnail_url || resources.backgrounds.find(b => b.id === selectedBackground)?.url}
+                  run={pipelineRun}
+                  onGenerate={handleGenerate}
+                  isGenerating={isGenerating}
+                  aspectRatio={aspectRatio}
+                  onAspectRatioChange={setAspectRatio}
+
+                  generationCount={selectedAngles.length}
+                  selectedAnglesData={resources.angles.filter(a => selectedAngles.includes(a.id))}
+                />
+              </>
             )}
           </div>
         </div>
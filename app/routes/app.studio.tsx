@@ -7,15 +7,19 @@ import { getShopifyUserByShop } from "../lib/auth";
 import { getUserCreditBalance } from "../lib/credits";
 import { type SubscriptionTier } from "../lib/services/model-access.service";
 import { getActiveSubscription, getSubscriptionHistory } from "../lib/services/subscription.service";
-import { useState, useEffect } from "react";
+import { getGarmentDefaults } from "../lib/services/garment-defaults.service";
+import type { GarmentCategory, PoseType } from "../lib/garment-fit";
+import { useState, useEffect, useMemo } from "react";
 import { CreditsDisplay } from "../components/CreditsDisplay";
 import { UserProfile } from "../components/UserProfile";
-import { UploadStep } from "../components/studio/UploadStep";
+import { UploadStep, type GarmentCategoryOption } from "../components/studio/UploadStep";
 import { ModelSelectStep } from "../components/studio/ModelSelectStep";
 import { PoseSelectStep } from "../components/studio/PoseSelectStep";
 import { ConfirmStep } from "../components/studio/ConfirmStep";
+import { QueueStatusNotice } from "../components/studio/QueueStatusNotice";
 import { Upload, Users, Wand2, Sparkles, ArrowRight, ArrowLeft } from "lucide-react";
 import { TestingPanel } from "../components/TestingPanel";
+import { startQuotedPipelineRun, type PipelineRunRequest } from "../lib/pipeline-client";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -84,17 +88,24 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         }
       : { available: 0, total: 0 },
     testingMode: process.env.TESTING_MODE === "true",
+    garmentDefaults: user ? await getGarmentDefaults(user.trayve_user_id).catch(() => ({})) : {},
   });
 };
 
 export default function Studio() {
-  const { credits, user, testingMode } = useLoaderData<typeof loader>();
+  const { credits, user, testingMode, garmentDefaults: savedGarmentDefaults } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
   const fetcher = useFetcher();
   const [searchParams, setSearchParams] = useSearchParams();
   const [currentStep, setCurrentStep] = useState(1);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [preprocessGarment, setPreprocessGarment] = useState(false);
+  const [garmentCategory, setGarmentCategory] = useState<GarmentCategoryOption>("auto");
+  const [detectedCategory, setDetectedCategory] = useState<GarmentCategory | null>(null);
+  const [isAnalyzingGarment, setIsAnalyzingGarment] = useState(false);
+  const [uploadedClothing, setUploadedClothing] = useState<{ file: File; url: string } | null>(null);
+  const [garmentDefaults, setGarmentDefaults] = useState<Partial<Record<GarmentCategory, { pose_types: PoseType[] }>>>(savedGarmentDefaults);
   const [selectedModel, setSelectedModel] = useState<string | null>(null);
   const [selectedPoses, setSelectedPoses] = useState<string[]>([]);
   const [selectedPoseObjects, setSelectedPoseObjects] = useState<any[]>([]);
@@ -154,7 +165,90 @@ export default function Studio() {
     },
   ];
 
-  const handleNextStep = () => {
+  const effectiveGarmentCategory = garmentCategory !== "auto" ? garmentCategory : detectedCategory;
+
+  // Upload once per file - detection and generation share the URL
+  const uploadClothingImage = async (file: File): Promise<string> => {
+    if (uploadedClothing?.file === file) return uploadedClothing.url;
+
+    const fileName = `${Date.now()}_${file.name}`;
+    const uploadFormData = new FormData();
+    uploadFormData.append("file", file);
+    uploadFormData.append("bucket", "user-images");
+    uploadFormData.append("path", `clothing/${fileName}`);
+
+    const uploadResponse = await fetch("/api/storage/upload", {
+      method: "POST",
+      body: uploadFormData,
+    });
+
+    const uploadResult = await uploadResponse.json();
+
+    if (!uploadResult.success || !uploadResult.url) {
+      throw new Error(uploadResult.error || "Failed to upload clothing image");
+    }
+
+    setUploadedClothing({ file, url: uploadResult.url });
+    return uploadResult.url;
+  };
+
+  // Clean the garment up front so poses can be ranked for its detected category
+  const detectGarmentCategory = async (file: File) => {
+    setIsAnalyzingGarment(true);
+    try {
+      const clothingImageUrl = await uploadClothingImage(file);
+      const response = await fetch("/api/garments/prepare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clothing_image_url: clothingImageUrl }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        console.log(`🧺 Detected garment category: ${result.garment.category || "unknown"}`);
+        setDetectedCategory(result.garment.category);
+      } else {
+        console.warn("⚠️ Garment detection failed:", result.error);
+      }
+    } catch (error) {
+      console.warn("⚠️ Garment detection failed:", error);
+    } finally {
+      setIsAnalyzingGarment(false);
+    }
+  };
+
+  const handleSaveGarmentDefaults = async (poseTypes: PoseType[]) => {
+    if (!effectiveGarmentCategory) return;
+
+    const response = await fetch("/api/garments/defaults", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ category: effectiveGarmentCategory, pose_types: poseTypes }),
+    });
+    const result = await response.json();
+
+    if (result.success) {
+      setGarmentDefaults(prev => ({ ...prev, [effectiveGarmentCategory]: result.category_defaults }));
+    } else {
+      console.error("❌ Failed to save garment defaults:", result.error);
+    }
+  };
+
+  const handleNextStep = async () => {
+    if (currentStep === 1 && uploadedFile && preprocessGarment && garmentCategory === "auto" && !detectedCategory) {
+      await detectGarmentCategory(uploadedFile);
+    }
+
+    // The clothing image URL is part of the quote the confirm step shows
+    if (currentStep === 3 && uploadedFile) {
+      try {
+        await uploadClothingImage(uploadedFile);
+      } catch (error: any) {
+        console.error("Clothing upload error:", error);
+        setGenerationError(error.message || "Failed to upload clothing image");
+      }
+    }
+
     if (currentStep < 4) {
       setCurrentStep(currentStep + 1);
     }
@@ -174,6 +268,7 @@ export default function Studio() {
 
   const handleFileSelect = (file: File) => {
     setUploadedFile(file);
+    setDetectedCategory(null);
     const url = URL.createObjectURL(file);
     setPreviewUrl(url);
   };
@@ -184,6 +279,7 @@ export default function Studio() {
     }
     setUploadedFile(null);
     setPreviewUrl(null);
+    setDetectedCategory(null);
   };
 
   const handleModelSelect = (modelId: string) => {
@@ -201,97 +297,42 @@ export default function Studio() {
     });
   };
 
-  const handleGenerate = async () => {
-    const CREDITS_PER_IMAGE = 1000;
-    const totalCredits = selectedPoses.length * CREDITS_PER_IMAGE;
-
-    // Check if user has enough credits
-    if (credits.available < totalCredits) {
-      setGenerationError(`Insufficient credits. You need ${totalCredits} credits but only have ${credits.available}.`);
-      return;
+  // The run the confirm step quotes and Generate starts
+  const pipelineRun = useMemo<PipelineRunRequest | null>(() => {
+    if (!selectedModel || selectedPoses.length === 0 || !uploadedFile || uploadedClothing?.file !== uploadedFile) {
+      return null;
     }
 
-    if (!uploadedFile) {
-      setGenerationError("Please upload a clothing image first");
-      return;
-    }
-
-    if (!selectedModel) {
-      setGenerationError("Please select a model");
-      return;
-    }
-
-    if (selectedPoses.length === 0) {
-      setGenerationError("Please select at least one pose");
-      return;
-    }
-
-    setIsGenerating(true);
-    setGenerationError(null);
-
-    try {
-      // Step 1: Upload clothing image to Supabase Storage
-      console.log("📤 Uploading clothing image...");
-      
-      const fileName = `${Date.now()}_${uploadedFile.name}`;
-      const uploadFormData = new FormData();
-      uploadFormData.append("file", uploadedFile);
-      uploadFormData.append("bucket", "user-images");
-      uploadFormData.append("path", `clothing/${fileName}`);
-
-      const uploadResponse = await fetch("/api/storage/upload", {
-        method: "POST",
-        body: uploadFormData,
-      });
-
-      const uploadResult = await uploadResponse.json();
-
-      if (!uploadResult.success || !uploadResult.url) {
-        setGenerationError(uploadResult.error || "Failed to upload clothing image");
-        setIsGenerating(false);
-        return;
-      }
-
-      const clothingImageUrl = uploadResult.url;
-      console.log("✅ Clothing image uploaded:", clothingImageUrl);
-
-      // Step 2: Prepare poses array with URLs from selectedPoseObjects (only selected ones)
-      const posesArray = selectedPoseObjects
+    return {
+      base_model_id: selectedModel,
+      clothing_image_url: uploadedClothing.url,
+      poses: selectedPoseObjects
         .filter(pose => selectedPoses.includes(pose.id))
         .map(pose => ({
           pose_id: pose.id,
           image_url: pose.image_url,
           pose_name: pose.pose_name || pose.name,
-        }));
-
-      console.log("📸 Sending poses:", posesArray.length, "poses");
-      console.log("📝 Selected pose IDs:", selectedPoses);
+        })),
+      project_name: 'Untitled project',
+      project_description: `AI try-on with ${selectedPoses.length} pose(s)`,
+      preprocess_garment: preprocessGarment,
+      garment_category: effectiveGarmentCategory || undefined,
+    };
+  }, [selectedModel, selectedPoses, selectedPoseObjects, uploadedFile, uploadedClothing, preprocessGarment, effectiveGarmentCategory]);
+
+  const handleGenerate = async (quoteHash: string) => {
+    if (!pipelineRun) {
+      setGenerationError("Please upload clothing, select a model and at least one pose");
+      return;
+    }
 
-      // Step 3: Execute the pipeline (credits will be deducted inside the pipeline)
-      console.log("🚀 Starting pipeline execution...");
-      console.log("💳 Credits will be deducted: ", totalCredits, "(", selectedPoses.length, "poses × 1000 credits)");
-      
-      const pipelineResponse = await fetch("/api/pipeline/execute", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          base_model_id: selectedModel,
-          clothing_image_url: clothingImageUrl,
-          poses: posesArray,
-          project_name: 'Untitled project',
-          project_description: `AI try-on with ${selectedPoses.length} pose(s)`,
-        }),
-      });
+    setIsGenerating(true);
+    setGenerationError(null);
 
-      const pipelineResult = await pipelineResponse.json();
+    try {
+      console.log("🚀 Starting pipeline execution:", pipelineRun.poses.length, "poses");
 
-      if (!pipelineResult.success) {
-        setGenerationError(pipelineResult.error || "Failed to start generation pipeline");
-        setIsGenerating(false);
-        return;
-      }
+      const pipelineResult = await startQuotedPipelineRun(pipelineRun, quoteHash);
 
       console.log("✅ Pipeline started:", pipelineResult);
 
@@ -583,7 +624,7 @@ export default function Studio() {
               {currentStep < 4 && (
                 <button
                   onClick={handleNextStep}
-                  disabled={!canProceed()}
+                  disabled={!canProceed() || isAnalyzingGarment}
                   style={{
                     display: "flex",
                     alignItems: "center",
@@ -609,7 +650,7 @@ export default function Studio() {
                     }
                   }}
                 >
-                  <span>Next Step</span>
+                  <span>{isAnalyzingGarment ? "Analyzing garment..." : "Next Step"}</span>
                   <ArrowRight size={18} />
                 </button>
               )}
@@ -636,6 +677,10 @@ export default function Studio() {
                 previewUrl={previewUrl}
                 onFileSelect={handleFileSelect}
                 onRemoveFile={handleRemoveFile}
+                preprocessGarment={preprocessGarment}
+                onPreprocessGarmentChange={setPreprocessGarment}
+                garmentCategory={garmentCategory}
+                onGarmentCategoryChange={setGarmentCategory}
               />
             )}
 
@@ -655,6 +700,9 @@ export default function Studio() {
                 selectedPoses={selectedPoses}
                 onPoseSelect={handlePoseSelect}
                 onPoseObjectsChange={setSelectedPoseObjects}
+                garmentCategory={effectiveGarmentCategory}
+                defaultPoseTypes={effectiveGarmentCategory ? garmentDefaults[effectiveGarmentCategory]?.pose_types : undefined}
+                onSaveDefaults={handleSaveGarmentDefaults}
               />
             )}
 
@@ -694,11 +742,13 @@ export default function Studio() {
                     </div>
                   </div>
                 )}
+                <QueueStatusNotice />
                 <ConfirmStep
                   previewUrl={previewUrl}
                   selectedModel={selectedModel}
                   selectedPoses={selectedPoses}
                   selectedPoseObjects={selectedPoseObjects}
+                  run={pipelineRun}
                   onGenerate={handleGenerate}
                   isGenerating={isGenerating}
                 />
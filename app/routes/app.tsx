@@ -29,6 +29,7 @@ export default function App() {
         <Link to="/app/pricing">Pricing</Link>
         <Link to="/app/shop-ready">Shop Ready</Link>
         <Link to="/app/post-ready">Post Ready</Link>
+        <Link to="/app/batches">Catalog Batches</Link>
         <Link to="/app/projects">Projects</Link>
         <Link to="/app/settings">Settings</Link>
       </NavMenu>
@@ -0,0 +1,24 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../../config/shopify.server";
+import { processPrivacyRequest, recordPrivacyRequest } from "../../lib/services/privacy.service";
+
+/**
+ * Mandatory privacy webhook: customers/redact
+ *
+ * Records the request and answers right away; processing continues in the
+ * background and the pipeline worker retries it if this process stops.
+ * See privacy.service for what is exported or erased.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload } = await authenticate.webhook(request);
+
+  console.log(`📬 Received ${topic} webhook for ${shop}`);
+
+  const privacyRequest = await recordPrivacyRequest("customers/redact", shop, webhookId, payload);
+
+  processPrivacyRequest(privacyRequest.id).catch((error) => {
+    console.error(`❌ Customer redaction ${privacyRequest.id} failed to process:`, error);
+  });
+
+  return new Response();
+};